@@ -2,62 +2,111 @@ import React from 'react'
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom'
 import { Toaster } from 'react-hot-toast'
 import { AuthProvider } from './contexts/AuthContext'
+import { CartProvider } from './contexts/CartContext'
 import { Layout } from './components/Layout'
 import { ProtectedRoute } from './components/ProtectedRoute'
+import { ADMIN_PANEL_PERMISSIONS } from './lib/permissions'
 import { ErrorBoundary } from './components/ErrorBoundary'
 import { Home } from './pages/Home'
 import { Login } from './pages/Login'
 import { StaffDashboard } from './pages/StaffDashboard'
 import { AdminPanel } from './pages/AdminPanel'
+import { Orders } from './pages/Orders'
+import { OrderDetail } from './pages/OrderDetail'
+import { InvoicePage } from './pages/InvoicePage'
+import { Customers } from './pages/Customers'
+import { CustomerProfile } from './pages/CustomerProfile'
 
 function App() {
   return (
     <ErrorBoundary>
       <Router>
-        <AuthProvider>
-          <Layout>
-            <Routes>
-              <Route path="/" element={<Home />} />
-              <Route path="/login" element={<Login />} />
-              <Route
-                path="/staff"
-                element={
-                  <ProtectedRoute staffOnly>
-                    <StaffDashboard />
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/admin"
-                element={
-                  <ProtectedRoute adminOnly>
-                    <AdminPanel />
-                  </ProtectedRoute>
-                }
-              />
-            </Routes>
-          </Layout>
-          <Toaster
-            position="top-right"
-            toastOptions={{
-              duration: 4000,
-              style: {
-                background: '#363636',
-                color: '#fff',
-              },
-              success: {
+        <CartProvider>
+          <AuthProvider>
+            <Layout>
+              <Routes>
+                <Route path="/" element={<Home />} />
+                <Route path="/login" element={<Login />} />
+                <Route
+                  path="/staff"
+                  element={
+                    <ProtectedRoute permission="orders.view">
+                      <StaffDashboard />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/orders"
+                  element={
+                    <ProtectedRoute>
+                      <Orders />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/orders/:orderId"
+                  element={
+                    <ProtectedRoute>
+                      <OrderDetail />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/orders/:orderId/invoice"
+                  element={
+                    <ProtectedRoute>
+                      <InvoicePage />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/customers"
+                  element={
+                    <ProtectedRoute permission="customers.view">
+                      <Customers />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/customers/:customerId"
+                  element={
+                    <ProtectedRoute permission="customers.view">
+                      <CustomerProfile />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/admin"
+                  element={
+                    <ProtectedRoute permission={ADMIN_PANEL_PERMISSIONS}>
+                      <AdminPanel />
+                    </ProtectedRoute>
+                  }
+                />
+              </Routes>
+            </Layout>
+            <Toaster
+              position="top-right"
+              toastOptions={{
+                duration: 4000,
                 style: {
-                  background: '#10b981',
+                  background: '#363636',
+                  color: '#fff',
                 },
-              },
-              error: {
-                style: {
-                  background: '#ef4444',
+                success: {
+                  style: {
+                    background: '#10b981',
+                  },
+                },
+                error: {
+                  style: {
+                    background: '#ef4444',
+                  },
                 },
-              },
-            }}
-          />
-        </AuthProvider>
+              }}
+            />
+          </AuthProvider>
+        </CartProvider>
       </Router>
     </ErrorBoundary>
   )
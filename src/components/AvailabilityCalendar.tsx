@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react'
+import { ChevronLeft, ChevronRight, X } from 'lucide-react'
+import { Equipment, OrderItem, db } from '../lib/supabase'
+import { LoadingSpinner } from './LoadingSpinner'
+import { OrderStatusBadge } from './OrderStatusBadge'
+import toast from 'react-hot-toast'
+
+interface AvailabilityCalendarProps {
+  equipment: Equipment
+  onClose: () => void
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+// Each day is split into two 12-hour slots to match the shortest rental period
+const SLOTS = [
+  { label: 'AM', startHour: 0 },
+  { label: 'PM', startHour: 12 },
+]
+
+export function AvailabilityCalendar({ equipment, onClose }: AvailabilityCalendarProps) {
+  const [month, setMonth] = useState(() => {
+    const now = new Date()
+    return new Date(now.getFullYear(), now.getMonth(), 1)
+  })
+  const [bookings, setBookings] = useState<OrderItem[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadBookings()
+  }, [equipment.id, month])
+
+  const loadBookings = async () => {
+    try {
+      setLoading(true)
+      const monthEnd = new Date(month.getFullYear(), month.getMonth() + 1, 1)
+      const data = await db.getEquipmentBookings(equipment.id, month.toISOString(), monthEnd.toISOString())
+      setBookings(data)
+    } catch (error: any) {
+      console.error('Error loading bookings:', error)
+      toast.error(error.message || 'Failed to load bookings')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Items still out past their due time stay blocked until they are checked in
+  const getBookingEnd = (booking: OrderItem) => {
+    const dueAt = new Date(booking.due_at).getTime()
+    if (booking.order?.status === 'checked_out' || booking.order?.status === 'overdue') {
+      return Math.max(dueAt, Date.now())
+    }
+    return dueAt
+  }
+
+  // A slot is only full once every unit of the model is booked in it
+  const isSlotBooked = (day: Date, startHour: number) => {
+    const slotStart = new Date(day.getFullYear(), day.getMonth(), day.getDate(), startHour).getTime()
+    const slotEnd = slotStart + 12 * 60 * 60 * 1000
+    const bookedUnits = new Set(
+      bookings
+        .filter(booking => new Date(booking.rent_date).getTime() < slotEnd && getBookingEnd(booking) > slotStart)
+        .map(booking => booking.unit_id)
+    )
+    return bookedUnits.size >= Math.max(equipment.unit_count, 1)
+  }
+
+  const formatDateTime = (date: string) => {
+    return new Date(date).toLocaleString('en-IN', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  const changeMonth = (offset: number) => {
+    setMonth(prev => new Date(prev.getFullYear(), prev.getMonth() + offset, 1))
+  }
+
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate()
+  const leadingBlanks = month.getDay()
+  const today = new Date()
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h3 className="text-lg font-semibold">{equipment.name}</h3>
+              <p className="text-sm text-gray-600">Availability calendar</p>
+            </div>
+            <button onClick={onClose} className="p-1 text-gray-600 hover:text-gray-900">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="flex justify-between items-center mb-4">
+            <button onClick={() => changeMonth(-1)} className="p-1 text-gray-600 hover:text-primary-600">
+              <ChevronLeft className="h-5 w-5" />
+            </button>
+            <div className="font-medium">
+              {month.toLocaleDateString('en-IN', { month: 'long', year: 'numeric' })}
+            </div>
+            <button onClick={() => changeMonth(1)} className="p-1 text-gray-600 hover:text-primary-600">
+              <ChevronRight className="h-5 w-5" />
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner size="lg" />
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-7 gap-1 text-xs">
+                {WEEKDAYS.map(day => (
+                  <div key={day} className="text-center font-medium text-gray-500 py-1">
+                    {day}
+                  </div>
+                ))}
+
+                {Array.from({ length: leadingBlanks }).map((_, index) => (
+                  <div key={`blank-${index}`} />
+                ))}
+
+                {Array.from({ length: daysInMonth }).map((_, index) => {
+                  const day = new Date(month.getFullYear(), month.getMonth(), index + 1)
+                  const isToday = day.toDateString() === today.toDateString()
+
+                  return (
+                    <div
+                      key={index}
+                      className={`border rounded p-1 ${isToday ? 'border-primary-500' : 'border-gray-200'}`}
+                    >
+                      <div className="text-gray-700 mb-1">{index + 1}</div>
+                      <div className="space-y-0.5">
+                        {SLOTS.map(slot => {
+                          const booked = isSlotBooked(day, slot.startHour)
+                          return (
+                            <div
+                              key={slot.label}
+                              title={`${slot.label}: ${booked ? 'Booked' : 'Free'}`}
+                              className={`rounded text-center text-[10px] ${
+                                booked ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
+                              }`}
+                            >
+                              {slot.label}
+                            </div>
+                          )
+                        })}
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+
+              <div className="flex space-x-4 text-xs text-gray-600 mt-3">
+                <div className="flex items-center">
+                  <span className="inline-block w-3 h-3 rounded bg-green-100 mr-1" />
+                  Free
+                </div>
+                <div className="flex items-center">
+                  <span className="inline-block w-3 h-3 rounded bg-red-100 mr-1" />
+                  Booked
+                </div>
+              </div>
+
+              <div className="mt-6">
+                <h4 className="text-sm font-semibold mb-2">Bookings this month</h4>
+                {bookings.length > 0 ? (
+                  <div className="space-y-2">
+                    {bookings.map(booking => (
+                      <div key={booking.id} className="flex justify-between items-center text-sm border-b border-gray-100 pb-2">
+                        <div>
+                          <div>{formatDateTime(booking.rent_date)} – {formatDateTime(booking.due_at)}</div>
+                          <div className="text-xs text-gray-500">
+                            {booking.order?.user?.name || 'Unknown'}
+                            {booking.unit && ` · S/N ${booking.unit.serial_number}`}
+                          </div>
+                        </div>
+                        {booking.order && <OrderStatusBadge status={booking.order.status} />}
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">No bookings — free all month.</p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
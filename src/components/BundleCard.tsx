@@ -0,0 +1,147 @@
+import React, { useState } from 'react'
+import { Calendar, Clock, Layers, ShoppingCart } from 'lucide-react'
+import { Bundle } from '../lib/supabase'
+import { DAY_HOURS } from '../lib/pricing'
+import { calculateBundlePrice, getBundleComponents, getBundleDeposit, getBundleShortages } from '../lib/bundles'
+import { DurationSelect } from './DurationSelect'
+
+interface BundleCardProps {
+  bundle: Bundle
+  onAddToCart?: (bundle: Bundle, durationHours: number) => void
+  showRentButton?: boolean
+}
+
+export function BundleCard({ bundle, onAddToCart, showRentButton = false }: BundleCardProps) {
+  const [durationHours, setDurationHours] = useState(DAY_HOURS)
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      minimumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  const handleAddToCart = () => {
+    if (onAddToCart) {
+      onAddToCart(bundle, durationHours)
+    }
+  }
+
+  const items = bundle.items || []
+  const shortages = getBundleShortages(bundle)
+  const deposit = getBundleDeposit(bundle)
+  const price = getBundleComponents(bundle).length > 0 ? calculateBundlePrice(bundle, durationHours) : null
+  const savings = price ? price.separate_total - price.pricing.total : 0
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-primary-200 overflow-hidden hover:shadow-md transition-shadow">
+      <img
+        src={bundle.image_url}
+        alt={bundle.name}
+        className="w-full h-48 object-cover"
+        onError={(e) => {
+          const target = e.target as HTMLImageElement
+          target.src = 'https://images.pexels.com/photos/90946/pexels-photo-90946.jpeg?auto=compress&cs=tinysrgb&w=400'
+        }}
+      />
+
+      <div className="p-6">
+        <div className="flex items-start justify-between mb-2">
+          <h3 className="text-lg font-semibold text-gray-900">
+            {bundle.name}
+          </h3>
+          <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-primary-100 text-primary-800">
+            <Layers className="h-3 w-3 mr-1" />
+            Kit
+          </span>
+        </div>
+
+        {bundle.description && (
+          <p className="text-sm text-gray-600 mb-3 line-clamp-2">{bundle.description}</p>
+        )}
+
+        <ul className="text-sm text-gray-700 mb-3 space-y-0.5">
+          {items.map(item => (
+            <li key={item.id}>
+              {item.quantity > 1 && `${item.quantity} × `}{item.equipment?.name || 'Unknown Equipment'}
+            </li>
+          ))}
+        </ul>
+
+        {shortages.length > 0 ? (
+          <p className="text-xs text-red-600 mb-3">
+            {shortages.map(equipment => equipment.name).join(', ')} out now — future dates can still be booked
+          </p>
+        ) : (
+          <p className="text-xs text-green-700 mb-3">Every item available</p>
+        )}
+
+        <div className="grid grid-cols-2 gap-2 mb-4">
+          <div className="text-center p-3 bg-gray-50 rounded-md">
+            <div className="flex items-center justify-center mb-1">
+              <Clock className="h-4 w-4 mr-1 text-gray-500" />
+              <span className="text-xs text-gray-500">12 Hours</span>
+            </div>
+            <div className="font-semibold text-primary-600">
+              {formatCurrency(bundle.rate_12hr)}
+            </div>
+          </div>
+
+          <div className="text-center p-3 bg-gray-50 rounded-md">
+            <div className="flex items-center justify-center mb-1">
+              <Calendar className="h-4 w-4 mr-1 text-gray-500" />
+              <span className="text-xs text-gray-500">24 Hours</span>
+            </div>
+            <div className="font-semibold text-primary-600">
+              {formatCurrency(bundle.rate_24hr)}
+            </div>
+          </div>
+        </div>
+
+        {savings > 0 && (
+          <p className="text-xs text-green-700 mb-2">
+            Saves {formatCurrency(savings)} on renting the items separately
+          </p>
+        )}
+
+        {deposit > 0 && (
+          <p className="text-xs text-gray-600 mb-4">
+            Refundable deposit: <span className="font-medium">{formatCurrency(deposit)}</span>
+          </p>
+        )}
+
+        {showRentButton && onAddToCart && price && (
+          <div className="space-y-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Duration
+              </label>
+              <DurationSelect value={durationHours} onChange={setDurationHours} />
+            </div>
+
+            <div className="text-sm bg-gray-50 rounded-md p-3 space-y-1">
+              {price.pricing.lines.map(line => (
+                <div key={line.label} className="flex justify-between text-gray-600">
+                  <span>
+                    {line.label}{line.quantity > 1 && ` × ${line.quantity}`}
+                  </span>
+                  <span>{formatCurrency(line.amount)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between font-semibold text-gray-900 border-t border-gray-200 pt-1">
+                <span>Total</span>
+                <span>{formatCurrency(price.pricing.total)}</span>
+              </div>
+            </div>
+
+            <button onClick={handleAddToCart} className="btn btn-primary w-full">
+              <ShoppingCart className="h-4 w-4 mr-2" />
+              Add Kit to Cart
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,249 @@
+import React, { useState } from 'react'
+import { X, Trash2, Plus } from 'lucide-react'
+import { Bundle, Equipment, NewBundleItem, db } from '../lib/supabase'
+import { calculateRentalPrice, DAY_HOURS } from '../lib/pricing'
+import { LoadingSpinner } from './LoadingSpinner'
+import toast from 'react-hot-toast'
+
+interface BundleFormModalProps {
+  // Null when creating a new kit
+  bundle: Bundle | null
+  catalog: Equipment[]
+  onClose: () => void
+  onSaved: () => void
+}
+
+export function BundleFormModal({ bundle, catalog, onClose, onSaved }: BundleFormModalProps) {
+  const [form, setForm] = useState({
+    name: bundle?.name || '',
+    description: bundle?.description || '',
+    image_url: bundle?.image_url || '',
+    rate_12hr: bundle?.rate_12hr || 0,
+    rate_24hr: bundle?.rate_24hr || 0,
+    active: bundle?.active ?? true,
+  })
+  const [items, setItems] = useState<NewBundleItem[]>(
+    (bundle?.items || []).map(item => ({ equipment_id: item.equipment_id, quantity: item.quantity }))
+  )
+  const [addEquipmentId, setAddEquipmentId] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      minimumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  const handleAddItem = () => {
+    if (!addEquipmentId) return
+    setItems(prev => prev.some(item => item.equipment_id === addEquipmentId)
+      ? prev.map(item => item.equipment_id === addEquipmentId ? { ...item, quantity: item.quantity + 1 } : item)
+      : [...prev, { equipment_id: addEquipmentId, quantity: 1 }]
+    )
+    setAddEquipmentId('')
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (items.length === 0) {
+      toast.error('Add at least one item to the kit')
+      return
+    }
+
+    setSaving(true)
+
+    try {
+      await db.saveBundle(bundle?.id || null, {
+        ...form,
+        name: form.name.trim(),
+        description: form.description.trim() || null,
+      }, items)
+      toast.success(bundle ? 'Kit updated' : 'Kit created')
+      onSaved()
+      onClose()
+    } catch (error: any) {
+      console.error('Error saving kit:', error)
+      toast.error(error.message || 'Failed to save kit')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const byId = new Map(catalog.map(item => [item.id, item]))
+  // What the same items cost for a day when rented one by one
+  const separateDayRate = items.reduce((sum, item) => {
+    const equipment = byId.get(item.equipment_id)
+    return equipment ? sum + calculateRentalPrice(equipment, DAY_HOURS).total * item.quantity : sum
+  }, 0)
+
+  const inputClassName = 'w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500'
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-start mb-4">
+            <h3 className="text-lg font-semibold">{bundle ? 'Edit Kit' : 'Add New Kit'}</h3>
+            <button onClick={onClose} className="p-1 text-gray-600 hover:text-gray-900">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Kit Name
+                </label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                  required
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Image URL
+                </label>
+                <input
+                  type="url"
+                  value={form.image_url}
+                  onChange={(e) => setForm(prev => ({ ...prev, image_url: e.target.value }))}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Description
+              </label>
+              <textarea
+                value={form.description}
+                onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                rows={2}
+                className={inputClassName}
+              />
+            </div>
+
+            <div>
+              <h4 className="text-sm font-semibold text-gray-900 mb-2">Items</h4>
+              {items.length > 0 && (
+                <div className="space-y-2 mb-3">
+                  {items.map(item => (
+                    <div key={item.equipment_id} className="flex items-center space-x-3">
+                      <input
+                        type="number"
+                        value={item.quantity}
+                        onChange={(e) => {
+                          const quantity = Math.max(1, parseInt(e.target.value) || 1)
+                          setItems(prev => prev.map(current =>
+                            current.equipment_id === item.equipment_id ? { ...current, quantity } : current
+                          ))
+                        }}
+                        min="1"
+                        className="w-16 rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500 text-sm"
+                      />
+                      <span className="flex-1 text-sm">
+                        {byId.get(item.equipment_id)?.name || 'Unknown Equipment'}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => setItems(prev => prev.filter(current => current.equipment_id !== item.equipment_id))}
+                        className="p-1 text-gray-600 hover:text-red-600"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="flex space-x-2">
+                <select
+                  value={addEquipmentId}
+                  onChange={(e) => setAddEquipmentId(e.target.value)}
+                  className={`${inputClassName} text-sm`}
+                >
+                  <option value="">Choose equipment...</option>
+                  {catalog.map(item => (
+                    <option key={item.id} value={item.id}>{item.name}</option>
+                  ))}
+                </select>
+                <button type="button" onClick={handleAddItem} disabled={!addEquipmentId} className="btn btn-outline">
+                  <Plus className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  12-Hour Kit Rate (₹)
+                </label>
+                <input
+                  type="number"
+                  value={form.rate_12hr}
+                  onChange={(e) => setForm(prev => ({ ...prev, rate_12hr: parseFloat(e.target.value) || 0 }))}
+                  required
+                  min="0"
+                  step="0.01"
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  24-Hour Kit Rate (₹)
+                </label>
+                <input
+                  type="number"
+                  value={form.rate_24hr}
+                  onChange={(e) => setForm(prev => ({ ...prev, rate_24hr: parseFloat(e.target.value) || 0 }))}
+                  required
+                  min="0"
+                  step="0.01"
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            {items.length > 0 && (
+              <p className="text-xs text-gray-500">
+                Rented separately these items cost {formatCurrency(separateDayRate)} for 24 hours
+              </p>
+            )}
+
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.active}
+                onChange={(e) => setForm(prev => ({ ...prev, active: e.target.checked }))}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500 mr-2"
+              />
+              Show in the catalog
+            </label>
+
+            <div className="flex space-x-3">
+              <button type="submit" disabled={saving} className="btn btn-primary flex-1">
+                {saving ? (
+                  <>
+                    <LoadingSpinner size="sm" className="mr-2" />
+                    Saving...
+                  </>
+                ) : (
+                  bundle ? 'Update Kit' : 'Create Kit'
+                )}
+              </button>
+              <button type="button" onClick={onClose} className="btn btn-outline flex-1">
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
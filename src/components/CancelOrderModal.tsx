@@ -0,0 +1,159 @@
+import React, { useState } from 'react'
+import { X } from 'lucide-react'
+import { Order, db } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { buildOrderCharge } from '../lib/charges'
+import { DEFAULT_CANCELLATION_POLICY, calculateCancellationFee, describeCancellationFee, getCancellationSettlement } from '../lib/cancellation'
+import { getCustomerName } from '../lib/orders'
+import { LoadingSpinner } from './LoadingSpinner'
+import toast from 'react-hot-toast'
+
+interface CancelOrderModalProps {
+  order: Order
+  onClose: () => void
+  onCancelled: (order: Order) => void
+}
+
+export function CancelOrderModal({ order, onClose, onCancelled }: CancelOrderModalProps) {
+  const { can } = useAuth()
+  const policyFee = calculateCancellationFee(order)
+  const [reason, setReason] = useState('')
+  const [waiveFee, setWaiveFee] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      minimumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  // The database charges the fee; this previews it in the same terms as the order's rates, so GST
+  // is carved out when they include it
+  const fee = policyFee.amount > 0 && !waiveFee
+    ? buildOrderCharge(order, 'cancellation', describeCancellationFee(policyFee), policyFee.amount, order.tax?.prices_include_tax)
+    : null
+  const settlement = getCancellationSettlement(order, fee?.total || 0)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!reason.trim()) {
+      toast.error('Enter the reason for cancelling')
+      return
+    }
+
+    setSaving(true)
+
+    try {
+      const cancelled = await db.cancelOrder(order.id, reason.trim(), waiveFee)
+      toast.success('Order cancelled')
+      onCancelled(cancelled)
+    } catch (error: any) {
+      console.error('Error cancelling order:', error)
+      toast.error(error.message || 'Failed to cancel order')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h3 className="text-lg font-semibold">Cancel Order</h3>
+              <p className="text-sm text-gray-600">{getCustomerName(order)}</p>
+            </div>
+            <button onClick={onClose} className="p-1 text-gray-600 hover:text-gray-900">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Reason *
+              </label>
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={2}
+                required
+                className="w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500"
+                placeholder="e.g. Shoot postponed by the client"
+              />
+            </div>
+
+            <div className="bg-gray-50 rounded-md p-3 text-sm space-y-1">
+              <p className="text-gray-600">{describeCancellationFee(policyFee)}</p>
+              <p className="text-xs text-gray-500">
+                Free until {DEFAULT_CANCELLATION_POLICY.freeHours}h before the rental, then{' '}
+                {DEFAULT_CANCELLATION_POLICY.feePercent}% of the booking.
+              </p>
+            </div>
+
+            {policyFee.amount > 0 && (
+              can('orders.refund') ? (
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={waiveFee}
+                    onChange={(e) => setWaiveFee(e.target.checked)}
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span>Waive the cancellation fee</span>
+                </label>
+              ) : (
+                <p className="text-xs text-gray-500">Only a manager or accountant can waive the fee.</p>
+              )
+            )}
+
+            <div className="space-y-1 text-sm border-t border-gray-200 pt-2">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Fee (incl. GST)</span>
+                <span className="font-medium">{formatCurrency(fee?.total || 0)}</span>
+              </div>
+              {settlement.refund > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Refunded against the payments</span>
+                  <span className="font-medium">{formatCurrency(settlement.refund)}</span>
+                </div>
+              )}
+              {settlement.due > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Still owed by the customer</span>
+                  <span className="font-medium text-red-600">{formatCurrency(settlement.due)}</span>
+                </div>
+              )}
+              {settlement.depositRelease > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Deposit released</span>
+                  <span className="font-medium">{formatCurrency(settlement.depositRelease)}</span>
+                </div>
+              )}
+            </div>
+
+            <div className="flex space-x-3">
+              <button type="submit" disabled={saving} className="btn btn-primary flex-1">
+                {saving ? (
+                  <>
+                    <LoadingSpinner size="sm" className="mr-2" />
+                    Saving...
+                  </>
+                ) : (
+                  'Cancel Order'
+                )}
+              </button>
+              <button type="button" onClick={onClose} className="btn btn-outline flex-1">
+                Keep Order
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
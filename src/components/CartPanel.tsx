@@ -0,0 +1,293 @@
+import React, { useState } from 'react'
+import { ShoppingCart, Trash2, AlertTriangle, Layers } from 'lucide-react'
+import { useCart } from '../contexts/CartContext'
+import { useAuth } from '../contexts/AuthContext'
+import { Customer } from '../lib/supabase'
+import { calculateRentalPrice } from '../lib/pricing'
+import { calculateBundlePrice, getCartLines } from '../lib/bundles'
+import { INDIAN_STATES, calculateTax } from '../lib/tax'
+import { KYC_STATUS_LABELS, getKycStatus } from '../lib/kyc'
+import { DurationSelect } from './DurationSelect'
+import { CustomerSelect } from './CustomerSelect'
+import { LoadingSpinner } from './LoadingSpinner'
+
+export interface CheckoutOptions {
+  // Set when an admin places the order without a verified customer ID
+  kycOverrideReason: string | null
+}
+
+interface CartPanelProps {
+  onCheckout: (options: CheckoutOptions) => void
+  submitting?: boolean
+}
+
+export function CartPanel({ onCheckout, submitting = false }: CartPanelProps) {
+  const { can } = useAuth()
+  const {
+    items,
+    bundles,
+    customer,
+    startAt,
+    placeOfSupply,
+    updateDuration,
+    updateQuantity,
+    removeItem,
+    updateBundleDuration,
+    removeBundle,
+    setCustomer,
+    setStartAt,
+    setPlaceOfSupply,
+    clearCart,
+  } = useCart()
+  const [overrideKyc, setOverrideKyc] = useState(false)
+  const [overrideReason, setOverrideReason] = useState('')
+
+  // A registered business is billed in the state its GSTIN belongs to
+  const handleCustomerChange = (selected: Customer | null) => {
+    setCustomer(selected)
+    if (selected?.gstin) {
+      setPlaceOfSupply(selected.gstin.slice(0, 2))
+    }
+  }
+
+  const rentalStart = startAt ? new Date(startAt) : new Date()
+  const kycStatus = customer ? getKycStatus(customer, rentalStart) : null
+  const needsOverride = kycStatus !== null && kycStatus !== 'verified'
+  const overridden = needsOverride && overrideKyc && overrideReason.trim() !== ''
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      minimumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  const lines = items.map(item => ({
+    ...item,
+    pricing: calculateRentalPrice(item.equipment, item.duration_hours),
+  }))
+  const bundleLines = bundles.map(item => ({
+    ...item,
+    price: calculateBundlePrice(item.bundle, item.duration_hours),
+  }))
+  // Tax and deposit follow the individual pieces, kit components included
+  const orderLines = getCartLines(items, bundles)
+  const deposit = orderLines.reduce((sum, line) => sum + (line.equipment.deposit_amount || 0), 0)
+  const tax = calculateTax(
+    orderLines.map(line => ({ category: line.equipment.category, amount: line.line_total })),
+    placeOfSupply
+  )
+  const itemCount = items.length + bundles.length
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+        <div className="flex items-center space-x-2">
+          <ShoppingCart className="h-5 w-5 text-primary-600" />
+          <h3 className="text-lg font-semibold">Cart ({itemCount})</h3>
+        </div>
+        {itemCount > 0 && (
+          <button onClick={clearCart} className="text-sm text-gray-500 hover:text-red-600">
+            Clear
+          </button>
+        )}
+      </div>
+
+      {itemCount === 0 ? (
+        <div className="p-6 text-center text-sm text-gray-500">
+          Add equipment to build an order
+        </div>
+      ) : (
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Customer
+            </label>
+            <CustomerSelect value={customer} onChange={handleCustomerChange} kycAt={rentalStart} />
+          </div>
+
+          {needsOverride && (
+            <div className="rounded-md bg-yellow-50 border border-yellow-200 px-3 py-2 text-sm space-y-2">
+              <div className="flex items-start text-yellow-800">
+                <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                <span>
+                  {KYC_STATUS_LABELS[kycStatus!]}. Verify the customer's ID on the Customers page before checkout.
+                </span>
+              </div>
+              {can('kyc.override') && (
+                <>
+                  <label className="flex items-center text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={overrideKyc}
+                      onChange={(e) => setOverrideKyc(e.target.checked)}
+                      className="rounded border-gray-300 text-primary-600 focus:ring-primary-500 mr-2"
+                    />
+                    Override ID check
+                  </label>
+                  {overrideKyc && (
+                    <input
+                      type="text"
+                      value={overrideReason}
+                      onChange={(e) => setOverrideReason(e.target.value)}
+                      placeholder="Reason for the override"
+                      className="w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500 text-sm"
+                    />
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          {lines.map(line => (
+            <div key={line.equipment.id} className="border-b border-gray-100 pb-4">
+              <div className="flex justify-between items-start mb-2">
+                <div className="font-medium text-sm">{line.equipment.name}</div>
+                <button
+                  onClick={() => removeItem(line.equipment.id)}
+                  className="p-1 text-gray-600 hover:text-red-600"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+              <DurationSelect
+                value={line.duration_hours}
+                onChange={(hours) => updateDuration(line.equipment.id, hours)}
+              />
+              <div className="flex justify-between items-center text-sm mt-2">
+                <label className="text-gray-600" htmlFor={`quantity-${line.equipment.id}`}>Units</label>
+                <input
+                  id={`quantity-${line.equipment.id}`}
+                  type="number"
+                  min="1"
+                  max={Math.max(line.equipment.unit_count, 1)}
+                  value={line.quantity}
+                  onChange={(e) => updateQuantity(line.equipment.id, parseInt(e.target.value) || 1)}
+                  className="w-20 rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500 text-sm"
+                />
+              </div>
+              <div className="flex justify-between text-sm mt-2">
+                <span className="text-gray-600">Line total</span>
+                <span className="font-semibold">{formatCurrency(line.pricing.total * line.quantity)}</span>
+              </div>
+            </div>
+          ))}
+
+          {bundleLines.map(line => (
+            <div key={line.bundle.id} className="border-b border-gray-100 pb-4">
+              <div className="flex justify-between items-start mb-1">
+                <div className="font-medium text-sm flex items-center">
+                  <Layers className="h-4 w-4 mr-1 text-primary-600" />
+                  {line.bundle.name}
+                </div>
+                <button
+                  onClick={() => removeBundle(line.bundle.id)}
+                  className="p-1 text-gray-600 hover:text-red-600"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+              <div className="text-xs text-gray-500 mb-2">
+                {line.price.lines.map(component => component.equipment.name).join(', ')}
+              </div>
+              <DurationSelect
+                value={line.duration_hours}
+                onChange={(hours) => updateBundleDuration(line.bundle.id, hours)}
+              />
+              <div className="flex justify-between text-sm mt-2">
+                <span className="text-gray-600">Line total</span>
+                <span className="font-semibold">{formatCurrency(line.price.pricing.total)}</span>
+              </div>
+            </div>
+          ))}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Start
+            </label>
+            <input
+              type="datetime-local"
+              value={startAt}
+              onChange={(e) => setStartAt(e.target.value)}
+              className="w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500 text-sm"
+            />
+            <p className="text-xs text-gray-500 mt-1">Leave empty to start the rental now</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Place of Supply
+            </label>
+            <select
+              value={placeOfSupply}
+              onChange={(e) => setPlaceOfSupply(e.target.value)}
+              className="w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500 text-sm"
+            >
+              {INDIAN_STATES.map(state => (
+                <option key={state.code} value={state.code}>
+                  {state.code} - {state.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="text-sm space-y-1">
+            <div className="flex justify-between text-gray-600">
+              <span>Taxable value</span>
+              <span>{formatCurrency(tax.taxable_value)}</span>
+            </div>
+            {tax.inter_state ? (
+              <div className="flex justify-between text-gray-600">
+                <span>IGST</span>
+                <span>{formatCurrency(tax.igst)}</span>
+              </div>
+            ) : (
+              <>
+                <div className="flex justify-between text-gray-600">
+                  <span>CGST</span>
+                  <span>{formatCurrency(tax.cgst)}</span>
+                </div>
+                <div className="flex justify-between text-gray-600">
+                  <span>SGST</span>
+                  <span>{formatCurrency(tax.sgst)}</span>
+                </div>
+              </>
+            )}
+            <div className="flex justify-between font-semibold text-gray-900 pt-1">
+              <span>Order total</span>
+              <span>{formatCurrency(tax.total)}</span>
+            </div>
+            {deposit > 0 && (
+              <>
+                <div className="flex justify-between text-gray-600">
+                  <span>Refundable deposit</span>
+                  <span>{formatCurrency(deposit)}</span>
+                </div>
+                <div className="flex justify-between font-semibold text-gray-900">
+                  <span>Due at checkout</span>
+                  <span>{formatCurrency(tax.total + deposit)}</span>
+                </div>
+              </>
+            )}
+          </div>
+
+          <button
+            onClick={() => onCheckout({ kycOverrideReason: overridden ? overrideReason.trim() : null })}
+            disabled={submitting || !customer || (needsOverride && !overridden)}
+            className="btn btn-primary w-full"
+          >
+            {submitting ? (
+              <>
+                <LoadingSpinner size="sm" className="mr-2" />
+                Placing order...
+              </>
+            ) : (
+              startAt ? 'Reserve Order' : 'Place Order'
+            )}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react'
+import { Plus, Sparkles } from 'lucide-react'
+import { useCart } from '../contexts/CartContext'
+import { Equipment, EquipmentCompatibility, FrequentRental, db } from '../lib/supabase'
+import { DAY_HOURS } from '../lib/pricing'
+import { getRecommendations } from '../lib/compatibility'
+import toast from 'react-hot-toast'
+
+interface CartRecommendationsProps {
+  // The full catalog the suggestions are picked from
+  catalog: Equipment[]
+}
+
+export function CartRecommendations({ catalog }: CartRecommendationsProps) {
+  const { items, addItem } = useCart()
+  const [links, setLinks] = useState<EquipmentCompatibility[]>([])
+  const [frequent, setFrequent] = useState<FrequentRental[]>([])
+
+  const cartIds = items.map(item => item.equipment.id)
+  const cartKey = [...cartIds].sort().join(',')
+
+  useEffect(() => {
+    loadSuggestions()
+  }, [cartKey])
+
+  const loadSuggestions = async () => {
+    try {
+      const [linkData, frequentData] = await Promise.all([
+        db.getEquipmentCompatibility(cartIds),
+        db.getFrequentlyRentedWith(cartIds),
+      ])
+      setLinks(linkData)
+      setFrequent(frequentData)
+    } catch (error) {
+      console.error('Error loading suggestions:', error)
+    }
+  }
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      minimumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  // Suggestions are rented for as long as the longest item already in the cart
+  const handleAdd = (equipment: Equipment) => {
+    const durationHours = Math.max(DAY_HOURS, ...items.map(item => item.duration_hours))
+    addItem(equipment, durationHours)
+    toast.success(`${equipment.name} added to cart`)
+  }
+
+  const recommendations = getRecommendations(items.map(item => item.equipment), catalog, links, frequent)
+
+  if (items.length === 0 || recommendations.length === 0) return null
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center space-x-2">
+        <Sparkles className="h-5 w-5 text-primary-600" />
+        <h3 className="text-lg font-semibold">Compatible & rented with</h3>
+      </div>
+      <div className="divide-y divide-gray-100">
+        {recommendations.map(({ equipment, reasons }) => (
+          <div key={equipment.id} className="px-6 py-3 flex justify-between items-start">
+            <div className="min-w-0">
+              <div className="font-medium text-sm text-gray-900">{equipment.name}</div>
+              <div className="text-xs text-gray-500">
+                {formatCurrency(equipment.rate_24hr)} / day
+                {equipment.available_units === 0 && ' · all units out now'}
+              </div>
+              <div className="text-xs text-primary-700 mt-1">{reasons.join(' · ')}</div>
+            </div>
+            <button
+              onClick={() => handleAdd(equipment)}
+              className="p-1 text-gray-600 hover:text-primary-600 flex-shrink-0"
+              title="Add to cart"
+            >
+              <Plus className="h-5 w-5" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,262 @@
+import React, { useEffect, useState } from 'react'
+import { X } from 'lucide-react'
+import { Customer, IdType, NewCustomer, User, db } from '../lib/supabase'
+import { ID_TYPES } from '../lib/kyc'
+import { LoadingSpinner } from './LoadingSpinner'
+import toast from 'react-hot-toast'
+
+interface CustomerFormModalProps {
+  // Edits this customer when given, otherwise creates a new one
+  customer?: Customer | null
+  initialName?: string
+  onClose: () => void
+  onSaved: (customer: Customer) => void
+}
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z0-9]{13}$/
+
+export function CustomerFormModal({ customer, initialName = '', onClose, onSaved }: CustomerFormModalProps) {
+  const [form, setForm] = useState({
+    name: customer?.name || initialName,
+    phone: customer?.phone || '',
+    email: customer?.email || '',
+    address: customer?.address || '',
+    gstin: customer?.gstin || '',
+    id_type: (customer?.id_type || '') as IdType | '',
+    id_number: customer?.id_number || '',
+    id_expiry: customer?.id_expiry || '',
+    notes: customer?.notes || '',
+    user_id: customer?.user_id || '',
+  })
+  const [accounts, setAccounts] = useState<User[]>([])
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadAccounts()
+  }, [])
+
+  // Only customer logins can be linked; staff accounts see orders through their role
+  const loadAccounts = async () => {
+    try {
+      const users = await db.getUsers()
+      setAccounts(users.filter(user => user.role === 'customer'))
+    } catch (error) {
+      console.error('Error loading accounts:', error)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const gstin = form.gstin.trim().toUpperCase()
+    if (gstin && !GSTIN_PATTERN.test(gstin)) {
+      toast.error('GSTIN must be 15 characters starting with the state code')
+      return
+    }
+
+    // Empty fields are stored as null rather than blank strings
+    const values: NewCustomer = {
+      name: form.name.trim(),
+      phone: form.phone.trim() || null,
+      email: form.email.trim() || null,
+      address: form.address.trim() || null,
+      gstin: gstin || null,
+      id_type: form.id_type || null,
+      id_number: form.id_number.trim() || null,
+      id_expiry: form.id_expiry || null,
+      id_scan_path: customer?.id_scan_path || null,
+      notes: form.notes.trim() || null,
+      user_id: form.user_id || null,
+    }
+
+    setSaving(true)
+
+    try {
+      const saved = customer
+        ? await db.updateCustomer(customer.id, values)
+        : await db.createCustomer(values)
+      toast.success(customer ? 'Customer updated' : 'Customer added')
+      onSaved(saved)
+    } catch (error: any) {
+      console.error('Error saving customer:', error)
+      toast.error(error.message || 'Failed to save customer')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClassName = 'w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500'
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-start mb-4">
+            <h3 className="text-lg font-semibold">{customer ? 'Edit Customer' : 'New Customer'}</h3>
+            <button onClick={onClose} className="p-1 text-gray-600 hover:text-gray-900">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Name
+              </label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                required
+                className={inputClassName}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Phone
+                </label>
+                <input
+                  type="tel"
+                  value={form.phone}
+                  onChange={(e) => setForm(prev => ({ ...prev, phone: e.target.value }))}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Email
+                </label>
+                <input
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => setForm(prev => ({ ...prev, email: e.target.value }))}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Address
+              </label>
+              <textarea
+                value={form.address}
+                onChange={(e) => setForm(prev => ({ ...prev, address: e.target.value }))}
+                rows={2}
+                className={inputClassName}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                GSTIN
+              </label>
+              <input
+                type="text"
+                value={form.gstin}
+                onChange={(e) => setForm(prev => ({ ...prev, gstin: e.target.value }))}
+                maxLength={15}
+                placeholder="Business customers only"
+                className={`${inputClassName} uppercase`}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  ID Type
+                </label>
+                <select
+                  value={form.id_type}
+                  onChange={(e) => setForm(prev => ({ ...prev, id_type: e.target.value as IdType | '' }))}
+                  className={inputClassName}
+                >
+                  <option value="">Not recorded</option>
+                  {Object.entries(ID_TYPES).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  ID Number
+                </label>
+                <input
+                  type="text"
+                  value={form.id_number}
+                  onChange={(e) => setForm(prev => ({ ...prev, id_number: e.target.value }))}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Expiry
+                </label>
+                <input
+                  type="date"
+                  value={form.id_expiry}
+                  onChange={(e) => setForm(prev => ({ ...prev, id_expiry: e.target.value }))}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            {customer?.kyc_verified_at && (
+              <p className="text-xs text-gray-500 -mt-2">
+                Changing the ID details clears the existing verification
+              </p>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Notes
+              </label>
+              <textarea
+                value={form.notes}
+                onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+                rows={2}
+                className={inputClassName}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Login Account
+              </label>
+              <select
+                value={form.user_id}
+                onChange={(e) => setForm(prev => ({ ...prev, user_id: e.target.value }))}
+                className={inputClassName}
+              >
+                <option value="">None</option>
+                {accounts.map(account => (
+                  <option key={account.id} value={account.id}>{account.name} ({account.email})</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                The customer sees their own orders when signed in with this account
+              </p>
+            </div>
+
+            <div className="flex space-x-3">
+              <button type="submit" disabled={saving} className="btn btn-primary flex-1">
+                {saving ? (
+                  <>
+                    <LoadingSpinner size="sm" className="mr-2" />
+                    Saving...
+                  </>
+                ) : (
+                  customer ? 'Update Customer' : 'Add Customer'
+                )}
+              </button>
+              <button type="button" onClick={onClose} className="btn btn-outline flex-1">
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
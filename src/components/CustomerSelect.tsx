@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react'
+import { Search, UserPlus, X } from 'lucide-react'
+import { Customer, db } from '../lib/supabase'
+import { CustomerFormModal } from './CustomerFormModal'
+import { KycBadge } from './KycBadge'
+import { LoadingSpinner } from './LoadingSpinner'
+
+interface CustomerSelectProps {
+  value: Customer | null
+  onChange: (customer: Customer | null) => void
+  // ID expiry is judged as of this date, usually the rental start
+  kycAt?: Date
+}
+
+export function CustomerSelect({ value, onChange, kycAt }: CustomerSelectProps) {
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<Customer[]>([])
+  const [searching, setSearching] = useState(false)
+  const [showForm, setShowForm] = useState(false)
+
+  // Wait for a pause in typing before hitting the database
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([])
+      return
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        setSearching(true)
+        setResults(await db.searchCustomers(query))
+      } catch (error) {
+        console.error('Error searching customers:', error)
+      } finally {
+        setSearching(false)
+      }
+    }, 250)
+
+    return () => clearTimeout(timer)
+  }, [query])
+
+  const handleSelect = (customer: Customer) => {
+    onChange(customer)
+    setQuery('')
+    setResults([])
+  }
+
+  if (value) {
+    return (
+      <div className="flex justify-between items-start rounded-md border border-gray-200 bg-gray-50 px-3 py-2 text-sm">
+        <div>
+          <div className="font-medium text-gray-900">{value.name}</div>
+          <div className="text-xs text-gray-500">
+            {[value.phone, value.email].filter(Boolean).join(' · ')}
+          </div>
+          {value.gstin && <div className="text-xs text-gray-500">GSTIN {value.gstin}</div>}
+          <div className="mt-1">
+            <KycBadge customer={value} at={kycAt} />
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange(null)}
+          className="p-1 text-gray-600 hover:text-red-600"
+          title="Change customer"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="relative">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search name, phone or email"
+          className="w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500 text-sm pl-9"
+        />
+        {searching && (
+          <div className="absolute inset-y-0 right-3 flex items-center">
+            <LoadingSpinner size="sm" />
+          </div>
+        )}
+      </div>
+
+      {query.trim() && !searching && (
+        <div className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-60 overflow-y-auto text-sm">
+          {results.map(customer => (
+            <button
+              key={customer.id}
+              type="button"
+              onClick={() => handleSelect(customer)}
+              className="block w-full text-left px-3 py-2 hover:bg-gray-50"
+            >
+              <div className="flex justify-between items-center">
+                <span className="font-medium">{customer.name}</span>
+                <KycBadge customer={customer} at={kycAt} />
+              </div>
+              <div className="text-xs text-gray-500">
+                {[customer.phone, customer.email].filter(Boolean).join(' · ')}
+              </div>
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => setShowForm(true)}
+            className="flex items-center w-full text-left px-3 py-2 text-primary-600 hover:bg-gray-50 border-t border-gray-100"
+          >
+            <UserPlus className="h-4 w-4 mr-2" />
+            Add "{query.trim()}" as a new customer
+          </button>
+        </div>
+      )}
+
+      {showForm && (
+        <CustomerFormModal
+          initialName={query.trim()}
+          onClose={() => setShowForm(false)}
+          onSaved={(customer) => {
+            setShowForm(false)
+            handleSelect(customer)
+          }}
+        />
+      )}
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,195 @@
+import React, { useState } from 'react'
+import { X, Camera } from 'lucide-react'
+import { ClaimKind, Order, db } from '../lib/supabase'
+import { CLAIM_KINDS } from '../lib/claims'
+import { compareInspections, describeInspectionChanges } from '../lib/inspections'
+import { getCustomerName } from '../lib/orders'
+import { LoadingSpinner } from './LoadingSpinner'
+import toast from 'react-hot-toast'
+
+interface DamageClaimModalProps {
+  order: Order
+  onClose: () => void
+  onRaised: () => void
+}
+
+export function DamageClaimModal({ order, onClose, onRaised }: DamageClaimModalProps) {
+  const items = order.items || []
+  // Gear still out can only be reported lost; damage is claimed once it is checked in
+  const kinds = Object.entries(CLAIM_KINDS).filter(([value]) => order.status === 'returned' || value === 'loss')
+  // Start from the first item the check-in inspection found worse than it went out
+  const changes = compareInspections(order)
+  const firstChanged = changes[0]?.item.id
+  const [form, setForm] = useState({
+    order_item_id: firstChanged || items[0]?.id || '',
+    kind: (order.status === 'returned' ? 'damage' : 'loss') as ClaimKind,
+    description: describeInspectionChanges(changes.filter(change => change.item.id === firstChanged)),
+    estimated_cost: 0,
+    customer_liability: 0,
+  })
+  const [photos, setPhotos] = useState<File[]>([])
+  const [saving, setSaving] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (form.customer_liability > form.estimated_cost && form.estimated_cost > 0) {
+      toast.error('Customer liability cannot exceed the estimated cost')
+      return
+    }
+
+    setSaving(true)
+
+    try {
+      const photoPaths: string[] = []
+      for (const file of photos) {
+        photoPaths.push(await db.uploadClaimPhoto(order.id, file))
+      }
+
+      await db.createDamageClaim({
+        ...form,
+        description: form.description.trim(),
+        photo_paths: photoPaths,
+      })
+      toast.success('Claim raised, unit taken out of service')
+      onRaised()
+      onClose()
+    } catch (error: any) {
+      console.error('Error raising claim:', error)
+      toast.error(error.message || 'Failed to raise claim')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClassName = 'w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500'
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h3 className="text-lg font-semibold">Raise Claim</h3>
+              <p className="text-sm text-gray-600">{getCustomerName(order)}</p>
+            </div>
+            <button onClick={onClose} className="p-1 text-gray-600 hover:text-gray-900">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Item
+                </label>
+                <select
+                  value={form.order_item_id}
+                  onChange={(e) => setForm(prev => ({ ...prev, order_item_id: e.target.value }))}
+                  required
+                  className={inputClassName}
+                >
+                  {items.map(item => (
+                    <option key={item.id} value={item.id}>
+                      {item.equipment?.name || 'Unknown Equipment'}{item.unit && ` (S/N ${item.unit.serial_number})`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Kind
+                </label>
+                <select
+                  value={form.kind}
+                  onChange={(e) => setForm(prev => ({ ...prev, kind: e.target.value as ClaimKind }))}
+                  className={inputClassName}
+                >
+                  {kinds.map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Description
+              </label>
+              <textarea
+                value={form.description}
+                onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                rows={3}
+                required
+                placeholder={form.kind === 'loss' ? 'e.g. Lens not returned, customer reports it stolen' : 'e.g. Cracked front element'}
+                className={inputClassName}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {form.kind === 'loss' ? 'Replacement Cost (₹)' : 'Estimated Repair (₹)'}
+                </label>
+                <input
+                  type="number"
+                  value={form.estimated_cost}
+                  onChange={(e) => setForm(prev => ({ ...prev, estimated_cost: parseFloat(e.target.value) || 0 }))}
+                  min="0"
+                  step="0.01"
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Customer Liability (₹)
+                </label>
+                <input
+                  type="number"
+                  value={form.customer_liability}
+                  onChange={(e) => setForm(prev => ({ ...prev, customer_liability: parseFloat(e.target.value) || 0 }))}
+                  min="0"
+                  step="0.01"
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <label className="btn btn-outline cursor-pointer">
+              <Camera className="h-4 w-4 mr-2" />
+              {photos.length > 0 ? `${photos.length} photo${photos.length > 1 ? 's' : ''}` : 'Add photos'}
+              <input
+                type="file"
+                accept="image/*"
+                multiple
+                onChange={(e) => setPhotos(Array.from(e.target.files || []))}
+                className="hidden"
+              />
+            </label>
+
+            <p className="text-xs text-gray-500">
+              The unit is taken out of service until its maintenance ticket is closed.
+            </p>
+
+            <div className="flex space-x-3">
+              <button type="submit" disabled={saving || items.length === 0} className="btn btn-primary flex-1">
+                {saving ? (
+                  <>
+                    <LoadingSpinner size="sm" className="mr-2" />
+                    Saving...
+                  </>
+                ) : (
+                  'Raise Claim'
+                )}
+              </button>
+              <button type="button" onClick={onClose} className="btn btn-outline flex-1">
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
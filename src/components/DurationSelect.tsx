@@ -0,0 +1,49 @@
+import React, { useState } from 'react'
+import { DAY_HOURS, DURATION_PRESETS, formatDuration } from '../lib/pricing'
+
+interface DurationSelectProps {
+  value: number
+  onChange: (hours: number) => void
+  className?: string
+}
+
+const CUSTOM = 'custom'
+const MAX_CUSTOM_DAYS = 90
+
+export function DurationSelect({ value, onChange, className = '' }: DurationSelectProps) {
+  const [custom, setCustom] = useState(!DURATION_PRESETS.includes(value))
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <select
+        value={custom ? CUSTOM : value}
+        onChange={(e) => {
+          if (e.target.value === CUSTOM) {
+            setCustom(true)
+            return
+          }
+          setCustom(false)
+          onChange(parseInt(e.target.value))
+        }}
+        className="w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500 text-sm"
+      >
+        {DURATION_PRESETS.map(hours => (
+          <option key={hours} value={hours}>{formatDuration(hours)}</option>
+        ))}
+        <option value={CUSTOM}>Custom number of days…</option>
+      </select>
+
+      {custom && (
+        <input
+          type="number"
+          min="1"
+          max={MAX_CUSTOM_DAYS}
+          value={Math.max(1, Math.round(value / DAY_HOURS))}
+          onChange={(e) => onChange(Math.min(MAX_CUSTOM_DAYS, Math.max(1, parseInt(e.target.value) || 1)) * DAY_HOURS)}
+          className="w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500 text-sm"
+          placeholder="Number of days"
+        />
+      )}
+    </div>
+  )
+}
\ No newline at end of file
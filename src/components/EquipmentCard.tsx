@@ -1,15 +1,20 @@
 import React, { useState } from 'react'
-import { Calendar, Clock, Plus } from 'lucide-react'
+import { Calendar, CalendarDays, Clock, ShoppingCart } from 'lucide-react'
 import { Equipment } from '../lib/supabase'
+import { calculateRentalPrice, DAY_HOURS } from '../lib/pricing'
+import { formatStock } from '../lib/units'
+import { formatSpecValue, getSpecSheet } from '../lib/specs'
+import { DurationSelect } from './DurationSelect'
 
 interface EquipmentCardProps {
   equipment: Equipment
-  onRent?: (equipment: Equipment, duration: '12hr' | '24hr') => void
+  onAddToCart?: (equipment: Equipment, durationHours: number) => void
+  onViewCalendar?: (equipment: Equipment) => void
   showRentButton?: boolean
 }
 
-export function EquipmentCard({ equipment, onRent, showRentButton = false }: EquipmentCardProps) {
-  const [selectedDuration, setSelectedDuration] = useState<'12hr' | '24hr'>('24hr')
+export function EquipmentCard({ equipment, onAddToCart, onViewCalendar, showRentButton = false }: EquipmentCardProps) {
+  const [durationHours, setDurationHours] = useState(DAY_HOURS)
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-IN', {
@@ -19,12 +24,15 @@ export function EquipmentCard({ equipment, onRent, showRentButton = false }: Equ
     }).format(amount)
   }
 
-  const handleRent = () => {
-    if (onRent) {
-      onRent(equipment, selectedDuration)
+  const handleAddToCart = () => {
+    if (onAddToCart) {
+      onAddToCart(equipment, durationHours)
     }
   }
 
+  const specSheet = getSpecSheet(equipment)
+  const pricing = showRentButton ? calculateRentalPrice(equipment, durationHours) : null
+
   return (
     <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden hover:shadow-md transition-shadow">
       <img
@@ -38,9 +46,49 @@ export function EquipmentCard({ equipment, onRent, showRentButton = false }: Equ
       />
       
       <div className="p-6">
-        <h3 className="text-lg font-semibold text-gray-900 mb-4">
-          {equipment.name}
-        </h3>
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">
+              {equipment.name}
+            </h3>
+            {(equipment.brand || equipment.mount) && (
+              <p className="text-sm text-gray-500">
+                {[equipment.brand, equipment.mount && `${equipment.mount} mount`].filter(Boolean).join(' · ')}
+              </p>
+            )}
+          </div>
+          {onViewCalendar && (
+            <button
+              onClick={() => onViewCalendar(equipment)}
+              className="p-1 text-gray-600 hover:text-primary-600"
+              title="View availability"
+            >
+              <CalendarDays className="h-5 w-5" />
+            </button>
+          )}
+        </div>
+
+        {equipment.description && (
+          <p className="text-sm text-gray-600 mb-3 line-clamp-2">{equipment.description}</p>
+        )}
+
+        {specSheet.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-3">
+            {specSheet.slice(0, 4).map(({ field, value }) => (
+              <span key={field.key} className="px-2 py-0.5 rounded bg-gray-100 text-xs text-gray-700" title={field.label}>
+                {field.type === 'boolean' ? `${field.label}${value ? '' : ': No'}` : formatSpecValue(field, value)}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {equipment.available ? (
+          <p className="text-xs text-green-700 mb-3">{formatStock(equipment)}</p>
+        ) : (
+          <p className="text-xs text-red-600 mb-3">
+            {equipment.unit_count > 0 ? 'All units on rent now' : 'No units in stock'} — future dates can still be booked
+          </p>
+        )}
         
         <div className="grid grid-cols-2 gap-2 mb-4">
           <div className="text-center p-3 bg-gray-50 rounded-md">
@@ -64,25 +112,41 @@ export function EquipmentCard({ equipment, onRent, showRentButton = false }: Equ
           </div>
         </div>
 
-        {showRentButton && onRent && (
+        {equipment.deposit_amount > 0 && (
+          <p className="text-xs text-gray-600 mb-4">
+            Refundable deposit: <span className="font-medium">{formatCurrency(equipment.deposit_amount)}</span>
+          </p>
+        )}
+
+        {showRentButton && onAddToCart && (
           <div className="space-y-3">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Duration
               </label>
-              <select
-                value={selectedDuration}
-                onChange={(e) => setSelectedDuration(e.target.value as '12hr' | '24hr')}
-                className="w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500 text-sm"
-              >
-                <option value="12hr">12 Hours - {formatCurrency(equipment.rate_12hr)}</option>
-                <option value="24hr">24 Hours - {formatCurrency(equipment.rate_24hr)}</option>
-              </select>
+              <DurationSelect value={durationHours} onChange={setDurationHours} />
             </div>
+
+            {pricing && (
+              <div className="text-sm bg-gray-50 rounded-md p-3 space-y-1">
+                {pricing.lines.map(line => (
+                  <div key={line.label} className="flex justify-between text-gray-600">
+                    <span>
+                      {line.label}{line.quantity > 1 && ` × ${line.quantity}`}
+                    </span>
+                    <span>{formatCurrency(line.amount)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between font-semibold text-gray-900 border-t border-gray-200 pt-1">
+                  <span>Total</span>
+                  <span>{formatCurrency(pricing.total)}</span>
+                </div>
+              </div>
+            )}
             
-            <button onClick={handleRent} className="btn btn-primary w-full">
-              <Plus className="h-4 w-4 mr-2" />
-              Rent Equipment
+            <button onClick={handleAddToCart} className="btn btn-primary w-full">
+              <ShoppingCart className="h-4 w-4 mr-2" />
+              Add to Cart
             </button>
           </div>
         )}
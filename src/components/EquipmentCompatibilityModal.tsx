@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react'
+import { X, Trash2 } from 'lucide-react'
+import { CompatibilityKind, Equipment, EquipmentCompatibility, db } from '../lib/supabase'
+import { COMPATIBILITY_KINDS, describeLink } from '../lib/compatibility'
+import { LoadingSpinner } from './LoadingSpinner'
+import toast from 'react-hot-toast'
+
+interface EquipmentCompatibilityModalProps {
+  equipment: Equipment
+  // Models that can be linked to it
+  catalog: Equipment[]
+  onClose: () => void
+}
+
+export function EquipmentCompatibilityModal({ equipment, catalog, onClose }: EquipmentCompatibilityModalProps) {
+  const [links, setLinks] = useState<EquipmentCompatibility[]>([])
+  const [loading, setLoading] = useState(true)
+  const [kind, setKind] = useState<CompatibilityKind>('accessory')
+  const [compatibleId, setCompatibleId] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadLinks()
+  }, [equipment.id])
+
+  const loadLinks = async () => {
+    try {
+      setLoading(true)
+      setLinks(await db.getEquipmentCompatibility([equipment.id]))
+    } catch (error: any) {
+      console.error('Error loading compatible equipment:', error)
+      toast.error(error.message || 'Failed to load compatible equipment')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!compatibleId) return
+
+    setSaving(true)
+
+    try {
+      await db.createEquipmentCompatibility({ equipment_id: equipment.id, compatible_id: compatibleId, kind })
+      toast.success('Equipment linked')
+      setCompatibleId('')
+      loadLinks()
+    } catch (error: any) {
+      console.error('Error linking equipment:', error)
+      toast.error(error.message || 'Failed to link equipment')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (link: EquipmentCompatibility) => {
+    try {
+      await db.deleteEquipmentCompatibility(link.id)
+      toast.success('Link removed')
+      loadLinks()
+    } catch (error: any) {
+      console.error('Error unlinking equipment:', error)
+      toast.error(error.message || 'Failed to unlink equipment')
+    }
+  }
+
+  const candidates = catalog
+    .filter(item => item.id !== equipment.id)
+    .sort((a, b) => a.name.localeCompare(b.name))
+
+  const inputClassName = 'w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500 text-sm'
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h3 className="text-lg font-semibold">{equipment.name}</h3>
+              <p className="text-sm text-gray-600">Compatible equipment, suggested when this is in the cart</p>
+            </div>
+            <button onClick={onClose} className="p-1 text-gray-600 hover:text-gray-900">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-6 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Link
+              </label>
+              <select
+                value={kind}
+                onChange={(e) => setKind(e.target.value as CompatibilityKind)}
+                className={inputClassName}
+              >
+                <option value="accessory">Has accessory</option>
+                <option value="mount">{COMPATIBILITY_KINDS.mount}</option>
+                <option value="battery">{COMPATIBILITY_KINDS.battery}</option>
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Equipment
+              </label>
+              <select
+                value={compatibleId}
+                onChange={(e) => setCompatibleId(e.target.value)}
+                required
+                className={inputClassName}
+              >
+                <option value="">Choose equipment...</option>
+                {candidates.map(item => (
+                  <option key={item.id} value={item.id}>{item.name}</option>
+                ))}
+              </select>
+            </div>
+            <button type="submit" disabled={saving || !compatibleId} className="btn btn-primary">
+              {saving ? <LoadingSpinner size="sm" /> : 'Add Link'}
+            </button>
+          </form>
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <LoadingSpinner size="lg" />
+            </div>
+          ) : links.length > 0 ? (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 bg-gray-50">
+                  <th className="text-left py-2 px-3">Link</th>
+                  <th className="text-left py-2 px-3">Equipment</th>
+                  <th className="text-right py-2 px-3">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {links.map(link => {
+                  const { other, label } = describeLink(link, equipment.id)
+                  return (
+                    <tr key={link.id} className="border-b border-gray-100">
+                      <td className="py-2 px-3 text-gray-600">{label}</td>
+                      <td className="py-2 px-3 font-medium">{other?.name || 'Unknown equipment'}</td>
+                      <td className="py-2 px-3 text-right">
+                        <button
+                          onClick={() => handleDelete(link)}
+                          className="p-1 text-gray-600 hover:text-red-600"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-gray-500 text-center py-8">
+              Nothing linked yet — bodies and lenses of the same mount are suggested automatically
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,279 @@
+import React, { useEffect, useState } from 'react'
+import { X, Edit, Trash2 } from 'lucide-react'
+import { Equipment, EquipmentUnit, NewEquipmentUnit, UnitCondition, UnitStatus, db } from '../lib/supabase'
+import { MANUAL_UNIT_STATUSES, UNIT_CONDITIONS, UNIT_STATUSES } from '../lib/units'
+import { LoadingSpinner } from './LoadingSpinner'
+import toast from 'react-hot-toast'
+
+interface EquipmentUnitsModalProps {
+  equipment: Equipment
+  onClose: () => void
+  // Unit changes move the model's stock counts, so the caller reloads equipment
+  onChanged: () => void
+}
+
+const statusStyles: Record<UnitStatus, string> = {
+  available: 'bg-green-100 text-green-800',
+  rented: 'bg-blue-100 text-blue-800',
+  maintenance: 'bg-yellow-100 text-yellow-800',
+  retired: 'bg-gray-100 text-gray-800',
+}
+
+const emptyForm = {
+  serial_number: '',
+  purchase_date: '',
+  condition: 'new' as UnitCondition,
+  status: 'available' as UnitStatus,
+  notes: '',
+}
+
+export function EquipmentUnitsModal({ equipment, onClose, onChanged }: EquipmentUnitsModalProps) {
+  const [units, setUnits] = useState<EquipmentUnit[]>([])
+  const [loading, setLoading] = useState(true)
+  const [editingUnit, setEditingUnit] = useState<EquipmentUnit | null>(null)
+  const [form, setForm] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadUnits()
+  }, [equipment.id])
+
+  const loadUnits = async () => {
+    try {
+      setLoading(true)
+      setUnits(await db.getEquipmentUnits(equipment.id))
+    } catch (error: any) {
+      console.error('Error loading units:', error)
+      toast.error(error.message || 'Failed to load units')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const resetForm = () => {
+    setEditingUnit(null)
+    setForm(emptyForm)
+  }
+
+  const handleEdit = (unit: EquipmentUnit) => {
+    setEditingUnit(unit)
+    setForm({
+      serial_number: unit.serial_number,
+      purchase_date: unit.purchase_date || '',
+      condition: unit.condition,
+      status: unit.status,
+      notes: unit.notes || '',
+    })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const values: NewEquipmentUnit = {
+      equipment_id: equipment.id,
+      serial_number: form.serial_number.trim(),
+      purchase_date: form.purchase_date || null,
+      condition: form.condition,
+      status: form.status,
+      notes: form.notes.trim() || null,
+    }
+
+    setSaving(true)
+
+    try {
+      if (editingUnit) {
+        await db.updateEquipmentUnit(editingUnit.id, values)
+        toast.success('Unit updated')
+      } else {
+        await db.createEquipmentUnit(values)
+        toast.success(`Unit ${values.serial_number} added`)
+      }
+      resetForm()
+      loadUnits()
+      onChanged()
+    } catch (error: any) {
+      console.error('Error saving unit:', error)
+      toast.error(error.message || 'Failed to save unit')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (unit: EquipmentUnit) => {
+    if (!confirm(`Delete unit ${unit.serial_number}?`)) return
+
+    try {
+      await db.deleteEquipmentUnit(unit.id)
+      toast.success('Unit deleted')
+      if (editingUnit?.id === unit.id) resetForm()
+      loadUnits()
+      onChanged()
+    } catch (error: any) {
+      console.error('Error deleting unit:', error)
+      toast.error(error.message || 'Failed to delete unit')
+    }
+  }
+
+  const inputClassName = 'w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500 text-sm'
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h3 className="text-lg font-semibold">{equipment.name}</h3>
+              <p className="text-sm text-gray-600">Units and serial numbers</p>
+            </div>
+            <button onClick={onClose} className="p-1 text-gray-600 hover:text-gray-900">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Serial Number
+              </label>
+              <input
+                type="text"
+                value={form.serial_number}
+                onChange={(e) => setForm(prev => ({ ...prev, serial_number: e.target.value }))}
+                required
+                className={inputClassName}
+              />
+            </div>
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Purchase Date
+              </label>
+              <input
+                type="date"
+                value={form.purchase_date}
+                onChange={(e) => setForm(prev => ({ ...prev, purchase_date: e.target.value }))}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Condition
+              </label>
+              <select
+                value={form.condition}
+                onChange={(e) => setForm(prev => ({ ...prev, condition: e.target.value as UnitCondition }))}
+                className={inputClassName}
+              >
+                {Object.entries(UNIT_CONDITIONS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Status
+              </label>
+              {form.status === 'rented' ? (
+                <div className="text-sm py-2">{UNIT_STATUSES.rented}</div>
+              ) : (
+                <select
+                  value={form.status}
+                  onChange={(e) => setForm(prev => ({ ...prev, status: e.target.value as UnitStatus }))}
+                  className={inputClassName}
+                >
+                  {MANUAL_UNIT_STATUSES.map(status => (
+                    <option key={status} value={status}>{UNIT_STATUSES[status]}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Notes
+              </label>
+              <input
+                type="text"
+                value={form.notes}
+                onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+                className={inputClassName}
+              />
+            </div>
+            <div className="col-span-2 md:col-span-4 flex space-x-3">
+              <button type="submit" disabled={saving} className="btn btn-primary">
+                {saving ? (
+                  <>
+                    <LoadingSpinner size="sm" className="mr-2" />
+                    Saving...
+                  </>
+                ) : (
+                  editingUnit ? 'Update Unit' : 'Add Unit'
+                )}
+              </button>
+              {editingUnit && (
+                <button type="button" onClick={resetForm} className="btn btn-outline">
+                  Cancel
+                </button>
+              )}
+            </div>
+          </form>
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <LoadingSpinner size="lg" />
+            </div>
+          ) : units.length > 0 ? (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 bg-gray-50">
+                  <th className="text-left py-2 px-3">Serial</th>
+                  <th className="text-left py-2 px-3">Purchased</th>
+                  <th className="text-left py-2 px-3">Condition</th>
+                  <th className="text-left py-2 px-3">Status</th>
+                  <th className="text-right py-2 px-3">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {units.map(unit => (
+                  <tr key={unit.id} className="border-b border-gray-100">
+                    <td className="py-2 px-3">
+                      <div className="font-medium">{unit.serial_number}</div>
+                      {unit.notes && <div className="text-xs text-gray-500">{unit.notes}</div>}
+                    </td>
+                    <td className="py-2 px-3">
+                      {unit.purchase_date ? new Date(unit.purchase_date).toLocaleDateString('en-IN') : '—'}
+                    </td>
+                    <td className="py-2 px-3">{UNIT_CONDITIONS[unit.condition]}</td>
+                    <td className="py-2 px-3">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusStyles[unit.status]}`}>
+                        {UNIT_STATUSES[unit.status]}
+                      </span>
+                    </td>
+                    <td className="py-2 px-3 text-right">
+                      <div className="flex justify-end space-x-1">
+                        <button
+                          onClick={() => handleEdit(unit)}
+                          className="p-1 text-gray-600 hover:text-primary-600"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(unit)}
+                          className="p-1 text-gray-600 hover:text-red-600"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-gray-500 text-center py-8">
+              No units yet — add one so this model can be rented
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,158 @@
+import React, { useState } from 'react'
+import { X } from 'lucide-react'
+import { NewOrderExtension, Order, db } from '../lib/supabase'
+import { DAY_HOURS } from '../lib/pricing'
+import { buildOrderExtension, getExtendedDueAt } from '../lib/extensions'
+import { getCustomerName } from '../lib/orders'
+import { DurationSelect } from './DurationSelect'
+import { LoadingSpinner } from './LoadingSpinner'
+import toast from 'react-hot-toast'
+
+interface ExtendOrderModalProps {
+  order: Order
+  onClose: () => void
+  onExtended: (order: Order) => void
+}
+
+export function ExtendOrderModal({ order, onClose, onExtended }: ExtendOrderModalProps) {
+  const items = order.items || []
+  const [extraHours, setExtraHours] = useState(DAY_HOURS)
+  const [selectedIds, setSelectedIds] = useState<string[]>(items.map(item => item.id))
+  const [saving, setSaving] = useState(false)
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      minimumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  const formatDateTime = (date: Date) => {
+    return date.toLocaleString('en-IN', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  const selected = items.filter(item => selectedIds.includes(item.id))
+  let lines: NewOrderExtension[] = []
+  let pricingError: string | null = null
+  try {
+    lines = selected.map(item => buildOrderExtension(order, item, extraHours))
+  } catch (error: any) {
+    pricingError = error.message
+  }
+  const total = lines.reduce((sum, line) => sum + line.total, 0)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (lines.length === 0) {
+      toast.error('Choose at least one item to extend')
+      return
+    }
+
+    setSaving(true)
+
+    try {
+      const extended = await db.extendOrder(order.id, extraHours, lines)
+      toast.success(`Rental extended, ${formatCurrency(total)} added to the invoice`)
+      onExtended(extended)
+    } catch (error: any) {
+      console.error('Error extending rental:', error)
+      toast.error(error.message || 'Failed to extend rental')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h3 className="text-lg font-semibold">Extend Rental</h3>
+              <p className="text-sm text-gray-600">{getCustomerName(order)}</p>
+            </div>
+            <button onClick={onClose} className="p-1 text-gray-600 hover:text-gray-900">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Extra Time
+              </label>
+              <DurationSelect value={extraHours} onChange={setExtraHours} />
+            </div>
+
+            <div className="space-y-2">
+              {items.map(item => {
+                const line = lines.find(current => current.order_item_id === item.id)
+                return (
+                  <label key={item.id} className="flex items-start justify-between text-sm border border-gray-200 rounded-md p-3">
+                    <span className="flex items-start">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(item.id)}
+                        onChange={(e) => setSelectedIds(prev =>
+                          e.target.checked ? [...prev, item.id] : prev.filter(id => id !== item.id)
+                        )}
+                        className="rounded border-gray-300 text-primary-600 focus:ring-primary-500 mr-2 mt-0.5"
+                      />
+                      <span>
+                        <span className="font-medium">{item.equipment?.name || 'Unknown Equipment'}</span>
+                        {item.unit && <span className="text-xs text-gray-500"> · S/N {item.unit.serial_number}</span>}
+                        <span className="block text-xs text-gray-500">
+                          Due {formatDateTime(new Date(item.due_at))}
+                          {line && ` → ${formatDateTime(getExtendedDueAt(item, extraHours))}`}
+                        </span>
+                      </span>
+                    </span>
+                    {line && <span className="font-medium">{formatCurrency(line.total)}</span>}
+                  </label>
+                )
+              })}
+            </div>
+
+            {pricingError ? (
+              <p className="text-sm text-red-600">{pricingError}</p>
+            ) : (
+              <div className="flex justify-between font-semibold text-gray-900 border-t border-gray-200 pt-2">
+                <span>Added to the invoice (incl. GST)</span>
+                <span>{formatCurrency(total)}</span>
+              </div>
+            )}
+
+            <p className="text-xs text-gray-500">
+              Each item is repriced for its whole new duration and billed the difference. The extension is refused
+              if a unit is booked by another order before its new due time.
+            </p>
+
+            <div className="flex space-x-3">
+              <button type="submit" disabled={saving || lines.length === 0} className="btn btn-primary flex-1">
+                {saving ? (
+                  <>
+                    <LoadingSpinner size="sm" className="mr-2" />
+                    Saving...
+                  </>
+                ) : (
+                  'Extend'
+                )}
+              </button>
+              <button type="button" onClick={onClose} className="btn btn-outline flex-1">
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
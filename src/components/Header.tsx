@@ -3,9 +3,10 @@ import { Link } from 'react-router-dom'
 import { Camera } from 'lucide-react'
 import { useAuth } from '../contexts/AuthContext'
 import { ProfileDropdown } from './ProfileDropdown'
+import { ADMIN_PANEL_PERMISSIONS } from '../lib/permissions'
 
 export function Header() {
-  const { user } = useAuth()
+  const { user, can } = useAuth()
 
   return (
     <header className="bg-white shadow-sm border-b">
@@ -37,9 +38,9 @@ export function Header() {
                   to="/orders"
                   className="text-gray-700 hover:text-primary-600 transition-colors"
                 >
-                  {user.role === 'customer' ? 'My Orders' : 'Orders'}
+                  {can('orders.view') ? 'Orders' : 'My Orders'}
                 </Link>
-                {(user.role === 'admin' || user.role === 'staff') && (
+                {can(ADMIN_PANEL_PERMISSIONS) && (
                   <Link
                     to="/admin"
                     className="text-gray-700 hover:text-primary-600 transition-colors"
@@ -0,0 +1,167 @@
+import React, { useState } from 'react'
+import { X, Camera } from 'lucide-react'
+import { InspectionCondition, InspectionItemResult, InspectionKind, Order, OrderInspection, db } from '../lib/supabase'
+import { INSPECTION_CONDITIONS, INSPECTION_KINDS, buildInspectionItems, getChecklist } from '../lib/inspections'
+import { getCustomerName } from '../lib/orders'
+import { LoadingSpinner } from './LoadingSpinner'
+import toast from 'react-hot-toast'
+
+interface InspectionModalProps {
+  order: Order
+  kind: InspectionKind
+  submitLabel: string
+  onClose: () => void
+  onSaved: (inspection: OrderInspection) => void
+}
+
+export function InspectionModal({ order, kind, submitLabel, onClose, onSaved }: InspectionModalProps) {
+  const [items, setItems] = useState<InspectionItemResult[]>(() => buildInspectionItems(order, kind))
+  // Picked photos per order item, uploaded when the inspection is saved
+  const [photos, setPhotos] = useState<Record<string, File[]>>({})
+  const [notes, setNotes] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const updateItem = (orderItemId: string, updates: Partial<InspectionItemResult>) => {
+    setItems(prev => prev.map(item => item.order_item_id === orderItemId ? { ...item, ...updates } : item))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+
+    try {
+      const results: InspectionItemResult[] = []
+      for (const item of items) {
+        const paths: string[] = []
+        for (const file of photos[item.order_item_id] || []) {
+          paths.push(await db.uploadInspectionPhoto(order.id, kind, file))
+        }
+        results.push({ ...item, notes: item.notes?.trim() || null, photo_paths: paths })
+      }
+
+      const inspection = await db.createOrderInspection(order.id, {
+        kind,
+        items: results,
+        notes: notes.trim() || null,
+      })
+      onSaved(inspection)
+    } catch (error: any) {
+      console.error('Error saving inspection:', error)
+      toast.error(error.message || 'Failed to save inspection')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClassName = 'w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500'
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h3 className="text-lg font-semibold">{INSPECTION_KINDS[kind]} Inspection</h3>
+              <p className="text-sm text-gray-600">{getCustomerName(order)}</p>
+            </div>
+            <button onClick={onClose} className="p-1 text-gray-600 hover:text-gray-900">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {(order.items || []).map(orderItem => {
+              const result = items.find(item => item.order_item_id === orderItem.id)
+              if (!result) return null
+              const picked = photos[orderItem.id] || []
+
+              return (
+                <div key={orderItem.id} className="border border-gray-200 rounded-md p-4">
+                  <div className="flex justify-between items-start mb-3">
+                    <div>
+                      <div className="font-medium text-gray-900">{orderItem.equipment?.name || 'Unknown Equipment'}</div>
+                      {orderItem.unit && (
+                        <div className="text-xs text-gray-500">S/N {orderItem.unit.serial_number}</div>
+                      )}
+                    </div>
+                    <label className="btn btn-outline text-xs cursor-pointer">
+                      <Camera className="h-4 w-4 mr-1" />
+                      {picked.length > 0 ? `${picked.length} photo${picked.length > 1 ? 's' : ''}` : 'Add photos'}
+                      <input
+                        type="file"
+                        accept="image/*"
+                        multiple
+                        onChange={(e) => {
+                          const files = Array.from(e.target.files || [])
+                          setPhotos(prev => ({ ...prev, [orderItem.id]: files }))
+                        }}
+                        className="hidden"
+                      />
+                    </label>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-2 mb-3">
+                    {getChecklist(orderItem).map(check => (
+                      <div key={check.key} className="flex items-center justify-between text-sm">
+                        <span className="text-gray-700">{check.label}</span>
+                        <select
+                          value={result.checks[check.key] || 'ok'}
+                          onChange={(e) => updateItem(orderItem.id, {
+                            checks: { ...result.checks, [check.key]: e.target.value as InspectionCondition },
+                          })}
+                          className={`rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500 text-sm ${
+                            (result.checks[check.key] || 'ok') === 'ok' ? '' : 'text-red-600'
+                          }`}
+                        >
+                          {Object.entries(INSPECTION_CONDITIONS).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+
+                  <input
+                    type="text"
+                    value={result.notes || ''}
+                    onChange={(e) => updateItem(orderItem.id, { notes: e.target.value })}
+                    placeholder="Notes, e.g. scuff on top plate"
+                    className={`${inputClassName} text-sm`}
+                  />
+                </div>
+              )
+            })}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                General Notes
+              </label>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                className={inputClassName}
+              />
+            </div>
+
+            <div className="flex space-x-3">
+              <button type="submit" disabled={saving} className="btn btn-primary flex-1">
+                {saving ? (
+                  <>
+                    <LoadingSpinner size="sm" className="mr-2" />
+                    Saving...
+                  </>
+                ) : (
+                  submitLabel
+                )}
+              </button>
+              <button type="button" onClick={onClose} className="btn btn-outline flex-1">
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,247 @@
+import React, { useState } from 'react'
+import { X, Image } from 'lucide-react'
+import { Order, db } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  INSPECTION_CONDITIONS,
+  INSPECTION_KINDS,
+  compareInspections,
+  describeInspectionChanges,
+  getChecklist,
+  getInspection,
+} from '../lib/inspections'
+import { buildOrderCharge } from '../lib/charges'
+import { getCustomerName } from '../lib/orders'
+import { LoadingSpinner } from './LoadingSpinner'
+import toast from 'react-hot-toast'
+
+interface InspectionReportModalProps {
+  order: Order
+  onClose: () => void
+  onCharged: (order: Order) => void
+}
+
+export function InspectionReportModal({ order, onClose, onCharged }: InspectionReportModalProps) {
+  const { can } = useAuth()
+  const checkOut = getInspection(order, 'check_out')
+  const checkIn = getInspection(order, 'check_in')
+  const changes = compareInspections(order)
+  const damageCharge = checkIn?.damage_charge_id
+    ? order.charges?.find(charge => charge.id === checkIn.damage_charge_id) || null
+    : null
+  const [amount, setAmount] = useState(0)
+  const [description, setDescription] = useState(describeInspectionChanges(changes))
+  const [saving, setSaving] = useState(false)
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      minimumFractionDigits: 0,
+    }).format(value)
+  }
+
+  const formatDateTime = (date: string) => {
+    return new Date(date).toLocaleString('en-IN', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  const handleOpenPhoto = async (path: string) => {
+    try {
+      window.open(await db.getInspectionPhotoUrl(path), '_blank', 'noopener')
+    } catch (error: any) {
+      console.error('Error opening photo:', error)
+      toast.error(error.message || 'Failed to open photo')
+    }
+  }
+
+  const handleCharge = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!checkIn) return
+
+    if (amount <= 0) {
+      toast.error('Enter the damage amount')
+      return
+    }
+
+    if (!description.trim()) {
+      toast.error('Describe the damage')
+      return
+    }
+
+    setSaving(true)
+
+    try {
+      const charged = await db.addInspectionDamageCharge(
+        checkIn.id,
+        order.id,
+        buildOrderCharge(order, 'damage', description.trim(), amount)
+      )
+      toast.success(`Damage charge of ${formatCurrency(amount)} added to the invoice`)
+      onCharged(charged)
+    } catch (error: any) {
+      console.error('Error adding damage charge:', error)
+      toast.error(error.message || 'Failed to add damage charge')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClassName = 'w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500'
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h3 className="text-lg font-semibold">Inspection Report</h3>
+              <p className="text-sm text-gray-600">{getCustomerName(order)}</p>
+            </div>
+            <button onClick={onClose} className="p-1 text-gray-600 hover:text-gray-900">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 text-sm mb-4">
+            {[checkOut, checkIn].map((inspection, index) => (
+              <div key={index} className="bg-gray-50 rounded-md p-3">
+                <div className="font-medium text-gray-900">{INSPECTION_KINDS[index === 0 ? 'check_out' : 'check_in']}</div>
+                {inspection ? (
+                  <>
+                    <div className="text-xs text-gray-500">{formatDateTime(inspection.inspected_at)}</div>
+                    {inspection.notes && <p className="text-gray-700 mt-1">{inspection.notes}</p>}
+                  </>
+                ) : (
+                  <div className="text-xs text-gray-500">Not recorded</div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto mb-4">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 bg-gray-50">
+                  <th className="text-left py-2 px-3">Check</th>
+                  <th className="text-left py-2 px-3">Out</th>
+                  <th className="text-left py-2 px-3">In</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(order.items || []).map(item => {
+                  const issued = checkOut?.items.find(result => result.order_item_id === item.id)
+                  const returned = checkIn?.items.find(result => result.order_item_id === item.id)
+                  const photoPaths = [...(issued?.photo_paths || []), ...(returned?.photo_paths || [])]
+
+                  return (
+                    <React.Fragment key={item.id}>
+                      <tr className="border-b border-gray-100 bg-gray-50">
+                        <td colSpan={3} className="py-2 px-3">
+                          <span className="font-medium">{item.equipment?.name || 'Unknown Equipment'}</span>
+                          {item.unit && <span className="text-xs text-gray-500 ml-2">S/N {item.unit.serial_number}</span>}
+                          {photoPaths.map((path, index) => (
+                            <button
+                              key={path}
+                              onClick={() => handleOpenPhoto(path)}
+                              className="p-1 text-gray-600 hover:text-primary-600 ml-1"
+                              title={`Photo ${index + 1}`}
+                            >
+                              <Image className="h-4 w-4" />
+                            </button>
+                          ))}
+                        </td>
+                      </tr>
+                      {getChecklist(item).map(check => {
+                        const changed = changes.some(change => change.item.id === item.id && change.check.key === check.key)
+                        return (
+                          <tr key={check.key} className={`border-b border-gray-100 ${changed ? 'text-red-600' : ''}`}>
+                            <td className="py-1 px-3">{check.label}</td>
+                            <td className="py-1 px-3">{issued ? INSPECTION_CONDITIONS[issued.checks[check.key] || 'ok'] : '—'}</td>
+                            <td className="py-1 px-3">{returned ? INSPECTION_CONDITIONS[returned.checks[check.key] || 'ok'] : '—'}</td>
+                          </tr>
+                        )
+                      })}
+                      {(issued?.notes || returned?.notes) && (
+                        <tr className="border-b border-gray-100 text-xs text-gray-600">
+                          <td className="py-1 px-3">Notes</td>
+                          <td className="py-1 px-3">{issued?.notes}</td>
+                          <td className="py-1 px-3">{returned?.notes}</td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {checkIn && (damageCharge || can('orders.charge')) && (
+            damageCharge ? (
+              <p className="text-sm text-gray-700">
+                Damage charge of <span className="font-medium">{formatCurrency(damageCharge.total)}</span> added:
+                {' '}{damageCharge.description}
+              </p>
+            ) : (
+              <form onSubmit={handleCharge} className="space-y-3 border-t border-gray-200 pt-4">
+                <p className="text-sm text-gray-700">
+                  {changes.length === 0
+                    ? 'Nothing came back worse than it went out'
+                    : checkOut
+                      ? `${changes.length} check${changes.length > 1 ? 's' : ''} came back worse than at check-out`
+                      : `${changes.length} check${changes.length > 1 ? 's' : ''} not OK on return; there is no check-out inspection to compare with`}
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Damage (₹, before GST)
+                    </label>
+                    <input
+                      type="number"
+                      value={amount}
+                      onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+                      min="0"
+                      step="0.01"
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Description
+                    </label>
+                    <input
+                      type="text"
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+                <div className="flex space-x-3">
+                  <button type="submit" disabled={saving || amount <= 0} className="btn btn-primary flex-1">
+                    {saving ? (
+                      <>
+                        <LoadingSpinner size="sm" className="mr-2" />
+                        Saving...
+                      </>
+                    ) : (
+                      'Add Damage Charge'
+                    )}
+                  </button>
+                  <button type="button" onClick={onClose} className="btn btn-outline flex-1">
+                    {changes.length > 0 ? 'No Charge' : 'Close'}
+                  </button>
+                </div>
+              </form>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
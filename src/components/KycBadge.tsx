@@ -0,0 +1,24 @@
+import React from 'react'
+import { Customer } from '../lib/supabase'
+import { KYC_STATUS_LABELS, KycStatus, getKycStatus } from '../lib/kyc'
+
+interface KycBadgeProps {
+  customer: Customer
+  at?: Date
+}
+
+const statusStyles: Record<KycStatus, string> = {
+  verified: 'bg-green-100 text-green-800',
+  unverified: 'bg-yellow-100 text-yellow-800',
+  expired: 'bg-red-100 text-red-800',
+}
+
+export function KycBadge({ customer, at }: KycBadgeProps) {
+  const status = getKycStatus(customer, at)
+
+  return (
+    <span className={`px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap ${statusStyles[status]}`}>
+      {KYC_STATUS_LABELS[status]}
+    </span>
+  )
+}
\ No newline at end of file
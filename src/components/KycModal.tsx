@@ -0,0 +1,174 @@
+import React, { useState } from 'react'
+import { X, Upload, FileText, ShieldCheck } from 'lucide-react'
+import { Customer, db } from '../lib/supabase'
+import { ID_TYPES } from '../lib/kyc'
+import { KycBadge } from './KycBadge'
+import { LoadingSpinner } from './LoadingSpinner'
+import toast from 'react-hot-toast'
+
+interface KycModalProps {
+  customer: Customer
+  onClose: () => void
+  onUpdated: (customer: Customer) => void
+}
+
+export function KycModal({ customer, onClose, onUpdated }: KycModalProps) {
+  const [current, setCurrent] = useState(customer)
+  const [uploading, setUploading] = useState(false)
+  const [verifying, setVerifying] = useState(false)
+
+  const formatDateTime = (date: string) => {
+    return new Date(date).toLocaleString('en-IN', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  const handleUpdated = (updated: Customer) => {
+    setCurrent(updated)
+    onUpdated(updated)
+  }
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setUploading(true)
+
+    try {
+      handleUpdated(await db.uploadKycScan(current.id, file))
+      toast.success('ID scan uploaded')
+    } catch (error: any) {
+      console.error('Error uploading ID scan:', error)
+      toast.error(error.message || 'Failed to upload ID scan')
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const handleViewScan = async () => {
+    if (!current.id_scan_path) return
+
+    try {
+      window.open(await db.getKycScanUrl(current.id_scan_path), '_blank', 'noopener')
+    } catch (error: any) {
+      console.error('Error opening ID scan:', error)
+      toast.error(error.message || 'Failed to open ID scan')
+    }
+  }
+
+  const handleVerify = async () => {
+    setVerifying(true)
+
+    try {
+      handleUpdated(await db.verifyCustomerKyc(current.id))
+      toast.success(`${current.name}'s ID verified`)
+    } catch (error: any) {
+      console.error('Error verifying customer:', error)
+      toast.error(error.message || 'Failed to verify customer')
+    } finally {
+      setVerifying(false)
+    }
+  }
+
+  const hasIdDetails = Boolean(current.id_type && current.id_number)
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4">
+        <div className="p-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h3 className="text-lg font-semibold">ID Verification</h3>
+              <p className="text-sm text-gray-600">{current.name}</p>
+            </div>
+            <button onClick={onClose} className="p-1 text-gray-600 hover:text-gray-900">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="space-y-2 text-sm mb-4">
+            <div className="flex justify-between">
+              <span className="text-gray-600">Status</span>
+              <KycBadge customer={current} />
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">ID</span>
+              <span className="font-medium">
+                {hasIdDetails ? `${ID_TYPES[current.id_type!]} ${current.id_number}` : 'Not recorded'}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Expiry</span>
+              <span>{current.id_expiry ? new Date(current.id_expiry).toLocaleDateString('en-IN') : '—'}</span>
+            </div>
+            {current.kyc_verified_at && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Verified</span>
+                <span className="text-right">
+                  {formatDateTime(current.kyc_verified_at)}
+                  {current.verifier && <span className="block text-xs text-gray-500">by {current.verifier.name}</span>}
+                </span>
+              </div>
+            )}
+          </div>
+
+          {!hasIdDetails && (
+            <p className="text-sm text-yellow-700 bg-yellow-50 rounded-md px-3 py-2 mb-4">
+              Edit the customer to record their ID type and number before verifying
+            </p>
+          )}
+
+          <div className="flex items-center justify-between border border-gray-200 rounded-md px-3 py-2 mb-4 text-sm">
+            {current.id_scan_path ? (
+              <button onClick={handleViewScan} className="flex items-center text-primary-600 hover:text-primary-700">
+                <FileText className="h-4 w-4 mr-2" />
+                View scan
+              </button>
+            ) : (
+              <span className="text-gray-500">No scan uploaded</span>
+            )}
+            <label className="btn btn-outline cursor-pointer">
+              {uploading ? <LoadingSpinner size="sm" className="mr-2" /> : <Upload className="h-4 w-4 mr-2" />}
+              {current.id_scan_path ? 'Replace' : 'Upload'}
+              <input
+                type="file"
+                accept="image/*,application/pdf"
+                onChange={handleUpload}
+                disabled={uploading}
+                className="hidden"
+              />
+            </label>
+          </div>
+
+          <div className="flex space-x-3">
+            <button
+              onClick={handleVerify}
+              disabled={verifying || !hasIdDetails || Boolean(current.kyc_verified_at)}
+              className="btn btn-primary flex-1"
+            >
+              {verifying ? (
+                <>
+                  <LoadingSpinner size="sm" className="mr-2" />
+                  Verifying...
+                </>
+              ) : (
+                <>
+                  <ShieldCheck className="h-4 w-4 mr-2" />
+                  Mark as Verified
+                </>
+              )}
+            </button>
+            <button onClick={onClose} className="btn btn-outline flex-1">
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -1,14 +1,17 @@
 import React from 'react'
 import { Link, useNavigate } from 'react-router-dom'
-import { Camera, User, LogOut, Settings } from 'lucide-react'
+import { Camera, User, LogOut, Settings, ShoppingCart } from 'lucide-react'
 import { useAuth } from '../contexts/AuthContext'
+import { useCart } from '../contexts/CartContext'
+import { ADMIN_PANEL_PERMISSIONS, ROLES } from '../lib/permissions'
 
 interface LayoutProps {
   children: React.ReactNode
 }
 
 export function Layout({ children }: LayoutProps) {
-  const { user, signOut } = useAuth()
+  const { user, signOut, can } = useAuth()
+  const { items: cartItems } = useCart()
   const navigate = useNavigate()
 
   const handleSignOut = async () => {
@@ -20,23 +23,16 @@ export function Layout({ children }: LayoutProps) {
     }
   }
 
-  const getDashboardLink = () => {
-    if (!user) return null
-    
-    if (user.role === 'admin') {
-      return { path: '/admin', label: 'Admin Panel' }
-    } else if (user.role === 'staff') {
-      return { path: '/staff', label: 'Staff Dashboard' }
-    }
-    return null
-  }
-
-  const dashboardLink = getDashboardLink()
+  // Each role sees the screens its permissions open, matching the route guards in App
+  const dashboardLinks = [
+    { path: '/staff', label: 'Staff Dashboard', visible: can('orders.view') },
+    { path: '/admin', label: 'Admin Panel', visible: can(ADMIN_PANEL_PERMISSIONS) },
+  ].filter(link => link.visible)
 
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
-      <header className="bg-white shadow-sm border-b">
+      <header className="bg-white shadow-sm border-b print:hidden">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex justify-between items-center h-16">
             <Link to="/" className="flex items-center space-x-2">
@@ -54,12 +50,41 @@ export function Layout({ children }: LayoutProps) {
                 Equipment
               </Link>
               
-              {dashboardLink && (
+              {dashboardLinks.map(link => (
+                <Link
+                  key={link.path}
+                  to={link.path}
+                  className="text-gray-700 hover:text-primary-600 transition-colors"
+                >
+                  {link.label}
+                </Link>
+              ))}
+
+              {user && (
                 <Link
-                  to={dashboardLink.path}
+                  to="/orders"
                   className="text-gray-700 hover:text-primary-600 transition-colors"
                 >
-                  {dashboardLink.label}
+                  Orders
+                </Link>
+              )}
+
+              {can('customers.view') && (
+                <Link
+                  to="/customers"
+                  className="text-gray-700 hover:text-primary-600 transition-colors"
+                >
+                  Customers
+                </Link>
+              )}
+
+              {can('orders.create') && cartItems.length > 0 && (
+                <Link
+                  to="/staff"
+                  className="flex items-center text-gray-700 hover:text-primary-600 transition-colors"
+                >
+                  <ShoppingCart className="h-4 w-4 mr-1" />
+                  Cart ({cartItems.length})
                 </Link>
               )}
             </nav>
@@ -69,7 +94,7 @@ export function Layout({ children }: LayoutProps) {
                 <div className="flex items-center space-x-3">
                   <div className="text-sm">
                     <div className="font-medium text-gray-900">{user.name}</div>
-                    <div className="text-xs text-gray-500 capitalize">{user.role}</div>
+                    <div className="text-xs text-gray-500">{ROLES[user.role]}</div>
                   </div>
                   <button
                     onClick={handleSignOut}
@@ -0,0 +1,275 @@
+import React, { useEffect, useState } from 'react'
+import { X } from 'lucide-react'
+import { Equipment, EquipmentUnit, MaintenanceTicket, db } from '../lib/supabase'
+import { UNIT_STATUSES } from '../lib/units'
+import { LoadingSpinner } from './LoadingSpinner'
+import toast from 'react-hot-toast'
+
+interface MaintenanceTicketModalProps {
+  // Null when opening a new ticket
+  ticket: MaintenanceTicket | null
+  catalog: Equipment[]
+  onClose: () => void
+  onSaved: () => void
+}
+
+// Date inputs work in local dates, the database in timestamps
+const toDateInput = (date: string) => {
+  const value = new Date(date)
+  const pad = (part: number) => String(part).padStart(2, '0')
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`
+}
+
+const fromDateInput = (value: string) => new Date(`${value}T00:00`).toISOString()
+
+export function MaintenanceTicketModal({ ticket, catalog, onClose, onSaved }: MaintenanceTicketModalProps) {
+  const today = toDateInput(new Date().toISOString())
+  const [equipmentId, setEquipmentId] = useState(ticket?.equipment_id || '')
+  const [units, setUnits] = useState<EquipmentUnit[]>([])
+  const [form, setForm] = useState({
+    unit_id: ticket?.unit_id || '',
+    reason: ticket?.reason || '',
+    vendor: ticket?.vendor || '',
+    cost: ticket?.cost || 0,
+    notes: ticket?.notes || '',
+    opened_on: ticket ? toDateInput(ticket.opened_at) : today,
+    closed: ticket ? ticket.closed_at !== null : false,
+    closed_on: ticket?.closed_at ? toDateInput(ticket.closed_at) : today,
+  })
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!equipmentId) {
+      setUnits([])
+      return
+    }
+    loadUnits()
+  }, [equipmentId])
+
+  const loadUnits = async () => {
+    try {
+      const data = await db.getEquipmentUnits(equipmentId)
+      setUnits(data.filter(unit => unit.status !== 'retired' || unit.id === ticket?.unit_id))
+    } catch (error: any) {
+      console.error('Error loading units:', error)
+      toast.error(error.message || 'Failed to load units')
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (form.closed && form.closed_on < form.opened_on) {
+      toast.error('A ticket cannot close before it was opened')
+      return
+    }
+
+    const values = {
+      unit_id: form.unit_id,
+      reason: form.reason.trim(),
+      vendor: form.vendor.trim() || null,
+      cost: form.cost,
+      notes: form.notes.trim() || null,
+      // Keep the exact time unless the date itself was changed
+      opened_at: ticket && form.opened_on === toDateInput(ticket.opened_at)
+        ? ticket.opened_at
+        : form.opened_on === today ? new Date().toISOString() : fromDateInput(form.opened_on),
+      closed_at: !form.closed
+        ? null
+        : ticket?.closed_at && form.closed_on === toDateInput(ticket.closed_at)
+          ? ticket.closed_at
+          : form.closed_on === today ? new Date().toISOString() : fromDateInput(form.closed_on),
+    }
+
+    setSaving(true)
+
+    try {
+      if (ticket) {
+        await db.updateMaintenanceTicket(ticket.id, values)
+        toast.success(values.closed_at && !ticket.closed_at ? 'Ticket closed, unit back in service' : 'Ticket updated')
+      } else {
+        await db.createMaintenanceTicket(values)
+        toast.success(values.closed_at ? 'Repair recorded' : 'Ticket opened, unit taken out of service')
+      }
+      onSaved()
+      onClose()
+    } catch (error: any) {
+      console.error('Error saving ticket:', error)
+      toast.error(error.message || 'Failed to save ticket')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClassName = 'w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500'
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-start mb-4">
+            <h3 className="text-lg font-semibold">{ticket ? 'Maintenance Ticket' : 'Open Maintenance Ticket'}</h3>
+            <button onClick={onClose} className="p-1 text-gray-600 hover:text-gray-900">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Equipment
+                </label>
+                <select
+                  value={equipmentId}
+                  onChange={(e) => {
+                    setEquipmentId(e.target.value)
+                    setForm(prev => ({ ...prev, unit_id: '' }))
+                  }}
+                  required
+                  className={inputClassName}
+                >
+                  <option value="">Choose equipment...</option>
+                  {catalog.map(item => (
+                    <option key={item.id} value={item.id}>{item.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Unit
+                </label>
+                <select
+                  value={form.unit_id}
+                  onChange={(e) => setForm(prev => ({ ...prev, unit_id: e.target.value }))}
+                  required
+                  disabled={!equipmentId}
+                  className={inputClassName}
+                >
+                  <option value="">Choose unit...</option>
+                  {units.map(unit => (
+                    <option key={unit.id} value={unit.id}>
+                      {unit.serial_number} ({UNIT_STATUSES[unit.status]})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Reason
+              </label>
+              <input
+                type="text"
+                value={form.reason}
+                onChange={(e) => setForm(prev => ({ ...prev, reason: e.target.value }))}
+                placeholder="e.g. Sensor cleaning, AF motor fault"
+                required
+                className={inputClassName}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Vendor
+                </label>
+                <input
+                  type="text"
+                  value={form.vendor}
+                  onChange={(e) => setForm(prev => ({ ...prev, vendor: e.target.value }))}
+                  placeholder="In-house if empty"
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Cost (₹)
+                </label>
+                <input
+                  type="number"
+                  value={form.cost}
+                  onChange={(e) => setForm(prev => ({ ...prev, cost: parseFloat(e.target.value) || 0 }))}
+                  min="0"
+                  step="0.01"
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Opened
+                </label>
+                <input
+                  type="date"
+                  value={form.opened_on}
+                  onChange={(e) => setForm(prev => ({ ...prev, opened_on: e.target.value }))}
+                  max={today}
+                  required
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="flex items-center text-sm font-medium text-gray-700 mb-1">
+                  <input
+                    type="checkbox"
+                    checked={form.closed}
+                    onChange={(e) => setForm(prev => ({ ...prev, closed: e.target.checked }))}
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500 mr-2"
+                  />
+                  Closed
+                </label>
+                <input
+                  type="date"
+                  value={form.closed_on}
+                  onChange={(e) => setForm(prev => ({ ...prev, closed_on: e.target.value }))}
+                  min={form.opened_on}
+                  max={today}
+                  disabled={!form.closed}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Notes
+              </label>
+              <textarea
+                value={form.notes}
+                onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+                rows={3}
+                className={inputClassName}
+              />
+            </div>
+
+            {!form.closed && (
+              <p className="text-xs text-gray-500">
+                The unit cannot be rented while this ticket is open.
+              </p>
+            )}
+
+            <div className="flex space-x-3">
+              <button type="submit" disabled={saving} className="btn btn-primary flex-1">
+                {saving ? (
+                  <>
+                    <LoadingSpinner size="sm" className="mr-2" />
+                    Saving...
+                  </>
+                ) : (
+                  ticket ? 'Save Ticket' : 'Open Ticket'
+                )}
+              </button>
+              <button type="button" onClick={onClose} className="btn btn-outline flex-1">
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,32 @@
+import React from 'react'
+import { Order } from '../lib/supabase'
+import { formatDuration } from '../lib/pricing'
+import { getExtendedHours } from '../lib/extensions'
+
+interface OrderItemsSummaryProps {
+  order: Order
+}
+
+export function OrderItemsSummary({ order }: OrderItemsSummaryProps) {
+  const items = order.items || []
+
+  if (items.length === 0) {
+    return <span>Unknown Equipment</span>
+  }
+
+  return (
+    <div className="space-y-0.5">
+      {items.map(item => (
+        <div key={item.id}>
+          {item.equipment?.name || 'Unknown Equipment'}
+          {item.unit && <span className="text-xs text-gray-500"> · S/N {item.unit.serial_number}</span>}
+          {item.bundle && <span className="text-xs text-primary-700"> · {item.bundle.name}</span>}
+          <span className="text-xs text-gray-500"> · {formatDuration(item.duration_hours)}</span>
+          {getExtendedHours(order, item) > 0 && (
+            <span className="text-xs text-blue-700"> (extended {formatDuration(getExtendedHours(order, item))})</span>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
\ No newline at end of file
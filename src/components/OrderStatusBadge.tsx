@@ -0,0 +1,24 @@
+import React from 'react'
+import { OrderStatus } from '../lib/supabase'
+
+interface OrderStatusBadgeProps {
+  status: OrderStatus
+}
+
+const statusStyles: Record<OrderStatus, { label: string; className: string }> = {
+  reserved: { label: 'Reserved', className: 'bg-blue-100 text-blue-800' },
+  checked_out: { label: 'Checked Out', className: 'bg-yellow-100 text-yellow-800' },
+  returned: { label: 'Returned', className: 'bg-green-100 text-green-800' },
+  overdue: { label: 'Overdue', className: 'bg-red-100 text-red-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-100 text-gray-800' },
+}
+
+export function OrderStatusBadge({ status }: OrderStatusBadgeProps) {
+  const { label, className } = statusStyles[status] || statusStyles.checked_out
+
+  return (
+    <span className={`px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap ${className}`}>
+      {label}
+    </span>
+  )
+}
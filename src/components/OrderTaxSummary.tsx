@@ -0,0 +1,37 @@
+import React from 'react'
+import { Order } from '../lib/supabase'
+
+interface OrderTaxSummaryProps {
+  order: Order
+}
+
+export function OrderTaxSummary({ order }: OrderTaxSummaryProps) {
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      minimumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  // Orders placed before GST was recorded carry no breakdown
+  if (!order.tax) {
+    return <span className="text-gray-400">—</span>
+  }
+
+  const { tax } = order
+
+  return (
+    <div className="space-y-0.5">
+      {tax.inter_state ? (
+        <div>IGST {formatCurrency(tax.igst)}</div>
+      ) : (
+        <>
+          <div>CGST {formatCurrency(tax.cgst)}</div>
+          <div>SGST {formatCurrency(tax.sgst)}</div>
+        </>
+      )}
+      <div className="text-xs text-gray-500">on {formatCurrency(tax.taxable_value)}</div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -2,6 +2,7 @@ import React, { useState } from 'react'
 import { User, Settings, LogOut, Camera } from 'lucide-react'
 import { useAuth } from '../contexts/AuthContext'
 import { ProfileModal } from './ProfileModal'
+import { ROLES, ROLE_BADGE_COLORS } from '../lib/permissions'
 
 export function ProfileDropdown() {
   const { user, signOut } = useAuth()
@@ -10,32 +11,6 @@ export function ProfileDropdown() {
 
   if (!user) return null
 
-  const getRoleDisplayName = (role: string) => {
-    switch (role) {
-      case 'admin':
-        return 'Admin'
-      case 'staff':
-        return 'Staff'
-      case 'customer':
-        return 'Customer'
-      default:
-        return role
-    }
-  }
-
-  const getRoleBadgeColor = (role: string) => {
-    switch (role) {
-      case 'admin':
-        return 'bg-red-100 text-red-800'
-      case 'staff':
-        return 'bg-blue-100 text-blue-800'
-      case 'customer':
-        return 'bg-green-100 text-green-800'
-      default:
-        return 'bg-gray-100 text-gray-800'
-    }
-  }
-
   const handleSignOut = async () => {
     try {
       await signOut()
@@ -71,8 +46,8 @@ export function ProfileDropdown() {
                 <div className="flex-1">
                   <div className="font-medium text-gray-900">{user.name}</div>
                   <div className="text-sm text-gray-500">{user.email}</div>
-                  <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium mt-1 ${getRoleBadgeColor(user.role)}`}>
-                    {getRoleDisplayName(user.role)}
+                  <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium mt-1 ${ROLE_BADGE_COLORS[user.role]}`}>
+                    {ROLES[user.role]}
                   </span>
                 </div>
               </div>
@@ -2,6 +2,7 @@ import React, { useState } from 'react'
 import { X, User, Mail, Lock, Camera } from 'lucide-react'
 import { useAuth } from '../contexts/AuthContext'
 import { supabase, db } from '../lib/supabase'
+import { ROLES, ROLE_BADGE_COLORS } from '../lib/permissions'
 import toast from 'react-hot-toast'
 
 interface ProfileModalProps {
@@ -131,12 +132,8 @@ export function ProfileModal({ isOpen, onClose }: ProfileModalProps) {
                   )}
                 </div>
                 <div className="text-sm text-gray-600">
-                  <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${
-                    user.role === 'admin' ? 'bg-red-100 text-red-800' :
-                    user.role === 'staff' ? 'bg-blue-100 text-blue-800' :
-                    'bg-green-100 text-green-800'
-                  }`}>
-                    {user.role === 'admin' ? 'Admin' : user.role === 'staff' ? 'Staff' : 'Customer'}
+                  <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${ROLE_BADGE_COLORS[user.role]}`}>
+                    {ROLES[user.role]}
                   </span>
                 </div>
               </div>
@@ -1,15 +1,16 @@
 import React from 'react'
 import { Navigate } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
+import { Permission } from '../lib/permissions'
 
 interface ProtectedRouteProps {
   children: React.ReactNode
-  adminOnly?: boolean
-  staffOnly?: boolean
+  // Any one of these is enough; without it any signed-in user may enter
+  permission?: Permission | Permission[]
 }
 
-export function ProtectedRoute({ children, adminOnly = false, staffOnly = false }: ProtectedRouteProps) {
-  const { user, loading } = useAuth()
+export function ProtectedRoute({ children, permission }: ProtectedRouteProps) {
+  const { user, loading, can } = useAuth()
 
   if (loading) {
     return (
@@ -23,23 +24,12 @@ export function ProtectedRoute({ children, adminOnly = false, staffOnly = false
     return <Navigate to="/login" replace />
   }
 
-  if (adminOnly && user.role !== 'admin') {
+  if (permission && !can(permission)) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
           <h2 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h2>
-          <p className="text-gray-600">Admin access required.</p>
-        </div>
-      </div>
-    )
-  }
-
-  if (staffOnly && !['admin', 'staff'].includes(user.role)) {
-    return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
-        <div className="text-center">
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h2>
-          <p className="text-gray-600">Staff access required.</p>
+          <p className="text-gray-600">Your role does not have access to this page.</p>
         </div>
       </div>
     )
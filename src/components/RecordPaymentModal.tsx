@@ -0,0 +1,251 @@
+import React, { useState } from 'react'
+import { X } from 'lucide-react'
+import { Order, Payment, PaymentKind, PaymentMethod, db } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { getOrderItemNames } from '../lib/orders'
+import { PAYMENT_KINDS, PAYMENT_METHODS, getAmountDue, getAmountPaid, getDepositDue, getDepositHeld, getOutstanding } from '../lib/payments'
+import { LoadingSpinner } from './LoadingSpinner'
+import toast from 'react-hot-toast'
+
+// Releases and deductions go through deposit settlement at check-in
+type EntryKind = Extract<PaymentKind, 'payment' | 'refund' | 'deposit'>
+
+interface RecordPaymentModalProps {
+  order: Order
+  onClose: () => void
+  onRecorded: (payment: Payment) => void
+}
+
+export function RecordPaymentModal({ order, onClose, onRecorded }: RecordPaymentModalProps) {
+  const { user, can } = useAuth()
+  const canRefund = can('orders.refund')
+  const outstanding = getOutstanding(order)
+  const depositDue = getDepositDue(order)
+
+  const suggestedAmount = (entryKind: EntryKind) => {
+    if (entryKind === 'deposit') return depositDue
+    if (entryKind === 'refund') return Math.max(-outstanding, 0)
+    return Math.max(outstanding, 0)
+  }
+
+  const initialKind: EntryKind = outstanding < 0 && canRefund ? 'refund' : outstanding === 0 && depositDue > 0 ? 'deposit' : 'payment'
+  const [kind, setKind] = useState<EntryKind>(initialKind)
+  const [method, setMethod] = useState<PaymentMethod>('cash')
+  const [amount, setAmount] = useState(suggestedAmount(initialKind))
+  const [reference, setReference] = useState('')
+  const [notes, setNotes] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      minimumFractionDigits: 0,
+    }).format(value)
+  }
+
+  const formatDateTime = (date: string) => {
+    return new Date(date).toLocaleString('en-IN', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (amount <= 0) {
+      toast.error('Amount must be greater than zero')
+      return
+    }
+
+    if (kind === 'refund' && amount > getAmountPaid(order)) {
+      toast.error('Refund cannot exceed the amount paid')
+      return
+    }
+
+    setSaving(true)
+
+    try {
+      const payment = await db.recordPayment({
+        order_id: order.id,
+        kind,
+        method,
+        amount,
+        reference: reference.trim() || null,
+        notes: notes.trim() || null,
+        recorded_by: user?.id || null,
+      })
+      toast.success(`${PAYMENT_KINDS[kind]} recorded`)
+      onRecorded(payment)
+    } catch (error: any) {
+      console.error('Error recording payment:', error)
+      toast.error(error.message || 'Failed to record payment')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h3 className="text-lg font-semibold">Record Payment</h3>
+              <p className="text-sm text-gray-600">{getOrderItemNames(order)}</p>
+            </div>
+            <button onClick={onClose} className="p-1 text-gray-600 hover:text-gray-900">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 text-sm mb-4">
+            <div>
+              <div className="text-gray-500">Total</div>
+              <div className="font-semibold">{formatCurrency(getAmountDue(order))}</div>
+            </div>
+            <div>
+              <div className="text-gray-500">Paid</div>
+              <div className="font-semibold">{formatCurrency(getAmountPaid(order))}</div>
+            </div>
+            <div>
+              <div className="text-gray-500">{outstanding < 0 ? 'Refund Due' : 'Outstanding'}</div>
+              <div className={`font-semibold ${outstanding > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {formatCurrency(Math.abs(outstanding))}
+              </div>
+            </div>
+          </div>
+
+          {order.deposit_amount > 0 && (
+            <div className="flex justify-between text-sm bg-gray-50 rounded-md px-3 py-2 mb-4">
+              <span className="text-gray-600">
+                Deposit {formatCurrency(order.deposit_amount)} · held {formatCurrency(getDepositHeld(order))}
+              </span>
+              {depositDue > 0 && <span className="text-red-600 font-medium">Due {formatCurrency(depositDue)}</span>}
+            </div>
+          )}
+
+          {order.payments && order.payments.length > 0 && (
+            <div className="mb-4 border border-gray-200 rounded-md divide-y divide-gray-100 text-sm">
+              {order.payments.map(payment => (
+                <div key={payment.id} className="px-3 py-2 flex justify-between">
+                  <div>
+                    <div className="font-medium">
+                      {PAYMENT_KINDS[payment.kind]} · {PAYMENT_METHODS[payment.method]}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {formatDateTime(payment.created_at)}
+                      {payment.reference && ` · ${payment.reference}`}
+                    </div>
+                  </div>
+                  <div className={
+                    payment.kind === 'refund' || payment.kind === 'deposit_release' ? 'text-red-600' : 'text-green-600'
+                  }>
+                    {payment.kind === 'refund' || payment.kind === 'deposit_release' ? '-' : ''}{formatCurrency(payment.amount)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Type
+                </label>
+                <select
+                  value={kind}
+                  onChange={(e) => {
+                    const entryKind = e.target.value as EntryKind
+                    setKind(entryKind)
+                    setAmount(suggestedAmount(entryKind))
+                  }}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500"
+                >
+                  <option value="payment">Payment</option>
+                  {canRefund && <option value="refund">Refund</option>}
+                  {order.deposit_amount > 0 && <option value="deposit">Deposit</option>}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Method
+                </label>
+                <select
+                  value={method}
+                  onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500"
+                >
+                  {Object.entries(PAYMENT_METHODS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Amount (₹)
+              </label>
+              <input
+                type="number"
+                value={amount}
+                onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+                required
+                min="0"
+                step="0.01"
+                className="w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Reference
+              </label>
+              <input
+                type="text"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder="UPI / card / transfer reference"
+                className="w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Notes
+              </label>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                className="w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+
+            <div className="flex space-x-3">
+              <button type="submit" disabled={saving} className="btn btn-primary flex-1">
+                {saving ? (
+                  <>
+                    <LoadingSpinner size="sm" className="mr-2" />
+                    Saving...
+                  </>
+                ) : (
+                  `Record ${kind === 'deposit' ? 'Deposit' : PAYMENT_KINDS[kind]}`
+                )}
+              </button>
+              <button type="button" onClick={onClose} className="btn btn-outline flex-1">
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
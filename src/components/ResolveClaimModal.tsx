@@ -0,0 +1,222 @@
+import React, { useState } from 'react'
+import { X } from 'lucide-react'
+import { ClaimResolution, DamageClaim, PaymentMethod, db } from '../lib/supabase'
+import { CLAIM_KINDS } from '../lib/claims'
+import { buildOrderCharge } from '../lib/charges'
+import { PAYMENT_METHODS } from '../lib/payments'
+import { getCustomerName } from '../lib/orders'
+import { LoadingSpinner } from './LoadingSpinner'
+import toast from 'react-hot-toast'
+
+interface ResolveClaimModalProps {
+  claim: DamageClaim
+  onClose: () => void
+  onResolved: () => void
+}
+
+export function ResolveClaimModal({ claim, onClose, onResolved }: ResolveClaimModalProps) {
+  const [status, setStatus] = useState<ClaimResolution['status']>('settled')
+  const [actualCost, setActualCost] = useState(claim.estimated_cost)
+  const [liability, setLiability] = useState(claim.customer_liability)
+  const [collectNow, setCollectNow] = useState(false)
+  const [method, setMethod] = useState<PaymentMethod>('cash')
+  const [reference, setReference] = useState('')
+  const [notes, setNotes] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      minimumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!claim.order) return
+
+    if (actualCost < 0 || liability < 0) {
+      toast.error('Amounts cannot be negative')
+      return
+    }
+
+    setSaving(true)
+
+    try {
+      // The liability is what the customer pays in the end, so GST is carved out of it
+      const charge = status === 'settled' && liability > 0
+        ? buildOrderCharge(
+          claim.order,
+          'damage',
+          `${CLAIM_KINDS[claim.kind]}: ${claim.equipment?.name || 'Equipment'}${claim.unit ? ` (S/N ${claim.unit.serial_number})` : ''} - ${claim.description}`,
+          liability,
+          true
+        )
+        : null
+
+      await db.resolveDamageClaim(claim.id, {
+        status,
+        actual_cost: actualCost,
+        charge,
+        payment: charge && collectNow
+          ? { method, amount: charge.total, reference: reference.trim() || null, notes: 'Claim settlement' }
+          : null,
+        notes: notes.trim() || null,
+      })
+      toast.success(
+        status === 'written_off'
+          ? 'Claim written off'
+          : charge
+            ? `Claim settled, ${formatCurrency(charge.total)} ${collectNow ? 'collected' : 'added to the order'}`
+            : 'Claim settled'
+      )
+      onResolved()
+      onClose()
+    } catch (error: any) {
+      console.error('Error resolving claim:', error)
+      toast.error(error.message || 'Failed to resolve claim')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClassName = 'w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500'
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h3 className="text-lg font-semibold">Resolve {CLAIM_KINDS[claim.kind]} Claim</h3>
+              <p className="text-sm text-gray-600">
+                {claim.order ? getCustomerName(claim.order) : 'Unknown Customer'} · {claim.equipment?.name || 'Unknown Equipment'}
+              </p>
+            </div>
+            <button onClick={onClose} className="p-1 text-gray-600 hover:text-gray-900">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <p className="text-sm text-gray-700 mb-4">{claim.description}</p>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Outcome
+              </label>
+              <select
+                value={status}
+                onChange={(e) => setStatus(e.target.value as ClaimResolution['status'])}
+                className={inputClassName}
+              >
+                <option value="settled">Settled with the customer</option>
+                <option value="written_off">Written off</option>
+              </select>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Actual Cost (₹)
+                </label>
+                <input
+                  type="number"
+                  value={actualCost}
+                  onChange={(e) => setActualCost(parseFloat(e.target.value) || 0)}
+                  min="0"
+                  step="0.01"
+                  className={inputClassName}
+                />
+              </div>
+              {status === 'settled' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Customer Pays (₹, incl. GST)
+                  </label>
+                  <input
+                    type="number"
+                    value={liability}
+                    onChange={(e) => setLiability(parseFloat(e.target.value) || 0)}
+                    min="0"
+                    step="0.01"
+                    className={inputClassName}
+                  />
+                </div>
+              )}
+            </div>
+
+            {status === 'settled' && liability > 0 && (
+              <div className="space-y-3">
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={collectNow}
+                    onChange={(e) => setCollectNow(e.target.checked)}
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500 mr-2"
+                  />
+                  Collected now
+                </label>
+                {collectNow && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <select
+                      value={method}
+                      onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+                      className={inputClassName}
+                    >
+                      {Object.entries(PAYMENT_METHODS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      value={reference}
+                      onChange={(e) => setReference(e.target.value)}
+                      placeholder="Reference"
+                      className={inputClassName}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Notes
+              </label>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                className={inputClassName}
+              />
+            </div>
+
+            <p className="text-xs text-gray-500">
+              {claim.kind === 'loss'
+                ? 'The unit will be retired and its maintenance ticket closed.'
+                : 'The actual cost is booked on the unit\'s maintenance ticket, which stays open until the repair is done.'}
+            </p>
+
+            <div className="flex space-x-3">
+              <button type="submit" disabled={saving} className="btn btn-primary flex-1">
+                {saving ? (
+                  <>
+                    <LoadingSpinner size="sm" className="mr-2" />
+                    Saving...
+                  </>
+                ) : (
+                  status === 'settled' ? 'Settle Claim' : 'Write Off'
+                )}
+              </button>
+              <button type="button" onClick={onClose} className="btn btn-outline flex-1">
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
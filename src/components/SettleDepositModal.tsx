@@ -0,0 +1,206 @@
+import React, { useState } from 'react'
+import { X } from 'lucide-react'
+import { Order, OrderChargeKind, PaymentMethod, db } from '../lib/supabase'
+import { getOrderItemNames } from '../lib/orders'
+import { ORDER_CHARGE_KINDS, buildOrderCharge } from '../lib/charges'
+import { PAYMENT_METHODS, getDepositHeld, getOutstanding } from '../lib/payments'
+import { LoadingSpinner } from './LoadingSpinner'
+import toast from 'react-hot-toast'
+
+interface SettleDepositModalProps {
+  order: Order
+  onClose: () => void
+  onSettled: (order: Order) => void
+}
+
+export function SettleDepositModal({ order, onClose, onSettled }: SettleDepositModalProps) {
+  const held = getDepositHeld(order)
+  const outstanding = Math.max(getOutstanding(order), 0)
+  // Late fees and any unpaid rent come out of the deposit first
+  const [applyAmount, setApplyAmount] = useState(Math.min(outstanding, held))
+  const [deduction, setDeduction] = useState(0)
+  const [chargeKind, setChargeKind] = useState<OrderChargeKind>('damage')
+  const [description, setDescription] = useState('')
+  const [releaseMethod, setReleaseMethod] = useState<PaymentMethod>(
+    order.payments?.find(payment => payment.kind === 'deposit')?.method || 'cash'
+  )
+  const [saving, setSaving] = useState(false)
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      minimumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (applyAmount < 0 || applyAmount > outstanding) {
+      toast.error(`Amount applied to the balance must be between ₹0 and ${formatCurrency(outstanding)}`)
+      return
+    }
+
+    if (deduction < 0 || applyAmount + deduction > held) {
+      toast.error(`Deductions cannot exceed the ${formatCurrency(held)} held`)
+      return
+    }
+
+    if (deduction > 0 && !description.trim()) {
+      toast.error('Describe what the deduction is for')
+      return
+    }
+
+    setSaving(true)
+
+    try {
+      // The deducted amount is what the customer loses from the deposit, so GST is carved out of it
+      const charge = deduction > 0
+        ? buildOrderCharge(order, chargeKind, description.trim(), deduction, true)
+        : null
+      const settled = await db.settleDeposit(order.id, applyAmount, charge, releaseMethod)
+      toast.success(
+        applyAmount + deduction > 0
+          ? `Deducted ${formatCurrency(applyAmount + deduction)}, released ${formatCurrency(held - applyAmount - deduction)}`
+          : `Deposit of ${formatCurrency(held)} released`
+      )
+      onSettled(settled)
+    } catch (error: any) {
+      console.error('Error settling deposit:', error)
+      toast.error(error.message || 'Failed to settle deposit')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4">
+        <div className="p-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h3 className="text-lg font-semibold">Settle Deposit</h3>
+              <p className="text-sm text-gray-600">{getOrderItemNames(order)}</p>
+            </div>
+            <button onClick={onClose} className="p-1 text-gray-600 hover:text-gray-900">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="flex justify-between text-sm bg-gray-50 rounded-md px-3 py-2 mb-4">
+            <span className="text-gray-600">Deposit held</span>
+            <span className="font-semibold">{formatCurrency(held)}</span>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {outstanding > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Apply to balance (₹)
+                </label>
+                <input
+                  type="number"
+                  value={applyAmount}
+                  onChange={(e) => setApplyAmount(parseFloat(e.target.value) || 0)}
+                  min="0"
+                  max={Math.min(outstanding, held)}
+                  step="0.01"
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  {formatCurrency(outstanding)} is still owed on this order, including any late fee
+                </p>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Deduct for damage or other charges (₹)
+              </label>
+              <input
+                type="number"
+                value={deduction}
+                onChange={(e) => setDeduction(parseFloat(e.target.value) || 0)}
+                min="0"
+                max={held - applyAmount}
+                step="0.01"
+                className="w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">Raises a new charge on the order; leave 0 if nothing else is owed</p>
+            </div>
+
+            {deduction > 0 && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Reason
+                  </label>
+                  <select
+                    value={chargeKind}
+                    onChange={(e) => setChargeKind(e.target.value as OrderChargeKind)}
+                    className="w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500"
+                  >
+                    {Object.entries(ORDER_CHARGE_KINDS)
+                      .filter(([value]) => value !== 'cancellation')
+                      .map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Description
+                  </label>
+                  <input
+                    type="text"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    placeholder="e.g. Scratched front element"
+                    className="w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500"
+                  />
+                </div>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Release via
+              </label>
+              <select
+                value={releaseMethod}
+                onChange={(e) => setReleaseMethod(e.target.value as PaymentMethod)}
+                className="w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500"
+              >
+                {Object.entries(PAYMENT_METHODS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex justify-between text-sm font-semibold">
+              <span>Return to customer</span>
+              <span>{formatCurrency(Math.max(held - applyAmount - deduction, 0))}</span>
+            </div>
+
+            <div className="flex space-x-3">
+              <button type="submit" disabled={saving} className="btn btn-primary flex-1">
+                {saving ? (
+                  <>
+                    <LoadingSpinner size="sm" className="mr-2" />
+                    Saving...
+                  </>
+                ) : (
+                  'Settle Deposit'
+                )}
+              </button>
+              <button type="button" onClick={onClose} className="btn btn-outline flex-1">
+                Later
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
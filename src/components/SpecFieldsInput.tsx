@@ -0,0 +1,92 @@
+import React from 'react'
+import { EquipmentCategory } from '../lib/tax'
+import { EquipmentSpecs, SPEC_FIELDS, SpecField, SpecValue } from '../lib/specs'
+
+interface SpecFieldsInputProps {
+  category: EquipmentCategory
+  value: EquipmentSpecs
+  onChange: (specs: EquipmentSpecs) => void
+}
+
+export function SpecFieldsInput({ category, value, onChange }: SpecFieldsInputProps) {
+  const fields = SPEC_FIELDS[category]
+
+  const setField = (key: string, fieldValue: SpecValue | undefined) => {
+    const next = { ...value }
+    if (fieldValue === undefined) {
+      delete next[key]
+    } else {
+      next[key] = fieldValue
+    }
+    onChange(next)
+  }
+
+  const inputClassName = 'w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500'
+
+  const renderInput = (field: SpecField) => {
+    const current = value[field.key]
+
+    switch (field.type) {
+      case 'boolean':
+        return (
+          <select
+            value={current === undefined ? '' : current ? 'yes' : 'no'}
+            onChange={(e) => setField(field.key, e.target.value === '' ? undefined : e.target.value === 'yes')}
+            className={inputClassName}
+          >
+            <option value="">Not specified</option>
+            <option value="yes">Yes</option>
+            <option value="no">No</option>
+          </select>
+        )
+      case 'select':
+        return (
+          <select
+            value={current === undefined ? '' : String(current)}
+            onChange={(e) => setField(field.key, e.target.value || undefined)}
+            className={inputClassName}
+          >
+            <option value="">Not specified</option>
+            {field.options?.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        )
+      case 'number':
+        return (
+          <input
+            type="number"
+            value={current === undefined ? '' : String(current)}
+            onChange={(e) => setField(field.key, e.target.value === '' ? undefined : parseFloat(e.target.value))}
+            min="0"
+            step="any"
+            className={inputClassName}
+          />
+        )
+      default:
+        return (
+          <input
+            type="text"
+            value={current === undefined ? '' : String(current)}
+            onChange={(e) => setField(field.key, e.target.value || undefined)}
+            className={inputClassName}
+          />
+        )
+    }
+  }
+
+  if (fields.length === 0) return null
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      {fields.map(field => (
+        <div key={field.key}>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            {field.label}{field.unit && ` (${field.unit})`}
+          </label>
+          {renderInput(field)}
+        </div>
+      ))}
+    </div>
+  )
+}
\ No newline at end of file
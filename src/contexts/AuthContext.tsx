@@ -1,5 +1,7 @@
-import React, { createContext, useContext, useEffect, useState } from 'react'
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react'
 import { supabase, User, db } from '../lib/supabase'
+import { Permission, getRolePermissions, hasPermission } from '../lib/permissions'
+import { useCart } from './CartContext'
 import { Session } from '@supabase/supabase-js'
 import toast from 'react-hot-toast'
 
@@ -7,8 +9,12 @@ interface AuthContextType {
   user: User | null
   session: Session | null
   loading: boolean
+  // Granted to the user's role by the permissions matrix
+  permissions: Permission[]
+  // True when the user has any of the given permissions
+  can: (required: Permission | Permission[]) => boolean
   signIn: (email: string, password: string) => Promise<void>
-  signUp: (name: string, email: string, password: string, role: 'admin' | 'staff') => Promise<void>
+  signUp: (name: string, email: string, password: string) => Promise<void>
   signOut: () => Promise<void>
   updateProfile: (updates: Partial<User>) => Promise<void>
   updatePassword: (newPassword: string) => Promise<void>
@@ -18,8 +24,10 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
+  const [permissions, setPermissions] = useState<Permission[]>([])
   const [session, setSession] = useState<Session | null>(null)
   const [loading, setLoading] = useState(true)
+  const { clearCart } = useCart()
 
   useEffect(() => {
     // Get initial session
@@ -50,10 +58,16 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         console.log('Auth state changed:', event, session?.user?.id)
         setSession(session)
         
+        // The cart belongs to whoever built it, including when the session ends in another tab
+        if (event === 'SIGNED_OUT') {
+          clearCart()
+        }
+
         if (session?.user) {
           await loadUserProfile(session.user.id)
         } else {
           setUser(null)
+          setPermissions([])
           setLoading(false)
         }
       }
@@ -65,11 +79,16 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const loadUserProfile = async (userId: string) => {
     try {
       setLoading(true)
-      const profile = await db.getUserProfile(userId)
+      const [profile, matrix] = await Promise.all([
+        db.getUserProfile(userId),
+        db.getRolePermissions(),
+      ])
       setUser(profile)
+      setPermissions(profile ? getRolePermissions(matrix, profile.role) : [])
     } catch (error) {
       console.error('Error loading user profile:', error)
       setUser(null)
+      setPermissions([])
     } finally {
       setLoading(false)
     }
@@ -97,7 +116,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }
 
-  const signUp = async (name: string, email: string, password: string, role: 'admin' | 'staff') => {
+  // New accounts are always customers; an admin assigns staff roles
+  const signUp = async (name: string, email: string, password: string) => {
     try {
       const { data, error } = await supabase.auth.signUp({
         email,
@@ -105,7 +125,6 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         options: {
           data: {
             name,
-            role,
           },
         },
       })
@@ -133,7 +152,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       }
       
       setUser(null)
+      setPermissions([])
       setSession(null)
+      clearCart()
       toast.success('Signed out successfully!')
     } catch (error) {
       console.error('Sign out error:', error)
@@ -173,10 +194,17 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }
 
+  const can = useCallback(
+    (required: Permission | Permission[]) => hasPermission(permissions, required),
+    [permissions]
+  )
+
   const value = {
     user,
     session,
     loading,
+    permissions,
+    can,
     signIn,
     signUp,
     signOut,
@@ -0,0 +1,242 @@
+import React, { createContext, useContext, useEffect, useState } from 'react'
+import { Bundle, Customer, Equipment, db } from '../lib/supabase'
+import { taxSettings } from '../lib/tax'
+
+export interface CartItem {
+  equipment: Equipment
+  // Units of the model to book; each becomes its own order item
+  quantity: number
+  duration_hours: number
+}
+
+// A kit in the cart; its components are booked as separate order items at checkout
+export interface CartBundle {
+  bundle: Bundle
+  duration_hours: number
+}
+
+interface CartContextType {
+  items: CartItem[]
+  bundles: CartBundle[]
+  // Who the order is for; required before checkout
+  customer: Customer | null
+  // Empty means the rental starts when the order is placed
+  startAt: string
+  // GST state code the rental is supplied to
+  placeOfSupply: string
+  addItem: (equipment: Equipment, durationHours: number) => void
+  updateDuration: (equipmentId: string, durationHours: number) => void
+  updateQuantity: (equipmentId: string, quantity: number) => void
+  removeItem: (equipmentId: string) => void
+  addBundle: (bundle: Bundle, durationHours: number) => void
+  updateBundleDuration: (bundleId: string, durationHours: number) => void
+  removeBundle: (bundleId: string) => void
+  setStartAt: (startAt: string) => void
+  setPlaceOfSupply: (placeOfSupply: string) => void
+  setCustomer: (customer: Customer | null) => void
+  // Reads the equipment, kits and customer in the cart again, e.g. just before checkout
+  refreshCart: () => Promise<CartContents>
+  clearCart: () => void
+}
+
+export interface CartContents {
+  items: CartItem[]
+  bundles: CartBundle[]
+  customer: Customer | null
+}
+
+const CART_STORAGE_KEY = 'lenspro-cart'
+
+const CartContext = createContext<CartContextType | undefined>(undefined)
+
+// Only IDs are kept in the browser; rates, stock and the customer's ID details are read again
+// when the cart is restored, so they are never stale or left behind on a shared counter machine
+interface StoredCart {
+  items: { equipment_id: string; quantity: number; duration_hours: number }[]
+  bundles: { bundle_id: string; duration_hours: number }[]
+  customer_id: string | null
+  startAt: string
+  placeOfSupply: string
+}
+
+const loadStoredCart = (): StoredCart => {
+  try {
+    const stored = localStorage.getItem(CART_STORAGE_KEY)
+    if (stored) {
+      const parsed = JSON.parse(stored)
+      return {
+        items: Array.isArray(parsed.items)
+          ? parsed.items.filter((item: any) => typeof item?.equipment_id === 'string')
+          : [],
+        bundles: Array.isArray(parsed.bundles)
+          ? parsed.bundles.filter((item: any) => typeof item?.bundle_id === 'string')
+          : [],
+        customer_id: typeof parsed.customer_id === 'string' ? parsed.customer_id : null,
+        startAt: typeof parsed.startAt === 'string' ? parsed.startAt : '',
+        placeOfSupply: typeof parsed.placeOfSupply === 'string' ? parsed.placeOfSupply : taxSettings.businessStateCode,
+      }
+    }
+  } catch (error) {
+    console.error('Error reading stored cart:', error)
+  }
+  return { items: [], bundles: [], customer_id: null, startAt: '', placeOfSupply: taxSettings.businessStateCode }
+}
+
+// No more units than the shop owns; the database checks they are free for the dates
+const clampQuantity = (equipment: Equipment, quantity: number) =>
+  Math.min(Math.max(quantity, 1), Math.max(equipment.unit_count, 1))
+
+type StoredContents = Pick<StoredCart, 'items' | 'bundles' | 'customer_id'>
+
+const toStoredContents = ({ items, bundles, customer }: CartContents): StoredContents => ({
+  items: items.map(item => ({ equipment_id: item.equipment.id, quantity: item.quantity, duration_hours: item.duration_hours })),
+  bundles: bundles.map(item => ({ bundle_id: item.bundle.id, duration_hours: item.duration_hours })),
+  customer_id: customer?.id || null,
+})
+
+// Anything no longer listed drops out of the cart
+const fetchCartContents = async (stored: StoredContents): Promise<CartContents> => {
+  const [equipment, bundleRows, customer] = await Promise.all([
+    db.getEquipmentByIds(stored.items.map(item => item.equipment_id)),
+    db.getBundlesByIds(stored.bundles.map(item => item.bundle_id)),
+    stored.customer_id ? db.getCustomer(stored.customer_id) : Promise.resolve(null),
+  ])
+
+  const items = stored.items.flatMap(item => {
+    const row = equipment.find(current => current.id === item.equipment_id)
+    return row ? [{ equipment: row, quantity: clampQuantity(row, item.quantity || 1), duration_hours: item.duration_hours }] : []
+  })
+  const bundles = stored.bundles.flatMap(item => {
+    const row = bundleRows.find(current => current.id === item.bundle_id)
+    return row ? [{ bundle: row, duration_hours: item.duration_hours }] : []
+  })
+
+  return { items, bundles, customer }
+}
+
+export function CartProvider({ children }: { children: React.ReactNode }) {
+  const [stored] = useState(loadStoredCart)
+  const [items, setItems] = useState<CartItem[]>([])
+  const [bundles, setBundles] = useState<CartBundle[]>([])
+  const [customer, setCustomer] = useState<Customer | null>(null)
+  const [startAt, setStartAt] = useState(stored.startAt)
+  const [placeOfSupply, setPlaceOfSupply] = useState(stored.placeOfSupply)
+  // The stored cart is not overwritten until its rows have been read back
+  const [restoring, setRestoring] = useState(true)
+
+  const applyContents = (contents: CartContents) => {
+    setItems(contents.items)
+    setBundles(contents.bundles)
+    setCustomer(contents.customer)
+  }
+
+  useEffect(() => {
+    fetchCartContents(stored)
+      .then(applyContents)
+      .catch(error => console.error('Error restoring cart:', error))
+      .finally(() => setRestoring(false))
+  }, [])
+
+  useEffect(() => {
+    if (restoring) return
+
+    const cart: StoredCart = { ...toStoredContents({ items, bundles, customer }), startAt, placeOfSupply }
+    localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(cart))
+  }, [restoring, items, bundles, customer, startAt, placeOfSupply])
+
+  // Re-adding a model books one more unit of it for the new duration
+  const addItem = (equipment: Equipment, durationHours: number) => {
+    setItems(prev => {
+      if (prev.some(item => item.equipment.id === equipment.id)) {
+        return prev.map(item =>
+          item.equipment.id === equipment.id
+            ? { ...item, quantity: clampQuantity(equipment, item.quantity + 1), duration_hours: durationHours }
+            : item
+        )
+      }
+      return [...prev, { equipment, quantity: 1, duration_hours: durationHours }]
+    })
+  }
+
+  const updateQuantity = (equipmentId: string, quantity: number) => {
+    setItems(prev => prev.map(item =>
+      item.equipment.id === equipmentId ? { ...item, quantity: clampQuantity(item.equipment, quantity) } : item
+    ))
+  }
+
+  const updateDuration = (equipmentId: string, durationHours: number) => {
+    setItems(prev => prev.map(item =>
+      item.equipment.id === equipmentId ? { ...item, duration_hours: durationHours } : item
+    ))
+  }
+
+  const removeItem = (equipmentId: string) => {
+    setItems(prev => prev.filter(item => item.equipment.id !== equipmentId))
+  }
+
+  // Like equipment, re-adding a kit updates its duration
+  const addBundle = (bundle: Bundle, durationHours: number) => {
+    setBundles(prev => {
+      if (prev.some(item => item.bundle.id === bundle.id)) {
+        return prev.map(item =>
+          item.bundle.id === bundle.id ? { ...item, duration_hours: durationHours } : item
+        )
+      }
+      return [...prev, { bundle, duration_hours: durationHours }]
+    })
+  }
+
+  const updateBundleDuration = (bundleId: string, durationHours: number) => {
+    setBundles(prev => prev.map(item =>
+      item.bundle.id === bundleId ? { ...item, duration_hours: durationHours } : item
+    ))
+  }
+
+  const removeBundle = (bundleId: string) => {
+    setBundles(prev => prev.filter(item => item.bundle.id !== bundleId))
+  }
+
+  const refreshCart = async () => {
+    const contents = await fetchCartContents(toStoredContents({ items, bundles, customer }))
+    applyContents(contents)
+    return contents
+  }
+
+  const clearCart = () => {
+    setItems([])
+    setBundles([])
+    setCustomer(null)
+    setStartAt('')
+    setPlaceOfSupply(taxSettings.businessStateCode)
+  }
+
+  const value = {
+    items,
+    bundles,
+    customer,
+    startAt,
+    placeOfSupply,
+    addItem,
+    updateDuration,
+    updateQuantity,
+    removeItem,
+    addBundle,
+    updateBundleDuration,
+    removeBundle,
+    setStartAt,
+    setPlaceOfSupply,
+    setCustomer,
+    refreshCart,
+    clearCart,
+  }
+
+  return <CartContext.Provider value={value}>{children}</CartContext.Provider>
+}
+
+export function useCart() {
+  const context = useContext(CartContext)
+  if (context === undefined) {
+    throw new Error('useCart must be used within a CartProvider')
+  }
+  return context
+}
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { Bundle, Equipment } from './supabase'
+import { PriceBreakdown, calculateRentalPrice } from './pricing'
+
+const round = (amount: number) => Math.round(amount * 100) / 100
+
+// One entry per physical unit, e.g. a kit with two lights lists the light twice
+export function getBundleComponents(bundle: Bundle): Equipment[] {
+  return (bundle.items || []).flatMap(item =>
+    item.equipment ? Array.from({ length: item.quantity }, () => item.equipment!) : []
+  )
+}
+
+export function getBundleDeposit(bundle: Bundle): number {
+  return getBundleComponents(bundle).reduce((sum, equipment) => sum + (equipment.deposit_amount || 0), 0)
+}
+
+// Components without enough units on the shelf to rent the kit right now
+export function getBundleShortages(bundle: Bundle): Equipment[] {
+  return (bundle.items || [])
+    .filter(item => item.equipment && item.equipment.available_units < item.quantity)
+    .map(item => item.equipment!)
+}
+
+export interface BundleLine {
+  equipment: Equipment
+  pricing: PriceBreakdown
+  line_total: number
+}
+
+export interface BundlePrice {
+  // The kit's own price for the duration
+  pricing: PriceBreakdown
+  // What the components would cost rented separately
+  separate_total: number
+  // The kit price split across its components
+  lines: BundleLine[]
+}
+
+// Each component keeps its own price breakdown plus a kit adjustment line, split in proportion to
+// what it would cost on its own, so the order's items add up to the kit price and tax is charged on
+// each component's own category. Mirrored by bundle_lines in the database.
+export function calculateBundlePrice(bundle: Bundle, durationHours: number): BundlePrice {
+  const components = getBundleComponents(bundle)
+  if (components.length === 0) throw new Error(`${bundle.name} has no equipment`)
+
+  const pricing = calculateRentalPrice(bundle, durationHours)
+  const separate = components.map(equipment => calculateRentalPrice(equipment, durationHours))
+  const separateTotal = round(separate.reduce((sum, price) => sum + price.total, 0))
+
+  let allocated = 0
+  const lines = components.map((equipment, index) => {
+    const isLast = index === components.length - 1
+    const share = separateTotal > 0 ? separate[index].total / separateTotal : 1 / components.length
+    // The last component takes the rounding remainder so the lines add up to the kit price
+    const lineTotal = isLast ? round(pricing.total - allocated) : round(pricing.total * share)
+    allocated = round(allocated + lineTotal)
+
+    const adjustment = round(lineTotal - separate[index].total)
+    const componentPricing: PriceBreakdown = adjustment === 0 ? separate[index] : {
+      ...separate[index],
+      lines: [
+        ...separate[index].lines,
+        { label: `${bundle.name} kit price`, quantity: 1, unit_price: adjustment, amount: adjustment },
+      ],
+      discount: round(separate[index].discount - adjustment),
+      total: lineTotal,
+    }
+
+    return { equipment, pricing: componentPricing, line_total: lineTotal }
+  })
+
+  return { pricing, separate_total: separateTotal, lines }
+}
+
+// An order item as the database will price it: a single piece of equipment or one component of a kit
+export interface CartLine extends BundleLine {
+  duration_hours: number
+  bundle_id: string | null
+}
+
+// Several units of a model are placed as one order item each, like kit components
+export function getCartLines(
+  items: { equipment: Equipment; quantity: number; duration_hours: number }[],
+  bundles: { bundle: Bundle; duration_hours: number }[]
+): CartLine[] {
+  const lines: CartLine[] = items.flatMap(item => {
+    const pricing = calculateRentalPrice(item.equipment, item.duration_hours)
+    return Array.from({ length: item.quantity }, () => ({
+      equipment: item.equipment,
+      duration_hours: item.duration_hours,
+      pricing,
+      line_total: pricing.total,
+      bundle_id: null,
+    }))
+  })
+
+  for (const item of bundles) {
+    for (const line of calculateBundlePrice(item.bundle, item.duration_hours).lines) {
+      lines.push({ ...line, duration_hours: item.duration_hours, bundle_id: item.bundle.id })
+    }
+  }
+
+  return lines
+}
\ No newline at end of file
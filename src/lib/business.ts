@@ -0,0 +1,8 @@
+// Details printed on invoices; set the VITE_BUSINESS_* variables in .env
+export const business = {
+  name: import.meta.env.VITE_BUSINESS_NAME || 'LensPro Rentals',
+  address: import.meta.env.VITE_BUSINESS_ADDRESS || '',
+  phone: import.meta.env.VITE_BUSINESS_PHONE || '',
+  email: import.meta.env.VITE_BUSINESS_EMAIL || '',
+  gstin: import.meta.env.VITE_BUSINESS_GSTIN || '',
+}
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { Order } from './supabase'
+import { getAmountPaid, getDepositHeld } from './payments'
+
+export interface CancellationPolicy {
+  // Cancelling at least this many hours before the rent date is free
+  freeHours: number
+  // Share of the booked rental value, in percent, charged when cancelling later than that
+  feePercent: number
+}
+
+// Replaced by the business_settings row when the app starts; see loadBusinessSettings
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  freeHours: 24,
+  feePercent: 20,
+}
+
+export interface CancellationFee {
+  // Hours between cancelling and the rent date; negative once the rental has started
+  hoursNotice: number
+  free: boolean
+  // In the same terms as the order's rates, i.e. including GST when prices include tax
+  amount: number
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Only reservations; once the gear has been handed over the rental goes through check-in
+export function canCancel(order: Order): boolean {
+  return order.status === 'reserved'
+}
+
+// Value of the rental as booked, extensions included
+export function getBookedValue(order: Order): number {
+  const items = (order.items || []).reduce((sum, item) => sum + item.line_total, 0)
+  const extensions = (order.extensions || []).reduce((sum, extension) => sum + extension.amount, 0)
+  return items + extensions
+}
+
+// Shown before cancelling; apply_order_cancellation in the database works out the fee charged
+export function calculateCancellationFee(
+  order: Order,
+  at: Date = new Date(),
+  policy: CancellationPolicy = DEFAULT_CANCELLATION_POLICY
+): CancellationFee {
+  const hoursNotice = (new Date(order.rent_date).getTime() - at.getTime()) / HOUR_MS
+  const free = hoursNotice >= policy.freeHours
+
+  return {
+    hoursNotice,
+    free,
+    amount: free ? 0 : Math.round(getBookedValue(order) * policy.feePercent / 100),
+  }
+}
+
+export function describeCancellationFee(fee: CancellationFee, policy: CancellationPolicy = DEFAULT_CANCELLATION_POLICY): string {
+  const notice = fee.hoursNotice > 0 ? `${Math.floor(fee.hoursNotice)}h before the rental` : 'after the rental started'
+  return fee.free
+    ? `Cancelled ${notice}, free under the ${policy.freeHours}h policy`
+    : `Cancelled ${notice}, ${policy.feePercent}% of the booking`
+}
+
+export interface CancellationSettlement {
+  // Paid beyond the fee, refunded against the original payments
+  refund: number
+  // Still owed by the customer when less was paid than the fee
+  due: number
+  depositRelease: number
+}
+
+// Mirrors what cancel_order records in the payments ledger
+export function getCancellationSettlement(order: Order, feeTotal: number): CancellationSettlement {
+  const balance = Math.round((getAmountPaid(order) - feeTotal) * 100) / 100
+
+  return {
+    refund: Math.max(balance, 0),
+    due: Math.max(-balance, 0),
+    depositRelease: getDepositHeld(order),
+  }
+}
\ No newline at end of file
@@ -0,0 +1,216 @@
+import { Bundle, Equipment } from './supabase'
+import { EQUIPMENT_CATEGORIES, EquipmentCategory, TAX_CATEGORIES } from './tax'
+import { SPEC_FIELDS } from './specs'
+import { getBundleShortages } from './bundles'
+
+export type CatalogSort = 'name' | 'price_asc' | 'price_desc' | 'popular'
+
+export const CATALOG_SORTS: Record<CatalogSort, string> = {
+  name: 'Name',
+  price_asc: 'Price: low to high',
+  price_desc: 'Price: high to low',
+  popular: 'Most rented',
+}
+
+export interface CatalogFilters {
+  query: string
+  category: EquipmentCategory | null
+  brand: string | null
+  mount: string | null
+  availableOnly: boolean
+  // Bounds on the 24-hour rate
+  minRate: number | null
+  maxRate: number | null
+  // Spec facets of the selected category; boolean specs are 'yes' / 'no'
+  specs: Record<string, string>
+  sort: CatalogSort
+}
+
+export const DEFAULT_CATALOG_FILTERS: CatalogFilters = {
+  query: '',
+  category: null,
+  brand: null,
+  mount: null,
+  availableOnly: false,
+  minRate: null,
+  maxRate: null,
+  specs: {},
+  sort: 'name',
+}
+
+// Spec facets travel in the query string as spec.<key>=<value>
+const SPEC_PARAM_PREFIX = 'spec.'
+
+export const parseRate = (value: string | null) => {
+  if (!value) return null
+  const rate = parseFloat(value)
+  return isNaN(rate) || rate < 0 ? null : rate
+}
+
+export function parseCatalogFilters(params: URLSearchParams): CatalogFilters {
+  const category = params.get('category') as EquipmentCategory | null
+  const validCategory = category && EQUIPMENT_CATEGORIES.includes(category) ? category : null
+  const sort = params.get('sort') as CatalogSort | null
+
+  // Spec facets only make sense within their category
+  const specs: Record<string, string> = {}
+  if (validCategory) {
+    for (const field of SPEC_FIELDS[validCategory]) {
+      const value = params.get(SPEC_PARAM_PREFIX + field.key)
+      if (field.facet && value) specs[field.key] = value
+    }
+  }
+
+  return {
+    query: params.get('q') || '',
+    category: validCategory,
+    brand: params.get('brand'),
+    mount: params.get('mount'),
+    availableOnly: params.get('available') === '1',
+    minRate: parseRate(params.get('min')),
+    maxRate: parseRate(params.get('max')),
+    specs,
+    sort: sort && Object.prototype.hasOwnProperty.call(CATALOG_SORTS, sort) ? sort : DEFAULT_CATALOG_FILTERS.sort,
+  }
+}
+
+// Defaults are left out so shared links stay short
+export function toCatalogSearchParams(filters: CatalogFilters): URLSearchParams {
+  const params = new URLSearchParams()
+
+  if (filters.query.trim()) params.set('q', filters.query.trim())
+  if (filters.category) params.set('category', filters.category)
+  if (filters.brand) params.set('brand', filters.brand)
+  if (filters.mount) params.set('mount', filters.mount)
+  if (filters.availableOnly) params.set('available', '1')
+  if (filters.minRate !== null) params.set('min', String(filters.minRate))
+  if (filters.maxRate !== null) params.set('max', String(filters.maxRate))
+  for (const [key, value] of Object.entries(filters.specs)) {
+    params.set(SPEC_PARAM_PREFIX + key, value)
+  }
+  if (filters.sort !== DEFAULT_CATALOG_FILTERS.sort) params.set('sort', filters.sort)
+
+  return params
+}
+
+const toSearchTerms = (text: string) => text
+  .toLowerCase()
+  .split(/[^\p{L}\p{N}]+/u)
+  .filter(Boolean)
+
+// Prefix match on every word, e.g. "son a7" finds "Sony A7 IV"
+export function toSearchQuery(query: string): string | null {
+  const terms = toSearchTerms(query)
+  return terms.length > 0 ? terms.map(term => `${term}:*`).join(' & ') : null
+}
+
+// Kits have no category, brand or spec sheet of their own, so they are listed only while none of
+// those filters is set; the search matches the same way as toSearchQuery
+export function filterBundles(bundles: Bundle[], filters: CatalogFilters): Bundle[] {
+  if (filters.category || filters.brand || filters.mount || Object.keys(filters.specs).length > 0) return []
+
+  const terms = toSearchTerms(filters.query)
+
+  const matches = bundles.filter(bundle => {
+    const items = bundle.items || []
+    // Visitors cannot see equipment that is out, so a kit missing a component is left out too
+    if (!bundle.active || items.length === 0 || items.some(item => !item.equipment)) return false
+    if (filters.availableOnly && getBundleShortages(bundle).length > 0) return false
+    if (filters.minRate !== null && bundle.rate_24hr < filters.minRate) return false
+    if (filters.maxRate !== null && bundle.rate_24hr > filters.maxRate) return false
+
+    const words = toSearchTerms([bundle.name, bundle.description, ...items.map(item => item.equipment!.name)].join(' '))
+    return terms.every(term => words.some(word => word.startsWith(term)))
+  })
+
+  switch (filters.sort) {
+    case 'price_asc':
+      return matches.sort((a, b) => a.rate_24hr - b.rate_24hr)
+    case 'price_desc':
+      return matches.sort((a, b) => b.rate_24hr - a.rate_24hr)
+    default:
+      return matches.sort((a, b) => a.name.localeCompare(b.name))
+  }
+}
+
+export interface FilterChip {
+  key: string
+  label: string
+  remove: (filters: CatalogFilters) => CatalogFilters
+}
+
+export function getFilterChips(filters: CatalogFilters): FilterChip[] {
+  const chips: FilterChip[] = []
+
+  if (filters.query.trim()) {
+    chips.push({ key: 'q', label: `"${filters.query.trim()}"`, remove: f => ({ ...f, query: '' }) })
+  }
+  if (filters.category) {
+    chips.push({
+      key: 'category',
+      label: TAX_CATEGORIES[filters.category].label,
+      remove: f => ({ ...f, category: null, specs: {} }),
+    })
+  }
+  if (filters.brand) {
+    chips.push({ key: 'brand', label: filters.brand, remove: f => ({ ...f, brand: null }) })
+  }
+  if (filters.mount) {
+    chips.push({ key: 'mount', label: `${filters.mount} mount`, remove: f => ({ ...f, mount: null }) })
+  }
+  if (filters.availableOnly) {
+    chips.push({ key: 'available', label: 'Available now', remove: f => ({ ...f, availableOnly: false }) })
+  }
+  if (filters.minRate !== null || filters.maxRate !== null) {
+    const label = filters.minRate !== null && filters.maxRate !== null
+      ? `₹${filters.minRate}–₹${filters.maxRate} / day`
+      : filters.minRate !== null ? `From ₹${filters.minRate} / day` : `Up to ₹${filters.maxRate} / day`
+    chips.push({ key: 'price', label, remove: f => ({ ...f, minRate: null, maxRate: null }) })
+  }
+  if (filters.category) {
+    for (const field of SPEC_FIELDS[filters.category]) {
+      const value = filters.specs[field.key]
+      if (!value) continue
+      chips.push({
+        key: `spec.${field.key}`,
+        label: field.type === 'boolean' ? `${field.label}: ${value}` : value,
+        remove: f => {
+          const specs = { ...f.specs }
+          delete specs[field.key]
+          return { ...f, specs }
+        },
+      })
+    }
+  }
+
+  return chips
+}
+
+export interface CatalogFacets {
+  categories: Partial<Record<EquipmentCategory, number>>
+  brands: string[]
+  mounts: string[]
+  maxRate: number
+}
+
+// Options for the filter controls, taken from the whole catalog rather than the current results
+export function buildCatalogFacets(equipment: Pick<Equipment, 'category' | 'brand' | 'mount' | 'rate_24hr'>[]): CatalogFacets {
+  const categories: Partial<Record<EquipmentCategory, number>> = {}
+  const brands = new Set<string>()
+  const mounts = new Set<string>()
+  let maxRate = 0
+
+  for (const item of equipment) {
+    categories[item.category] = (categories[item.category] || 0) + 1
+    if (item.brand) brands.add(item.brand)
+    if (item.mount) mounts.add(item.mount)
+    maxRate = Math.max(maxRate, item.rate_24hr)
+  }
+
+  return {
+    categories,
+    brands: Array.from(brands).sort(),
+    mounts: Array.from(mounts).sort(),
+    maxRate,
+  }
+}
\ No newline at end of file
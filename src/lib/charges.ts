@@ -0,0 +1,29 @@
+import { NewOrderCharge, Order, OrderChargeKind } from './supabase'
+import { calculateTax } from './tax'
+
+export const ORDER_CHARGE_KINDS: Record<OrderChargeKind, string> = {
+  late_fee: 'Late Return',
+  damage: 'Damage',
+  cancellation: 'Cancellation',
+  other: 'Other',
+}
+
+// GST on a charge follows the order's place of supply. When the amount is what the customer
+// pays in the end (e.g. kept out of a deposit), tax is carved out of it instead of added on top.
+export function buildOrderCharge(
+  order: Order,
+  kind: OrderChargeKind,
+  description: string,
+  amount: number,
+  amountIncludesTax = false
+): NewOrderCharge {
+  const tax = calculateTax([{ category: 'charge', amount }], order.place_of_supply || undefined, amountIncludesTax)
+
+  return {
+    kind,
+    description,
+    amount: tax.taxable_value,
+    tax,
+    total: tax.total,
+  }
+}
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { ClaimKind, ClaimStatus, DamageClaim } from './supabase'
+
+export const CLAIM_KINDS: Record<ClaimKind, string> = {
+  damage: 'Damage',
+  loss: 'Loss',
+}
+
+export const CLAIM_STATUSES: Record<ClaimStatus, string> = {
+  open: 'Open',
+  settled: 'Settled',
+  written_off: 'Written Off',
+}
+
+export interface ClaimTotals {
+  open: number
+  // Estimated cost of claims still open
+  exposure: number
+  // Charged to customers on settled claims
+  recovered: number
+  // Cost the business carries on written-off claims
+  writtenOff: number
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100
+
+export function getClaimTotals(claims: DamageClaim[]): ClaimTotals {
+  const totals: ClaimTotals = { open: 0, exposure: 0, recovered: 0, writtenOff: 0 }
+
+  for (const claim of claims) {
+    if (claim.status === 'open') {
+      totals.open += 1
+      totals.exposure = round(totals.exposure + claim.estimated_cost)
+    } else if (claim.status === 'settled') {
+      totals.recovered = round(totals.recovered + claim.customer_liability)
+    } else {
+      totals.writtenOff = round(totals.writtenOff + (claim.actual_cost ?? claim.estimated_cost))
+    }
+  }
+
+  return totals
+}
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { CompatibilityKind, Equipment, EquipmentCompatibility, FrequentRental } from './supabase'
+import { MOUNT_CATEGORIES } from './specs'
+
+export const COMPATIBILITY_KINDS: Record<CompatibilityKind, string> = {
+  mount: 'Same mount',
+  battery: 'Same battery',
+  accessory: 'Accessory',
+}
+
+// How a link reads from one side, e.g. "Accessory for Sony FX3" on the cage's page
+export function describeLink(link: EquipmentCompatibility, equipmentId: string): { other: Equipment | undefined; label: string } {
+  const isSource = link.equipment_id === equipmentId
+  const other = isSource ? link.compatible : link.equipment
+
+  if (link.kind === 'accessory') {
+    return { other, label: isSource ? 'Has accessory' : 'Accessory for' }
+  }
+  return { other, label: COMPATIBILITY_KINDS[link.kind] }
+}
+
+export interface Recommendation {
+  equipment: Equipment
+  reasons: string[]
+  score: number
+}
+
+// Explicit links outrank a shared mount, which outranks rental history
+const LINK_SCORE = 100
+const MOUNT_SCORE = 50
+
+export function getRecommendations(
+  cart: Equipment[],
+  catalog: Equipment[],
+  links: EquipmentCompatibility[],
+  frequent: FrequentRental[],
+  limit = 6
+): Recommendation[] {
+  const inCart = new Set(cart.map(item => item.id))
+  const byId = new Map(catalog.map(item => [item.id, item]))
+  const recommendations = new Map<string, Recommendation>()
+
+  const recommend = (equipmentId: string, reason: string, score: number) => {
+    const equipment = byId.get(equipmentId)
+    // Models without units cannot be rented at all
+    if (!equipment || inCart.has(equipmentId) || equipment.unit_count === 0) return
+
+    const existing = recommendations.get(equipmentId)
+    if (existing) {
+      if (!existing.reasons.includes(reason)) existing.reasons.push(reason)
+      existing.score += score
+    } else {
+      recommendations.set(equipmentId, { equipment, reasons: [reason], score })
+    }
+  }
+
+  for (const link of links) {
+    for (const item of cart) {
+      if (link.equipment_id !== item.id && link.compatible_id !== item.id) continue
+      const otherId = link.equipment_id === item.id ? link.compatible_id : link.equipment_id
+      const reason = link.kind === 'accessory'
+        ? link.equipment_id === item.id ? `Accessory for ${item.name}` : `Works with ${item.name}`
+        : `${COMPATIBILITY_KINDS[link.kind]} as ${item.name}`
+      recommend(otherId, reason, LINK_SCORE)
+    }
+  }
+
+  // Bodies suggest lenses of their mount and lenses suggest bodies
+  for (const item of cart) {
+    if (!item.mount || !MOUNT_CATEGORIES.includes(item.category)) continue
+    for (const candidate of catalog) {
+      if (candidate.mount === item.mount && candidate.category !== item.category && MOUNT_CATEGORIES.includes(candidate.category)) {
+        recommend(candidate.id, `Fits ${item.mount} mount`, MOUNT_SCORE)
+      }
+    }
+  }
+
+  for (const row of frequent) {
+    recommend(row.equipment_id, `Rented together ${row.times_rented} time${row.times_rented === 1 ? '' : 's'}`, row.times_rented)
+  }
+
+  return Array.from(recommendations.values())
+    .sort((a, b) => b.score - a.score || a.equipment.name.localeCompare(b.equipment.name))
+    .slice(0, limit)
+}
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { Order } from './supabase'
+import { getAmountDue, getAmountPaid } from './payments'
+import { isOverdue, wasReturnedLate } from './lateFees'
+
+export interface CustomerHistory {
+  orders: number
+  // Reserved, out or overdue right now
+  active: number
+  // Billed across all orders that were not cancelled, including charges
+  totalSpend: number
+  paid: number
+  outstanding: number
+  // Returned after the grace period, plus rentals that are overdue now
+  lateReturns: number
+  damageIncidents: number
+  lastRentalAt: string | null
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100
+
+export function getCustomerHistory(orders: Order[], at: Date = new Date()): CustomerHistory {
+  const history: CustomerHistory = {
+    orders: orders.length,
+    active: 0,
+    totalSpend: 0,
+    paid: 0,
+    outstanding: 0,
+    lateReturns: 0,
+    damageIncidents: 0,
+    lastRentalAt: null,
+  }
+
+  for (const order of orders) {
+    if (['reserved', 'checked_out', 'overdue'].includes(order.status)) {
+      history.active += 1
+    }
+    if (wasReturnedLate(order) || isOverdue(order, at)) {
+      history.lateReturns += 1
+    }
+    history.damageIncidents += (order.charges || []).filter(charge => charge.kind === 'damage').length
+    history.totalSpend = round(history.totalSpend + getAmountDue(order))
+    history.paid = round(history.paid + getAmountPaid(order))
+
+    if (order.status !== 'cancelled' && (!history.lastRentalAt || order.rent_date > history.lastRentalAt)) {
+      history.lastRentalAt = order.rent_date
+    }
+  }
+
+  history.outstanding = round(history.totalSpend - history.paid)
+  return history
+}
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { NewOrderExtension, Order, OrderItem } from './supabase'
+import { calculateRentalPrice } from './pricing'
+import { calculateTax } from './tax'
+
+const round = (amount: number) => Math.round(amount * 100) / 100
+
+// The item is priced again for its whole new duration with the same rates and policy as at
+// booking, and the extension bills the difference, so extra-day rates and the weekly cap carry on
+// from the original rental. Kit components are extended at their own catalog rates.
+export function buildOrderExtension(order: Order, item: OrderItem, extraHours: number): NewOrderExtension {
+  if (!item.equipment) {
+    throw new Error('Equipment details are missing for this item')
+  }
+
+  const previousTotal = calculateRentalPrice(item.equipment, item.duration_hours).total
+  const pricing = calculateRentalPrice(item.equipment, item.duration_hours + extraHours)
+  const amount = Math.max(round(pricing.total - previousTotal), 0)
+  const tax = calculateTax(
+    [{ category: item.equipment.category, amount }],
+    order.place_of_supply || undefined,
+    order.tax?.prices_include_tax
+  )
+
+  return {
+    order_item_id: item.id,
+    pricing,
+    previous_total: previousTotal,
+    amount,
+    tax,
+    total: tax.total,
+  }
+}
+
+export function getExtendedDueAt(item: OrderItem, extraHours: number): Date {
+  return new Date(new Date(item.due_at).getTime() + extraHours * 60 * 60 * 1000)
+}
+
+// Hours added to an item after it was booked
+export function getExtendedHours(order: Order, item: OrderItem): number {
+  return (order.extensions || [])
+    .filter(extension => extension.order_item_id === item.id)
+    .reduce((sum, extension) => sum + extension.extra_hours, 0)
+}
\ No newline at end of file
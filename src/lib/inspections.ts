@@ -0,0 +1,133 @@
+import { InspectionCondition, InspectionItemResult, InspectionKind, Order, OrderInspection, OrderItem } from './supabase'
+import { EquipmentCategory } from './tax'
+
+export interface ChecklistItem {
+  key: string
+  label: string
+}
+
+// What is looked over on each piece of gear; results are stored against the keys, so a key must
+// not be renamed once inspections have been recorded with it
+export const INSPECTION_CHECKLISTS: Record<EquipmentCategory, ChecklistItem[]> = {
+  body: [
+    { key: 'body', label: 'Body & finish' },
+    { key: 'sensor', label: 'Sensor' },
+    { key: 'mount', label: 'Lens mount' },
+    { key: 'screen', label: 'Screen & viewfinder' },
+    { key: 'ports', label: 'Ports & doors' },
+    { key: 'accessories', label: 'Accessories included' },
+  ],
+  lens: [
+    { key: 'body', label: 'Barrel & finish' },
+    { key: 'front_element', label: 'Front element' },
+    { key: 'rear_element', label: 'Rear element' },
+    { key: 'mount', label: 'Mount & contacts' },
+    { key: 'rings', label: 'Focus & zoom rings' },
+    { key: 'accessories', label: 'Caps & hood included' },
+  ],
+  lighting: [
+    { key: 'body', label: 'Housing' },
+    { key: 'power', label: 'Power & cables' },
+    { key: 'output', label: 'Light output' },
+    { key: 'accessories', label: 'Modifiers & stand included' },
+  ],
+  audio: [
+    { key: 'body', label: 'Body & grille' },
+    { key: 'connectors', label: 'Cables & connectors' },
+    { key: 'sound', label: 'Sound check' },
+    { key: 'accessories', label: 'Windshield & clips included' },
+  ],
+  grip: [
+    { key: 'body', label: 'Frame & finish' },
+    { key: 'locks', label: 'Locks & knobs' },
+    { key: 'movement', label: 'Legs & moving parts' },
+    { key: 'accessories', label: 'Plates & bag included' },
+  ],
+  accessory: [
+    { key: 'body', label: 'Condition' },
+    { key: 'function', label: 'Works as expected' },
+    { key: 'accessories', label: 'All parts included' },
+  ],
+}
+
+export const INSPECTION_CONDITIONS: Record<InspectionCondition, string> = {
+  ok: 'OK',
+  worn: 'Wear',
+  damaged: 'Damaged',
+  missing: 'Missing',
+}
+
+export const INSPECTION_KINDS: Record<InspectionKind, string> = {
+  check_out: 'Check-out',
+  check_in: 'Check-in',
+}
+
+const CONDITION_SEVERITY: Record<InspectionCondition, number> = {
+  ok: 0,
+  worn: 1,
+  damaged: 2,
+  missing: 3,
+}
+
+export function getChecklist(item: OrderItem): ChecklistItem[] {
+  return INSPECTION_CHECKLISTS[item.equipment?.category || 'accessory']
+}
+
+export function getInspection(order: Order, kind: InspectionKind): OrderInspection | null {
+  return order.inspections?.find(inspection => inspection.kind === kind) || null
+}
+
+// Check-in starts from what was recorded at check-out, so only changes need to be marked
+export function buildInspectionItems(order: Order, kind: InspectionKind): InspectionItemResult[] {
+  const checkOut = kind === 'check_in' ? getInspection(order, 'check_out') : null
+
+  return (order.items || []).map(item => {
+    const previous = checkOut?.items.find(result => result.order_item_id === item.id)
+    return {
+      order_item_id: item.id,
+      checks: Object.fromEntries(
+        getChecklist(item).map(check => [check.key, previous?.checks[check.key] || 'ok'])
+      ),
+      notes: null,
+      photo_paths: [],
+    }
+  })
+}
+
+export interface InspectionChange {
+  item: OrderItem
+  check: ChecklistItem
+  // Null when the gear went out without a check-out inspection
+  before: InspectionCondition | null
+  after: InspectionCondition
+}
+
+// Checks that came back in a worse state than they went out in
+export function compareInspections(order: Order): InspectionChange[] {
+  const checkOut = getInspection(order, 'check_out')
+  const checkIn = getInspection(order, 'check_in')
+  if (!checkIn) return []
+
+  const changes: InspectionChange[] = []
+  for (const item of order.items || []) {
+    const returned = checkIn.items.find(result => result.order_item_id === item.id)
+    if (!returned) continue
+    const issued = checkOut?.items.find(result => result.order_item_id === item.id)
+
+    for (const check of getChecklist(item)) {
+      const after = returned.checks[check.key] || 'ok'
+      const before = checkOut ? issued?.checks[check.key] || 'ok' : null
+      if (CONDITION_SEVERITY[after] > CONDITION_SEVERITY[before || 'ok']) {
+        changes.push({ item, check, before, after })
+      }
+    }
+  }
+
+  return changes
+}
+
+export function describeInspectionChanges(changes: InspectionChange[]): string {
+  return changes
+    .map(change => `${change.item.equipment?.name || 'Equipment'} ${change.check.label.toLowerCase()}: ${INSPECTION_CONDITIONS[change.after].toLowerCase()}`)
+    .join('; ')
+}
\ No newline at end of file
@@ -0,0 +1,178 @@
+import { Order, PaymentMethod } from './supabase'
+import { PriceLine, formatDuration } from './pricing'
+import { getExtendedHours } from './extensions'
+import { ORDER_CHARGE_TAX, TAX_CATEGORIES, TaxBreakdown, getStateName } from './tax'
+import { ORDER_CHARGE_KINDS } from './charges'
+import { PAYMENT_KINDS, getAmountDue, getAmountPaid, getDepositHeld, getOutstanding } from './payments'
+
+export interface InvoiceLine {
+  description: string
+  period: string
+  sac: string
+  pricing: PriceLine[]
+  amount: number
+}
+
+export interface InvoiceTaxLine {
+  label: string
+  amount: number
+}
+
+export interface InvoiceDepositMovement {
+  label: string
+  method: PaymentMethod
+  date: string
+  amount: number
+}
+
+export interface InvoiceDocument {
+  billTo: {
+    name: string
+    details: string[]
+  }
+  lines: InvoiceLine[]
+  placeOfSupply: string | null
+  // Line amounts already include GST, so the subtotal is the taxable value carved out of them
+  pricesIncludeTax: boolean
+  subtotal: number
+  taxes: InvoiceTaxLine[]
+  total: number
+  // Net of refunds, from the payments ledger
+  paid: number
+  balance: number
+  // Refundable deposit, kept apart from the amounts above
+  deposit: {
+    amount: number
+    held: number
+    movements: InvoiceDepositMovement[]
+  } | null
+}
+
+const formatDate = (date: string) => {
+  return new Date(date).toLocaleString('en-IN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+// Shared by the printable page and the PDF so both always show the same figures
+export function buildInvoice(order: Order): InvoiceDocument {
+  const pricesIncludeTax = order.tax?.prices_include_tax || false
+  // A cancelled order only bills its cancellation fees
+  const cancelled = order.status === 'cancelled'
+  const items = cancelled ? [] : order.items || []
+  const charges = (order.charges || []).filter(charge => !cancelled || charge.kind === 'cancellation')
+  const extensions = cancelled ? [] : order.extensions || []
+  const describeItem = (itemId: string) => {
+    const item = order.items?.find(current => current.id === itemId)
+    return `${item?.equipment?.name || 'Equipment'}${item?.unit ? ` S/N ${item.unit.serial_number}` : ''}`
+  }
+
+  // Items are billed for the time they were booked for; extensions follow as their own lines
+  const lines: InvoiceLine[] = items.map(item => {
+    const bookedHours = item.duration_hours - getExtendedHours(order, item)
+    const bookedDueAt = new Date(new Date(item.rent_date).getTime() + bookedHours * 60 * 60 * 1000).toISOString()
+
+    return {
+      description: `${describeItem(item.id)} (${formatDuration(bookedHours)})`,
+      period: `${formatDate(item.rent_date)} – ${formatDate(bookedDueAt)}`,
+      sac: (item.equipment && TAX_CATEGORIES[item.equipment.category]?.sac) || '',
+      pricing: item.pricing?.lines || [],
+      amount: item.line_total,
+    }
+  })
+
+  for (const extension of extensions) {
+    const item = order.items?.find(current => current.id === extension.order_item_id)
+    lines.push({
+      description: `Extension: ${describeItem(extension.order_item_id)} (+${formatDuration(extension.extra_hours)})`,
+      period: `${formatDate(extension.previous_due_at)} – ${formatDate(extension.new_due_at)}`,
+      sac: (item?.equipment && TAX_CATEGORIES[item.equipment.category]?.sac) || '',
+      pricing: [
+        ...(extension.pricing?.lines || []),
+        { label: 'Already billed', quantity: 1, unit_price: -extension.previous_total, amount: -extension.previous_total },
+      ],
+      amount: extension.amount,
+    })
+  }
+
+  for (const charge of charges) {
+    lines.push({
+      description: `${ORDER_CHARGE_KINDS[charge.kind]}: ${charge.description}`,
+      period: formatDate(charge.created_at),
+      sac: ORDER_CHARGE_TAX.sac,
+      pricing: [],
+      amount: pricesIncludeTax ? charge.total : charge.amount,
+    })
+  }
+
+  const taxes: InvoiceTaxLine[] = []
+  const addTax = (label: string, amount: number) => {
+    const existing = taxes.find(tax => tax.label === label)
+    if (existing) {
+      existing.amount += amount
+    } else {
+      taxes.push({ label, amount })
+    }
+  }
+
+  const addBreakdown = (breakdown: TaxBreakdown | null) => {
+    for (const line of breakdown?.lines || []) {
+      if (breakdown?.inter_state) {
+        addTax(`IGST @ ${line.rate}%`, line.igst)
+      } else {
+        addTax(`CGST @ ${line.rate / 2}%`, line.cgst)
+        addTax(`SGST @ ${line.rate / 2}%`, line.sgst)
+      }
+    }
+  }
+
+  if (!cancelled) addBreakdown(order.tax)
+  extensions.forEach(extension => addBreakdown(extension.tax))
+  charges.forEach(charge => addBreakdown(charge.tax))
+
+  const itemsSubtotal = cancelled
+    ? 0
+    : order.tax?.taxable_value ?? items.reduce((sum, item) => sum + item.line_total, 0)
+  const depositMovements = (order.payments || [])
+    .filter(payment => payment.kind.startsWith('deposit'))
+    .map(payment => ({
+      label: PAYMENT_KINDS[payment.kind],
+      method: payment.method,
+      date: formatDate(payment.created_at),
+      amount: payment.amount,
+    }))
+
+  const customer = order.customer
+  const billTo = customer
+    ? {
+        name: customer.name,
+        details: [
+          customer.address,
+          customer.phone,
+          customer.email,
+          customer.gstin && `GSTIN: ${customer.gstin}`,
+        ].filter(Boolean) as string[],
+      }
+    : { name: order.user?.name || 'Customer', details: order.user?.email ? [order.user.email] : [] }
+
+  return {
+    billTo,
+    lines,
+    placeOfSupply: order.place_of_supply ? `${order.place_of_supply} - ${getStateName(order.place_of_supply)}` : null,
+    pricesIncludeTax,
+    subtotal: itemsSubtotal
+      + extensions.reduce((sum, extension) => sum + (extension.tax?.taxable_value ?? extension.amount), 0)
+      + charges.reduce((sum, charge) => sum + charge.amount, 0),
+    taxes,
+    total: getAmountDue(order),
+    paid: getAmountPaid(order),
+    balance: getOutstanding(order),
+    deposit: order.deposit_amount > 0 || depositMovements.length > 0
+      ? { amount: order.deposit_amount, held: getDepositHeld(order), movements: depositMovements }
+      : null,
+  }
+}
\ No newline at end of file
@@ -0,0 +1,119 @@
+import { jsPDF } from 'jspdf'
+import { Invoice, Order } from './supabase'
+import { business } from './business'
+import { buildInvoice } from './invoice'
+import { PAYMENT_METHODS, PAYMENT_STATUS_LABELS } from './payments'
+
+// The built-in PDF fonts have no rupee glyph
+const formatAmount = (amount: number) => {
+  return `Rs. ${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+export function downloadInvoicePdf(invoice: Invoice, order: Order) {
+  const invoiceDocument = buildInvoice(order)
+  const pdf = new jsPDF({ unit: 'mm', format: 'a4' })
+  const pageWidth = pdf.internal.pageSize.getWidth()
+  const left = 15
+  const right = pageWidth - 15
+  let y = 20
+
+  const nextLine = (height = 6) => {
+    y += height
+    if (y > 280) {
+      pdf.addPage()
+      y = 20
+    }
+  }
+
+  pdf.setFont('helvetica', 'bold')
+  pdf.setFontSize(18)
+  pdf.text(business.name, left, y)
+  pdf.text('INVOICE', right, y, { align: 'right' })
+
+  pdf.setFont('helvetica', 'normal')
+  pdf.setFontSize(10)
+  const businessDetails = [business.address, business.phone, business.email, business.gstin && `GSTIN: ${business.gstin}`]
+  for (const detail of businessDetails.filter(Boolean) as string[]) {
+    nextLine(5)
+    pdf.text(detail, left, y)
+  }
+
+  y = 28
+  pdf.text(`Invoice No: ${invoice.invoice_number}`, right, y, { align: 'right' })
+  pdf.text(`Date: ${new Date(invoice.issued_at).toLocaleDateString('en-IN')}`, right, y + 5, { align: 'right' })
+  pdf.text(`Payment: ${PAYMENT_STATUS_LABELS[invoice.payment_status]}`, right, y + 10, { align: 'right' })
+
+  y = 55
+  pdf.setFont('helvetica', 'bold')
+  pdf.text('Bill To', left, y)
+  pdf.setFont('helvetica', 'normal')
+  nextLine(5)
+  pdf.text(invoiceDocument.billTo.name, left, y)
+  for (const detail of invoiceDocument.billTo.details) {
+    nextLine(5)
+    pdf.text(detail, left, y)
+  }
+  if (invoiceDocument.placeOfSupply) {
+    nextLine(5)
+    pdf.text(`Place of Supply: ${invoiceDocument.placeOfSupply}`, left, y)
+  }
+
+  nextLine(12)
+  pdf.setFont('helvetica', 'bold')
+  pdf.text('Description', left, y)
+  pdf.text('Amount', right, y, { align: 'right' })
+  nextLine(2)
+  pdf.line(left, y, right, y)
+  pdf.setFont('helvetica', 'normal')
+
+  for (const line of invoiceDocument.lines) {
+    nextLine()
+    pdf.text(line.description, left, y)
+    pdf.text(formatAmount(line.amount), right, y, { align: 'right' })
+    pdf.setFontSize(8)
+    nextLine(4)
+    pdf.text(line.sac ? `${line.period}  |  SAC ${line.sac}` : line.period, left + 2, y)
+    for (const price of line.pricing) {
+      nextLine(4)
+      const quantity = price.quantity > 1 ? ` x ${price.quantity}` : ''
+      pdf.text(`${price.label}${quantity}: ${formatAmount(price.amount)}`, left + 2, y)
+    }
+    pdf.setFontSize(10)
+    nextLine(2)
+  }
+
+  nextLine(2)
+  pdf.line(left, y, right, y)
+
+  const totals: [string, number][] = [
+    [invoiceDocument.pricesIncludeTax ? 'Taxable Value' : 'Subtotal', invoiceDocument.subtotal],
+    ...invoiceDocument.taxes.map(tax => [tax.label, tax.amount] as [string, number]),
+    ['Total', invoiceDocument.total],
+    ['Amount Paid', invoiceDocument.paid],
+    ['Balance Due', invoiceDocument.balance],
+  ]
+  for (const [label, amount] of totals) {
+    nextLine()
+    pdf.setFont('helvetica', label === 'Total' ? 'bold' : 'normal')
+    pdf.text(label, right - 60, y)
+    pdf.text(formatAmount(amount), right, y, { align: 'right' })
+  }
+
+  if (invoiceDocument.deposit) {
+    nextLine(10)
+    pdf.setFont('helvetica', 'bold')
+    pdf.text(`Refundable Deposit: ${formatAmount(invoiceDocument.deposit.amount)}`, left, y)
+    pdf.setFont('helvetica', 'normal')
+    pdf.setFontSize(8)
+    for (const movement of invoiceDocument.deposit.movements) {
+      nextLine(4)
+      pdf.text(`${movement.date}  ${movement.label} (${PAYMENT_METHODS[movement.method]})`, left + 2, y)
+      pdf.text(formatAmount(movement.amount), right, y, { align: 'right' })
+    }
+    nextLine(5)
+    pdf.text(`Currently held: ${formatAmount(invoiceDocument.deposit.held)}`, left + 2, y)
+    pdf.setFontSize(10)
+  }
+
+  pdf.save(`${invoice.invoice_number}.pdf`)
+}
\ No newline at end of file
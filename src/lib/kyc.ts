@@ -0,0 +1,29 @@
+import { Customer, IdType } from './supabase'
+
+export const ID_TYPES: Record<IdType, string> = {
+  aadhaar: 'Aadhaar',
+  pan: 'PAN Card',
+  passport: 'Passport',
+  driving_licence: 'Driving Licence',
+  voter_id: 'Voter ID',
+}
+
+export type KycStatus = 'verified' | 'unverified' | 'expired'
+
+export const KYC_STATUS_LABELS: Record<KycStatus, string> = {
+  verified: 'ID Verified',
+  unverified: 'ID Not Verified',
+  expired: 'ID Expired',
+}
+
+// Expiry is checked against the day the rental starts, matching the database guard
+export function getKycStatus(customer: Customer, at: Date = new Date()): KycStatus {
+  if (!customer.kyc_verified_at) return 'unverified'
+
+  if (customer.id_expiry) {
+    const day = at.toLocaleDateString('en-CA', { timeZone: 'Asia/Kolkata' })
+    if (customer.id_expiry < day) return 'expired'
+  }
+
+  return 'verified'
+}
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { Order } from './supabase'
+
+export interface LateFeePolicy {
+  // Minutes after the due time before a fee applies; once exceeded, lateness counts from the due time
+  graceMinutes: number
+  // 'hour' charges every started hour late, 'period' every started 12 hours at the 12-hour rate
+  unit: 'hour' | 'period'
+  // Share of the 24-hour rate charged per started hour when unit is 'hour'
+  hourlyRate: number
+  // Most charged per item, in 24-hour rates
+  capDays: number
+}
+
+export const DEFAULT_LATE_FEE_POLICY: LateFeePolicy = {
+  graceMinutes: 60,
+  unit: 'hour',
+  hourlyRate: 0.1,
+  capDays: 3,
+}
+
+export interface LateFeeLine {
+  equipment_name: string
+  hours_late: number
+  amount: number
+}
+
+export interface LateFee {
+  lines: LateFeeLine[]
+  total: number
+}
+
+const HOUR_MS = 60 * 60 * 1000
+const PERIOD_HOURS = 12
+
+// Whole hours past the due time, counting a started hour as a full one
+export function getHoursLate(dueAt: string, at: Date = new Date()): number {
+  const lateMs = at.getTime() - new Date(dueAt).getTime()
+  return lateMs > 0 ? Math.ceil(lateMs / HOUR_MS) : 0
+}
+
+export function isOverdue(order: Order, at: Date = new Date()): boolean {
+  return order.status === 'overdue' || (order.status === 'checked_out' && new Date(order.due_at) < at)
+}
+
+// Returned after the grace period on any item, whether or not a fee was charged
+export function wasReturnedLate(order: Order, policy: LateFeePolicy = DEFAULT_LATE_FEE_POLICY): boolean {
+  if (!order.returned_at) return false
+
+  const returnedAt = new Date(order.returned_at).getTime()
+  return (order.items || []).some(item =>
+    returnedAt - new Date(item.due_at).getTime() > policy.graceMinutes * 60 * 1000
+  )
+}
+
+// Fee per item for a return at `returnedAt`; each item is measured against its own due time. Shown
+// while the rental is out; check_in_order in the database works out the fee actually charged.
+export function calculateLateFee(
+  order: Order,
+  returnedAt: Date = new Date(),
+  policy: LateFeePolicy = DEFAULT_LATE_FEE_POLICY
+): LateFee {
+  const lines: LateFeeLine[] = []
+
+  for (const item of order.items || []) {
+    const lateMs = returnedAt.getTime() - new Date(item.due_at).getTime()
+    if (lateMs <= policy.graceMinutes * 60 * 1000 || !item.equipment) continue
+
+    const hoursLate = getHoursLate(item.due_at, returnedAt)
+    const fee = policy.unit === 'hour'
+      ? hoursLate * item.equipment.rate_24hr * policy.hourlyRate
+      : Math.ceil(hoursLate / PERIOD_HOURS) * item.equipment.rate_12hr
+    const amount = Math.round(Math.min(fee, item.equipment.rate_24hr * policy.capDays))
+
+    if (amount > 0) {
+      lines.push({ equipment_name: item.equipment.name, hours_late: hoursLate, amount })
+    }
+  }
+
+  return {
+    lines,
+    total: lines.reduce((sum, line) => sum + line.amount, 0),
+  }
+}
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { Equipment, MaintenanceTicket, Order } from './supabase'
+
+export function isTicketOpen(ticket: MaintenanceTicket): boolean {
+  return ticket.closed_at === null
+}
+
+// Whole days the unit has been, or was, out of service
+export function getDaysOutOfService(ticket: MaintenanceTicket, at: Date = new Date()): number {
+  const end = ticket.closed_at ? new Date(ticket.closed_at) : at
+  return Math.max(0, Math.ceil((end.getTime() - new Date(ticket.opened_at).getTime()) / (24 * 60 * 60 * 1000)))
+}
+
+export interface EquipmentProfitability {
+  equipment: Equipment
+  rentals: number
+  // Rental line totals before tax; charges such as late fees are not tied to an item
+  revenue: number
+  repairCost: number
+  openTickets: number
+  net: number
+}
+
+// Cancelled orders earned nothing; repair costs count from the moment a ticket is opened
+export function getEquipmentProfitability(
+  equipment: Equipment[],
+  orders: Order[],
+  tickets: MaintenanceTicket[]
+): EquipmentProfitability[] {
+  const rows = new Map<string, EquipmentProfitability>(
+    equipment.map(item => [item.id, { equipment: item, rentals: 0, revenue: 0, repairCost: 0, openTickets: 0, net: 0 }])
+  )
+
+  for (const order of orders) {
+    if (order.status === 'cancelled') continue
+    for (const item of order.items || []) {
+      const row = rows.get(item.equipment_id)
+      if (!row) continue
+      row.rentals += 1
+      row.revenue += item.line_total
+    }
+  }
+
+  for (const ticket of tickets) {
+    const row = rows.get(ticket.equipment_id)
+    if (!row) continue
+    row.repairCost += ticket.cost
+    if (isTicketOpen(ticket)) row.openTickets += 1
+  }
+
+  return Array.from(rows.values())
+    .map(row => ({ ...row, net: row.revenue - row.repairCost }))
+    .sort((a, b) => b.net - a.net)
+}
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { Order } from './supabase'
+
+// Short label for toasts and headings
+export function getOrderItemNames(order: Order): string {
+  const names = (order.items || []).map(item => item.equipment?.name || 'Equipment')
+  return names.length > 0 ? names.join(', ') : 'Equipment'
+}
+
+// Orders placed before customers were recorded fall back to the staff login that placed them
+export function getCustomerName(order: Order): string {
+  return order.customer?.name || order.user?.name || 'Unknown'
+}
+
+export function getCustomerContact(order: Order): string {
+  if (order.customer) {
+    return [order.customer.phone, order.customer.email].filter(Boolean).join(' · ')
+  }
+  return order.user?.email || ''
+}
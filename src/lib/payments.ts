@@ -0,0 +1,106 @@
+import { Invoice, Order, PaymentKind, PaymentMethod } from './supabase'
+import { getCustomerContact, getCustomerName } from './orders'
+
+export const PAYMENT_METHODS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  upi: 'UPI',
+  card: 'Card',
+  bank_transfer: 'Bank Transfer',
+}
+
+export const PAYMENT_KINDS: Record<PaymentKind, string> = {
+  payment: 'Payment',
+  refund: 'Refund',
+  deposit: 'Deposit Collected',
+  deposit_release: 'Deposit Released',
+  deposit_deduction: 'Deposit Deducted',
+}
+
+export const PAYMENT_STATUS_LABELS: Record<Invoice['payment_status'], string> = {
+  unpaid: 'Unpaid',
+  partial: 'Partially Paid',
+  paid: 'Paid',
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100
+
+const sumPayments = (order: Order, signs: Partial<Record<PaymentKind, number>>) => {
+  return round((order.payments || []).reduce(
+    (sum, payment) => sum + (signs[payment.kind] || 0) * payment.amount,
+    0
+  ))
+}
+
+// Net of refunds; deposit deductions count, deposits still held do not
+export function getAmountPaid(order: Order): number {
+  return sumPayments(order, { payment: 1, refund: -1, deposit_deduction: 1 })
+}
+
+export function getDepositHeld(order: Order): number {
+  return sumPayments(order, { deposit: 1, deposit_release: -1, deposit_deduction: -1 })
+}
+
+// Still to be collected before the deposit is fully held
+export function getDepositDue(order: Order): number {
+  const collected = sumPayments(order, { deposit: 1 })
+  return Math.max(round(order.deposit_amount - collected), 0)
+}
+
+// A cancelled order only owes its cancellation fees, as in the database's order_amount_due
+export function getAmountDue(order: Order): number {
+  if (order.status !== 'cancelled') return order.total_cost
+
+  return round((order.charges || [])
+    .filter(charge => charge.kind === 'cancellation')
+    .reduce((sum, charge) => sum + charge.total, 0))
+}
+
+// Billed across the orders: cancelled bookings count only for their cancellation fees
+export function getRevenue(orders: Order[]): number {
+  return round(orders.reduce((sum, order) => sum + getAmountDue(order), 0))
+}
+
+// Negative when more has been collected than is owed, i.e. a refund is due
+export function getOutstanding(order: Order): number {
+  return round(getAmountDue(order) - getAmountPaid(order))
+}
+
+export interface CustomerBalance {
+  // Customer id, or the placing staff member for orders from before customers were recorded
+  key: string
+  customer_id: string | null
+  name: string
+  contact: string
+  orders: number
+  billed: number
+  paid: number
+  outstanding: number
+}
+
+// Customers who owe money or are owed a refund, largest balance first
+export function getOutstandingByCustomer(orders: Order[]): CustomerBalance[] {
+  const balances = new Map<string, CustomerBalance>()
+
+  for (const order of orders) {
+    const key = order.customer_id || `user:${order.user_id}`
+    const balance = balances.get(key) || {
+      key,
+      customer_id: order.customer_id,
+      name: getCustomerName(order),
+      contact: getCustomerContact(order),
+      orders: 0,
+      billed: 0,
+      paid: 0,
+      outstanding: 0,
+    }
+    balance.orders += 1
+    balance.billed = round(balance.billed + getAmountDue(order))
+    balance.paid = round(balance.paid + getAmountPaid(order))
+    balance.outstanding = round(balance.billed - balance.paid)
+    balances.set(key, balance)
+  }
+
+  return Array.from(balances.values())
+    .filter(balance => balance.outstanding !== 0)
+    .sort((a, b) => Math.abs(b.outstanding) - Math.abs(a.outstanding))
+}
\ No newline at end of file
@@ -0,0 +1,87 @@
+import type { RolePermission, UserRole } from './supabase'
+
+export const ROLES: Record<UserRole, string> = {
+  admin: 'Admin',
+  manager: 'Manager',
+  counter_staff: 'Counter Staff',
+  technician: 'Technician',
+  accountant: 'Accountant',
+  customer: 'Customer',
+}
+
+export const ROLE_BADGE_COLORS: Record<UserRole, string> = {
+  admin: 'bg-red-100 text-red-800',
+  manager: 'bg-purple-100 text-purple-800',
+  counter_staff: 'bg-blue-100 text-blue-800',
+  technician: 'bg-yellow-100 text-yellow-800',
+  accountant: 'bg-indigo-100 text-indigo-800',
+  customer: 'bg-green-100 text-green-800',
+}
+
+// Names match the role_permissions rows that RLS policies check with has_permission()
+export type Permission =
+  | 'orders.view'
+  | 'orders.create'
+  | 'orders.checkout'
+  | 'orders.extend'
+  | 'orders.cancel'
+  | 'orders.charge'
+  | 'orders.refund'
+  | 'payments.record'
+  | 'inspections.record'
+  | 'claims.create'
+  | 'claims.resolve'
+  | 'customers.view'
+  | 'customers.edit'
+  | 'customers.delete'
+  | 'kyc.override'
+  | 'equipment.view'
+  | 'equipment.edit'
+  | 'maintenance.manage'
+  | 'reports.view'
+  | 'suggestions.manage'
+  | 'users.manage'
+
+export const PERMISSIONS: Record<Permission, string> = {
+  'orders.view': 'View all orders',
+  'orders.create': 'Create orders',
+  'orders.checkout': 'Check out and check in',
+  'orders.extend': 'Extend rentals',
+  'orders.cancel': 'Cancel orders',
+  'orders.charge': 'Raise charges',
+  'orders.refund': 'Refund payments and waive cancellation fees',
+  'payments.record': 'Record payments',
+  'inspections.record': 'Record inspections',
+  'claims.create': 'Raise damage claims',
+  'claims.resolve': 'Resolve damage claims',
+  'customers.view': 'View customers',
+  'customers.edit': 'Add and edit customers',
+  'customers.delete': 'Delete customers',
+  'kyc.override': 'Override the ID check',
+  'equipment.view': 'View all equipment',
+  'equipment.edit': 'Edit equipment and bundles',
+  'maintenance.manage': 'Manage maintenance',
+  'reports.view': 'View revenue',
+  'suggestions.manage': 'Manage suggestions',
+  'users.manage': 'Manage users and roles',
+}
+
+// Any one of these opens the admin panel, which shows only the tabs they allow
+export const ADMIN_PANEL_PERMISSIONS: Permission[] = [
+  'equipment.edit',
+  'maintenance.manage',
+  'claims.resolve',
+  'reports.view',
+  'suggestions.manage',
+  'users.manage',
+]
+
+export function getRolePermissions(matrix: RolePermission[], role: UserRole): Permission[] {
+  return matrix.filter(row => row.role === role).map(row => row.permission)
+}
+
+// True when the granted permissions include any of the required ones
+export function hasPermission(granted: Permission[], required: Permission | Permission[]): boolean {
+  const anyOf = Array.isArray(required) ? required : [required]
+  return anyOf.some(permission => granted.includes(permission))
+}
\ No newline at end of file
@@ -0,0 +1,101 @@
+import { Equipment } from './supabase'
+
+export interface PricingPolicy {
+  // Share of the 24-hour rate charged for each day after the first
+  extraDayRate: number
+  // Most day-rates charged for any block of seven consecutive days
+  weeklyCapDays: number
+}
+
+export const DEFAULT_PRICING_POLICY: PricingPolicy = {
+  extraDayRate: 0.75,
+  weeklyCapDays: 4,
+}
+
+export interface PriceLine {
+  label: string
+  quantity: number
+  unit_price: number
+  amount: number
+}
+
+// Stored on each order so the bill can be explained after rates change
+export interface PriceBreakdown {
+  duration_hours: number
+  lines: PriceLine[]
+  subtotal: number
+  discount: number
+  total: number
+}
+
+export const HALF_DAY_HOURS = 12
+export const DAY_HOURS = 24
+
+// Durations offered at the counter; longer rentals use a custom number of days
+export const DURATION_PRESETS = [12, 24, 48, 72, 96, 120, 144, 168]
+
+export function formatDuration(hours: number): string {
+  if (hours < DAY_HOURS) return `${hours} hours`
+  const days = hours / DAY_HOURS
+  return days === 1 ? '1 day' : `${Number.isInteger(days) ? days : days.toFixed(1)} days`
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100
+
+// Mirrored by rental_price in the database, which prices orders; change them together
+export function calculateRentalPrice(
+  equipment: Pick<Equipment, 'rate_12hr' | 'rate_24hr'>,
+  durationHours: number,
+  policy: PricingPolicy = DEFAULT_PRICING_POLICY
+): PriceBreakdown {
+  if (!Number.isFinite(durationHours) || durationHours <= 0) {
+    throw new Error('Rental duration must be greater than zero')
+  }
+
+  if (durationHours <= HALF_DAY_HOURS) {
+    return {
+      duration_hours: durationHours,
+      lines: [{ label: '12 hours', quantity: 1, unit_price: equipment.rate_12hr, amount: equipment.rate_12hr }],
+      subtotal: equipment.rate_12hr,
+      discount: 0,
+      total: equipment.rate_12hr,
+    }
+  }
+
+  // Part days are billed as a full day
+  const days = Math.ceil(durationHours / DAY_HOURS)
+  const dayRate = equipment.rate_24hr
+  const extraDayPrice = round(dayRate * policy.extraDayRate)
+
+  const lines: PriceLine[] = [{ label: 'First day', quantity: 1, unit_price: dayRate, amount: dayRate }]
+  if (days > 1) {
+    lines.push({
+      label: 'Additional days',
+      quantity: days - 1,
+      unit_price: extraDayPrice,
+      amount: round(extraDayPrice * (days - 1)),
+    })
+  }
+
+  const subtotal = round(lines.reduce((sum, line) => sum + line.amount, 0))
+
+  // Each full week costs at most weeklyCapDays day-rates, and so do the remaining days
+  const weekPrice = dayRate * policy.weeklyCapDays
+  const fullWeeks = Math.floor(days / 7)
+  const remainingDays = days % 7
+  const remainingPrice = fullWeeks > 0 ? remainingDays * extraDayPrice : subtotal
+  const cap = round(fullWeeks * weekPrice + Math.min(remainingPrice, weekPrice))
+  const discount = subtotal > cap ? round(subtotal - cap) : 0
+
+  if (discount > 0) {
+    lines.push({ label: 'Weekly cap', quantity: 1, unit_price: -discount, amount: -discount })
+  }
+
+  return {
+    duration_hours: durationHours,
+    lines,
+    subtotal,
+    discount,
+    total: round(subtotal - discount),
+  }
+}
\ No newline at end of file
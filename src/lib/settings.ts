@@ -0,0 +1,23 @@
+import { db } from './supabase'
+import { DEFAULT_PRICING_POLICY } from './pricing'
+import { DEFAULT_LATE_FEE_POLICY } from './lateFees'
+import { DEFAULT_CANCELLATION_POLICY } from './cancellation'
+import { taxSettings } from './tax'
+
+// Orders are priced by the database; the app reads the same settings so its previews agree.
+// Until they load, or if they cannot be read, the defaults stand in.
+export async function loadBusinessSettings(): Promise<void> {
+  const settings = await db.getBusinessSettings()
+  if (!settings) return
+
+  taxSettings.businessStateCode = settings.business_state_code
+  taxSettings.pricesIncludeTax = settings.prices_include_tax
+  DEFAULT_PRICING_POLICY.extraDayRate = settings.extra_day_rate
+  DEFAULT_PRICING_POLICY.weeklyCapDays = settings.weekly_cap_days
+  DEFAULT_LATE_FEE_POLICY.graceMinutes = settings.late_grace_minutes
+  DEFAULT_LATE_FEE_POLICY.unit = settings.late_fee_unit
+  DEFAULT_LATE_FEE_POLICY.hourlyRate = settings.late_hourly_rate
+  DEFAULT_LATE_FEE_POLICY.capDays = settings.late_cap_days
+  DEFAULT_CANCELLATION_POLICY.freeHours = settings.cancellation_free_hours
+  DEFAULT_CANCELLATION_POLICY.feePercent = settings.cancellation_fee_percent
+}
\ No newline at end of file
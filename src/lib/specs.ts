@@ -0,0 +1,95 @@
+import { Equipment } from './supabase'
+import { EquipmentCategory } from './tax'
+
+export type SpecValue = string | number | boolean
+
+// Keyed by SpecField.key; only the fields of the equipment's category are kept
+export type EquipmentSpecs = Record<string, SpecValue>
+
+export interface SpecField {
+  key: string
+  label: string
+  type: 'text' | 'number' | 'boolean' | 'select'
+  unit?: string
+  options?: string[]
+  // Offered as a filter on the catalog
+  facet?: boolean
+}
+
+export const MOUNTS = [
+  'Sony E',
+  'Canon RF',
+  'Canon EF',
+  'Nikon Z',
+  'Nikon F',
+  'Fujifilm X',
+  'L-Mount',
+  'Micro Four Thirds',
+  'PL',
+]
+
+// Mounts only mean something for bodies and the lenses that fit them
+export const MOUNT_CATEGORIES: EquipmentCategory[] = ['body', 'lens']
+
+export const SPEC_FIELDS: Record<EquipmentCategory, SpecField[]> = {
+  body: [
+    { key: 'sensor', label: 'Sensor', type: 'select', options: ['Full Frame', 'APS-C', 'Super 35', 'Micro Four Thirds', 'Medium Format'], facet: true },
+    { key: 'megapixels', label: 'Resolution', type: 'number', unit: 'MP' },
+    { key: 'max_video', label: 'Max Video', type: 'select', options: ['1080p', '4K', '6K', '8K'], facet: true },
+    { key: 'ibis', label: 'In-body Stabilisation', type: 'boolean', facet: true },
+    { key: 'weight_g', label: 'Weight', type: 'number', unit: 'g' },
+  ],
+  lens: [
+    { key: 'focal_min', label: 'Focal Length (min)', type: 'number', unit: 'mm' },
+    { key: 'focal_max', label: 'Focal Length (max)', type: 'number', unit: 'mm' },
+    { key: 'max_aperture', label: 'Max Aperture', type: 'text' },
+    { key: 'lens_type', label: 'Type', type: 'select', options: ['Prime', 'Zoom', 'Cine', 'Macro', 'Anamorphic'], facet: true },
+    { key: 'stabilised', label: 'Stabilised', type: 'boolean', facet: true },
+    { key: 'autofocus', label: 'Autofocus', type: 'boolean', facet: true },
+  ],
+  lighting: [
+    { key: 'light_type', label: 'Type', type: 'select', options: ['LED Panel', 'COB', 'Tube', 'Fresnel', 'Flash'], facet: true },
+    { key: 'power_w', label: 'Power', type: 'number', unit: 'W' },
+    { key: 'colour', label: 'Colour', type: 'select', options: ['Daylight', 'Bi-colour', 'RGB'], facet: true },
+    { key: 'battery', label: 'Battery Powered', type: 'boolean', facet: true },
+  ],
+  audio: [
+    { key: 'audio_type', label: 'Type', type: 'select', options: ['Shotgun', 'Lavalier', 'Wireless Kit', 'Recorder', 'Handheld'], facet: true },
+    { key: 'connector', label: 'Connector', type: 'select', options: ['XLR', '3.5mm', 'USB-C'], facet: true },
+    { key: 'channels', label: 'Channels', type: 'number' },
+  ],
+  grip: [
+    { key: 'grip_type', label: 'Type', type: 'select', options: ['Tripod', 'Gimbal', 'Slider', 'Rig', 'Monopod'], facet: true },
+    { key: 'max_payload_kg', label: 'Max Payload', type: 'number', unit: 'kg' },
+    { key: 'max_height_cm', label: 'Max Height', type: 'number', unit: 'cm' },
+  ],
+  accessory: [
+    { key: 'compatibility', label: 'Works With', type: 'text' },
+  ],
+}
+
+export function formatSpecValue(field: SpecField, value: SpecValue): string {
+  if (field.type === 'boolean') return value ? 'Yes' : 'No'
+  return field.unit ? `${value} ${field.unit}` : String(value)
+}
+
+// Drops blanks and fields that belong to another category, e.g. after the category changes
+export function cleanSpecs(category: EquipmentCategory, specs: EquipmentSpecs): EquipmentSpecs {
+  const cleaned: EquipmentSpecs = {}
+
+  for (const field of SPEC_FIELDS[category]) {
+    const value = specs[field.key]
+    if (value === undefined || value === '' || (typeof value === 'number' && isNaN(value))) continue
+    cleaned[field.key] = value
+  }
+
+  return cleaned
+}
+
+// Filled-in specs in sheet order, for display
+export function getSpecSheet(equipment: Equipment): { field: SpecField; value: SpecValue }[] {
+  const specs = equipment.specs || {}
+  return SPEC_FIELDS[equipment.category]
+    .filter(field => specs[field.key] !== undefined)
+    .map(field => ({ field, value: specs[field.key] }))
+}
\ No newline at end of file
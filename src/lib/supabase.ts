@@ -1,4 +1,9 @@
 import { createClient } from '@supabase/supabase-js'
+import type { PriceBreakdown } from './pricing'
+import type { EquipmentCategory, TaxBreakdown } from './tax'
+import type { EquipmentSpecs } from './specs'
+import type { Permission } from './permissions'
+import { type CatalogFacets, type CatalogFilters, buildCatalogFacets, toSearchQuery } from './catalog'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
@@ -10,34 +15,418 @@ if (!supabaseUrl || !supabaseAnonKey) {
 export const supabase = createClient(supabaseUrl, supabaseAnonKey)
 
 // Database Types
+export type UserRole = 'admin' | 'manager' | 'counter_staff' | 'technician' | 'accountant' | 'customer'
+
 export interface User {
   id: string
   name: string
   email: string
-  role: 'admin' | 'staff'
+  role: UserRole
+  created_at: string
+}
+
+// One row of the permissions matrix
+export interface RolePermission {
+  role: UserRole
+  permission: Permission
+}
+
+export type IdType = 'aadhaar' | 'pan' | 'passport' | 'driving_licence' | 'voter_id'
+
+export interface Customer {
+  id: string
+  name: string
+  phone: string | null
+  email: string | null
+  address: string | null
+  gstin: string | null
+  id_type: IdType | null
+  id_number: string | null
+  id_expiry: string | null
+  // Object path in the private kyc-documents storage bucket
+  id_scan_path: string | null
+  // Set by the database when staff verify the ID, cleared when the ID details change
+  kyc_verified_by: string | null
+  kyc_verified_at: string | null
+  notes: string | null
+  // Login account the customer signs in with to see their own orders
+  user_id: string | null
   created_at: string
+  verifier?: User | null
 }
 
+export type NewCustomer = Omit<Customer, 'id' | 'created_at' | 'kyc_verified_by' | 'kyc_verified_at' | 'verifier'>
+
 export interface Equipment {
   id: string
   name: string
   image_url: string
   rate_12hr: number
   rate_24hr: number
+  category: EquipmentCategory
+  brand: string | null
+  description: string | null
+  // Lens mount for bodies and lenses, e.g. "Sony E"
+  mount: string | null
+  // Typed per category, see SPEC_FIELDS
+  specs: EquipmentSpecs
+  // Refundable deposit collected when the item goes out
+  deposit_amount: number
+  // Maintained by the database from the model's units, never set by hand:
+  // whether any unit is on the shelf, units not retired, and units on the shelf right now
   available: boolean
+  unit_count: number
+  available_units: number
+  // Times the model has been rented, maintained by the database
+  rental_count: number
+  created_at: string
+}
+
+export type NewEquipment = Omit<Equipment, 'id' | 'created_at' | 'available' | 'unit_count' | 'available_units' | 'rental_count'>
+
+export type UnitCondition = 'new' | 'excellent' | 'good' | 'fair' | 'poor'
+
+// 'available' and 'rented' follow open orders; 'maintenance' and 'retired' are set by hand
+export type UnitStatus = 'available' | 'rented' | 'maintenance' | 'retired'
+
+// A physical, serial-numbered item of a catalog model
+export interface EquipmentUnit {
+  id: string
+  equipment_id: string
+  serial_number: string
+  purchase_date: string | null
+  condition: UnitCondition
+  status: UnitStatus
+  notes: string | null
+  created_at: string
+  equipment?: Equipment
+}
+
+export type NewEquipmentUnit = Omit<EquipmentUnit, 'id' | 'created_at' | 'equipment'>
+
+// Repairs or servicing of one unit; while open the unit is in maintenance and cannot be rented
+export interface MaintenanceTicket {
+  id: string
+  // Filled in by the database from the unit
+  equipment_id: string
+  unit_id: string
+  reason: string
+  vendor: string | null
+  cost: number
+  notes: string | null
+  opened_at: string
+  closed_at: string | null
+  opened_by: string | null
+  closed_by: string | null
+  created_at: string
+  equipment?: Equipment
+  unit?: EquipmentUnit
+}
+
+export type NewMaintenanceTicket = Pick<MaintenanceTicket, 'unit_id' | 'reason' | 'vendor' | 'cost' | 'notes' | 'opened_at' | 'closed_at'>
+
+// A kit rented as one item at its own price; every component is booked as its own order item
+export interface Bundle {
+  id: string
+  name: string
+  description: string | null
+  image_url: string
+  rate_12hr: number
+  rate_24hr: number
+  // Inactive kits are hidden from the catalog
+  active: boolean
+  created_at: string
+  items?: BundleItem[]
+}
+
+export interface BundleItem {
+  id: string
+  bundle_id: string
+  equipment_id: string
+  quantity: number
+  equipment?: Equipment
+}
+
+export type NewBundle = Omit<Bundle, 'id' | 'created_at' | 'items'>
+
+export type NewBundleItem = Pick<BundleItem, 'equipment_id' | 'quantity'>
+
+export type CompatibilityKind = 'mount' | 'battery' | 'accessory'
+
+// Two catalog models that work together; for accessory links `compatible` is the accessory
+export interface EquipmentCompatibility {
+  id: string
+  equipment_id: string
+  compatible_id: string
+  kind: CompatibilityKind
   created_at: string
+  equipment?: Equipment
+  compatible?: Equipment
+}
+
+export type NewEquipmentCompatibility = Pick<EquipmentCompatibility, 'equipment_id' | 'compatible_id' | 'kind'>
+
+export interface FrequentRental {
+  equipment_id: string
+  times_rented: number
 }
 
+export type OrderStatus = 'reserved' | 'checked_out' | 'returned' | 'overdue' | 'cancelled'
+
 export interface Order {
   id: string
+  // Staff member who placed the order
   user_id: string
-  equipment_id: string
-  duration: '12hr' | '24hr'
+  // Who the gear was rented to; null only on orders placed before customers were recorded
+  customer_id: string | null
+  // Admin who let the order through without a verified customer ID
+  kyc_override_by: string | null
+  kyc_override_reason: string | null
+  // Payable amount including tax
   total_cost: number
+  // GST state code the rental is supplied to
+  place_of_supply: string | null
+  tax: TaxBreakdown | null
+  // Refundable deposit required for the order, never part of total_cost
+  deposit_amount: number
   rent_date: string
+  status: OrderStatus
+  // Latest due time across the order's items
+  due_at: string
+  checked_out_at: string | null
+  returned_at: string | null
+  // Stamped by the database when the order is cancelled, which requires a reason
+  cancelled_at: string | null
+  cancelled_by: string | null
+  cancellation_reason: string | null
   created_at: string
   user?: User
+  canceller?: User | null
+  customer?: Customer | null
+  items?: OrderItem[]
+  payments?: Payment[]
+  charges?: OrderCharge[]
+  inspections?: OrderInspection[]
+  extensions?: OrderExtension[]
+  status_changes?: OrderStatusChange[]
+  claims?: DamageClaim[]
+}
+
+export interface OrderItem {
+  id: string
+  order_id: string
+  equipment_id: string
+  // Allocated by the database when the order is placed
+  unit_id: string
+  rent_date: string
+  duration_hours: number
+  due_at: string
+  pricing: PriceBreakdown | null
+  line_total: number
+  // The kit the item was rented as part of
+  bundle_id: string | null
+  created_at: string
+  equipment?: Equipment
+  unit?: EquipmentUnit
+  bundle?: Bundle | null
+  order?: Order
+}
+
+// Priced by the database from the current rates: the signed-in user places the order and
+// overrides the ID check when a reason is given, and status transitions go through the
+// dedicated db operations
+export type NewOrder = Pick<Order, 'customer_id' | 'kyc_override_reason' | 'place_of_supply'> & {
+  // Null, or a time already past, starts the rental now; a later time holds a reservation
+  rent_date: string | null
+}
+
+// Items share the order's rent date; without a unit the database picks a free one
+export type NewOrderItem = Pick<OrderItem, 'equipment_id' | 'duration_hours'> & {
+  unit_id?: string | null
+}
+
+// A kit to place; the database books one order item per component
+export interface NewOrderBundle {
+  bundle_id: string
+  duration_hours: number
+}
+
+// Recorded by the database whenever an order is placed or changes status
+export interface OrderStatusChange {
+  id: string
+  order_id: string
+  // Null when the order was placed
+  from_status: OrderStatus | null
+  to_status: OrderStatus
+  changed_by: string | null
+  changed_at: string
+  user?: User | null
+}
+
+export interface Invoice {
+  id: string
+  order_id: string
+  invoice_number: string
+  // Kept in step with the payments ledger by the database
+  payment_status: 'unpaid' | 'partial' | 'paid'
+  issued_at: string
+  created_at: string
+}
+
+export type PaymentMethod = 'cash' | 'upi' | 'card' | 'bank_transfer'
+
+// Deposits are held separately; a deduction is kept by the business and pays towards the order
+export type PaymentKind = 'payment' | 'refund' | 'deposit' | 'deposit_release' | 'deposit_deduction'
+
+export interface Payment {
+  id: string
+  order_id: string
+  kind: PaymentKind
+  method: PaymentMethod
+  // Always positive; refunds and releases are subtracted when balancing
+  amount: number
+  reference: string | null
+  notes: string | null
+  recorded_by: string | null
+  created_at: string
+  recorder?: User | null
+}
+
+// Deposit releases and deductions are only written by settle_order_deposit and cancellation
+export type NewPayment = Omit<Payment, 'id' | 'created_at' | 'kind'> & {
+  kind: Exclude<PaymentKind, 'deposit_release' | 'deposit_deduction'>
+}
+
+export type OrderChargeKind = 'late_fee' | 'damage' | 'cancellation' | 'other'
+
+// Raised after the order was placed; the database adds each total to the order's total_cost
+export interface OrderCharge {
+  id: string
+  order_id: string
+  kind: OrderChargeKind
+  description: string
+  amount: number
+  tax: TaxBreakdown | null
+  total: number
+  created_by: string | null
+  created_at: string
+  creator?: User | null
+}
+
+export type NewOrderCharge = Pick<OrderCharge, 'kind' | 'description' | 'amount' | 'tax' | 'total'>
+
+// Extra time on an item that is out, billed as its own invoice line
+export interface OrderExtension {
+  id: string
+  order_id: string
+  order_item_id: string
+  extra_hours: number
+  previous_due_at: string
+  new_due_at: string
+  // The item priced for its whole new duration
+  pricing: PriceBreakdown | null
+  // What the item's rental was billed at before this extension
+  previous_total: number
+  // Difference between the two, in the same terms as an item's line_total
+  amount: number
+  tax: TaxBreakdown | null
+  total: number
+  created_by: string | null
+  created_at: string
+  creator?: User | null
+}
+
+// Filled in by the database from the item's current due time
+export type NewOrderExtension = Pick<OrderExtension, 'order_item_id' | 'pricing' | 'previous_total' | 'amount' | 'tax' | 'total'>
+
+export type InspectionKind = 'check_out' | 'check_in'
+
+export type InspectionCondition = 'ok' | 'worn' | 'damaged' | 'missing'
+
+export interface InspectionItemResult {
+  order_item_id: string
+  // Condition per checklist key of the item's category
+  checks: Record<string, InspectionCondition>
+  notes: string | null
+  photo_paths: string[]
+}
+
+export interface OrderInspection {
+  id: string
+  order_id: string
+  kind: InspectionKind
+  items: InspectionItemResult[]
+  notes: string | null
+  inspected_by: string | null
+  inspected_at: string
+  // Damage charge raised from comparing the check-in with the check-out inspection
+  damage_charge_id: string | null
+  created_at: string
+  inspector?: User | null
+}
+
+export type NewOrderInspection = Pick<OrderInspection, 'kind' | 'items' | 'notes'>
+
+export type ClaimKind = 'damage' | 'loss'
+
+export type ClaimStatus = 'open' | 'settled' | 'written_off'
+
+export interface DamageClaim {
+  id: string
+  order_id: string
+  order_item_id: string
+  // Filled in by the database from the order item
+  equipment_id: string
+  unit_id: string
+  kind: ClaimKind
+  description: string
+  photo_paths: string[]
+  estimated_cost: number
+  // Known once the repair or replacement is paid for
+  actual_cost: number | null
+  // What the customer is asked to pay; set to the charged total when the claim is settled
+  customer_liability: number
+  status: ClaimStatus
+  resolution_notes: string | null
+  // Opened by the database when the claim is raised
+  maintenance_ticket_id: string | null
+  charge_id: string | null
+  payment_id: string | null
+  created_by: string | null
+  resolved_by: string | null
+  resolved_at: string | null
+  created_at: string
+  order?: Order
   equipment?: Equipment
+  unit?: EquipmentUnit
+  creator?: User | null
+  resolver?: User | null
+}
+
+export type NewDamageClaim = Pick<DamageClaim, 'order_item_id' | 'kind' | 'description' | 'photo_paths' | 'estimated_cost' | 'customer_liability'>
+
+export interface ClaimResolution {
+  status: Exclude<ClaimStatus, 'open'>
+  actual_cost: number | null
+  // Customer liability added to the order; null when nothing is charged
+  charge: NewOrderCharge | null
+  // Set when the liability is collected on the spot
+  payment: Pick<NewPayment, 'method' | 'amount' | 'reference' | 'notes'> | null
+  notes: string | null
+}
+
+// One row, read by the database when it prices orders and by the app for previews
+export interface BusinessSettings {
+  business_state_code: string
+  prices_include_tax: boolean
+  extra_day_rate: number
+  weekly_cap_days: number
+  late_grace_minutes: number
+  late_fee_unit: 'hour' | 'period'
+  late_hourly_rate: number
+  late_cap_days: number
+  cancellation_free_hours: number
+  cancellation_fee_percent: number
 }
 
 export interface Suggestion {
@@ -47,22 +436,69 @@ export interface Suggestion {
   created_at: string
 }
 
+const KYC_BUCKET = 'kyc-documents'
+
+const INSPECTION_BUCKET = 'inspection-photos'
+
+const CLAIM_BUCKET = 'claim-photos'
+
+const customerSelect = '*, verifier:users!kyc_verified_by(*)'
+
+const claimSelect = '*, order:orders(*, customer:customers(*)), equipment:equipments(*), unit:equipment_units(*)'
+
+const orderSelect = `
+  *,
+  user:users!user_id(*),
+  canceller:users!cancelled_by(*),
+  customer:customers(*),
+  items:order_items(*, equipment:equipments(*), unit:equipment_units(*), bundle:bundles(*)),
+  payments(*, recorder:users!recorded_by(*)),
+  charges:order_charges(*, creator:users!created_by(*)),
+  inspections:order_inspections(*, inspector:users!inspected_by(*)),
+  extensions:order_extensions(*, creator:users!created_by(*)),
+  status_changes:order_status_changes(*, user:users(*)),
+  claims:damage_claims(*, creator:users!created_by(*), resolver:users!resolved_by(*))
+`
+
 // Database Operations
 export const db = {
   // Equipment operations
-  async getAvailableEquipment(): Promise<Equipment[]> {
+  // Row level security already limits visitors to models with a unit on the shelf
+  async searchEquipment(filters: CatalogFilters): Promise<Equipment[]> {
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('equipments')
         .select('*')
-        .eq('available', true)
-        .order('name')
-      
-      if (error) {
-        console.error('Supabase error:', error)
-        throw new Error(`Failed to fetch equipment: ${error.message}`)
+
+      const searchQuery = toSearchQuery(filters.query)
+      if (searchQuery) query = query.textSearch('search_vector', searchQuery, { config: 'simple' })
+      if (filters.category) query = query.eq('category', filters.category)
+      if (filters.brand) query = query.eq('brand', filters.brand)
+      if (filters.mount) query = query.eq('mount', filters.mount)
+      if (filters.availableOnly) query = query.eq('available', true)
+      if (filters.minRate !== null) query = query.gte('rate_24hr', filters.minRate)
+      if (filters.maxRate !== null) query = query.lte('rate_24hr', filters.maxRate)
+
+      const specs = Object.fromEntries(
+        Object.entries(filters.specs).map(([key, value]) => [key, value === 'yes' ? true : value === 'no' ? false : value])
+      )
+      if (Object.keys(specs).length > 0) query = query.contains('specs', specs)
+
+      switch (filters.sort) {
+        case 'price_asc':
+          query = query.order('rate_24hr', { ascending: true })
+          break
+        case 'price_desc':
+          query = query.order('rate_24hr', { ascending: false })
+          break
+        case 'popular':
+          query = query.order('rental_count', { ascending: false })
+          break
       }
-      
+
+      const { data, error } = await query.order('name')
+
+      if (error) throw new Error(`Failed to search equipment: ${error.message}`)
       return data || []
     } catch (error) {
       console.error('Database error:', error)
@@ -70,6 +506,20 @@ export const db = {
     }
   },
 
+  async getCatalogFacets(): Promise<CatalogFacets> {
+    try {
+      const { data, error } = await supabase
+        .from('equipments')
+        .select('category, brand, mount, rate_24hr')
+
+      if (error) throw new Error(`Failed to fetch catalog filters: ${error.message}`)
+      return buildCatalogFacets(data || [])
+    } catch (error) {
+      console.error('Database error:', error)
+      throw error
+    }
+  },
+
   async getAllEquipment(): Promise<Equipment[]> {
     try {
       const { data, error } = await supabase
@@ -85,7 +535,24 @@ export const db = {
     }
   },
 
-  async createEquipment(equipment: Omit<Equipment, 'id' | 'created_at'>): Promise<Equipment> {
+  async getEquipmentByIds(ids: string[]): Promise<Equipment[]> {
+    if (ids.length === 0) return []
+
+    try {
+      const { data, error } = await supabase
+        .from('equipments')
+        .select('*')
+        .in('id', ids)
+
+      if (error) throw new Error(`Failed to fetch equipment: ${error.message}`)
+      return data || []
+    } catch (error) {
+      console.error('Database error:', error)
+      throw error
+    }
+  },
+
+  async createEquipment(equipment: NewEquipment): Promise<Equipment> {
     const { data, error } = await supabase
       .from('equipments')
       .insert(equipment)
@@ -96,7 +563,7 @@ export const db = {
     return data
   },
 
-  async updateEquipment(id: string, updates: Partial<Equipment>): Promise<Equipment> {
+  async updateEquipment(id: string, updates: Partial<NewEquipment>): Promise<Equipment> {
     const { data, error } = await supabase
       .from('equipments')
       .update(updates)
@@ -114,22 +581,21 @@ export const db = {
       .delete()
       .eq('id', id)
     
-    if (error) throw new Error(`Failed to delete equipment: ${error.message}`)
+    if (error) {
+      if (error.code === '23503') throw new Error('Failed to delete equipment: it has rentals on record or is part of a kit')
+      throw new Error(`Failed to delete equipment: ${error.message}`)
+    }
   },
 
-  // Order operations
-  async getOrders(): Promise<Order[]> {
+  async getEquipmentUnits(equipmentId: string): Promise<EquipmentUnit[]> {
     try {
       const { data, error } = await supabase
-        .from('orders')
-        .select(`
-          *,
-          user:users(*),
-          equipment:equipments(*)
-        `)
-        .order('created_at', { ascending: false })
-      
-      if (error) throw new Error(`Failed to fetch orders: ${error.message}`)
+        .from('equipment_units')
+        .select('*')
+        .eq('equipment_id', equipmentId)
+        .order('serial_number')
+
+      if (error) throw new Error(`Failed to fetch units: ${error.message}`)
       return data || []
     } catch (error) {
       console.error('Database error:', error)
@@ -137,18 +603,55 @@ export const db = {
     }
   },
 
-  async getUserOrders(userId: string): Promise<Order[]> {
+  async createEquipmentUnit(unit: NewEquipmentUnit): Promise<EquipmentUnit> {
+    const { data, error } = await supabase
+      .from('equipment_units')
+      .insert(unit)
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') throw new Error(`Failed to add unit: serial number ${unit.serial_number} is already registered`)
+      throw new Error(`Failed to add unit: ${error.message}`)
+    }
+    return data
+  },
+
+  async updateEquipmentUnit(id: string, updates: Partial<NewEquipmentUnit>): Promise<EquipmentUnit> {
+    const { data, error } = await supabase
+      .from('equipment_units')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') throw new Error(`Failed to update unit: serial number ${updates.serial_number} is already registered`)
+      throw new Error(`Failed to update unit: ${error.message}`)
+    }
+    return data
+  },
+
+  async deleteEquipmentUnit(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('equipment_units')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      if (error.code === '23503') throw new Error('Failed to delete unit: it has rentals on record, retire it instead')
+      throw new Error(`Failed to delete unit: ${error.message}`)
+    }
+  },
+
+  async getMaintenanceTickets(): Promise<MaintenanceTicket[]> {
     try {
       const { data, error } = await supabase
-        .from('orders')
-        .select(`
-          *,
-          equipment:equipments(*)
-        `)
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false })
-      
-      if (error) throw new Error(`Failed to fetch user orders: ${error.message}`)
+        .from('maintenance_tickets')
+        .select('*, equipment:equipments(*), unit:equipment_units(*)')
+        .order('opened_at', { ascending: false })
+
+      if (error) throw new Error(`Failed to fetch maintenance tickets: ${error.message}`)
       return data || []
     } catch (error) {
       console.error('Database error:', error)
@@ -156,30 +659,38 @@ export const db = {
     }
   },
 
-  async createOrder(order: Omit<Order, 'id' | 'created_at'>): Promise<Order> {
+  async createMaintenanceTicket(ticket: NewMaintenanceTicket): Promise<MaintenanceTicket> {
     const { data, error } = await supabase
-      .from('orders')
-      .insert(order)
-      .select(`
-        *,
-        user:users(*),
-        equipment:equipments(*)
-      `)
+      .from('maintenance_tickets')
+      .insert(ticket)
+      .select('*, equipment:equipments(*), unit:equipment_units(*)')
       .single()
-    
-    if (error) throw new Error(`Failed to create order: ${error.message}`)
+
+    if (error) throw new Error(`Failed to open ticket: ${error.message}`)
     return data
   },
 
-  // User operations
-  async getUsers(): Promise<User[]> {
+  async updateMaintenanceTicket(id: string, updates: Partial<NewMaintenanceTicket>): Promise<MaintenanceTicket> {
+    const { data, error } = await supabase
+      .from('maintenance_tickets')
+      .update(updates)
+      .eq('id', id)
+      .select('*, equipment:equipments(*), unit:equipment_units(*)')
+      .single()
+
+    if (error) throw new Error(`Failed to update ticket: ${error.message}`)
+    return data
+  },
+
+  // Visitors only get active kits; row level security hides the rest
+  async getBundles(): Promise<Bundle[]> {
     try {
       const { data, error } = await supabase
-        .from('users')
-        .select('*')
-        .order('created_at', { ascending: false })
-      
-      if (error) throw new Error(`Failed to fetch users: ${error.message}`)
+        .from('bundles')
+        .select('*, items:bundle_items(*, equipment:equipments(*))')
+        .order('name')
+
+      if (error) throw new Error(`Failed to fetch kits: ${error.message}`)
       return data || []
     } catch (error) {
       console.error('Database error:', error)
@@ -187,24 +698,634 @@ export const db = {
     }
   },
 
-  async updateUser(id: string, updates: Partial<User>): Promise<User> {
-    const { data, error } = await supabase
-      .from('users')
-      .update(updates)
+  async getBundlesByIds(ids: string[]): Promise<Bundle[]> {
+    if (ids.length === 0) return []
+
+    try {
+      const { data, error } = await supabase
+        .from('bundles')
+        .select('*, items:bundle_items(*, equipment:equipments(*))')
+        .in('id', ids)
+
+      if (error) throw new Error(`Failed to fetch kits: ${error.message}`)
+      return data || []
+    } catch (error) {
+      console.error('Database error:', error)
+      throw error
+    }
+  },
+
+  // The kit and its component list are saved in one transaction; pass no id to create a kit
+  async saveBundle(id: string | null, bundle: NewBundle, items: NewBundleItem[]): Promise<string> {
+    if (items.length === 0) throw new Error('Failed to save kit: a kit needs at least one item')
+
+    const { data: bundleId, error } = await supabase.rpc('save_bundle', {
+      p_bundle_id: id,
+      p_bundle: bundle,
+      p_items: items,
+    })
+
+    if (error) throw new Error(`Failed to save kit: ${error.message}`)
+    return bundleId
+  },
+
+  async deleteBundle(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('bundles')
+      .delete()
       .eq('id', id)
-      .select()
-      .single()
-    
-    if (error) throw new Error(`Failed to update user: ${error.message}`)
-    return data
+
+    if (error) throw new Error(`Failed to delete kit: ${error.message}`)
   },
 
-  async getUserProfile(userId: string): Promise<User | null> {
+  // Links are stored once per pair, so a model can be on either side
+  async getEquipmentCompatibility(equipmentIds: string[]): Promise<EquipmentCompatibility[]> {
+    if (equipmentIds.length === 0) return []
+
     try {
+      const ids = equipmentIds.join(',')
       const { data, error } = await supabase
-        .from('users')
-        .select('*')
-        .eq('id', userId)
+        .from('equipment_compatibility')
+        .select(`
+          *,
+          equipment:equipments!equipment_id(*),
+          compatible:equipments!compatible_id(*)
+        `)
+        .or(`equipment_id.in.(${ids}),compatible_id.in.(${ids})`)
+        .order('created_at')
+
+      if (error) throw new Error(`Failed to fetch compatible equipment: ${error.message}`)
+      return data || []
+    } catch (error) {
+      console.error('Database error:', error)
+      throw error
+    }
+  },
+
+  async createEquipmentCompatibility(link: NewEquipmentCompatibility): Promise<EquipmentCompatibility> {
+    const { data, error } = await supabase
+      .from('equipment_compatibility')
+      .insert(link)
+      .select(`
+        *,
+        equipment:equipments!equipment_id(*),
+        compatible:equipments!compatible_id(*)
+      `)
+      .single()
+
+    if (error) {
+      if (error.code === '23505') throw new Error('Failed to link equipment: these items are already linked')
+      throw new Error(`Failed to link equipment: ${error.message}`)
+    }
+    return data
+  },
+
+  async deleteEquipmentCompatibility(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('equipment_compatibility')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw new Error(`Failed to unlink equipment: ${error.message}`)
+  },
+
+  // Other models most often on the same orders as the given ones
+  async getFrequentlyRentedWith(equipmentIds: string[], limit = 6): Promise<FrequentRental[]> {
+    if (equipmentIds.length === 0) return []
+
+    try {
+      const { data, error } = await supabase.rpc('get_frequently_rented_with', {
+        p_equipment_ids: equipmentIds,
+        p_limit: limit,
+      })
+
+      if (error) throw new Error(`Failed to fetch frequently rented equipment: ${error.message}`)
+      return (data || []).map((row: FrequentRental) => ({ ...row, times_rented: Number(row.times_rented) }))
+    } catch (error) {
+      console.error('Database error:', error)
+      throw error
+    }
+  },
+
+  // Customer operations
+  async getCustomers(): Promise<Customer[]> {
+    try {
+      const { data, error } = await supabase
+        .from('customers')
+        .select(customerSelect)
+        .order('name')
+
+      if (error) throw new Error(`Failed to fetch customers: ${error.message}`)
+      return data || []
+    } catch (error) {
+      console.error('Database error:', error)
+      throw error
+    }
+  },
+
+  // Matches name, phone or email anywhere in the value
+  async searchCustomers(query: string): Promise<Customer[]> {
+    try {
+      const term = query.trim().replace(/[%,()]/g, ' ')
+      const { data, error } = await supabase
+        .from('customers')
+        .select(customerSelect)
+        .or(`name.ilike.%${term}%,phone.ilike.%${term}%,email.ilike.%${term}%`)
+        .order('name')
+        .limit(10)
+
+      if (error) throw new Error(`Failed to search customers: ${error.message}`)
+      return data || []
+    } catch (error) {
+      console.error('Database error:', error)
+      throw error
+    }
+  },
+
+  async getCustomer(id: string): Promise<Customer | null> {
+    try {
+      const { data, error } = await supabase
+        .from('customers')
+        .select(customerSelect)
+        .eq('id', id)
+        .maybeSingle()
+
+      if (error) throw new Error(`Failed to fetch customer: ${error.message}`)
+      return data
+    } catch (error) {
+      console.error('Database error:', error)
+      throw error
+    }
+  },
+
+  async createCustomer(customer: NewCustomer): Promise<Customer> {
+    const { data, error } = await supabase
+      .from('customers')
+      .insert(customer)
+      .select(customerSelect)
+      .single()
+
+    if (error) throw new Error(`Failed to create customer: ${error.message}`)
+    return data
+  },
+
+  async updateCustomer(id: string, updates: Partial<NewCustomer>): Promise<Customer> {
+    const { data, error } = await supabase
+      .from('customers')
+      .update(updates)
+      .eq('id', id)
+      .select(customerSelect)
+      .single()
+
+    if (error) throw new Error(`Failed to update customer: ${error.message}`)
+    return data
+  },
+
+  // The database records who verified the ID
+  async verifyCustomerKyc(id: string): Promise<Customer> {
+    const { data, error } = await supabase
+      .from('customers')
+      .update({ kyc_verified_at: new Date().toISOString() })
+      .eq('id', id)
+      .select(customerSelect)
+      .single()
+
+    if (error) throw new Error(`Failed to verify customer: ${error.message}`)
+    return data
+  },
+
+  async uploadKycScan(customerId: string, file: File): Promise<Customer> {
+    const path = `${customerId}/${Date.now()}-${file.name.replace(/[^\w.-]/g, '_')}`
+    const { error: uploadError } = await supabase.storage
+      .from(KYC_BUCKET)
+      .upload(path, file)
+
+    if (uploadError) throw new Error(`Failed to upload ID scan: ${uploadError.message}`)
+    return db.updateCustomer(customerId, { id_scan_path: path })
+  },
+
+  // Scans are private, so they are shown through short-lived links
+  async getKycScanUrl(path: string): Promise<string> {
+    const { data, error } = await supabase.storage
+      .from(KYC_BUCKET)
+      .createSignedUrl(path, 60 * 5)
+
+    if (error) throw new Error(`Failed to open ID scan: ${error.message}`)
+    return data.signedUrl
+  },
+
+  async deleteCustomer(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('customers')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      if (error.code === '23503') throw new Error('Failed to delete customer: they have orders on record')
+      throw new Error(`Failed to delete customer: ${error.message}`)
+    }
+  },
+
+  // Order operations
+  async getOrders(): Promise<Order[]> {
+    try {
+      const { data, error } = await supabase
+        .from('orders')
+        .select(orderSelect)
+        .order('created_at', { ascending: false })
+      
+      if (error) throw new Error(`Failed to fetch orders: ${error.message}`)
+      return data || []
+    } catch (error) {
+      console.error('Database error:', error)
+      throw error
+    }
+  },
+
+  // Orders rented to the customer record linked to the user's login
+  async getUserOrders(userId: string): Promise<Order[]> {
+    try {
+      const { data, error } = await supabase
+        .from('orders')
+        .select(`
+          *,
+          customer:customers!inner(*),
+          items:order_items(*, equipment:equipments(*), unit:equipment_units(*), bundle:bundles(*)),
+          payments(*),
+          charges:order_charges(*)
+        `)
+        .eq('customer.user_id', userId)
+        .order('created_at', { ascending: false })
+      
+      if (error) throw new Error(`Failed to fetch user orders: ${error.message}`)
+      return data || []
+    } catch (error) {
+      console.error('Database error:', error)
+      throw error
+    }
+  },
+
+  async getCustomerOrders(customerId: string): Promise<Order[]> {
+    try {
+      const { data, error } = await supabase
+        .from('orders')
+        .select(orderSelect)
+        .eq('customer_id', customerId)
+        .order('rent_date', { ascending: false })
+
+      if (error) throw new Error(`Failed to fetch customer orders: ${error.message}`)
+      return data || []
+    } catch (error) {
+      console.error('Database error:', error)
+      throw error
+    }
+  },
+
+  async getOrder(id: string): Promise<Order | null> {
+    try {
+      const { data, error } = await supabase
+        .from('orders')
+        .select(orderSelect)
+        .eq('id', id)
+        .maybeSingle()
+
+      if (error) throw new Error(`Failed to fetch order: ${error.message}`)
+      return data
+    } catch (error) {
+      console.error('Database error:', error)
+      throw error
+    }
+  },
+
+  // Orders starting later are held as reservations until staff check them out. The database
+  // sets the status and due time by its own clock and inserts the order and all of its items
+  // in one transaction.
+  async createOrder(order: NewOrder, items: NewOrderItem[], bundles: NewOrderBundle[] = []): Promise<Order> {
+    if (items.length === 0 && bundles.length === 0) throw new Error('Failed to create order: the order has no items')
+
+    const { data: orderId, error } = await supabase.rpc('create_rental_order', {
+      p_order: order,
+      p_items: items,
+      p_bundles: bundles,
+    })
+
+    if (error) throw new Error(`Failed to create order: ${error.message}`)
+
+    const created = await db.getOrder(orderId)
+    if (!created) throw new Error('Failed to create order: order not found after saving')
+    return created
+  },
+
+  // Open order items for an equipment whose rental window overlaps [from, to)
+  async getEquipmentBookings(equipmentId: string, from: string, to: string): Promise<OrderItem[]> {
+    try {
+      const { data, error } = await supabase
+        .from('order_items')
+        .select(`
+          *,
+          unit:equipment_units(*),
+          order:orders!inner(*, user:users!user_id(*))
+        `)
+        .eq('equipment_id', equipmentId)
+        .in('order.status', ['reserved', 'checked_out', 'overdue'])
+        .lt('rent_date', to)
+        .gt('due_at', from)
+        .order('rent_date')
+
+      if (error) throw new Error(`Failed to fetch bookings: ${error.message}`)
+      return data || []
+    } catch (error) {
+      console.error('Database error:', error)
+      throw error
+    }
+  },
+
+  // Status changes go through database functions that check the user's permission
+  async checkOutOrder(id: string): Promise<Order> {
+    const { error } = await supabase.rpc('check_out_order', { p_order_id: id })
+
+    if (error) throw new Error(`Failed to check out order: ${error.message}`)
+
+    const checkedOut = await db.getOrder(id)
+    if (!checkedOut) throw new Error('Failed to check out order: order not found after saving')
+    return checkedOut
+  },
+
+  // Marks the order returned and, in the same transaction, raises the late fee the database works
+  // out from each item's due time and rates
+  async checkInOrder(id: string): Promise<Order> {
+    const { error } = await supabase.rpc('check_in_order', {
+      p_order_id: id,
+    })
+
+    if (error) throw new Error(`Failed to check in order: ${error.message}`)
+
+    const returned = await db.getOrder(id)
+    if (!returned) throw new Error('Failed to check in order: order not found after saving')
+    return returned
+  },
+
+  // Items are extended together by the same number of hours; the database refuses the whole
+  // extension if any unit is booked by someone else before the new due time
+  async extendOrder(id: string, extraHours: number, lines: NewOrderExtension[]): Promise<Order> {
+    const { error } = await supabase.rpc('extend_order', {
+      p_order_id: id,
+      p_extra_hours: extraHours,
+      p_lines: lines,
+    })
+
+    if (error) throw new Error(`Failed to extend rental: ${error.message}`)
+
+    const extended = await db.getOrder(id)
+    if (!extended) throw new Error('Failed to extend rental: order not found after saving')
+    return extended
+  },
+
+  // Cancels a reservation, raises the fee the database works out under the cancellation policy
+  // unless it is waived, refunds what was paid beyond it and releases any deposit held, all in one
+  // transaction. Waiving requires orders.refund.
+  async cancelOrder(id: string, reason: string, waiveFee = false): Promise<Order> {
+    const { error } = await supabase.rpc('cancel_order', {
+      p_order_id: id,
+      p_reason: reason,
+      p_waive_fee: waiveFee,
+    })
+
+    if (error) throw new Error(`Failed to cancel order: ${error.message}`)
+
+    const cancelled = await db.getOrder(id)
+    if (!cancelled) throw new Error('Failed to cancel order: order not found after saving')
+    return cancelled
+  },
+
+  // Invoice operations
+  // The database issues the invoice when the order is checked out or charged a cancellation fee
+  async getInvoiceForOrder(orderId: string): Promise<Invoice | null> {
+    try {
+      const { data, error } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('order_id', orderId)
+        .maybeSingle()
+
+      if (error) throw new Error(`Failed to fetch invoice: ${error.message}`)
+      return data
+    } catch (error) {
+      console.error('Database error:', error)
+      throw error
+    }
+  },
+
+  // Payment operations
+  async getOrderPayments(orderId: string): Promise<Payment[]> {
+    try {
+      const { data, error } = await supabase
+        .from('payments')
+        .select('*')
+        .eq('order_id', orderId)
+        .order('created_at')
+
+      if (error) throw new Error(`Failed to fetch payments: ${error.message}`)
+      return data || []
+    } catch (error) {
+      console.error('Database error:', error)
+      throw error
+    }
+  },
+
+  // Ledger entries are never edited; a mistake is corrected with a refund
+  async recordPayment(payment: NewPayment): Promise<Payment> {
+    const { data, error } = await supabase
+      .from('payments')
+      .insert(payment)
+      .select()
+      .single()
+
+    if (error) throw new Error(`Failed to record payment: ${error.message}`)
+    return data
+  },
+
+  // Charge operations
+  async addOrderCharge(orderId: string, charge: NewOrderCharge): Promise<OrderCharge> {
+    const { data, error } = await supabase
+      .from('order_charges')
+      .insert({ ...charge, order_id: orderId })
+      .select()
+      .single()
+
+    if (error) throw new Error(`Failed to add charge: ${error.message}`)
+    return data
+  },
+
+  // Applies part of the held deposit to the balance, keeps the charge (if any) out of it and
+  // releases the rest, all in one transaction
+  async settleDeposit(
+    orderId: string,
+    applyAmount: number,
+    charge: NewOrderCharge | null,
+    releaseMethod: PaymentMethod
+  ): Promise<Order> {
+    const { error } = await supabase.rpc('settle_order_deposit', {
+      p_order_id: orderId,
+      p_apply_amount: applyAmount,
+      p_charge: charge,
+      p_release_method: releaseMethod,
+    })
+
+    if (error) throw new Error(`Failed to settle deposit: ${error.message}`)
+
+    const settled = await db.getOrder(orderId)
+    if (!settled) throw new Error('Failed to settle deposit: order not found after saving')
+    return settled
+  },
+
+  // Inspection operations
+  async createOrderInspection(orderId: string, inspection: NewOrderInspection): Promise<OrderInspection> {
+    const { data, error } = await supabase
+      .from('order_inspections')
+      .insert({ ...inspection, order_id: orderId })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error(`This order already has a ${inspection.kind.replace('_', '-')} inspection`)
+      }
+      throw new Error(`Failed to save inspection: ${error.message}`)
+    }
+    return data
+  },
+
+  // Photos are uploaded before the inspection is saved, which then records their paths
+  async uploadInspectionPhoto(orderId: string, kind: InspectionKind, file: File): Promise<string> {
+    const path = `${orderId}/${kind}/${Date.now()}-${file.name.replace(/[^\w.-]/g, '_')}`
+    const { error } = await supabase.storage
+      .from(INSPECTION_BUCKET)
+      .upload(path, file)
+
+    if (error) throw new Error(`Failed to upload photo: ${error.message}`)
+    return path
+  },
+
+  async getInspectionPhotoUrl(path: string): Promise<string> {
+    const { data, error } = await supabase.storage
+      .from(INSPECTION_BUCKET)
+      .createSignedUrl(path, 60 * 5)
+
+    if (error) throw new Error(`Failed to open photo: ${error.message}`)
+    return data.signedUrl
+  },
+
+  // Adds the charge to the order and links it to the check-in inspection in one transaction
+  async addInspectionDamageCharge(inspectionId: string, orderId: string, charge: NewOrderCharge): Promise<Order> {
+    const { error } = await supabase.rpc('add_inspection_damage_charge', {
+      p_inspection_id: inspectionId,
+      p_charge: charge,
+    })
+
+    if (error) throw new Error(`Failed to add damage charge: ${error.message}`)
+
+    const charged = await db.getOrder(orderId)
+    if (!charged) throw new Error('Failed to add damage charge: order not found after saving')
+    return charged
+  },
+
+  // Claim operations
+  async getDamageClaims(): Promise<DamageClaim[]> {
+    try {
+      const { data, error } = await supabase
+        .from('damage_claims')
+        .select(claimSelect)
+        .order('created_at', { ascending: false })
+
+      if (error) throw new Error(`Failed to fetch claims: ${error.message}`)
+      return data || []
+    } catch (error) {
+      console.error('Database error:', error)
+      throw error
+    }
+  },
+
+  // The database fills in the order, equipment and unit, and opens a maintenance ticket on the unit
+  async createDamageClaim(claim: NewDamageClaim): Promise<DamageClaim> {
+    const { data, error } = await supabase
+      .from('damage_claims')
+      .insert(claim)
+      .select(claimSelect)
+      .single()
+
+    if (error) throw new Error(`Failed to raise claim: ${error.message}`)
+    return data
+  },
+
+  async uploadClaimPhoto(orderId: string, file: File): Promise<string> {
+    const path = `${orderId}/${Date.now()}-${file.name.replace(/[^\w.-]/g, '_')}`
+    const { error } = await supabase.storage
+      .from(CLAIM_BUCKET)
+      .upload(path, file)
+
+    if (error) throw new Error(`Failed to upload photo: ${error.message}`)
+    return path
+  },
+
+  async getClaimPhotoUrl(path: string): Promise<string> {
+    const { data, error } = await supabase.storage
+      .from(CLAIM_BUCKET)
+      .createSignedUrl(path, 60 * 5)
+
+    if (error) throw new Error(`Failed to open photo: ${error.message}`)
+    return data.signedUrl
+  },
+
+  // Posts the charge and payment, books the cost on the maintenance ticket and closes the claim
+  // in one transaction
+  async resolveDamageClaim(id: string, resolution: ClaimResolution): Promise<void> {
+    const { error } = await supabase.rpc('resolve_damage_claim', {
+      p_claim_id: id,
+      p_status: resolution.status,
+      p_actual_cost: resolution.actual_cost,
+      p_charge: resolution.charge,
+      p_payment: resolution.payment,
+      p_notes: resolution.notes,
+    })
+
+    if (error) throw new Error(`Failed to resolve claim: ${error.message}`)
+  },
+
+  // User operations
+  async getUsers(): Promise<User[]> {
+    try {
+      const { data, error } = await supabase
+        .from('users')
+        .select('*')
+        .order('created_at', { ascending: false })
+      
+      if (error) throw new Error(`Failed to fetch users: ${error.message}`)
+      return data || []
+    } catch (error) {
+      console.error('Database error:', error)
+      throw error
+    }
+  },
+
+  async updateUser(id: string, updates: Partial<User>): Promise<User> {
+    const { data, error } = await supabase
+      .from('users')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single()
+    
+    if (error) throw new Error(`Failed to update user: ${error.message}`)
+    return data
+  },
+
+  async getUserProfile(userId: string): Promise<User | null> {
+    try {
+      const { data, error } = await supabase
+        .from('users')
+        .select('*')
+        .eq('id', userId)
         .single()
 
       if (error) {
@@ -219,6 +1340,45 @@ export const db = {
     }
   },
 
+  async getRolePermissions(): Promise<RolePermission[]> {
+    try {
+      const { data, error } = await supabase
+        .from('role_permissions')
+        .select('*')
+        .order('permission')
+
+      if (error) throw new Error(`Failed to fetch permissions: ${error.message}`)
+      return data || []
+    } catch (error) {
+      console.error('Database error:', error)
+      throw error
+    }
+  },
+
+  // Settings operations
+  async getBusinessSettings(): Promise<BusinessSettings | null> {
+    try {
+      const { data, error } = await supabase
+        .from('business_settings')
+        .select('*')
+        .maybeSingle()
+
+      if (error) throw new Error(`Failed to fetch business settings: ${error.message}`)
+      return data && {
+        ...data,
+        extra_day_rate: Number(data.extra_day_rate),
+        weekly_cap_days: Number(data.weekly_cap_days),
+        late_hourly_rate: Number(data.late_hourly_rate),
+        late_cap_days: Number(data.late_cap_days),
+        cancellation_free_hours: Number(data.cancellation_free_hours),
+        cancellation_fee_percent: Number(data.cancellation_fee_percent),
+      }
+    } catch (error) {
+      console.error('Database error:', error)
+      throw error
+    }
+  },
+
   // Suggestion operations
   async getSuggestions(): Promise<Suggestion[]> {
     try {
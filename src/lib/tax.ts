@@ -0,0 +1,167 @@
+export type EquipmentCategory = 'body' | 'lens' | 'lighting' | 'audio' | 'grip' | 'accessory'
+
+export interface TaxCategory {
+  label: string
+  // SAC code for the rental service printed on invoices
+  sac: string
+  // Total GST rate in percent
+  rate: number
+}
+
+// SAC 997329 covers leasing or rental of other goods n.e.c., which is where camera, lighting,
+// audio and grip kit hired out without an operator falls; every category shares it
+const RENTAL_SAC = '997329'
+
+// GST on renting equipment without an operator; adjust codes and rates here and in the database's
+// tax_class when they change
+export const TAX_CATEGORIES: Record<EquipmentCategory, TaxCategory> = {
+  body: { label: 'Camera Bodies', sac: RENTAL_SAC, rate: 18 },
+  lens: { label: 'Lenses', sac: RENTAL_SAC, rate: 18 },
+  lighting: { label: 'Lighting', sac: RENTAL_SAC, rate: 18 },
+  audio: { label: 'Audio', sac: RENTAL_SAC, rate: 18 },
+  grip: { label: 'Grip & Support', sac: RENTAL_SAC, rate: 18 },
+  accessory: { label: 'Accessories', sac: RENTAL_SAC, rate: 18 },
+}
+
+export const EQUIPMENT_CATEGORIES = Object.keys(TAX_CATEGORIES) as EquipmentCategory[]
+
+// Late fees, damage and other charges raised after the order follow the rental service SAC
+export const ORDER_CHARGE_TAX: TaxCategory = { label: 'Order Charges', sac: RENTAL_SAC, rate: 18 }
+
+// Replaced by the business_settings row when the app starts; see loadBusinessSettings
+export const taxSettings = {
+  // Two-digit GST state code of the business, e.g. 29 for Karnataka
+  businessStateCode: '29',
+  // When true, rental rates already include GST and tax is carved out of them
+  pricesIncludeTax: false,
+}
+
+export const INDIAN_STATES: { code: string; name: string }[] = [
+  { code: '01', name: 'Jammu and Kashmir' },
+  { code: '02', name: 'Himachal Pradesh' },
+  { code: '03', name: 'Punjab' },
+  { code: '04', name: 'Chandigarh' },
+  { code: '05', name: 'Uttarakhand' },
+  { code: '06', name: 'Haryana' },
+  { code: '07', name: 'Delhi' },
+  { code: '08', name: 'Rajasthan' },
+  { code: '09', name: 'Uttar Pradesh' },
+  { code: '10', name: 'Bihar' },
+  { code: '11', name: 'Sikkim' },
+  { code: '12', name: 'Arunachal Pradesh' },
+  { code: '13', name: 'Nagaland' },
+  { code: '14', name: 'Manipur' },
+  { code: '15', name: 'Mizoram' },
+  { code: '16', name: 'Tripura' },
+  { code: '17', name: 'Meghalaya' },
+  { code: '18', name: 'Assam' },
+  { code: '19', name: 'West Bengal' },
+  { code: '20', name: 'Jharkhand' },
+  { code: '21', name: 'Odisha' },
+  { code: '22', name: 'Chhattisgarh' },
+  { code: '23', name: 'Madhya Pradesh' },
+  { code: '24', name: 'Gujarat' },
+  { code: '26', name: 'Dadra and Nagar Haveli and Daman and Diu' },
+  { code: '27', name: 'Maharashtra' },
+  { code: '29', name: 'Karnataka' },
+  { code: '30', name: 'Goa' },
+  { code: '31', name: 'Lakshadweep' },
+  { code: '32', name: 'Kerala' },
+  { code: '33', name: 'Tamil Nadu' },
+  { code: '34', name: 'Puducherry' },
+  { code: '35', name: 'Andaman and Nicobar Islands' },
+  { code: '36', name: 'Telangana' },
+  { code: '37', name: 'Andhra Pradesh' },
+  { code: '38', name: 'Ladakh' },
+]
+
+export function getStateName(code: string): string {
+  return INDIAN_STATES.find(state => state.code === code)?.name || code
+}
+
+export interface TaxLine {
+  sac: string
+  rate: number
+  taxable_value: number
+  cgst: number
+  sgst: number
+  igst: number
+}
+
+// Stored on each order so invoices keep the tax that applied at the time
+export interface TaxBreakdown {
+  place_of_supply: string
+  inter_state: boolean
+  prices_include_tax: boolean
+  lines: TaxLine[]
+  taxable_value: number
+  cgst: number
+  sgst: number
+  igst: number
+  total_tax: number
+  // Amount payable including tax
+  total: number
+}
+
+export interface TaxableAmount {
+  category: EquipmentCategory | 'charge'
+  amount: number
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100
+
+// Supplies within the business's state carry CGST + SGST; anything else carries IGST. Mirrored by
+// calculate_tax in the database.
+export function calculateTax(
+  amounts: TaxableAmount[],
+  placeOfSupply: string = taxSettings.businessStateCode,
+  pricesIncludeTax: boolean = taxSettings.pricesIncludeTax
+): TaxBreakdown {
+  const interState = placeOfSupply !== taxSettings.businessStateCode
+  const grouped = new Map<string, { sac: string; rate: number; amount: number }>()
+
+  for (const { category, amount } of amounts) {
+    const { sac, rate } = category === 'charge'
+      ? ORDER_CHARGE_TAX
+      : TAX_CATEGORIES[category] || TAX_CATEGORIES.accessory
+    const key = `${sac}-${rate}`
+    const group = grouped.get(key) || { sac, rate, amount: 0 }
+    group.amount += amount
+    grouped.set(key, group)
+  }
+
+  const lines = Array.from(grouped.values()).map(({ sac, rate, amount }) => {
+    const taxableValue = pricesIncludeTax ? round(amount / (1 + rate / 100)) : round(amount)
+    const tax = pricesIncludeTax ? round(amount - taxableValue) : round(taxableValue * rate / 100)
+    const half = round(tax / 2)
+
+    return {
+      sac,
+      rate,
+      taxable_value: taxableValue,
+      cgst: interState ? 0 : half,
+      sgst: interState ? 0 : round(tax - half),
+      igst: interState ? tax : 0,
+    }
+  })
+
+  const sum = (key: keyof Omit<TaxLine, 'sac' | 'rate'>) => round(lines.reduce((total, line) => total + line[key], 0))
+  const taxableValue = sum('taxable_value')
+  const cgst = sum('cgst')
+  const sgst = sum('sgst')
+  const igst = sum('igst')
+  const totalTax = round(cgst + sgst + igst)
+
+  return {
+    place_of_supply: placeOfSupply,
+    inter_state: interState,
+    prices_include_tax: pricesIncludeTax,
+    lines,
+    taxable_value: taxableValue,
+    cgst,
+    sgst,
+    igst,
+    total_tax: totalTax,
+    total: round(taxableValue + totalTax),
+  }
+}
\ No newline at end of file
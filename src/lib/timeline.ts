@@ -0,0 +1,115 @@
+import { Order, OrderStatus } from './supabase'
+import { formatDuration } from './pricing'
+import { PAYMENT_KINDS, PAYMENT_METHODS } from './payments'
+import { ORDER_CHARGE_KINDS } from './charges'
+import { INSPECTION_KINDS } from './inspections'
+import { CLAIM_KINDS, CLAIM_STATUSES } from './claims'
+
+export type TimelineEventKind = 'status' | 'payment' | 'charge' | 'inspection' | 'extension' | 'claim'
+
+export interface TimelineEvent {
+  at: string
+  kind: TimelineEventKind
+  title: string
+  detail: string | null
+  amount: number | null
+  // The staff member who made the change, when their login can be read
+  by: string | null
+}
+
+const STATUS_EVENTS: Record<OrderStatus, string> = {
+  reserved: 'Reserved',
+  checked_out: 'Checked out',
+  returned: 'Checked in',
+  overdue: 'Became overdue',
+  cancelled: 'Cancelled',
+}
+
+const getItemName = (order: Order, itemId: string) => {
+  const item = order.items?.find(current => current.id === itemId)
+  return `${item?.equipment?.name || 'Equipment'}${item?.unit ? ` S/N ${item.unit.serial_number}` : ''}`
+}
+
+// Every event recorded on the order, oldest first
+export function buildOrderTimeline(order: Order): TimelineEvent[] {
+  const events: TimelineEvent[] = []
+
+  for (const change of order.status_changes || []) {
+    events.push({
+      at: change.changed_at,
+      kind: 'status',
+      title: change.from_status ? STATUS_EVENTS[change.to_status] : `Order placed · ${STATUS_EVENTS[change.to_status].toLowerCase()}`,
+      detail: change.to_status === 'cancelled' ? order.cancellation_reason : null,
+      amount: null,
+      by: change.user?.name || null,
+    })
+  }
+
+  for (const payment of order.payments || []) {
+    events.push({
+      at: payment.created_at,
+      kind: 'payment',
+      title: `${PAYMENT_KINDS[payment.kind]} · ${PAYMENT_METHODS[payment.method]}`,
+      detail: [payment.reference, payment.notes].filter(Boolean).join(' · ') || null,
+      amount: payment.amount,
+      by: payment.recorder?.name || null,
+    })
+  }
+
+  for (const charge of order.charges || []) {
+    events.push({
+      at: charge.created_at,
+      kind: 'charge',
+      title: `${ORDER_CHARGE_KINDS[charge.kind]} charge`,
+      detail: charge.description,
+      amount: charge.total,
+      by: charge.creator?.name || null,
+    })
+  }
+
+  for (const inspection of order.inspections || []) {
+    events.push({
+      at: inspection.inspected_at,
+      kind: 'inspection',
+      title: `${INSPECTION_KINDS[inspection.kind]} inspection`,
+      detail: inspection.notes,
+      amount: null,
+      by: inspection.inspector?.name || null,
+    })
+  }
+
+  for (const extension of order.extensions || []) {
+    events.push({
+      at: extension.created_at,
+      kind: 'extension',
+      title: `Extended by ${formatDuration(extension.extra_hours)}`,
+      detail: getItemName(order, extension.order_item_id),
+      amount: extension.total,
+      by: extension.creator?.name || null,
+    })
+  }
+
+  for (const claim of order.claims || []) {
+    events.push({
+      at: claim.created_at,
+      kind: 'claim',
+      title: `${CLAIM_KINDS[claim.kind]} claim raised`,
+      detail: `${getItemName(order, claim.order_item_id)}: ${claim.description}`,
+      amount: claim.estimated_cost,
+      by: claim.creator?.name || null,
+    })
+
+    if (claim.resolved_at) {
+      events.push({
+        at: claim.resolved_at,
+        kind: 'claim',
+        title: `${CLAIM_KINDS[claim.kind]} claim ${CLAIM_STATUSES[claim.status].toLowerCase()}`,
+        detail: claim.resolution_notes,
+        amount: claim.status === 'settled' ? claim.customer_liability : null,
+        by: claim.resolver?.name || null,
+      })
+    }
+  }
+
+  return events.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime())
+}
\ No newline at end of file
@@ -0,0 +1,24 @@
+import { Equipment, UnitCondition, UnitStatus } from './supabase'
+
+export const UNIT_CONDITIONS: Record<UnitCondition, string> = {
+  new: 'New',
+  excellent: 'Excellent',
+  good: 'Good',
+  fair: 'Fair',
+  poor: 'Poor',
+}
+
+export const UNIT_STATUSES: Record<UnitStatus, string> = {
+  available: 'Available',
+  rented: 'On Rent',
+  maintenance: 'Maintenance',
+  retired: 'Retired',
+}
+
+// Only maintenance and retirement are set by hand; rentals move units in and out of 'rented'
+export const MANUAL_UNIT_STATUSES: UnitStatus[] = ['available', 'maintenance', 'retired']
+
+// e.g. "2 of 3 available"
+export function formatStock(equipment: Equipment): string {
+  return `${equipment.available_units} of ${equipment.unit_count} available`
+}
\ No newline at end of file
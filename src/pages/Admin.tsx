@@ -1,11 +1,16 @@
 import React, { useEffect, useState } from 'react'
-import { Plus, Edit, Trash2, Users, Package, MessageSquare, DollarSign } from 'lucide-react'
-import { Equipment, User, Suggestion, Order, db } from '../lib/supabase'
+import { Link } from 'react-router-dom'
+import { Plus, Edit, Trash2, Users, Package, MessageSquare, DollarSign, Eye } from 'lucide-react'
+import { Equipment, User, UserRole, Suggestion, Order, db } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
+import { OrderItemsSummary } from '../components/OrderItemsSummary'
+import { EquipmentCategory } from '../lib/tax'
+import { getRevenue } from '../lib/payments'
+import { ROLES, ROLE_BADGE_COLORS } from '../lib/permissions'
 import toast from 'react-hot-toast'
 
 export function Admin() {
-  const { user } = useAuth()
+  const { user, can } = useAuth()
   const [activeTab, setActiveTab] = useState<'equipment' | 'users' | 'suggestions' | 'billing'>('equipment')
   const [equipment, setEquipment] = useState<Equipment[]>([])
   const [users, setUsers] = useState<User[]>([])
@@ -22,10 +27,12 @@ export function Admin() {
     rate_12hr: 0,
     rate_24hr: 0,
     available: true,
+    category: 'accessory' as EquipmentCategory,
+    deposit_amount: 0,
   })
 
   useEffect(() => {
-    if (user && (user.role === 'admin' || user.role === 'staff')) {
+    if (user && can('orders.view')) {
       loadData()
     }
   }, [user])
@@ -77,7 +84,7 @@ export function Admin() {
         await db.updateEquipment(editingEquipment.id, equipmentForm)
         toast.success('Equipment updated successfully')
       } else {
-        await db.createEquipment(equipmentForm)
+        await db.createEquipment({ ...equipmentForm, brand: null, description: null, mount: null, specs: {} })
         toast.success('Equipment created successfully')
       }
       
@@ -89,6 +96,8 @@ export function Admin() {
         rate_12hr: 0,
         rate_24hr: 0,
         available: true,
+        category: 'accessory',
+        deposit_amount: 0,
       })
       
       loadData()
@@ -106,6 +115,8 @@ export function Admin() {
       rate_12hr: item.rate_12hr,
       rate_24hr: item.rate_24hr,
       available: item.available,
+      category: item.category,
+      deposit_amount: item.deposit_amount,
     })
     setShowEquipmentForm(true)
   }
@@ -136,7 +147,7 @@ export function Admin() {
     }
   }
 
-  const handleUpdateUserRole = async (userId: string, newRole: 'admin' | 'staff' | 'customer') => {
+  const handleUpdateUserRole = async (userId: string, newRole: UserRole) => {
     try {
       await db.updateUser(userId, { role: newRole })
       toast.success('User role updated successfully')
@@ -147,43 +158,15 @@ export function Admin() {
     }
   }
 
-  const getRoleDisplayName = (role: string) => {
-    switch (role) {
-      case 'admin':
-        return 'Admin'
-      case 'staff':
-        return 'Staff'
-      case 'customer':
-        return 'Customer'
-      default:
-        return role
-    }
-  }
-
-  const getRoleBadgeColor = (role: string) => {
-    switch (role) {
-      case 'admin':
-        return 'bg-red-100 text-red-800'
-      case 'staff':
-        return 'bg-blue-100 text-blue-800'
-      case 'customer':
-        return 'bg-green-100 text-green-800'
-      default:
-        return 'bg-gray-100 text-gray-800'
-    }
-  }
-
   // Calculate billing statistics
-  const totalRevenue = orders.reduce((sum, order) => sum + order.total_cost, 0)
-  const monthlyRevenue = orders
-    .filter(order => {
-      const orderDate = new Date(order.created_at)
-      const now = new Date()
-      return orderDate.getMonth() === now.getMonth() && orderDate.getFullYear() === now.getFullYear()
-    })
-    .reduce((sum, order) => sum + order.total_cost, 0)
+  const totalRevenue = getRevenue(orders)
+  const monthlyRevenue = getRevenue(orders.filter(order => {
+    const orderDate = new Date(order.created_at)
+    const now = new Date()
+    return orderDate.getMonth() === now.getMonth() && orderDate.getFullYear() === now.getFullYear()
+  }))
 
-  if (!user || !['admin', 'staff'].includes(user.role)) {
+  if (!user || !can('orders.view')) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
@@ -207,10 +190,10 @@ export function Admin() {
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="mb-8">
           <h1 className="text-3xl font-bold text-gray-900">
-            {user.role === 'admin' ? 'Admin Panel' : 'Staff Dashboard'}
+            {can('users.manage') ? 'Admin Panel' : 'Staff Dashboard'}
           </h1>
           <p className="text-gray-600 mt-2">
-            {user.role === 'admin' 
+            {can('users.manage')
               ? 'Manage equipment, users, suggestions, and billing'
               : 'Manage equipment and view billing information'
             }
@@ -232,7 +215,7 @@ export function Admin() {
               Equipment ({equipment.length})
             </button>
             
-            {user.role === 'admin' && (
+            {can('users.manage') && (
               <button
                 onClick={() => setActiveTab('users')}
                 className={`py-2 px-1 border-b-2 font-medium text-sm ${
@@ -277,7 +260,7 @@ export function Admin() {
           <div className="space-y-6">
             <div className="flex justify-between items-center">
               <h2 className="text-xl font-semibold">Equipment Management</h2>
-              {user.role === 'admin' && (
+              {can('equipment.edit') && (
                 <button
                   onClick={() => setShowEquipmentForm(true)}
                   className="btn btn-primary"
@@ -289,7 +272,7 @@ export function Admin() {
             </div>
 
             {/* Equipment Form */}
-            {showEquipmentForm && user.role === 'admin' && (
+            {showEquipmentForm && can('equipment.edit') && (
               <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
                 <h3 className="text-lg font-semibold mb-4">
                   {editingEquipment ? 'Edit Equipment' : 'Add New Equipment'}
@@ -395,7 +378,7 @@ export function Admin() {
                       <th className="text-left py-3 px-4">12hr Rate</th>
                       <th className="text-left py-3 px-4">24hr Rate</th>
                       <th className="text-left py-3 px-4">Status</th>
-                      {user.role === 'admin' && (
+                      {can('equipment.edit') && (
                         <th className="text-right py-3 px-4">Actions</th>
                       )}
                     </tr>
@@ -424,7 +407,7 @@ export function Admin() {
                             {item.available ? 'Available' : 'Unavailable'}
                           </span>
                         </td>
-                        {user.role === 'admin' && (
+                        {can('equipment.edit') && (
                           <td className="py-3 px-4 text-right">
                             <div className="flex justify-end space-x-1">
                               <button
@@ -452,7 +435,7 @@ export function Admin() {
         )}
 
         {/* Users Tab - Admin Only */}
-        {activeTab === 'users' && user.role === 'admin' && (
+        {activeTab === 'users' && can('users.manage') && (
           <div className="space-y-6">
             <h2 className="text-xl font-semibold">User Management</h2>
             
@@ -473,19 +456,19 @@ export function Admin() {
                         <td className="py-3 px-4 font-medium">{user.name}</td>
                         <td className="py-3 px-4">{user.email}</td>
                         <td className="py-3 px-4">
-                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${getRoleBadgeColor(user.role)}`}>
-                            {getRoleDisplayName(user.role)}
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${ROLE_BADGE_COLORS[user.role]}`}>
+                            {ROLES[user.role]}
                           </span>
                         </td>
                         <td className="py-3 px-4 text-right">
                           <select
                             value={user.role}
-                            onChange={(e) => handleUpdateUserRole(user.id, e.target.value as 'admin' | 'staff' | 'customer')}
+                            onChange={(e) => handleUpdateUserRole(user.id, e.target.value as UserRole)}
                             className="text-sm rounded border-gray-300 focus:ring-primary-500 focus:border-primary-500"
                           >
-                            <option value="customer">Customer</option>
-                            <option value="staff">Staff</option>
-                            <option value="admin">Admin</option>
+                            {(Object.keys(ROLES) as UserRole[]).map(role => (
+                              <option key={role} value={role}>{ROLES[role]}</option>
+                            ))}
                           </select>
                         </td>
                       </tr>
@@ -516,7 +499,7 @@ export function Admin() {
                       </div>
                     </div>
                     
-                    {user.role === 'admin' && (
+                    {can('suggestions.manage') && (
                       <button
                         onClick={() => handleDeleteSuggestion(suggestion.id)}
                         className="p-1 text-gray-600 hover:text-red-600"
@@ -572,9 +555,9 @@ export function Admin() {
                     <tr className="border-b border-gray-200 bg-gray-50">
                       <th className="text-left py-3 px-4">Customer</th>
                       <th className="text-left py-3 px-4">Equipment</th>
-                      <th className="text-left py-3 px-4">Duration</th>
                       <th className="text-left py-3 px-4">Amount</th>
                       <th className="text-left py-3 px-4">Date</th>
+                      <th className="text-right py-3 px-4">Details</th>
                     </tr>
                   </thead>
                   <tbody>
@@ -586,12 +569,22 @@ export function Admin() {
                             <div className="text-xs text-gray-500">{order.user?.email}</div>
                           </div>
                         </td>
-                        <td className="py-3 px-4">{order.equipment?.name || 'Unknown Equipment'}</td>
-                        <td className="py-3 px-4">{order.duration}</td>
+                        <td className="py-3 px-4">
+                          <OrderItemsSummary order={order} />
+                        </td>
                         <td className="py-3 px-4 font-semibold text-primary-600">
                           {formatCurrency(order.total_cost)}
                         </td>
                         <td className="py-3 px-4">{formatDateTime(order.created_at)}</td>
+                        <td className="py-3 px-4 text-right">
+                          <Link
+                            to={`/orders/${order.id}`}
+                            className="inline-flex p-1 text-gray-600 hover:text-primary-600"
+                            title="Order details"
+                          >
+                            <Eye className="h-4 w-4" />
+                          </Link>
+                        </td>
                       </tr>
                     ))}
                   </tbody>
@@ -1,15 +1,50 @@
 import React, { useEffect, useState } from 'react'
-import { Plus, Edit, Trash2, Users, Package, MessageSquare, DollarSign, Eye, EyeOff } from 'lucide-react'
-import { Equipment, User, Suggestion, Order, db, supabase } from '../lib/supabase'
+import { Link } from 'react-router-dom'
+import { Plus, Edit, Trash2, Users, Package, MessageSquare, DollarSign, Eye, EyeOff, CalendarDays, FileText, Boxes, Link2, Layers, Wrench, AlertTriangle, Image, Check } from 'lucide-react'
+import { Equipment, Bundle, MaintenanceTicket, DamageClaim, User, UserRole, RolePermission, Suggestion, Order, db, supabase } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
 import { LoadingSpinner } from '../components/LoadingSpinner'
+import { OrderStatusBadge } from '../components/OrderStatusBadge'
+import { AvailabilityCalendar } from '../components/AvailabilityCalendar'
+import { EquipmentUnitsModal } from '../components/EquipmentUnitsModal'
+import { EquipmentCompatibilityModal } from '../components/EquipmentCompatibilityModal'
+import { BundleFormModal } from '../components/BundleFormModal'
+import { MaintenanceTicketModal } from '../components/MaintenanceTicketModal'
+import { ResolveClaimModal } from '../components/ResolveClaimModal'
+import { SpecFieldsInput } from '../components/SpecFieldsInput'
+import { OrderItemsSummary } from '../components/OrderItemsSummary'
+import { OrderTaxSummary } from '../components/OrderTaxSummary'
+import { getCustomerContact, getCustomerName } from '../lib/orders'
+import { getDepositHeld, getOutstanding, getOutstandingByCustomer, getRevenue } from '../lib/payments'
+import { EQUIPMENT_CATEGORIES, EquipmentCategory, TAX_CATEGORIES } from '../lib/tax'
+import { formatStock } from '../lib/units'
+import { EquipmentSpecs, MOUNTS, MOUNT_CATEGORIES, cleanSpecs } from '../lib/specs'
+import { getDaysOutOfService, getEquipmentProfitability, isTicketOpen } from '../lib/maintenance'
+import { CLAIM_KINDS, CLAIM_STATUSES, getClaimTotals } from '../lib/claims'
+import { ADMIN_PANEL_PERMISSIONS, PERMISSIONS, Permission, ROLES, ROLE_BADGE_COLORS, getRolePermissions } from '../lib/permissions'
 import toast from 'react-hot-toast'
 
+type AdminTab = 'equipment' | 'bundles' | 'maintenance' | 'claims' | 'users' | 'suggestions' | 'billing'
+
+// Each tab shows only to roles with its permission, in tab order
+const TAB_PERMISSIONS: Record<AdminTab, Permission> = {
+  equipment: 'equipment.edit',
+  bundles: 'equipment.edit',
+  maintenance: 'maintenance.manage',
+  claims: 'claims.resolve',
+  users: 'users.manage',
+  suggestions: 'suggestions.manage',
+  billing: 'reports.view',
+}
+
 export function AdminPanel() {
-  const { user } = useAuth()
-  const [activeTab, setActiveTab] = useState<'equipment' | 'users' | 'suggestions' | 'billing'>('equipment')
+  const { user, can } = useAuth()
+  const [activeTab, setActiveTab] = useState<AdminTab>(
+    (Object.keys(TAB_PERMISSIONS) as AdminTab[]).find(tab => can(TAB_PERMISSIONS[tab])) || 'equipment'
+  )
   const [equipment, setEquipment] = useState<Equipment[]>([])
   const [users, setUsers] = useState<User[]>([])
+  const [rolePermissions, setRolePermissions] = useState<RolePermission[]>([])
   const [suggestions, setSuggestions] = useState<Suggestion[]>([])
   const [orders, setOrders] = useState<Order[]>([])
   const [loading, setLoading] = useState(true)
@@ -17,12 +52,30 @@ export function AdminPanel() {
   // Equipment form state
   const [showEquipmentForm, setShowEquipmentForm] = useState(false)
   const [editingEquipment, setEditingEquipment] = useState<Equipment | null>(null)
+  const [calendarEquipment, setCalendarEquipment] = useState<Equipment | null>(null)
+  const [unitsEquipment, setUnitsEquipment] = useState<Equipment | null>(null)
+  const [compatibilityEquipment, setCompatibilityEquipment] = useState<Equipment | null>(null)
+  const [bundles, setBundles] = useState<Bundle[]>([])
+  // Undefined while the kit form is closed, null when adding a new kit
+  const [editingBundle, setEditingBundle] = useState<Bundle | null | undefined>(undefined)
+  const [tickets, setTickets] = useState<MaintenanceTicket[]>([])
+  // Undefined while the ticket form is closed, null when opening a new ticket
+  const [editingTicket, setEditingTicket] = useState<MaintenanceTicket | null | undefined>(undefined)
+  const [ticketFilter, setTicketFilter] = useState<'open' | 'all'>('open')
+  const [claims, setClaims] = useState<DamageClaim[]>([])
+  const [resolvingClaim, setResolvingClaim] = useState<DamageClaim | null>(null)
+  const [claimFilter, setClaimFilter] = useState<'open' | 'all'>('open')
   const [equipmentForm, setEquipmentForm] = useState({
     name: '',
     image_url: '',
     rate_12hr: 0,
     rate_24hr: 0,
-    available: true,
+    category: 'accessory' as EquipmentCategory,
+    brand: '',
+    mount: '',
+    description: '',
+    specs: {} as EquipmentSpecs,
+    deposit_amount: 0,
   })
 
   // User password reset state
@@ -32,7 +85,7 @@ export function AdminPanel() {
   const [resettingPassword, setResettingPassword] = useState(false)
 
   useEffect(() => {
-    if (user?.role === 'admin') {
+    if (user) {
       loadData()
     }
   }, [user])
@@ -40,15 +93,24 @@ export function AdminPanel() {
   const loadData = async () => {
     try {
       setLoading(true)
-      const [equipmentData, usersData, suggestionsData, ordersData] = await Promise.all([
+      // Tables a role cannot read come back empty rather than failing
+      const [equipmentData, bundlesData, ticketsData, claimsData, usersData, rolePermissionsData, suggestionsData, ordersData] = await Promise.all([
         db.getAllEquipment(),
+        db.getBundles(),
+        db.getMaintenanceTickets(),
+        db.getDamageClaims(),
         db.getUsers(),
+        db.getRolePermissions(),
         db.getSuggestions(),
         db.getOrders(),
       ])
       
       setEquipment(equipmentData)
+      setBundles(bundlesData)
+      setTickets(ticketsData)
+      setClaims(claimsData)
       setUsers(usersData)
+      setRolePermissions(rolePermissionsData)
       setSuggestions(suggestionsData)
       setOrders(ordersData)
     } catch (error: any) {
@@ -59,6 +121,8 @@ export function AdminPanel() {
     }
   }
 
+  const brands = Array.from(new Set(equipment.map(item => item.brand).filter((brand): brand is string => Boolean(brand)))).sort()
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-IN', {
       style: 'currency',
@@ -79,13 +143,21 @@ export function AdminPanel() {
 
   const handleEquipmentSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+
+    const values = {
+      ...equipmentForm,
+      brand: equipmentForm.brand.trim() || null,
+      description: equipmentForm.description.trim() || null,
+      mount: MOUNT_CATEGORIES.includes(equipmentForm.category) ? equipmentForm.mount || null : null,
+      specs: cleanSpecs(equipmentForm.category, equipmentForm.specs),
+    }
     
     try {
       if (editingEquipment) {
-        await db.updateEquipment(editingEquipment.id, equipmentForm)
+        await db.updateEquipment(editingEquipment.id, values)
         toast.success('Equipment updated successfully')
       } else {
-        await db.createEquipment(equipmentForm)
+        await db.createEquipment(values)
         toast.success('Equipment created successfully')
       }
       
@@ -96,7 +168,12 @@ export function AdminPanel() {
         image_url: '',
         rate_12hr: 0,
         rate_24hr: 0,
-        available: true,
+        category: 'accessory',
+        brand: '',
+        mount: '',
+        description: '',
+        specs: {},
+        deposit_amount: 0,
       })
       
       loadData()
@@ -113,7 +190,12 @@ export function AdminPanel() {
       image_url: item.image_url,
       rate_12hr: item.rate_12hr,
       rate_24hr: item.rate_24hr,
-      available: item.available,
+      category: item.category,
+      brand: item.brand || '',
+      mount: item.mount || '',
+      description: item.description || '',
+      specs: item.specs || {},
+      deposit_amount: item.deposit_amount,
     })
     setShowEquipmentForm(true)
   }
@@ -131,6 +213,28 @@ export function AdminPanel() {
     }
   }
 
+  const handleDeleteBundle = async (bundle: Bundle) => {
+    if (!confirm(`Delete the ${bundle.name} kit? Past orders keep their items.`)) return
+
+    try {
+      await db.deleteBundle(bundle.id)
+      toast.success('Kit deleted')
+      loadData()
+    } catch (error: any) {
+      console.error('Error deleting kit:', error)
+      toast.error(error.message || 'Failed to delete kit')
+    }
+  }
+
+  const handleOpenClaimPhoto = async (path: string) => {
+    try {
+      window.open(await db.getClaimPhotoUrl(path), '_blank', 'noopener')
+    } catch (error: any) {
+      console.error('Error opening photo:', error)
+      toast.error(error.message || 'Failed to open photo')
+    }
+  }
+
   const handleDeleteSuggestion = async (id: string) => {
     if (!confirm('Are you sure you want to delete this suggestion?')) return
     
@@ -144,7 +248,7 @@ export function AdminPanel() {
     }
   }
 
-  const handleUpdateUserRole = async (userId: string, newRole: 'admin' | 'staff') => {
+  const handleUpdateUserRole = async (userId: string, newRole: UserRole) => {
     try {
       await db.updateUser(userId, { role: newRole })
       toast.success('User role updated successfully')
@@ -186,33 +290,31 @@ export function AdminPanel() {
     }
   }
 
-  const getRoleBadgeColor = (role: string) => {
-    switch (role) {
-      case 'admin':
-        return 'bg-red-100 text-red-800'
-      case 'staff':
-        return 'bg-blue-100 text-blue-800'
-      default:
-        return 'bg-gray-100 text-gray-800'
-    }
-  }
+  // Calculate billing statistics. total_cost never includes deposits; only the part of a
+  // deposit kept as a deduction becomes revenue, through the charge it raises.
+  const totalRevenue = getRevenue(orders)
+  const monthlyRevenue = getRevenue(orders.filter(order => {
+    const orderDate = new Date(order.created_at)
+    const now = new Date()
+    return orderDate.getMonth() === now.getMonth() && orderDate.getFullYear() === now.getFullYear()
+  }))
+  const customerBalances = getOutstandingByCustomer(orders)
+  const totalOutstanding = orders.reduce((sum, order) => sum + Math.max(getOutstanding(order), 0), 0)
+  const depositsHeld = orders.reduce((sum, order) => sum + getDepositHeld(order), 0)
 
-  // Calculate billing statistics
-  const totalRevenue = orders.reduce((sum, order) => sum + order.total_cost, 0)
-  const monthlyRevenue = orders
-    .filter(order => {
-      const orderDate = new Date(order.created_at)
-      const now = new Date()
-      return orderDate.getMonth() === now.getMonth() && orderDate.getFullYear() === now.getFullYear()
-    })
-    .reduce((sum, order) => sum + order.total_cost, 0)
+  const openTickets = tickets.filter(isTicketOpen)
+  const visibleTickets = ticketFilter === 'open' ? openTickets : tickets
+  const totalRepairCost = tickets.reduce((sum, ticket) => sum + ticket.cost, 0)
+  const profitability = getEquipmentProfitability(equipment, orders, tickets)
+  const claimTotals = getClaimTotals(claims)
+  const visibleClaims = claimFilter === 'open' ? claims.filter(claim => claim.status === 'open') : claims
 
-  if (user?.role !== 'admin') {
+  if (!can(ADMIN_PANEL_PERMISSIONS)) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
           <h2 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h2>
-          <p className="text-gray-600">Admin access required.</p>
+          <p className="text-gray-600">Your role does not have access to the admin panel.</p>
         </div>
       </div>
     )
@@ -251,15 +353,17 @@ export function AdminPanel() {
             </div>
           </div>
           
-          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-            <div className="flex items-center">
-              <Users className="h-8 w-8 text-green-600" />
-              <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">Users</p>
-                <p className="text-2xl font-bold text-gray-900">{users.length}</p>
+          {can('users.manage') && (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <div className="flex items-center">
+                <Users className="h-8 w-8 text-green-600" />
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-gray-600">Users</p>
+                  <p className="text-2xl font-bold text-gray-900">{users.length}</p>
+                </div>
               </div>
             </div>
-          </div>
+          )}
           
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
             <div className="flex items-center">
@@ -271,67 +375,119 @@ export function AdminPanel() {
             </div>
           </div>
           
-          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-            <div className="flex items-center">
-              <DollarSign className="h-8 w-8 text-yellow-600" />
-              <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">Revenue</p>
-                <p className="text-2xl font-bold text-gray-900">{formatCurrency(totalRevenue)}</p>
+          {can('reports.view') && (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <div className="flex items-center">
+                <DollarSign className="h-8 w-8 text-yellow-600" />
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-gray-600">Revenue</p>
+                  <p className="text-2xl font-bold text-gray-900">{formatCurrency(totalRevenue)}</p>
+                </div>
               </div>
             </div>
-          </div>
+          )}
         </div>
 
         {/* Tabs */}
         <div className="mb-6">
           <nav className="flex space-x-8">
-            <button
-              onClick={() => setActiveTab('equipment')}
-              className={`py-2 px-1 border-b-2 font-medium text-sm ${
-                activeTab === 'equipment'
-                  ? 'border-primary-500 text-primary-600'
-                  : 'border-transparent text-gray-500 hover:text-gray-700'
-              }`}
-            >
-              <Package className="inline-block w-4 h-4 mr-2" />
-              Equipment ({equipment.length})
-            </button>
+            {can(TAB_PERMISSIONS.equipment) && (
+              <button
+                onClick={() => setActiveTab('equipment')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'equipment'
+                    ? 'border-primary-500 text-primary-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                <Package className="inline-block w-4 h-4 mr-2" />
+                Equipment ({equipment.length})
+              </button>
+            )}
+
+            {can(TAB_PERMISSIONS.bundles) && (
+              <button
+                onClick={() => setActiveTab('bundles')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'bundles'
+                    ? 'border-primary-500 text-primary-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                <Layers className="inline-block w-4 h-4 mr-2" />
+                Kits ({bundles.length})
+              </button>
+            )}
+
+            {can(TAB_PERMISSIONS.maintenance) && (
+              <button
+                onClick={() => setActiveTab('maintenance')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'maintenance'
+                    ? 'border-primary-500 text-primary-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                <Wrench className="inline-block w-4 h-4 mr-2" />
+                Maintenance ({openTickets.length} open)
+              </button>
+            )}
+
+            {can(TAB_PERMISSIONS.claims) && (
+              <button
+                onClick={() => setActiveTab('claims')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'claims'
+                    ? 'border-primary-500 text-primary-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                <AlertTriangle className="inline-block w-4 h-4 mr-2" />
+                Claims ({claimTotals.open} open)
+              </button>
+            )}
             
-            <button
-              onClick={() => setActiveTab('users')}
-              className={`py-2 px-1 border-b-2 font-medium text-sm ${
-                activeTab === 'users'
-                  ? 'border-primary-500 text-primary-600'
-                  : 'border-transparent text-gray-500 hover:text-gray-700'
-              }`}
-            >
-              <Users className="inline-block w-4 h-4 mr-2" />
-              Users ({users.length})
-            </button>
+            {can(TAB_PERMISSIONS.users) && (
+              <button
+                onClick={() => setActiveTab('users')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'users'
+                    ? 'border-primary-500 text-primary-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                <Users className="inline-block w-4 h-4 mr-2" />
+                Users ({users.length})
+              </button>
+            )}
             
-            <button
-              onClick={() => setActiveTab('suggestions')}
-              className={`py-2 px-1 border-b-2 font-medium text-sm ${
-                activeTab === 'suggestions'
-                  ? 'border-primary-500 text-primary-600'
-                  : 'border-transparent text-gray-500 hover:text-gray-700'
-              }`}
-            >
-              <MessageSquare className="inline-block w-4 h-4 mr-2" />
-              Suggestions ({suggestions.length})
-            </button>
+            {can(TAB_PERMISSIONS.suggestions) && (
+              <button
+                onClick={() => setActiveTab('suggestions')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'suggestions'
+                    ? 'border-primary-500 text-primary-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                <MessageSquare className="inline-block w-4 h-4 mr-2" />
+                Suggestions ({suggestions.length})
+              </button>
+            )}
             
-            <button
-              onClick={() => setActiveTab('billing')}
-              className={`py-2 px-1 border-b-2 font-medium text-sm ${
-                activeTab === 'billing'
-                  ? 'border-primary-500 text-primary-600'
-                  : 'border-transparent text-gray-500 hover:text-gray-700'
-              }`}
-            >
-              <DollarSign className="inline-block w-4 h-4 mr-2" />
-              Billing ({orders.length} orders)
-            </button>
+            {can(TAB_PERMISSIONS.billing) && (
+              <button
+                onClick={() => setActiveTab('billing')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'billing'
+                    ? 'border-primary-500 text-primary-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                <DollarSign className="inline-block w-4 h-4 mr-2" />
+                Billing ({orders.length} orders)
+              </button>
+            )}
           </nav>
         </div>
 
@@ -381,6 +537,79 @@ export function AdminPanel() {
                         className="w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500"
                       />
                     </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Category
+                      </label>
+                      <select
+                        value={equipmentForm.category}
+                        onChange={(e) => setEquipmentForm(prev => ({ ...prev, category: e.target.value as EquipmentCategory }))}
+                        className="w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500"
+                      >
+                        {EQUIPMENT_CATEGORIES.map(category => (
+                          <option key={category} value={category}>
+                            {TAX_CATEGORIES[category].label} (SAC {TAX_CATEGORIES[category].sac}, {TAX_CATEGORIES[category].rate}% GST)
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          Brand
+                        </label>
+                        <input
+                          type="text"
+                          list="equipment-brands"
+                          value={equipmentForm.brand}
+                          onChange={(e) => setEquipmentForm(prev => ({ ...prev, brand: e.target.value }))}
+                          className="w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500"
+                        />
+                        <datalist id="equipment-brands">
+                          {brands.map(brand => (
+                            <option key={brand} value={brand} />
+                          ))}
+                        </datalist>
+                      </div>
+                      {MOUNT_CATEGORIES.includes(equipmentForm.category) && (
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Mount
+                          </label>
+                          <select
+                            value={equipmentForm.mount}
+                            onChange={(e) => setEquipmentForm(prev => ({ ...prev, mount: e.target.value }))}
+                            className="w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500"
+                          >
+                            <option value="">Not specified</option>
+                            {MOUNTS.map(mount => (
+                              <option key={mount} value={mount}>{mount}</option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Description
+                    </label>
+                    <textarea
+                      value={equipmentForm.description}
+                      onChange={(e) => setEquipmentForm(prev => ({ ...prev, description: e.target.value }))}
+                      rows={3}
+                      className="w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500"
+                    />
+                  </div>
+
+                  <div>
+                    <h4 className="text-sm font-semibold text-gray-900 mb-2">Specifications</h4>
+                    <SpecFieldsInput
+                      category={equipmentForm.category}
+                      value={equipmentForm.specs}
+                      onChange={(specs) => setEquipmentForm(prev => ({ ...prev, specs }))}
+                    />
                   </div>
                   
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -412,19 +641,20 @@ export function AdminPanel() {
                         className="w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500"
                       />
                     </div>
-                  </div>
-                  
-                  <div className="flex items-center">
-                    <input
-                      type="checkbox"
-                      id="available"
-                      checked={equipmentForm.available}
-                      onChange={(e) => setEquipmentForm(prev => ({ ...prev, available: e.target.checked }))}
-                      className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
-                    />
-                    <label htmlFor="available" className="ml-2 block text-sm text-gray-900">
-                      Available for rent
-                    </label>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Security Deposit (₹)
+                      </label>
+                      <input
+                        type="number"
+                        value={equipmentForm.deposit_amount}
+                        onChange={(e) => setEquipmentForm(prev => ({ ...prev, deposit_amount: parseFloat(e.target.value) || 0 }))}
+                        min="0"
+                        step="500"
+                        className="w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">Refundable, collected at checkout. Leave 0 for none.</p>
+                    </div>
                   </div>
                   
                   <div className="flex space-x-3">
@@ -453,9 +683,11 @@ export function AdminPanel() {
                   <thead>
                     <tr className="border-b border-gray-200 bg-gray-50">
                       <th className="text-left py-3 px-4">Equipment</th>
+                      <th className="text-left py-3 px-4">Category</th>
                       <th className="text-left py-3 px-4">12hr Rate</th>
                       <th className="text-left py-3 px-4">24hr Rate</th>
-                      <th className="text-left py-3 px-4">Status</th>
+                      <th className="text-left py-3 px-4">Deposit</th>
+                      <th className="text-left py-3 px-4">Units</th>
                       <th className="text-right py-3 px-4">Actions</th>
                     </tr>
                   </thead>
@@ -473,22 +705,55 @@ export function AdminPanel() {
                                 target.src = 'https://images.pexels.com/photos/90946/pexels-photo-90946.jpeg?auto=compress&cs=tinysrgb&w=400'
                               }}
                             />
-                            <div className="font-medium">{item.name}</div>
+                            <div>
+                              <div className="font-medium">{item.name}</div>
+                              {(item.brand || item.mount) && (
+                                <div className="text-xs text-gray-500">
+                                  {[item.brand, item.mount].filter(Boolean).join(' · ')}
+                                </div>
+                              )}
+                            </div>
                           </div>
                         </td>
+                        <td className="py-3 px-4">
+                          <div>{TAX_CATEGORIES[item.category]?.label || item.category}</div>
+                          <div className="text-xs text-gray-500">SAC {TAX_CATEGORIES[item.category]?.sac}</div>
+                        </td>
                         <td className="py-3 px-4">{formatCurrency(item.rate_12hr)}</td>
                         <td className="py-3 px-4">{formatCurrency(item.rate_24hr)}</td>
+                        <td className="py-3 px-4">{item.deposit_amount > 0 ? formatCurrency(item.deposit_amount) : '—'}</td>
                         <td className="py-3 px-4">
                           <span className={`px-2 py-1 rounded-full text-xs font-medium ${
                             item.available 
                               ? 'bg-green-100 text-green-800' 
                               : 'bg-red-100 text-red-800'
                           }`}>
-                            {item.available ? 'Available' : 'Unavailable'}
+                            {item.unit_count > 0 ? formatStock(item) : 'No units'}
                           </span>
                         </td>
                         <td className="py-3 px-4 text-right">
                           <div className="flex justify-end space-x-1">
+                            <button
+                              onClick={() => setUnitsEquipment(item)}
+                              className="p-1 text-gray-600 hover:text-primary-600"
+                              title="Units"
+                            >
+                              <Boxes className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => setCompatibilityEquipment(item)}
+                              className="p-1 text-gray-600 hover:text-primary-600"
+                              title="Compatible equipment"
+                            >
+                              <Link2 className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => setCalendarEquipment(item)}
+                              className="p-1 text-gray-600 hover:text-primary-600"
+                              title="View availability"
+                            >
+                              <CalendarDays className="h-4 w-4" />
+                            </button>
                             <button
                               onClick={() => handleEditEquipment(item)}
                               className="p-1 text-gray-600 hover:text-primary-600"
@@ -512,6 +777,333 @@ export function AdminPanel() {
           </div>
         )}
 
+        {/* Kits Tab */}
+        {activeTab === 'bundles' && (
+          <div className="space-y-6">
+            <div className="flex justify-between items-center">
+              <h2 className="text-xl font-semibold">Kits</h2>
+              <button
+                onClick={() => setEditingBundle(null)}
+                className="btn btn-primary"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Kit
+              </button>
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200 bg-gray-50">
+                      <th className="text-left py-3 px-4">Kit</th>
+                      <th className="text-left py-3 px-4">Items</th>
+                      <th className="text-left py-3 px-4">12hr Rate</th>
+                      <th className="text-left py-3 px-4">24hr Rate</th>
+                      <th className="text-left py-3 px-4">Status</th>
+                      <th className="text-right py-3 px-4">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {bundles.map((bundle) => (
+                      <tr key={bundle.id} className="border-b border-gray-100">
+                        <td className="py-3 px-4 font-medium">{bundle.name}</td>
+                        <td className="py-3 px-4">
+                          {(bundle.items || []).map(item => (
+                            <div key={item.id}>
+                              {item.quantity > 1 && `${item.quantity} × `}{item.equipment?.name || 'Unknown Equipment'}
+                            </div>
+                          ))}
+                        </td>
+                        <td className="py-3 px-4">{formatCurrency(bundle.rate_12hr)}</td>
+                        <td className="py-3 px-4">{formatCurrency(bundle.rate_24hr)}</td>
+                        <td className="py-3 px-4">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                            bundle.active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                          }`}>
+                            {bundle.active ? 'Active' : 'Hidden'}
+                          </span>
+                        </td>
+                        <td className="py-3 px-4 text-right">
+                          <div className="flex justify-end space-x-1">
+                            <button
+                              onClick={() => setEditingBundle(bundle)}
+                              className="p-1 text-gray-600 hover:text-primary-600"
+                            >
+                              <Edit className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => handleDeleteBundle(bundle)}
+                              className="p-1 text-gray-600 hover:text-red-600"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {bundles.length === 0 && (
+                <div className="p-6 text-center text-sm text-gray-500">
+                  No kits yet — combine equipment that is often rented together
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Maintenance Tab */}
+        {activeTab === 'maintenance' && (
+          <div className="space-y-6">
+            <div className="flex justify-between items-center">
+              <h2 className="text-xl font-semibold">Maintenance</h2>
+              <button
+                onClick={() => setEditingTicket(null)}
+                className="btn btn-primary"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Open Ticket
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Units Out of Service</h3>
+                <p className="text-3xl font-bold text-yellow-600">{new Set(openTickets.map(ticket => ticket.unit_id)).size}</p>
+              </div>
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Repair Costs</h3>
+                <p className="text-3xl font-bold text-red-600">{formatCurrency(totalRepairCost)}</p>
+              </div>
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Tickets</h3>
+                <p className="text-3xl font-bold text-gray-900">{tickets.length}</p>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+              <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+                <h3 className="text-lg font-semibold">Tickets</h3>
+                <select
+                  value={ticketFilter}
+                  onChange={(e) => setTicketFilter(e.target.value as 'open' | 'all')}
+                  className="rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500 text-sm"
+                >
+                  <option value="open">Open</option>
+                  <option value="all">All</option>
+                </select>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200 bg-gray-50">
+                      <th className="text-left py-3 px-4">Equipment</th>
+                      <th className="text-left py-3 px-4">Reason</th>
+                      <th className="text-left py-3 px-4">Vendor</th>
+                      <th className="text-left py-3 px-4">Opened</th>
+                      <th className="text-left py-3 px-4">Closed</th>
+                      <th className="text-right py-3 px-4">Cost</th>
+                      <th className="text-right py-3 px-4">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleTickets.map((ticket) => (
+                      <tr key={ticket.id} className="border-b border-gray-100">
+                        <td className="py-3 px-4">
+                          <div className="font-medium">{ticket.equipment?.name || 'Unknown Equipment'}</div>
+                          {ticket.unit && <div className="text-xs text-gray-500">S/N {ticket.unit.serial_number}</div>}
+                        </td>
+                        <td className="py-3 px-4">
+                          <div>{ticket.reason}</div>
+                          {ticket.notes && <div className="text-xs text-gray-500">{ticket.notes}</div>}
+                        </td>
+                        <td className="py-3 px-4">{ticket.vendor || 'In-house'}</td>
+                        <td className="py-3 px-4">{new Date(ticket.opened_at).toLocaleDateString('en-IN')}</td>
+                        <td className="py-3 px-4">
+                          {ticket.closed_at ? (
+                            new Date(ticket.closed_at).toLocaleDateString('en-IN')
+                          ) : (
+                            <span className="px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                              Open · {getDaysOutOfService(ticket)} day{getDaysOutOfService(ticket) === 1 ? '' : 's'}
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-3 px-4 text-right">{formatCurrency(ticket.cost)}</td>
+                        <td className="py-3 px-4 text-right">
+                          <button
+                            onClick={() => setEditingTicket(ticket)}
+                            className="p-1 text-gray-600 hover:text-primary-600"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {visibleTickets.length === 0 && (
+                <div className="p-6 text-center text-sm text-gray-500">
+                  {ticketFilter === 'open' ? 'Nothing is in maintenance' : 'No tickets yet'}
+                </div>
+              )}
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h3 className="text-lg font-semibold">Profitability by Equipment</h3>
+                <p className="text-sm text-gray-500">Rental income before tax, less repair costs</p>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200 bg-gray-50">
+                      <th className="text-left py-3 px-4">Equipment</th>
+                      <th className="text-right py-3 px-4">Rentals</th>
+                      <th className="text-right py-3 px-4">Revenue</th>
+                      <th className="text-right py-3 px-4">Repair Costs</th>
+                      <th className="text-right py-3 px-4">Net</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {profitability.map((row) => (
+                      <tr key={row.equipment.id} className="border-b border-gray-100">
+                        <td className="py-3 px-4">
+                          <div className="font-medium">{row.equipment.name}</div>
+                          {row.openTickets > 0 && (
+                            <div className="text-xs text-yellow-700">{row.openTickets} open ticket{row.openTickets === 1 ? '' : 's'}</div>
+                          )}
+                        </td>
+                        <td className="py-3 px-4 text-right">{row.rentals}</td>
+                        <td className="py-3 px-4 text-right">{formatCurrency(row.revenue)}</td>
+                        <td className="py-3 px-4 text-right">{row.repairCost > 0 ? formatCurrency(row.repairCost) : '—'}</td>
+                        <td className={`py-3 px-4 text-right font-semibold ${row.net < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                          {formatCurrency(row.net)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Claims Tab */}
+        {activeTab === 'claims' && (
+          <div className="space-y-6">
+            <h2 className="text-xl font-semibold">Damage & Loss Claims</h2>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Open Claims</h3>
+                <p className="text-3xl font-bold text-yellow-600">{claimTotals.open}</p>
+                <p className="text-sm text-gray-500">{formatCurrency(claimTotals.exposure)} estimated</p>
+              </div>
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Recovered</h3>
+                <p className="text-3xl font-bold text-green-600">{formatCurrency(claimTotals.recovered)}</p>
+              </div>
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Written Off</h3>
+                <p className="text-3xl font-bold text-red-600">{formatCurrency(claimTotals.writtenOff)}</p>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+              <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+                <h3 className="text-lg font-semibold">Claims</h3>
+                <select
+                  value={claimFilter}
+                  onChange={(e) => setClaimFilter(e.target.value as 'open' | 'all')}
+                  className="rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500 text-sm"
+                >
+                  <option value="open">Open</option>
+                  <option value="all">All</option>
+                </select>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200 bg-gray-50">
+                      <th className="text-left py-3 px-4">Raised</th>
+                      <th className="text-left py-3 px-4">Customer</th>
+                      <th className="text-left py-3 px-4">Equipment</th>
+                      <th className="text-left py-3 px-4">Claim</th>
+                      <th className="text-right py-3 px-4">Estimated</th>
+                      <th className="text-right py-3 px-4">Actual</th>
+                      <th className="text-right py-3 px-4">Customer Pays</th>
+                      <th className="text-left py-3 px-4">Status</th>
+                      <th className="text-right py-3 px-4">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleClaims.map((claim) => (
+                      <tr key={claim.id} className="border-b border-gray-100">
+                        <td className="py-3 px-4">{new Date(claim.created_at).toLocaleDateString('en-IN')}</td>
+                        <td className="py-3 px-4">
+                          {claim.order ? getCustomerName(claim.order) : 'Unknown Customer'}
+                        </td>
+                        <td className="py-3 px-4">
+                          <div className="font-medium">{claim.equipment?.name || 'Unknown Equipment'}</div>
+                          {claim.unit && <div className="text-xs text-gray-500">S/N {claim.unit.serial_number}</div>}
+                        </td>
+                        <td className="py-3 px-4">
+                          <div>{CLAIM_KINDS[claim.kind]}: {claim.description}</div>
+                          {claim.resolution_notes && <div className="text-xs text-gray-500">{claim.resolution_notes}</div>}
+                        </td>
+                        <td className="py-3 px-4 text-right">{formatCurrency(claim.estimated_cost)}</td>
+                        <td className="py-3 px-4 text-right">{claim.actual_cost !== null ? formatCurrency(claim.actual_cost) : '—'}</td>
+                        <td className="py-3 px-4 text-right">{formatCurrency(claim.customer_liability)}</td>
+                        <td className="py-3 px-4">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                            claim.status === 'open'
+                              ? 'bg-yellow-100 text-yellow-800'
+                              : claim.status === 'settled'
+                                ? 'bg-green-100 text-green-800'
+                                : 'bg-gray-100 text-gray-800'
+                          }`}>
+                            {CLAIM_STATUSES[claim.status]}
+                          </span>
+                        </td>
+                        <td className="py-3 px-4 text-right">
+                          <div className="flex justify-end items-center space-x-2">
+                            {claim.photo_paths.map((path, index) => (
+                              <button
+                                key={path}
+                                onClick={() => handleOpenClaimPhoto(path)}
+                                className="p-1 text-gray-600 hover:text-primary-600"
+                                title={`Photo ${index + 1}`}
+                              >
+                                <Image className="h-4 w-4" />
+                              </button>
+                            ))}
+                            {claim.status === 'open' && (
+                              <button
+                                onClick={() => setResolvingClaim(claim)}
+                                className="btn btn-outline text-xs"
+                              >
+                                Resolve
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {visibleClaims.length === 0 && (
+                <div className="p-6 text-center text-sm text-gray-500">
+                  {claimFilter === 'open' ? 'No open claims' : 'No claims yet'}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Users Tab */}
         {activeTab === 'users' && (
           <div className="space-y-6">
@@ -534,19 +1126,20 @@ export function AdminPanel() {
                         <td className="py-3 px-4 font-medium">{user.name}</td>
                         <td className="py-3 px-4">{user.email}</td>
                         <td className="py-3 px-4">
-                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${getRoleBadgeColor(user.role)}`}>
-                            {user.role}
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${ROLE_BADGE_COLORS[user.role]}`}>
+                            {ROLES[user.role]}
                           </span>
                         </td>
                         <td className="py-3 px-4 text-right">
                           <div className="flex justify-end space-x-2">
                             <select
                               value={user.role}
-                              onChange={(e) => handleUpdateUserRole(user.id, e.target.value as 'admin' | 'staff')}
+                              onChange={(e) => handleUpdateUserRole(user.id, e.target.value as UserRole)}
                               className="text-sm rounded border-gray-300 focus:ring-primary-500 focus:border-primary-500"
                             >
-                              <option value="staff">Staff</option>
-                              <option value="admin">Admin</option>
+                              {(Object.keys(ROLES) as UserRole[]).map(role => (
+                                <option key={role} value={role}>{ROLES[role]}</option>
+                              ))}
                             </select>
                             <button
                               onClick={() => setResetPasswordUser(user)}
@@ -562,6 +1155,42 @@ export function AdminPanel() {
                 </table>
               </div>
             </div>
+
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h3 className="text-lg font-semibold">Role Permissions</h3>
+                <p className="text-sm text-gray-600">What each role can do, enforced on every screen and in the database</p>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200 bg-gray-50">
+                      <th className="text-left py-3 px-4">Permission</th>
+                      {(Object.keys(ROLES) as UserRole[]).map(role => (
+                        <th key={role} className="text-center py-3 px-4">{ROLES[role]}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(Object.keys(PERMISSIONS) as Permission[]).map(permission => (
+                      <tr key={permission} className="border-b border-gray-100">
+                        <td className="py-2 px-4">
+                          <div className="font-medium">{PERMISSIONS[permission]}</div>
+                          <div className="text-xs text-gray-500">{permission}</div>
+                        </td>
+                        {(Object.keys(ROLES) as UserRole[]).map(role => (
+                          <td key={role} className="text-center py-2 px-4">
+                            {getRolePermissions(rolePermissions, role).includes(permission) && (
+                              <Check className="h-4 w-4 text-green-600 inline-block" />
+                            )}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
           </div>
         )}
 
@@ -613,7 +1242,7 @@ export function AdminPanel() {
             <h2 className="text-xl font-semibold">Billing & Revenue</h2>
             
             {/* Revenue Summary */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
               <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
                 <h3 className="text-lg font-semibold text-gray-900 mb-2">Total Revenue</h3>
                 <p className="text-3xl font-bold text-primary-600">{formatCurrency(totalRevenue)}</p>
@@ -625,8 +1254,68 @@ export function AdminPanel() {
                 <p className="text-3xl font-bold text-green-600">{formatCurrency(monthlyRevenue)}</p>
                 <p className="text-sm text-gray-500 mt-1">Current month</p>
               </div>
+
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Outstanding</h3>
+                <p className="text-3xl font-bold text-red-600">{formatCurrency(totalOutstanding)}</p>
+                <p className="text-sm text-gray-500 mt-1">Billed but not yet collected</p>
+              </div>
+
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Deposits Held</h3>
+                <p className="text-3xl font-bold text-gray-700">{formatCurrency(depositsHeld)}</p>
+                <p className="text-sm text-gray-500 mt-1">Refundable, not revenue</p>
+              </div>
             </div>
 
+            {/* Customer Balances */}
+            {customerBalances.length > 0 && (
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-200">
+                  <h3 className="text-lg font-semibold">Outstanding by Customer</h3>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-gray-200 bg-gray-50">
+                        <th className="text-left py-3 px-4">Customer</th>
+                        <th className="text-left py-3 px-4">Orders</th>
+                        <th className="text-left py-3 px-4">Billed</th>
+                        <th className="text-left py-3 px-4">Paid</th>
+                        <th className="text-right py-3 px-4">Outstanding</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {customerBalances.map((balance) => (
+                        <tr key={balance.key} className="border-b border-gray-100">
+                          <td className="py-3 px-4">
+                            {balance.customer_id ? (
+                              <Link to={`/customers/${balance.customer_id}`} className="font-medium hover:text-primary-600">
+                                {balance.name}
+                              </Link>
+                            ) : (
+                              <div className="font-medium">{balance.name}</div>
+                            )}
+                            <div className="text-xs text-gray-500">{balance.contact}</div>
+                          </td>
+                          <td className="py-3 px-4">{balance.orders}</td>
+                          <td className="py-3 px-4">{formatCurrency(balance.billed)}</td>
+                          <td className="py-3 px-4">{formatCurrency(balance.paid)}</td>
+                          <td className={`py-3 px-4 text-right font-semibold ${
+                            balance.outstanding > 0 ? 'text-red-600' : 'text-orange-600'
+                          }`}>
+                            {balance.outstanding > 0
+                              ? formatCurrency(balance.outstanding)
+                              : `Refund ${formatCurrency(-balance.outstanding)}`}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
             {/* Orders Table */}
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
               <div className="px-6 py-4 border-b border-gray-200">
@@ -638,9 +1327,12 @@ export function AdminPanel() {
                     <tr className="border-b border-gray-200 bg-gray-50">
                       <th className="text-left py-3 px-4">Customer</th>
                       <th className="text-left py-3 px-4">Equipment</th>
-                      <th className="text-left py-3 px-4">Duration</th>
                       <th className="text-left py-3 px-4">Amount</th>
+                      <th className="text-left py-3 px-4">GST</th>
+                      <th className="text-left py-3 px-4">Outstanding</th>
                       <th className="text-left py-3 px-4">Date</th>
+                      <th className="text-left py-3 px-4">Status</th>
+                      <th className="text-right py-3 px-4">Actions</th>
                     </tr>
                   </thead>
                   <tbody>
@@ -648,16 +1340,54 @@ export function AdminPanel() {
                       <tr key={order.id} className="border-b border-gray-100">
                         <td className="py-3 px-4">
                           <div>
-                            <div className="font-medium">{order.user?.name || 'Unknown'}</div>
-                            <div className="text-xs text-gray-500">{order.user?.email}</div>
+                            {order.customer_id ? (
+                              <Link to={`/customers/${order.customer_id}`} className="font-medium hover:text-primary-600">
+                                {getCustomerName(order)}
+                              </Link>
+                            ) : (
+                              <div className="font-medium">{getCustomerName(order)}</div>
+                            )}
+                            <div className="text-xs text-gray-500">{getCustomerContact(order)}</div>
                           </div>
                         </td>
-                        <td className="py-3 px-4">{order.equipment?.name || 'Unknown Equipment'}</td>
-                        <td className="py-3 px-4">{order.duration}</td>
+                        <td className="py-3 px-4">
+                          <OrderItemsSummary order={order} />
+                        </td>
                         <td className="py-3 px-4 font-semibold text-primary-600">
                           {formatCurrency(order.total_cost)}
                         </td>
+                        <td className="py-3 px-4">
+                          <OrderTaxSummary order={order} />
+                        </td>
+                        <td className={`py-3 px-4 font-medium ${
+                          getOutstanding(order) > 0
+                            ? 'text-red-600'
+                            : getOutstanding(order) < 0 ? 'text-orange-600' : 'text-green-600'
+                        }`}>
+                          {getOutstanding(order) < 0
+                            ? `Refund ${formatCurrency(-getOutstanding(order))}`
+                            : formatCurrency(getOutstanding(order))}
+                        </td>
                         <td className="py-3 px-4">{formatDateTime(order.created_at)}</td>
+                        <td className="py-3 px-4">
+                          <OrderStatusBadge status={order.status} />
+                        </td>
+                        <td className="py-3 px-4 text-right">
+                          <Link
+                            to={`/orders/${order.id}`}
+                            className="inline-flex p-1 text-gray-600 hover:text-primary-600"
+                            title="Order details"
+                          >
+                            <Eye className="h-4 w-4" />
+                          </Link>
+                          <Link
+                            to={`/orders/${order.id}/invoice`}
+                            className="inline-flex p-1 text-gray-600 hover:text-primary-600"
+                            title="Invoice"
+                          >
+                            <FileText className="h-4 w-4" />
+                          </Link>
+                        </td>
                       </tr>
                     ))}
                   </tbody>
@@ -668,6 +1398,55 @@ export function AdminPanel() {
         )}
       </div>
 
+      {calendarEquipment && (
+        <AvailabilityCalendar
+          equipment={calendarEquipment}
+          onClose={() => setCalendarEquipment(null)}
+        />
+      )}
+
+      {unitsEquipment && (
+        <EquipmentUnitsModal
+          equipment={unitsEquipment}
+          onClose={() => setUnitsEquipment(null)}
+          onChanged={loadData}
+        />
+      )}
+
+      {editingTicket !== undefined && (
+        <MaintenanceTicketModal
+          ticket={editingTicket}
+          catalog={equipment}
+          onClose={() => setEditingTicket(undefined)}
+          onSaved={loadData}
+        />
+      )}
+
+      {resolvingClaim && (
+        <ResolveClaimModal
+          claim={resolvingClaim}
+          onClose={() => setResolvingClaim(null)}
+          onResolved={loadData}
+        />
+      )}
+
+      {editingBundle !== undefined && (
+        <BundleFormModal
+          bundle={editingBundle}
+          catalog={equipment}
+          onClose={() => setEditingBundle(undefined)}
+          onSaved={loadData}
+        />
+      )}
+
+      {compatibilityEquipment && (
+        <EquipmentCompatibilityModal
+          equipment={compatibilityEquipment}
+          catalog={equipment}
+          onClose={() => setCompatibilityEquipment(null)}
+        />
+      )}
+
       {/* Password Reset Modal */}
       {resetPasswordUser && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
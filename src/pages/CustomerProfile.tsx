@@ -0,0 +1,255 @@
+import React, { useEffect, useState } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { ArrowLeft, Eye, FileText, Package } from 'lucide-react'
+import { Customer, Order, db } from '../lib/supabase'
+import { getCustomerHistory } from '../lib/customers'
+import { getOutstanding } from '../lib/payments'
+import { isOverdue, wasReturnedLate } from '../lib/lateFees'
+import { ID_TYPES } from '../lib/kyc'
+import { LoadingSpinner } from '../components/LoadingSpinner'
+import { OrderStatusBadge } from '../components/OrderStatusBadge'
+import { OrderItemsSummary } from '../components/OrderItemsSummary'
+import { KycBadge } from '../components/KycBadge'
+
+export function CustomerProfile() {
+  const { customerId } = useParams<{ customerId: string }>()
+  const [customer, setCustomer] = useState<Customer | null>(null)
+  const [orders, setOrders] = useState<Order[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (customerId) {
+      loadProfile(customerId)
+    }
+  }, [customerId])
+
+  const loadProfile = async (id: string) => {
+    try {
+      setLoading(true)
+      setError(null)
+      const [customerData, ordersData] = await Promise.all([
+        db.getCustomer(id),
+        db.getCustomerOrders(id),
+      ])
+      if (!customerData) {
+        setError('Customer not found')
+        return
+      }
+
+      setCustomer(customerData)
+      setOrders(ordersData)
+    } catch (error: any) {
+      console.error('Error loading customer:', error)
+      setError(error.message || 'Failed to load customer')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      minimumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  const formatDateTime = (date: string) => {
+    return new Date(date).toLocaleString('en-IN', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <LoadingSpinner size="lg" />
+          <p className="mt-4 text-gray-600">Loading customer...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !customer) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Unable to Load Customer</h2>
+          <p className="text-gray-600">{error || 'Customer not available'}</p>
+        </div>
+      </div>
+    )
+  }
+
+  const history = getCustomerHistory(orders)
+  const damageCharges = orders.flatMap(order =>
+    (order.charges || []).filter(charge => charge.kind === 'damage')
+  )
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link to="/customers" className="inline-flex items-center text-sm text-gray-600 hover:text-primary-600 mb-4">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          All customers
+        </Link>
+
+        <div className="mb-8 flex justify-between items-start">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">{customer.name}</h1>
+            <p className="text-gray-600 mt-2">
+              {[customer.phone, customer.email].filter(Boolean).join(' · ')}
+            </p>
+            {customer.gstin && <p className="text-sm text-gray-500">GSTIN {customer.gstin}</p>}
+            {customer.notes && <p className="text-sm text-gray-500 italic mt-1">{customer.notes}</p>}
+          </div>
+          <div className="text-right text-sm">
+            <KycBadge customer={customer} />
+            {customer.id_type && customer.id_number && (
+              <div className="text-gray-500 mt-2">{ID_TYPES[customer.id_type]} {customer.id_number}</div>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-6 mb-8">
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Total Spend</h3>
+            <p className="text-3xl font-bold text-primary-600">{formatCurrency(history.totalSpend)}</p>
+            <p className="text-sm text-gray-500 mt-1">
+              {history.orders} {history.orders === 1 ? 'rental' : 'rentals'}
+              {history.active > 0 && ` · ${history.active} active`}
+            </p>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">
+              {history.outstanding < 0 ? 'Refund Due' : 'Outstanding'}
+            </h3>
+            <p className={`text-3xl font-bold ${history.outstanding > 0 ? 'text-red-600' : 'text-green-600'}`}>
+              {formatCurrency(Math.abs(history.outstanding))}
+            </p>
+            <p className="text-sm text-gray-500 mt-1">Paid {formatCurrency(history.paid)}</p>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Late Returns</h3>
+            <p className={`text-3xl font-bold ${history.lateReturns > 0 ? 'text-orange-600' : 'text-gray-900'}`}>
+              {history.lateReturns}
+            </p>
+            <p className="text-sm text-gray-500 mt-1">Including rentals overdue now</p>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Damage Incidents</h3>
+            <p className={`text-3xl font-bold ${history.damageIncidents > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+              {history.damageIncidents}
+            </p>
+            <p className="text-sm text-gray-500 mt-1">
+              {history.lastRentalAt ? `Last rental ${formatDateTime(history.lastRentalAt)}` : 'No rentals yet'}
+            </p>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden mb-8">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-semibold">Rental History</h3>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 bg-gray-50">
+                  <th className="text-left py-3 px-4">Start</th>
+                  <th className="text-left py-3 px-4">Equipment</th>
+                  <th className="text-left py-3 px-4">Amount</th>
+                  <th className="text-left py-3 px-4">Due Back</th>
+                  <th className="text-left py-3 px-4">Status</th>
+                  <th className="text-right py-3 px-4">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {orders.map(order => (
+                  <tr key={order.id} className="border-b border-gray-100">
+                    <td className="py-3 px-4">{formatDateTime(order.rent_date)}</td>
+                    <td className="py-3 px-4">
+                      <OrderItemsSummary order={order} />
+                    </td>
+                    <td className="py-3 px-4">
+                      <div className="font-semibold text-primary-600">{formatCurrency(order.total_cost)}</div>
+                      {getOutstanding(order) > 0 && (
+                        <div className="text-xs text-red-600">Due {formatCurrency(getOutstanding(order))}</div>
+                      )}
+                      {getOutstanding(order) < 0 && (
+                        <div className="text-xs text-orange-600">Refund {formatCurrency(-getOutstanding(order))}</div>
+                      )}
+                    </td>
+                    <td className="py-3 px-4">
+                      {formatDateTime(order.due_at)}
+                      {order.returned_at && (
+                        <div className={`text-xs ${wasReturnedLate(order) ? 'text-orange-600' : 'text-gray-500'}`}>
+                          Returned {formatDateTime(order.returned_at)}
+                          {wasReturnedLate(order) && ' (late)'}
+                        </div>
+                      )}
+                      {isOverdue(order) && <div className="text-xs text-red-600">Overdue</div>}
+                    </td>
+                    <td className="py-3 px-4">
+                      <OrderStatusBadge status={order.status} />
+                    </td>
+                    <td className="py-3 px-4 text-right">
+                      <Link
+                        to={`/orders/${order.id}`}
+                        className="inline-block p-1 text-gray-600 hover:text-primary-600"
+                        title="Order details"
+                      >
+                        <Eye className="h-4 w-4" />
+                      </Link>
+                      <Link
+                        to={`/orders/${order.id}/invoice`}
+                        className="inline-block p-1 text-gray-600 hover:text-primary-600"
+                        title="Invoice"
+                      >
+                        <FileText className="h-4 w-4" />
+                      </Link>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {orders.length === 0 && (
+            <div className="text-center py-12">
+              <Package className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+              <p className="text-gray-600">No rentals yet</p>
+            </div>
+          )}
+        </div>
+
+        {damageCharges.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-semibold">Damage Incidents</h3>
+            </div>
+            <div className="divide-y divide-gray-100 text-sm">
+              {damageCharges.map(charge => (
+                <div key={charge.id} className="px-6 py-3 flex justify-between">
+                  <div>
+                    <div className="font-medium">{charge.description}</div>
+                    <div className="text-xs text-gray-500">{formatDateTime(charge.created_at)}</div>
+                  </div>
+                  <div className="font-semibold text-red-600">{formatCurrency(charge.total)}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
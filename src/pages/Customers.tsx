@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Plus, Edit, Trash2, Search, Users, ShieldCheck } from 'lucide-react'
+import { Customer, db } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { LoadingSpinner } from '../components/LoadingSpinner'
+import { CustomerFormModal } from '../components/CustomerFormModal'
+import { KycModal } from '../components/KycModal'
+import { KycBadge } from '../components/KycBadge'
+import { ID_TYPES } from '../lib/kyc'
+import toast from 'react-hot-toast'
+
+export function Customers() {
+  const { user, can } = useAuth()
+  const [customers, setCustomers] = useState<Customer[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState('')
+  const [showForm, setShowForm] = useState(false)
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null)
+  const [kycCustomer, setKycCustomer] = useState<Customer | null>(null)
+
+  useEffect(() => {
+    if (user) {
+      loadCustomers()
+    }
+  }, [user])
+
+  const loadCustomers = async () => {
+    try {
+      setLoading(true)
+      setCustomers(await db.getCustomers())
+    } catch (error: any) {
+      console.error('Error loading customers:', error)
+      toast.error(error.message || 'Failed to load customers')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDelete = async (customer: Customer) => {
+    if (!confirm(`Delete ${customer.name}?`)) return
+
+    try {
+      await db.deleteCustomer(customer.id)
+      toast.success('Customer deleted')
+      loadCustomers()
+    } catch (error: any) {
+      console.error('Error deleting customer:', error)
+      toast.error(error.message || 'Failed to delete customer')
+    }
+  }
+
+  const term = search.trim().toLowerCase()
+  const filteredCustomers = term
+    ? customers.filter(customer =>
+        [customer.name, customer.phone, customer.email, customer.gstin]
+          .some(value => value?.toLowerCase().includes(term))
+      )
+    : customers
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <LoadingSpinner size="lg" />
+          <p className="mt-4 text-gray-600">Loading customers...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8 flex justify-between items-end">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Customers</h1>
+            <p className="text-gray-600 mt-2">
+              People and businesses who rent equipment
+            </p>
+          </div>
+          {can('customers.edit') && (
+            <button
+              onClick={() => {
+                setEditingCustomer(null)
+                setShowForm(true)
+              }}
+              className="btn btn-primary"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Customer
+            </button>
+          )}
+        </div>
+
+        <div className="relative mb-6 max-w-md">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search name, phone, email or GSTIN"
+            className="w-full rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500 pl-9"
+          />
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 bg-gray-50">
+                  <th className="text-left py-3 px-4">Name</th>
+                  <th className="text-left py-3 px-4">Contact</th>
+                  <th className="text-left py-3 px-4">GSTIN</th>
+                  <th className="text-left py-3 px-4">ID</th>
+                  <th className="text-right py-3 px-4">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredCustomers.map((customer) => (
+                  <tr key={customer.id} className="border-b border-gray-100 align-top">
+                    <td className="py-3 px-4">
+                      <Link to={`/customers/${customer.id}`} className="font-medium hover:text-primary-600">
+                        {customer.name}
+                      </Link>
+                      {customer.address && <div className="text-xs text-gray-500">{customer.address}</div>}
+                      {customer.notes && <div className="text-xs text-gray-500 italic">{customer.notes}</div>}
+                    </td>
+                    <td className="py-3 px-4">
+                      {customer.phone && <div>{customer.phone}</div>}
+                      {customer.email && <div className="text-xs text-gray-500">{customer.email}</div>}
+                    </td>
+                    <td className="py-3 px-4">{customer.gstin || '—'}</td>
+                    <td className="py-3 px-4">
+                      {customer.id_type && customer.id_number ? (
+                        <div>{ID_TYPES[customer.id_type]} {customer.id_number}</div>
+                      ) : (
+                        <div className="text-gray-500">—</div>
+                      )}
+                      {customer.id_expiry && (
+                        <div className="text-xs text-gray-500">
+                          Expires {new Date(customer.id_expiry).toLocaleDateString('en-IN')}
+                        </div>
+                      )}
+                      <div className="mt-1">
+                        <KycBadge customer={customer} />
+                      </div>
+                    </td>
+                    <td className="py-3 px-4 text-right">
+                      <div className="flex justify-end space-x-2">
+                        {can('customers.edit') && (
+                          <>
+                            <button
+                              onClick={() => setKycCustomer(customer)}
+                              className="p-1 text-gray-600 hover:text-green-600"
+                              title="ID verification"
+                            >
+                              <ShieldCheck className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => {
+                                setEditingCustomer(customer)
+                                setShowForm(true)
+                              }}
+                              className="p-1 text-gray-600 hover:text-primary-600"
+                            >
+                              <Edit className="h-4 w-4" />
+                            </button>
+                          </>
+                        )}
+                        {can('customers.delete') && (
+                          <button
+                            onClick={() => handleDelete(customer)}
+                            className="p-1 text-gray-600 hover:text-red-600"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {filteredCustomers.length === 0 && (
+            <div className="text-center py-12">
+              <Users className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+              <p className="text-gray-600">
+                {term ? 'No customers match your search' : 'No customers yet'}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {showForm && (
+        <CustomerFormModal
+          customer={editingCustomer}
+          onClose={() => setShowForm(false)}
+          onSaved={() => {
+            setShowForm(false)
+            loadCustomers()
+          }}
+        />
+      )}
+
+      {kycCustomer && (
+        <KycModal
+          customer={kycCustomer}
+          onClose={() => setKycCustomer(null)}
+          onUpdated={(updated) => {
+            setCustomers(prev => prev.map(customer => customer.id === updated.id ? updated : customer))
+          }}
+        />
+      )}
+    </div>
+  )
+}
\ No newline at end of file
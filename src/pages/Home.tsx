@@ -1,18 +1,46 @@
-import React, { useEffect, useState } from 'react'
-import { Search, MessageSquare, Send } from 'lucide-react'
-import { Equipment, db } from '../lib/supabase'
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { Search, MessageSquare, Send, X } from 'lucide-react'
+import { Bundle, Equipment, db } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
+import { useCart } from '../contexts/CartContext'
 import { EquipmentCard } from '../components/EquipmentCard'
+import { BundleCard } from '../components/BundleCard'
 import { LoadingSpinner } from '../components/LoadingSpinner'
+import { EQUIPMENT_CATEGORIES, EquipmentCategory, TAX_CATEGORIES } from '../lib/tax'
+import { MOUNT_CATEGORIES, SPEC_FIELDS } from '../lib/specs'
+import {
+  CATALOG_SORTS,
+  CatalogFacets,
+  CatalogFilters,
+  CatalogSort,
+  DEFAULT_CATALOG_FILTERS,
+  filterBundles,
+  getFilterChips,
+  parseCatalogFilters,
+  parseRate,
+  toCatalogSearchParams,
+} from '../lib/catalog'
 import toast from 'react-hot-toast'
 
 export function Home() {
-  const { user } = useAuth()
+  const { user, can } = useAuth()
+  const { addItem, addBundle } = useCart()
+  // Filters live in the query string so a filtered catalog can be shared as a link
+  const [searchParams, setSearchParams] = useSearchParams()
+  const filters = useMemo(() => parseCatalogFilters(searchParams), [searchParams])
   const [equipment, setEquipment] = useState<Equipment[]>([])
-  const [filteredEquipment, setFilteredEquipment] = useState<Equipment[]>([])
+  const [facets, setFacets] = useState<CatalogFacets | null>(null)
+  const [bundles, setBundles] = useState<Bundle[]>([])
   const [loading, setLoading] = useState(true)
+  const [searching, setSearching] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [searchTerm, setSearchTerm] = useState('')
+  // Only the latest search may update the results when responses arrive out of order
+  const searchRequest = useRef(0)
+  // Typed values are held back until a pause in typing before they reach the URL
+  const [searchTerm, setSearchTerm] = useState(filters.query)
+  const [minRate, setMinRate] = useState(filters.minRate?.toString() ?? '')
+  const [maxRate, setMaxRate] = useState(filters.maxRate?.toString() ?? '')
   
   // Suggestion form state
   const [suggestionText, setSuggestionText] = useState('')
@@ -20,63 +48,120 @@ export function Home() {
   const [submittingSuggestion, setSubmittingSuggestion] = useState(false)
 
   useEffect(() => {
-    loadEquipment()
+    loadFacets()
   }, [])
 
   useEffect(() => {
-    filterEquipment()
-  }, [equipment, searchTerm])
+    loadEquipment()
+  }, [filters])
 
-  const loadEquipment = async () => {
+  // Chips, Clear filters and browser navigation change the URL underneath the inputs
+  useEffect(() => {
+    if (searchTerm.trim() !== filters.query) setSearchTerm(filters.query)
+    if (parseRate(minRate) !== filters.minRate) setMinRate(filters.minRate?.toString() ?? '')
+    if (parseRate(maxRate) !== filters.maxRate) setMaxRate(filters.maxRate?.toString() ?? '')
+  }, [filters.query, filters.minRate, filters.maxRate])
+
+  useEffect(() => {
+    const query = searchTerm.trim()
+    const min = parseRate(minRate)
+    const max = parseRate(maxRate)
+    if (query === filters.query && min === filters.minRate && max === filters.maxRate) return
+
+    const timer = setTimeout(() => {
+      // Typing replaces the history entry rather than adding one per keystroke
+      setSearchParams(
+        prev => toCatalogSearchParams({ ...parseCatalogFilters(prev), query, minRate: min, maxRate: max }),
+        { replace: true }
+      )
+    }, 250)
+
+    return () => clearTimeout(timer)
+  }, [searchTerm, minRate, maxRate])
+
+  const loadFacets = async () => {
     try {
       setLoading(true)
       setError(null)
-      const data = await db.getAvailableEquipment()
-      setEquipment(data)
+      const [facetData, bundleData] = await Promise.all([db.getCatalogFacets(), db.getBundles()])
+      setFacets(facetData)
+      setBundles(bundleData)
     } catch (error: any) {
-      console.error('Error loading equipment:', error)
+      console.error('Error loading catalog filters:', error)
       setError(error.message || 'Failed to load equipment')
-      setEquipment([]) // Set empty array as fallback
     } finally {
       setLoading(false)
     }
   }
 
-  const filterEquipment = () => {
-    let filtered = equipment
+  const loadEquipment = async () => {
+    const request = ++searchRequest.current
 
-    if (searchTerm) {
-      filtered = filtered.filter(item =>
-        item.name.toLowerCase().includes(searchTerm.toLowerCase())
-      )
+    try {
+      setSearching(true)
+      setError(null)
+      const data = await db.searchEquipment(filters)
+      if (request === searchRequest.current) setEquipment(data)
+    } catch (error: any) {
+      console.error('Error loading equipment:', error)
+      if (request === searchRequest.current) setError(error.message || 'Failed to load equipment')
+    } finally {
+      if (request === searchRequest.current) setSearching(false)
+    }
+  }
+
+  const retry = () => {
+    if (!facets) loadFacets()
+    loadEquipment()
+  }
+
+  const updateFilters = (next: CatalogFilters) => {
+    setSearchParams(toCatalogSearchParams(next))
+  }
+
+  const handleCategoryChange = (category: EquipmentCategory | null) => {
+    updateFilters({
+      ...filters,
+      category,
+      // Spec facets belong to a single category and mounts only to bodies and lenses
+      specs: {},
+      mount: category && !MOUNT_CATEGORIES.includes(category) ? null : filters.mount,
+    })
+  }
+
+  const handleSpecFilterChange = (key: string, value: string) => {
+    const specs = { ...filters.specs }
+    if (value) {
+      specs[key] = value
+    } else {
+      delete specs[key]
     }
+    updateFilters({ ...filters, specs })
+  }
 
-    setFilteredEquipment(filtered)
+  const clearFilters = () => {
+    updateFilters({ ...DEFAULT_CATALOG_FILTERS, sort: filters.sort })
   }
 
-  const handleRent = async (equipment: Equipment, duration: '12hr' | '24hr') => {
+  // Orders are placed from the cart on the staff dashboard
+  const handleAddToCart = (equipment: Equipment, durationHours: number) => {
     if (!user) {
       toast.error('Please sign in to rent equipment')
       return
     }
 
-    try {
-      const totalCost = duration === '12hr' ? equipment.rate_12hr : equipment.rate_24hr
-      const rentDate = new Date().toISOString()
-
-      await db.createOrder({
-        user_id: user.id,
-        equipment_id: equipment.id,
-        duration,
-        total_cost: totalCost,
-        rent_date: rentDate,
-      })
+    addItem(equipment, durationHours)
+    toast.success(`${equipment.name} added to cart`)
+  }
 
-      toast.success(`Successfully rented ${equipment.name} for ${duration}!`)
-    } catch (error: any) {
-      console.error('Error creating order:', error)
-      toast.error(error.message || 'Failed to create rental order')
+  const handleAddBundleToCart = (bundle: Bundle, durationHours: number) => {
+    if (!user) {
+      toast.error('Please sign in to rent equipment')
+      return
     }
+
+    addBundle(bundle, durationHours)
+    toast.success(`${bundle.name} added to cart`)
   }
 
   const handleSuggestionSubmit = async (e: React.FormEvent) => {
@@ -106,6 +191,10 @@ export function Home() {
     }
   }
 
+  const chips = getFilterChips(filters)
+  const visibleBundles = filterBundles(bundles, filters)
+  const catalogSize = facets ? Object.values(facets.categories).reduce((sum, count) => sum + (count || 0), 0) : 0
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -117,7 +206,7 @@ export function Home() {
     )
   }
 
-  if (error) {
+  if (error || !facets) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
@@ -125,7 +214,7 @@ export function Home() {
           <h2 className="text-2xl font-bold text-gray-900 mb-2">Unable to Load Equipment</h2>
           <p className="text-gray-600 mb-4">{error}</p>
           <button
-            onClick={loadEquipment}
+            onClick={retry}
             className="btn btn-primary"
           >
             Try Again
@@ -144,7 +233,7 @@ export function Home() {
             Professional Camera Equipment Rental
           </h1>
           <p className="text-xl text-gray-600 max-w-3xl mx-auto">
-            Rent high-quality cameras, lenses, and accessories with flexible 12-hour and 24-hour rates.
+            Rent high-quality cameras, lenses, and accessories for 12 hours, a day, or a whole shoot week.
           </p>
         </div>
 
@@ -162,22 +251,166 @@ export function Home() {
           </div>
         </div>
 
+        {/* Facets */}
+        <div className="mb-6 space-y-4">
+          <div className="flex flex-wrap gap-2 justify-center">
+            <button
+              onClick={() => handleCategoryChange(null)}
+              className={`px-3 py-1 rounded-full text-sm border ${
+                filters.category === null ? 'bg-primary-600 text-white border-primary-600' : 'bg-white text-gray-700 border-gray-300 hover:border-primary-500'
+              }`}
+            >
+              All ({catalogSize})
+            </button>
+            {EQUIPMENT_CATEGORIES.filter(value => facets.categories[value]).map(value => (
+              <button
+                key={value}
+                onClick={() => handleCategoryChange(value)}
+                className={`px-3 py-1 rounded-full text-sm border ${
+                  filters.category === value ? 'bg-primary-600 text-white border-primary-600' : 'bg-white text-gray-700 border-gray-300 hover:border-primary-500'
+                }`}
+              >
+                {TAX_CATEGORIES[value].label} ({facets.categories[value]})
+              </button>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-3 justify-center items-center">
+            {facets.brands.length > 0 && (
+              <select
+                value={filters.brand || ''}
+                onChange={(e) => updateFilters({ ...filters, brand: e.target.value || null })}
+                className="rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500 text-sm"
+              >
+                <option value="">All brands</option>
+                {facets.brands.map(value => (
+                  <option key={value} value={value}>{value}</option>
+                ))}
+              </select>
+            )}
+            {facets.mounts.length > 0 && (!filters.category || MOUNT_CATEGORIES.includes(filters.category)) && (
+              <select
+                value={filters.mount || ''}
+                onChange={(e) => updateFilters({ ...filters, mount: e.target.value || null })}
+                className="rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500 text-sm"
+              >
+                <option value="">All mounts</option>
+                {facets.mounts.map(value => (
+                  <option key={value} value={value}>{value}</option>
+                ))}
+              </select>
+            )}
+            {filters.category && SPEC_FIELDS[filters.category].filter(field => field.facet).map(field => (
+              <select
+                key={field.key}
+                value={filters.specs[field.key] || ''}
+                onChange={(e) => handleSpecFilterChange(field.key, e.target.value)}
+                className="rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500 text-sm"
+              >
+                <option value="">{field.label}: any</option>
+                {field.type === 'boolean' ? (
+                  <>
+                    <option value="yes">{field.label}: yes</option>
+                    <option value="no">{field.label}: no</option>
+                  </>
+                ) : (
+                  field.options?.map(option => (
+                    <option key={option} value={option}>{option}</option>
+                  ))
+                )}
+              </select>
+            ))}
+            <div className="flex items-center space-x-1 text-sm text-gray-600">
+              <span>₹</span>
+              <input
+                type="number"
+                value={minRate}
+                onChange={(e) => setMinRate(e.target.value)}
+                placeholder="Min"
+                min="0"
+                className="w-20 rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500 text-sm"
+              />
+              <span>–</span>
+              <input
+                type="number"
+                value={maxRate}
+                onChange={(e) => setMaxRate(e.target.value)}
+                placeholder={facets.maxRate > 0 ? String(facets.maxRate) : 'Max'}
+                min="0"
+                className="w-20 rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500 text-sm"
+              />
+              <span>/ day</span>
+            </div>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={filters.availableOnly}
+                onChange={(e) => updateFilters({ ...filters, availableOnly: e.target.checked })}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              <span>Available now</span>
+            </label>
+          </div>
+
+          {chips.length > 0 && (
+            <div className="flex flex-wrap gap-2 justify-center">
+              {chips.map(chip => (
+                <span
+                  key={chip.key}
+                  className="inline-flex items-center px-3 py-1 rounded-full text-sm bg-primary-50 text-primary-700 border border-primary-200"
+                >
+                  {chip.label}
+                  <button
+                    onClick={() => updateFilters(chip.remove(filters))}
+                    className="ml-1 text-primary-500 hover:text-primary-800"
+                    title="Remove filter"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+              <button onClick={clearFilters} className="text-sm text-primary-600 hover:text-primary-700">
+                Clear filters
+              </button>
+            </div>
+          )}
+        </div>
+
         {/* Equipment Count */}
-        <div className="mb-6">
-          <p className="text-gray-600">
-            Showing {filteredEquipment.length} of {equipment.length} items
+        <div className="mb-6 flex justify-between items-center">
+          <p className="text-gray-600 flex items-center">
+            {searching && <LoadingSpinner size="sm" className="mr-2" />}
+            Showing {equipment.length} of {catalogSize} items
+            {visibleBundles.length > 0 && ` and ${visibleBundles.length} kit${visibleBundles.length === 1 ? '' : 's'}`}
           </p>
+          <select
+            value={filters.sort}
+            onChange={(e) => updateFilters({ ...filters, sort: e.target.value as CatalogSort })}
+            className="rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500 text-sm"
+          >
+            {Object.entries(CATALOG_SORTS).map(([value, label]) => (
+              <option key={value} value={value}>Sort: {label}</option>
+            ))}
+          </select>
         </div>
 
         {/* Equipment Grid */}
-        {filteredEquipment.length > 0 ? (
+        {equipment.length > 0 || visibleBundles.length > 0 ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 mb-12">
-            {filteredEquipment.map((item) => (
+            {visibleBundles.map((bundle) => (
+              <BundleCard
+                key={bundle.id}
+                bundle={bundle}
+                onAddToCart={can('orders.create') ? handleAddBundleToCart : undefined}
+                showRentButton={can('orders.create')}
+              />
+            ))}
+            {equipment.map((item) => (
               <EquipmentCard
                 key={item.id}
                 equipment={item}
-                onRent={user?.role === 'staff' ? handleRent : undefined}
-                showRentButton={user?.role === 'staff'}
+                onAddToCart={can('orders.create') ? handleAddToCart : undefined}
+                showRentButton={can('orders.create')}
               />
             ))}
           </div>
@@ -188,7 +421,7 @@ export function Home() {
               No equipment found
             </h3>
             <p className="text-gray-600">
-              {searchTerm ? 'Try adjusting your search' : 'No equipment available at the moment'}
+              {chips.length > 0 ? 'Try adjusting your search or filters' : 'No equipment available at the moment'}
             </p>
           </div>
         )}
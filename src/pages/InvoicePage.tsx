@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from 'react'
+import { useParams } from 'react-router-dom'
+import { ArrowLeft, Download, Printer } from 'lucide-react'
+import { Invoice, Order, db } from '../lib/supabase'
+import { business } from '../lib/business'
+import { buildInvoice } from '../lib/invoice'
+import { downloadInvoicePdf } from '../lib/invoicePdf'
+import { LoadingSpinner } from '../components/LoadingSpinner'
+import { PAYMENT_METHODS, PAYMENT_STATUS_LABELS } from '../lib/payments'
+
+export function InvoicePage() {
+  const { orderId } = useParams<{ orderId: string }>()
+  const [order, setOrder] = useState<Order | null>(null)
+  const [invoice, setInvoice] = useState<Invoice | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (orderId) {
+      loadInvoice(orderId)
+    }
+  }, [orderId])
+
+  const loadInvoice = async (id: string) => {
+    try {
+      setLoading(true)
+      setError(null)
+      const orderData = await db.getOrder(id)
+      if (!orderData) {
+        setError('Order not found')
+        return
+      }
+
+      const invoiceData = await db.getInvoiceForOrder(id)
+      if (!invoiceData) {
+        setError('An invoice is issued once the rental is checked out')
+        return
+      }
+
+      setOrder(orderData)
+      setInvoice(invoiceData)
+    } catch (error: any) {
+      console.error('Error loading invoice:', error)
+      setError(error.message || 'Failed to load invoice')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      minimumFractionDigits: 2,
+    }).format(amount)
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <LoadingSpinner size="lg" />
+          <p className="mt-4 text-gray-600">Loading invoice...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !order || !invoice) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Unable to Load Invoice</h2>
+          <p className="text-gray-600">{error || 'Invoice not available'}</p>
+        </div>
+      </div>
+    )
+  }
+
+  const invoiceDocument = buildInvoice(order)
+
+  return (
+    <div className="min-h-screen bg-gray-50 print:bg-white">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 print:p-0">
+        <div className="flex justify-between items-center mb-6 print:hidden">
+          <button onClick={() => window.history.back()} className="btn btn-outline">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </button>
+          <div className="flex space-x-2">
+            <button onClick={() => window.print()} className="btn btn-outline">
+              <Printer className="h-4 w-4 mr-2" />
+              Print
+            </button>
+            <button onClick={() => downloadInvoicePdf(invoice, order)} className="btn btn-primary">
+              <Download className="h-4 w-4 mr-2" />
+              Download PDF
+            </button>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 print:shadow-none print:border-0">
+          {/* Business and invoice details */}
+          <div className="flex justify-between items-start mb-8">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">{business.name}</h1>
+              <div className="text-sm text-gray-600 mt-1 space-y-0.5">
+                {business.address && <p>{business.address}</p>}
+                {business.phone && <p>{business.phone}</p>}
+                {business.email && <p>{business.email}</p>}
+                {business.gstin && <p>GSTIN: {business.gstin}</p>}
+              </div>
+            </div>
+            <div className="text-right">
+              <h2 className="text-2xl font-bold text-gray-900">INVOICE</h2>
+              <div className="text-sm text-gray-600 mt-1 space-y-0.5">
+                <p>No: <span className="font-medium text-gray-900">{invoice.invoice_number}</span></p>
+                <p>Date: {new Date(invoice.issued_at).toLocaleDateString('en-IN')}</p>
+              </div>
+              <span className={`inline-block mt-2 px-2 py-1 rounded-full text-xs font-medium ${
+                invoice.payment_status === 'paid'
+                  ? 'bg-green-100 text-green-800'
+                  : invoice.payment_status === 'partial'
+                    ? 'bg-blue-100 text-blue-800'
+                    : 'bg-yellow-100 text-yellow-800'
+              }`}>
+                {PAYMENT_STATUS_LABELS[invoice.payment_status]}
+              </span>
+            </div>
+          </div>
+
+          {/* Customer */}
+          <div className="mb-8">
+            <h3 className="text-sm font-semibold text-gray-500 uppercase mb-1">Bill To</h3>
+            <p className="font-medium text-gray-900">{invoiceDocument.billTo.name}</p>
+            {invoiceDocument.billTo.details.map(detail => (
+              <p key={detail} className="text-sm text-gray-600">{detail}</p>
+            ))}
+            {invoiceDocument.placeOfSupply && (
+              <p className="text-sm text-gray-600">Place of Supply: {invoiceDocument.placeOfSupply}</p>
+            )}
+          </div>
+
+          {/* Line items */}
+          <table className="w-full text-sm mb-6">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="text-left py-2">Description</th>
+                <th className="text-left py-2">SAC</th>
+                <th className="text-right py-2">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {invoiceDocument.lines.map((line, index) => (
+                <tr key={index} className="border-b border-gray-100 align-top">
+                  <td className="py-3">
+                    <div className="font-medium">{line.description}</div>
+                    <div className="text-xs text-gray-500">{line.period}</div>
+                    {line.pricing.map(price => (
+                      <div key={price.label} className="text-xs text-gray-500">
+                        {price.label}{price.quantity > 1 && ` × ${price.quantity}`}: {formatCurrency(price.amount)}
+                      </div>
+                    ))}
+                  </td>
+                  <td className="py-3 text-gray-600">{line.sac}</td>
+                  <td className="py-3 text-right">{formatCurrency(line.amount)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {/* Totals */}
+          <div className="flex justify-end">
+            <div className="w-64 text-sm space-y-1">
+              <div className="flex justify-between">
+                <span className="text-gray-600">
+                  {invoiceDocument.pricesIncludeTax ? 'Taxable Value' : 'Subtotal'}
+                </span>
+                <span>{formatCurrency(invoiceDocument.subtotal)}</span>
+              </div>
+              {invoiceDocument.taxes.map(tax => (
+                <div key={tax.label} className="flex justify-between">
+                  <span className="text-gray-600">{tax.label}</span>
+                  <span>{formatCurrency(tax.amount)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between font-semibold text-gray-900 border-t border-gray-200 pt-1 text-base">
+                <span>Total</span>
+                <span>{formatCurrency(invoiceDocument.total)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Amount Paid</span>
+                <span>{formatCurrency(invoiceDocument.paid)}</span>
+              </div>
+              <div className="flex justify-between font-semibold">
+                <span>Balance Due</span>
+                <span>{formatCurrency(invoiceDocument.balance)}</span>
+              </div>
+            </div>
+          </div>
+
+          {/* Deposit */}
+          {invoiceDocument.deposit && (
+            <div className="mt-8 pt-4 border-t border-gray-200 text-sm">
+              <div className="flex justify-between font-semibold text-gray-900 mb-2">
+                <span>Refundable Deposit</span>
+                <span>{formatCurrency(invoiceDocument.deposit.amount)}</span>
+              </div>
+              {invoiceDocument.deposit.movements.map((movement, index) => (
+                <div key={index} className="flex justify-between text-gray-600">
+                  <span>{movement.date} · {movement.label} ({PAYMENT_METHODS[movement.method]})</span>
+                  <span>{formatCurrency(movement.amount)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between text-gray-600 mt-1">
+                <span>Currently held</span>
+                <span>{formatCurrency(invoiceDocument.deposit.held)}</span>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -5,7 +5,7 @@ import { useAuth } from '../contexts/AuthContext'
 import { LoadingSpinner } from '../components/LoadingSpinner'
 
 export function Login() {
-  const { signIn, user } = useAuth()
+  const { signIn, user, can } = useAuth()
   const navigate = useNavigate()
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
@@ -15,15 +15,15 @@ export function Login() {
   // Redirect if already logged in
   React.useEffect(() => {
     if (user) {
-      if (user.role === 'admin') {
+      if (can('users.manage')) {
         navigate('/admin')
-      } else if (user.role === 'staff') {
+      } else if (can('orders.view')) {
         navigate('/staff')
       } else {
         navigate('/')
       }
     }
-  }, [user, navigate])
+  }, [user, can, navigate])
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
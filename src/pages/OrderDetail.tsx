@@ -0,0 +1,377 @@
+import React, { useEffect, useState } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { ArrowLeft, FileText } from 'lucide-react'
+import { Order, db } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { buildInvoice } from '../lib/invoice'
+import { buildOrderTimeline, TimelineEventKind } from '../lib/timeline'
+import { getCustomerContact, getCustomerName, getOrderItemNames } from '../lib/orders'
+import { PAYMENT_KINDS, PAYMENT_METHODS, getAmountDue, getAmountPaid, getDepositHeld, getOutstanding } from '../lib/payments'
+import { INSPECTION_CONDITIONS, INSPECTION_KINDS, getChecklist } from '../lib/inspections'
+import { getHoursLate, isOverdue, wasReturnedLate } from '../lib/lateFees'
+import { formatDuration } from '../lib/pricing'
+import { LoadingSpinner } from '../components/LoadingSpinner'
+import { OrderStatusBadge } from '../components/OrderStatusBadge'
+
+const TIMELINE_COLORS: Record<TimelineEventKind, string> = {
+  status: 'bg-primary-500',
+  payment: 'bg-green-500',
+  charge: 'bg-orange-500',
+  inspection: 'bg-blue-500',
+  extension: 'bg-purple-500',
+  claim: 'bg-red-500',
+}
+
+export function OrderDetail() {
+  const { orderId } = useParams<{ orderId: string }>()
+  const { can } = useAuth()
+  const [order, setOrder] = useState<Order | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (orderId) {
+      loadOrder(orderId)
+    }
+  }, [orderId])
+
+  const loadOrder = async (id: string) => {
+    try {
+      setLoading(true)
+      setError(null)
+      const orderData = await db.getOrder(id)
+      if (!orderData) {
+        setError('Order not found')
+        return
+      }
+
+      setOrder(orderData)
+    } catch (error: any) {
+      console.error('Error loading order:', error)
+      setError(error.message || 'Failed to load order')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      minimumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  const formatDateTime = (date: string) => {
+    return new Date(date).toLocaleString('en-IN', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <LoadingSpinner size="lg" />
+          <p className="mt-4 text-gray-600">Loading order...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !order) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Unable to Load Order</h2>
+          <p className="text-gray-600">{error || 'Order not available'}</p>
+        </div>
+      </div>
+    )
+  }
+
+  const invoice = buildInvoice(order)
+  const timeline = buildOrderTimeline(order)
+  const outstanding = getOutstanding(order)
+  const describeItem = (itemId: string) => {
+    const item = order.items?.find(current => current.id === itemId)
+    return `${item?.equipment?.name || 'Equipment'}${item?.unit ? ` S/N ${item.unit.serial_number}` : ''}`
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link to="/orders" className="inline-flex items-center text-sm text-gray-600 hover:text-primary-600 mb-4">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          All orders
+        </Link>
+
+        <div className="mb-8 flex justify-between items-start">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">{getOrderItemNames(order)}</h1>
+            <p className="text-gray-600 mt-2">
+              Placed {formatDateTime(order.created_at)}
+              {order.user && ` by ${order.user.name}`}
+            </p>
+          </div>
+          <div className="text-right">
+            <OrderStatusBadge status={order.status} />
+            {order.status === 'cancelled' && order.cancellation_reason && (
+              <p className="text-sm text-gray-500 mt-2">
+                {order.cancellation_reason}
+                {order.canceller && ` · by ${order.canceller.name}`}
+              </p>
+            )}
+            <Link
+              to={`/orders/${order.id}/invoice`}
+              className="inline-flex items-center text-sm text-primary-600 hover:text-primary-700 mt-2"
+            >
+              <FileText className="h-4 w-4 mr-1" />
+              Invoice
+            </Link>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Customer</h3>
+            {can('customers.view') && order.customer ? (
+              <Link to={`/customers/${order.customer.id}`} className="font-medium text-primary-600 hover:text-primary-700">
+                {getCustomerName(order)}
+              </Link>
+            ) : (
+              <p className="font-medium">{getCustomerName(order)}</p>
+            )}
+            {getCustomerContact(order) && <p className="text-sm text-gray-600">{getCustomerContact(order)}</p>}
+            {order.customer?.address && <p className="text-sm text-gray-500 mt-1">{order.customer.address}</p>}
+            {order.customer?.gstin && <p className="text-sm text-gray-500">GSTIN {order.customer.gstin}</p>}
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Rental</h3>
+            <div className="text-sm text-gray-600 space-y-1">
+              <p>Rent date: {formatDateTime(order.rent_date)}</p>
+              <p>Due back: {formatDateTime(order.due_at)}</p>
+              {order.checked_out_at && <p>Checked out: {formatDateTime(order.checked_out_at)}</p>}
+              {order.returned_at && (
+                <p className={wasReturnedLate(order) ? 'text-orange-600' : ''}>
+                  Returned: {formatDateTime(order.returned_at)}
+                  {wasReturnedLate(order) && ' (late)'}
+                </p>
+              )}
+              {isOverdue(order) && <p className="text-red-600">{getHoursLate(order.due_at)}h late</p>}
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Payment</h3>
+            <div className="text-sm space-y-1">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Total</span>
+                <span className="font-medium">{formatCurrency(getAmountDue(order))}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Paid</span>
+                <span className="font-medium">{formatCurrency(getAmountPaid(order))}</span>
+              </div>
+              {outstanding !== 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">{outstanding > 0 ? 'Outstanding' : 'Refund due'}</span>
+                  <span className={`font-semibold ${outstanding > 0 ? 'text-red-600' : 'text-orange-600'}`}>
+                    {formatCurrency(Math.abs(outstanding))}
+                  </span>
+                </div>
+              )}
+              {order.deposit_amount > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Deposit held</span>
+                  <span className="font-medium">
+                    {formatCurrency(getDepositHeld(order))} of {formatCurrency(order.deposit_amount)}
+                  </span>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h3 className="text-lg font-semibold">Equipment</h3>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200 bg-gray-50">
+                      <th className="text-left py-3 px-4">Item</th>
+                      <th className="text-left py-3 px-4">Serial</th>
+                      <th className="text-left py-3 px-4">Duration</th>
+                      <th className="text-left py-3 px-4">Due Back</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(order.items || []).map(item => (
+                      <tr key={item.id} className="border-b border-gray-100">
+                        <td className="py-3 px-4">
+                          <div className="font-medium">{item.equipment?.name || 'Unknown Equipment'}</div>
+                          {item.bundle && <div className="text-xs text-gray-500">Part of {item.bundle.name}</div>}
+                        </td>
+                        <td className="py-3 px-4">{item.unit?.serial_number || '—'}</td>
+                        <td className="py-3 px-4">{formatDuration(item.duration_hours)}</td>
+                        <td className="py-3 px-4">{formatDateTime(item.due_at)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h3 className="text-lg font-semibold">Pricing</h3>
+              </div>
+              <div className="divide-y divide-gray-100 text-sm">
+                {invoice.lines.map((line, index) => (
+                  <div key={index} className="px-6 py-3">
+                    <div className="flex justify-between">
+                      <div>
+                        <div className="font-medium">{line.description}</div>
+                        <div className="text-xs text-gray-500">{line.period}</div>
+                      </div>
+                      <div className="font-semibold">{formatCurrency(line.amount)}</div>
+                    </div>
+                    {line.pricing.map((priceLine, priceIndex) => (
+                      <div key={priceIndex} className="flex justify-between text-xs text-gray-500 mt-1">
+                        <span>{priceLine.label}{priceLine.quantity > 1 && ` × ${priceLine.quantity}`}</span>
+                        <span>{formatCurrency(priceLine.amount)}</span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+                <div className="px-6 py-3 space-y-1">
+                  <div className="flex justify-between text-gray-600">
+                    <span>Subtotal{invoice.pricesIncludeTax && ' (taxable value)'}</span>
+                    <span>{formatCurrency(invoice.subtotal)}</span>
+                  </div>
+                  {invoice.taxes.map(tax => (
+                    <div key={tax.label} className="flex justify-between text-gray-600">
+                      <span>{tax.label}</span>
+                      <span>{formatCurrency(tax.amount)}</span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between font-semibold text-gray-900">
+                    <span>Total</span>
+                    <span>{formatCurrency(invoice.total)}</span>
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h3 className="text-lg font-semibold">Payments</h3>
+              </div>
+              {(order.payments || []).length > 0 ? (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-gray-200 bg-gray-50">
+                        <th className="text-left py-3 px-4">Date</th>
+                        <th className="text-left py-3 px-4">Entry</th>
+                        <th className="text-left py-3 px-4">Method</th>
+                        <th className="text-left py-3 px-4">Reference</th>
+                        <th className="text-right py-3 px-4">Amount</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {(order.payments || []).map(payment => (
+                        <tr key={payment.id} className="border-b border-gray-100">
+                          <td className="py-3 px-4">{formatDateTime(payment.created_at)}</td>
+                          <td className="py-3 px-4">
+                            {PAYMENT_KINDS[payment.kind]}
+                            {payment.notes && <div className="text-xs text-gray-500">{payment.notes}</div>}
+                          </td>
+                          <td className="py-3 px-4">{PAYMENT_METHODS[payment.method]}</td>
+                          <td className="py-3 px-4">{payment.reference || '—'}</td>
+                          <td className="py-3 px-4 text-right font-medium">{formatCurrency(payment.amount)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <p className="px-6 py-4 text-sm text-gray-500">No payments recorded</p>
+              )}
+            </div>
+
+            {(order.inspections || []).length > 0 && (
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-200">
+                  <h3 className="text-lg font-semibold">Inspections</h3>
+                </div>
+                <div className="divide-y divide-gray-100 text-sm">
+                  {(order.inspections || []).map(inspection => (
+                    <div key={inspection.id} className="px-6 py-3">
+                      <div className="flex justify-between">
+                        <span className="font-medium">{INSPECTION_KINDS[inspection.kind]}</span>
+                        <span className="text-xs text-gray-500">{formatDateTime(inspection.inspected_at)}</span>
+                      </div>
+                      {inspection.notes && <p className="text-gray-600 mt-1">{inspection.notes}</p>}
+                      {inspection.items.map(result => {
+                        const item = order.items?.find(current => current.id === result.order_item_id)
+                        const issues = (item ? getChecklist(item) : [])
+                          .filter(check => result.checks[check.key] && result.checks[check.key] !== 'ok')
+                          .map(check => `${check.label}: ${INSPECTION_CONDITIONS[result.checks[check.key]].toLowerCase()}`)
+                        if (!result.notes && issues.length === 0) return null
+
+                        return (
+                          <div key={result.order_item_id} className="text-xs text-gray-500 mt-1">
+                            <span className="font-medium text-gray-700">{describeItem(result.order_item_id)}</span>
+                            {issues.length > 0 && ` · ${issues.join(', ')}`}
+                            {result.notes && ` · ${result.notes}`}
+                          </div>
+                        )
+                      })}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden h-fit">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-semibold">Timeline</h3>
+            </div>
+            <ol className="px-6 py-4 space-y-4 text-sm">
+              {timeline.map((event, index) => (
+                <li key={index} className="flex">
+                  <span className={`mt-1.5 mr-3 h-2 w-2 rounded-full flex-shrink-0 ${TIMELINE_COLORS[event.kind]}`} />
+                  <div className="flex-1">
+                    <div className="flex justify-between">
+                      <span className="font-medium">{event.title}</span>
+                      {event.amount !== null && <span className="font-medium">{formatCurrency(event.amount)}</span>}
+                    </div>
+                    {event.detail && <p className="text-gray-600">{event.detail}</p>}
+                    <p className="text-xs text-gray-500">
+                      {formatDateTime(event.at)}
+                      {event.by && ` · ${event.by}`}
+                    </p>
+                  </div>
+                </li>
+              ))}
+            </ol>
+            {timeline.length === 0 && (
+              <p className="px-6 pb-4 text-sm text-gray-500">Nothing recorded yet</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
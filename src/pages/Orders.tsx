@@ -1,23 +1,29 @@
 import React, { useEffect, useState } from 'react'
-import { Package } from 'lucide-react'
+import { Link } from 'react-router-dom'
+import { Package, FileText, Eye } from 'lucide-react'
 import { Order, db } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
+import { OrderStatusBadge } from '../components/OrderStatusBadge'
+import { formatDuration } from '../lib/pricing'
+import { getCustomerContact, getCustomerName, getOrderItemNames } from '../lib/orders'
+import { calculateLateFee, getHoursLate, isOverdue } from '../lib/lateFees'
 import toast from 'react-hot-toast'
 
 export function Orders() {
-  const { user } = useAuth()
+  const { user, can } = useAuth()
   const [orders, setOrders] = useState<Order[]>([])
   const [loading, setLoading] = useState(true)
+  const [showOverdueOnly, setShowOverdueOnly] = useState(false)
 
   useEffect(() => {
     if (user) {
-      loadOrders()
+      loadOrders(user.id)
     }
   }, [user])
 
-  const loadOrders = async () => {
+  const loadOrders = async (userId: string) => {
     try {
-      const data = await db.getOrders()
+      const data = can('orders.view') ? await db.getOrders() : await db.getUserOrders(userId)
       setOrders(data)
     } catch (error) {
       console.error('Error loading orders:', error)
@@ -64,46 +70,90 @@ export function Orders() {
     )
   }
 
-  const pageTitle = user.role === 'customer' ? 'My Orders' : 'All Orders'
-  const pageDescription = user.role === 'customer' 
-    ? 'View your equipment rental history' 
-    : 'View and manage all equipment rental orders'
+  const overdueCount = orders.filter(order => isOverdue(order)).length
+  const visibleOrders = showOverdueOnly ? orders.filter(order => isOverdue(order)) : orders
+
+  const pageTitle = can('orders.view') ? 'All Orders' : 'My Orders'
+  const pageDescription = can('orders.view')
+    ? 'View and manage all equipment rental orders'
+    : 'View your equipment rental history'
 
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-900">{pageTitle}</h1>
-          <p className="text-gray-600 mt-2">{pageDescription}</p>
+        <div className="mb-8 flex justify-between items-end">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">{pageTitle}</h1>
+            <p className="text-gray-600 mt-2">{pageDescription}</p>
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showOverdueOnly}
+              onChange={(e) => setShowOverdueOnly(e.target.checked)}
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            <span>Overdue only ({overdueCount})</span>
+          </label>
         </div>
 
-        {orders.length > 0 ? (
+        {visibleOrders.length > 0 ? (
           <div className="space-y-4">
-            {orders.map((order) => (
+            {visibleOrders.map((order) => (
               <div key={order.id} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
                 <div className="flex items-start justify-between">
                   <div className="flex-1">
                     <h3 className="text-lg font-semibold text-gray-900">
-                      {order.equipment?.name || 'Equipment'}
+                      {getOrderItemNames(order)}
                     </h3>
-                    {(user.role === 'admin' || user.role === 'staff') && (
+                    {can('orders.view') && (
                       <p className="text-sm text-gray-600 mt-1">
-                        Customer: {order.user?.name || 'Unknown'} ({order.user?.email})
+                        Customer: {getCustomerName(order)}
+                        {getCustomerContact(order) && ` (${getCustomerContact(order)})`}
+                        {order.customer && order.user && ` · placed by ${order.user.name}`}
                       </p>
                     )}
                     <div className="mt-2 text-sm text-gray-600">
-                      <p>Duration: {order.duration}</p>
+                      {(order.items || []).map(item => (
+                        <p key={item.id}>
+                          {item.equipment?.name || 'Equipment'}: {formatDuration(item.duration_hours)}
+                        </p>
+                      ))}
                       <p>Rent Date: {formatDateTime(order.rent_date)}</p>
-                      <p>Return Date: {formatDateTime(order.return_date)}</p>
+                      <p>Due Back: {formatDateTime(order.due_at)}</p>
+                      {order.returned_at && <p>Returned: {formatDateTime(order.returned_at)}</p>}
+                      {isOverdue(order) && (
+                        <p className="text-red-600">
+                          {getHoursLate(order.due_at)}h late
+                          {calculateLateFee(order).total > 0 && ` · late fee ${formatCurrency(calculateLateFee(order).total)} so far`}
+                        </p>
+                      )}
                     </div>
                   </div>
                   <div className="text-right">
-                    <div className="text-lg font-semibold text-primary-600">
+                    <OrderStatusBadge status={order.status} />
+                    <div className="text-lg font-semibold text-primary-600 mt-2">
                       {formatCurrency(order.total_cost)}
                     </div>
                     <div className="text-sm text-gray-500 mt-1">
                       Ordered: {formatDateTime(order.created_at)}
                     </div>
+                    <div className="flex justify-end space-x-4 mt-2">
+                      <Link
+                        to={`/orders/${order.id}`}
+                        className="inline-flex items-center text-sm text-primary-600 hover:text-primary-700"
+                      >
+                        <Eye className="h-4 w-4 mr-1" />
+                        Details
+                      </Link>
+                      <Link
+                        to={`/orders/${order.id}/invoice`}
+                        className="inline-flex items-center text-sm text-primary-600 hover:text-primary-700"
+                      >
+                        <FileText className="h-4 w-4 mr-1" />
+                        Invoice
+                      </Link>
+                    </div>
                   </div>
                 </div>
               </div>
@@ -113,12 +163,12 @@ export function Orders() {
           <div className="text-center py-12">
             <Package className="h-12 w-12 mx-auto text-gray-400 mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">
-              {user.role === 'customer' ? 'No orders yet' : 'No orders found'}
+              {showOverdueOnly ? 'Nothing is overdue' : can('orders.view') ? 'No orders found' : 'No orders yet'}
             </h3>
             <p className="text-gray-600">
-              {user.role === 'customer' 
-                ? 'Start browsing equipment to place your first order'
-                : 'Customer orders will appear here'
+              {can('orders.view')
+                ? 'Customer orders will appear here'
+                : 'Start browsing equipment to place your first order'
               }
             </p>
           </div>
@@ -1,18 +1,58 @@
 import React, { useEffect, useState } from 'react'
-import { Package, DollarSign, Clock, TrendingUp } from 'lucide-react'
-import { Order, Equipment, Suggestion, db } from '../lib/supabase'
+import { Link } from 'react-router-dom'
+import { Package, DollarSign, Clock, TrendingUp, LogIn, LogOut, FileText, Wallet, ShieldCheck, ClipboardCheck, ClipboardList, AlertTriangle, CalendarPlus, XCircle, Eye } from 'lucide-react'
+import { Order, Equipment, Bundle, Suggestion, InspectionKind, db } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
+import { useCart } from '../contexts/CartContext'
 import { EquipmentCard } from '../components/EquipmentCard'
+import { BundleCard } from '../components/BundleCard'
 import { LoadingSpinner } from '../components/LoadingSpinner'
+import { OrderStatusBadge } from '../components/OrderStatusBadge'
+import { AvailabilityCalendar } from '../components/AvailabilityCalendar'
+import { CartPanel, CheckoutOptions } from '../components/CartPanel'
+import { CartRecommendations } from '../components/CartRecommendations'
+import { OrderItemsSummary } from '../components/OrderItemsSummary'
+import { OrderTaxSummary } from '../components/OrderTaxSummary'
+import { RecordPaymentModal } from '../components/RecordPaymentModal'
+import { SettleDepositModal } from '../components/SettleDepositModal'
+import { InspectionModal } from '../components/InspectionModal'
+import { InspectionReportModal } from '../components/InspectionReportModal'
+import { DamageClaimModal } from '../components/DamageClaimModal'
+import { ExtendOrderModal } from '../components/ExtendOrderModal'
+import { CancelOrderModal } from '../components/CancelOrderModal'
+import { getCustomerContact, getCustomerName, getOrderItemNames } from '../lib/orders'
+import { getDepositDue, getDepositHeld, getOutstanding, getRevenue } from '../lib/payments'
+import { calculateLateFee, getHoursLate, isOverdue } from '../lib/lateFees'
+import { compareInspections, getInspection } from '../lib/inspections'
+import { canCancel } from '../lib/cancellation'
+import { KYC_STATUS_LABELS, getKycStatus } from '../lib/kyc'
 import toast from 'react-hot-toast'
 
 export function StaffDashboard() {
-  const { user } = useAuth()
-  const [activeTab, setActiveTab] = useState<'billing' | 'equipment' | 'suggestions'>('billing')
+  const { user, can } = useAuth()
+  const cart = useCart()
+  // Jump straight back to the cart if an order was being built before a reload
+  const [activeTab, setActiveTab] = useState<'billing' | 'equipment' | 'suggestions'>(
+    can('orders.create') && (cart.items.length > 0 || cart.bundles.length > 0) ? 'equipment' : 'billing'
+  )
   const [orders, setOrders] = useState<Order[]>([])
   const [equipment, setEquipment] = useState<Equipment[]>([])
+  const [bundles, setBundles] = useState<Bundle[]>([])
   const [suggestions, setSuggestions] = useState<Suggestion[]>([])
   const [loading, setLoading] = useState(true)
+  const [updatingOrderId, setUpdatingOrderId] = useState<string | null>(null)
+  const [calendarEquipment, setCalendarEquipment] = useState<Equipment | null>(null)
+  const [placingOrder, setPlacingOrder] = useState(false)
+  const [paymentOrder, setPaymentOrder] = useState<Order | null>(null)
+  const [depositOrder, setDepositOrder] = useState<Order | null>(null)
+  const [inspecting, setInspecting] = useState<{ order: Order; kind: InspectionKind } | null>(null)
+  const [reportOrder, setReportOrder] = useState<Order | null>(null)
+  // Set when the report was opened by a check-in, so the deposit is settled after any damage charge
+  const [settleAfterReport, setSettleAfterReport] = useState(false)
+  const [claimOrder, setClaimOrder] = useState<Order | null>(null)
+  const [extendOrder, setExtendOrder] = useState<Order | null>(null)
+  const [cancellingOrder, setCancellingOrder] = useState<Order | null>(null)
+  const [orderFilter, setOrderFilter] = useState<'all' | 'overdue'>('all')
 
   useEffect(() => {
     if (user) {
@@ -23,14 +63,16 @@ export function StaffDashboard() {
   const loadData = async () => {
     try {
       setLoading(true)
-      const [ordersData, equipmentData, suggestionsData] = await Promise.all([
+      const [ordersData, equipmentData, bundlesData, suggestionsData] = await Promise.all([
         db.getOrders(),
-        db.getAvailableEquipment(),
+        db.getAllEquipment(),
+        db.getBundles(),
         db.getSuggestions(),
       ])
       
       setOrders(ordersData)
       setEquipment(equipmentData)
+      setBundles(bundlesData.filter(bundle => bundle.active))
       setSuggestions(suggestionsData)
     } catch (error: any) {
       console.error('Error loading staff data:', error)
@@ -40,26 +82,141 @@ export function StaffDashboard() {
     }
   }
 
-  const handleRent = async (equipment: Equipment, duration: '12hr' | '24hr') => {
-    if (!user) return
+  const handleAddToCart = (equipment: Equipment, durationHours: number) => {
+    cart.addItem(equipment, durationHours)
+    toast.success(`${equipment.name} added to cart`)
+  }
+
+  const handleAddBundleToCart = (bundle: Bundle, durationHours: number) => {
+    cart.addBundle(bundle, durationHours)
+    toast.success(`${bundle.name} added to cart`)
+  }
+
+  const handleCheckout = async ({ kycOverrideReason }: CheckoutOptions) => {
+    if (!user || (cart.items.length === 0 && cart.bundles.length === 0)) return
+
+    if (!cart.customer) {
+      toast.error('Select a customer for this order')
+      return
+    }
+
+    if (cart.startAt && new Date(cart.startAt).getTime() < Date.now()) {
+      toast.error('Start time cannot be in the past')
+      return
+    }
+
+    setPlacingOrder(true)
 
     try {
-      const totalCost = duration === '12hr' ? equipment.rate_12hr : equipment.rate_24hr
-      const rentDate = new Date().toISOString()
-
-      await db.createOrder({
-        user_id: user.id,
-        equipment_id: equipment.id,
-        duration,
-        total_cost: totalCost,
-        rent_date: rentDate,
-      })
-
-      toast.success(`Successfully rented ${equipment.name} for ${duration}!`)
+      // Check the ID on the customer as they are now, not as they were added to the cart
+      const { items: cartItems, bundles: cartBundles, customer } = await cart.refreshCart()
+
+      if (!customer) {
+        toast.error('The customer for this order could not be found')
+        return
+      }
+
+      if (cartItems.length === 0 && cartBundles.length === 0) {
+        toast.error('Nothing in the cart is available any more')
+        return
+      }
+
+      const kycStatus = getKycStatus(customer, cart.startAt ? new Date(cart.startAt) : new Date())
+      if (kycStatus !== 'verified' && !(can('kyc.override') && kycOverrideReason)) {
+        toast.error(`${KYC_STATUS_LABELS[kycStatus]} for ${customer.name}`)
+        return
+      }
+
+      // The database prices every item and works out the tax and deposit from the current rates;
+      // each unit of a model is its own order item
+      const order = await db.createOrder(
+        {
+          customer_id: customer.id,
+          kyc_override_reason: kycOverrideReason,
+          place_of_supply: cart.placeOfSupply,
+          rent_date: cart.startAt ? new Date(cart.startAt).toISOString() : null,
+        },
+        cartItems.flatMap(item => Array.from({ length: item.quantity }, () => ({
+          equipment_id: item.equipment.id,
+          duration_hours: item.duration_hours,
+        }))),
+        cartBundles.map(item => ({ bundle_id: item.bundle.id, duration_hours: item.duration_hours }))
+      )
+
+      toast.success(
+        order.status === 'reserved'
+          ? `Reserved ${getOrderItemNames(order)} from ${formatDateTime(order.rent_date)}`
+          : `Successfully rented ${getOrderItemNames(order)}!`
+      )
+      cart.clearCart()
+      // Gear handed over straight away is inspected at the counter
+      if (order.status === 'checked_out') {
+        setInspecting({ order, kind: 'check_out' })
+      }
       loadData() // Refresh data
     } catch (error: any) {
       console.error('Error creating order:', error)
       toast.error(error.message || 'Failed to create rental order')
+    } finally {
+      setPlacingOrder(false)
+    }
+  }
+
+  // An inspection saved before a failed status change is not asked for again
+  const handleCheckOut = (order: Order) => {
+    if (getInspection(order, 'check_out')) {
+      completeCheckOut(order)
+    } else {
+      setInspecting({ order, kind: 'check_out' })
+    }
+  }
+
+  const handleCheckIn = (order: Order) => {
+    if (getInspection(order, 'check_in')) {
+      completeCheckIn(order)
+    } else {
+      setInspecting({ order, kind: 'check_in' })
+    }
+  }
+
+  const completeCheckOut = async (order: Order) => {
+    setUpdatingOrderId(order.id)
+
+    try {
+      await db.checkOutOrder(order.id)
+      toast.success(`${getOrderItemNames(order)} checked out`)
+      loadData()
+    } catch (error: any) {
+      console.error('Error checking out order:', error)
+      toast.error(error.message || 'Failed to check out order')
+    } finally {
+      setUpdatingOrderId(null)
+    }
+  }
+
+  const completeCheckIn = async (order: Order) => {
+    setUpdatingOrderId(order.id)
+
+    try {
+      const returned = await db.checkInOrder(order.id)
+      const lateFee = (returned.charges || []).find(charge => charge.kind === 'late_fee')
+      toast.success(
+        lateFee
+          ? `${getOrderItemNames(order)} checked in with a late fee of ${formatCurrency(lateFee.amount)}`
+          : `${getOrderItemNames(order)} checked in`
+      )
+      if (compareInspections(returned).length > 0) {
+        setReportOrder(returned)
+        setSettleAfterReport(true)
+      } else if (getDepositHeld(returned) > 0) {
+        setDepositOrder(returned)
+      }
+      loadData()
+    } catch (error: any) {
+      console.error('Error checking in order:', error)
+      toast.error(error.message || 'Failed to check in order')
+    } finally {
+      setUpdatingOrderId(null)
     }
   }
 
@@ -82,14 +239,14 @@ export function StaffDashboard() {
   }
 
   // Calculate billing statistics
-  const totalRevenue = orders.reduce((sum, order) => sum + order.total_cost, 0)
-  const monthlyRevenue = orders
-    .filter(order => {
-      const orderDate = new Date(order.created_at)
-      const now = new Date()
-      return orderDate.getMonth() === now.getMonth() && orderDate.getFullYear() === now.getFullYear()
-    })
-    .reduce((sum, order) => sum + order.total_cost, 0)
+  const totalRevenue = getRevenue(orders)
+  const monthlyRevenue = getRevenue(orders.filter(order => {
+    const orderDate = new Date(order.created_at)
+    const now = new Date()
+    return orderDate.getMonth() === now.getMonth() && orderDate.getFullYear() === now.getFullYear()
+  }))
+  const overdueOrders = orders.filter(order => isOverdue(order))
+  const visibleOrders = orderFilter === 'overdue' ? overdueOrders : orders
 
   if (loading) {
     return (
@@ -114,25 +271,29 @@ export function StaffDashboard() {
 
         {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
-          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-            <div className="flex items-center">
-              <DollarSign className="h-8 w-8 text-green-600" />
-              <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">Total Revenue</p>
-                <p className="text-2xl font-bold text-gray-900">{formatCurrency(totalRevenue)}</p>
+          {can('reports.view') && (
+            <>
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <div className="flex items-center">
+                  <DollarSign className="h-8 w-8 text-green-600" />
+                  <div className="ml-4">
+                    <p className="text-sm font-medium text-gray-600">Total Revenue</p>
+                    <p className="text-2xl font-bold text-gray-900">{formatCurrency(totalRevenue)}</p>
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
-          
-          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-            <div className="flex items-center">
-              <TrendingUp className="h-8 w-8 text-blue-600" />
-              <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">This Month</p>
-                <p className="text-2xl font-bold text-gray-900">{formatCurrency(monthlyRevenue)}</p>
+
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <div className="flex items-center">
+                  <TrendingUp className="h-8 w-8 text-blue-600" />
+                  <div className="ml-4">
+                    <p className="text-sm font-medium text-gray-600">This Month</p>
+                    <p className="text-2xl font-bold text-gray-900">{formatCurrency(monthlyRevenue)}</p>
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
+            </>
+          )}
           
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
             <div className="flex items-center">
@@ -160,17 +321,19 @@ export function StaffDashboard() {
               Billing & Orders ({orders.length})
             </button>
             
-            <button
-              onClick={() => setActiveTab('equipment')}
-              className={`py-2 px-1 border-b-2 font-medium text-sm ${
-                activeTab === 'equipment'
-                  ? 'border-primary-500 text-primary-600'
-                  : 'border-transparent text-gray-500 hover:text-gray-700'
-              }`}
-            >
-              <Package className="inline-block w-4 h-4 mr-2" />
-              Rent Equipment ({equipment.length})
-            </button>
+            {can('orders.create') && (
+              <button
+                onClick={() => setActiveTab('equipment')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'equipment'
+                    ? 'border-primary-500 text-primary-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                <Package className="inline-block w-4 h-4 mr-2" />
+                Rent Equipment ({equipment.length})
+              </button>
+            )}
             
             <button
               onClick={() => setActiveTab('suggestions')}
@@ -192,8 +355,18 @@ export function StaffDashboard() {
             <h2 className="text-xl font-semibold">Orders & Billing</h2>
             
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
-              <div className="px-6 py-4 border-b border-gray-200">
-                <h3 className="text-lg font-semibold">Recent Orders</h3>
+              <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+                <h3 className="text-lg font-semibold">
+                  {orderFilter === 'overdue' ? 'Overdue Orders' : 'Recent Orders'}
+                </h3>
+                <select
+                  value={orderFilter}
+                  onChange={(e) => setOrderFilter(e.target.value as 'all' | 'overdue')}
+                  className="rounded-md border-gray-300 shadow-sm focus:ring-primary-500 focus:border-primary-500 text-sm"
+                >
+                  <option value="all">All orders</option>
+                  <option value="overdue">Overdue ({overdueOrders.length})</option>
+                </select>
               </div>
               <div className="overflow-x-auto">
                 <table className="w-full text-sm">
@@ -201,58 +374,228 @@ export function StaffDashboard() {
                     <tr className="border-b border-gray-200 bg-gray-50">
                       <th className="text-left py-3 px-4">Customer</th>
                       <th className="text-left py-3 px-4">Equipment</th>
-                      <th className="text-left py-3 px-4">Duration</th>
                       <th className="text-left py-3 px-4">Amount</th>
+                      <th className="text-left py-3 px-4">GST</th>
                       <th className="text-left py-3 px-4">Date</th>
+                      <th className="text-left py-3 px-4">Due Back</th>
+                      <th className="text-left py-3 px-4">Status</th>
+                      <th className="text-right py-3 px-4">Actions</th>
                     </tr>
                   </thead>
                   <tbody>
-                    {orders.slice(0, 10).map((order) => (
+                    {visibleOrders.slice(0, 10).map((order) => (
                       <tr key={order.id} className="border-b border-gray-100">
                         <td className="py-3 px-4">
                           <div>
-                            <div className="font-medium">{order.user?.name || 'Unknown'}</div>
-                            <div className="text-xs text-gray-500">{order.user?.email}</div>
+                            {order.customer_id && can('customers.view') ? (
+                              <Link to={`/customers/${order.customer_id}`} className="font-medium hover:text-primary-600">
+                                {getCustomerName(order)}
+                              </Link>
+                            ) : (
+                              <div className="font-medium">{getCustomerName(order)}</div>
+                            )}
+                            <div className="text-xs text-gray-500">{getCustomerContact(order)}</div>
                           </div>
                         </td>
-                        <td className="py-3 px-4">{order.equipment?.name || 'Unknown Equipment'}</td>
-                        <td className="py-3 px-4">{order.duration}</td>
-                        <td className="py-3 px-4 font-semibold text-primary-600">
-                          {formatCurrency(order.total_cost)}
+                        <td className="py-3 px-4">
+                          <OrderItemsSummary order={order} />
+                        </td>
+                        <td className="py-3 px-4">
+                          <div className="font-semibold text-primary-600">{formatCurrency(order.total_cost)}</div>
+                          {getOutstanding(order) > 0 && (
+                            <div className="text-xs text-red-600">Due {formatCurrency(getOutstanding(order))}</div>
+                          )}
+                          {getOutstanding(order) < 0 && (
+                            <div className="text-xs text-orange-600">Refund {formatCurrency(-getOutstanding(order))}</div>
+                          )}
+                          {getDepositHeld(order) > 0 && (
+                            <div className="text-xs text-gray-500">Deposit held {formatCurrency(getDepositHeld(order))}</div>
+                          )}
+                          {getDepositDue(order) > 0 && ['reserved', 'checked_out', 'overdue'].includes(order.status) && (
+                            <div className="text-xs text-red-600">Deposit due {formatCurrency(getDepositDue(order))}</div>
+                          )}
+                        </td>
+                        <td className="py-3 px-4">
+                          <OrderTaxSummary order={order} />
                         </td>
                         <td className="py-3 px-4">{formatDateTime(order.created_at)}</td>
+                        <td className="py-3 px-4">
+                          {formatDateTime(order.due_at)}
+                          {order.returned_at && (
+                            <div className="text-xs text-gray-500">Returned {formatDateTime(order.returned_at)}</div>
+                          )}
+                          {isOverdue(order) && (
+                            <div className="text-xs text-red-600">
+                              {getHoursLate(order.due_at)}h late
+                              {calculateLateFee(order).total > 0 && ` · fee ${formatCurrency(calculateLateFee(order).total)} so far`}
+                            </div>
+                          )}
+                        </td>
+                        <td className="py-3 px-4">
+                          <OrderStatusBadge status={order.status} />
+                          {order.status === 'cancelled' && order.cancellation_reason && (
+                            <div className="text-xs text-gray-500 mt-1">
+                              {order.cancellation_reason}
+                              {order.canceller && ` · by ${order.canceller.name}`}
+                            </div>
+                          )}
+                        </td>
+                        <td className="py-3 px-4 text-right">
+                          <div className="flex justify-end items-center space-x-2">
+                            <Link
+                              to={`/orders/${order.id}`}
+                              className="p-1 text-gray-600 hover:text-primary-600"
+                              title="Order details"
+                            >
+                              <Eye className="h-4 w-4" />
+                            </Link>
+                            <Link
+                              to={`/orders/${order.id}/invoice`}
+                              className="p-1 text-gray-600 hover:text-primary-600"
+                              title="Invoice"
+                            >
+                              <FileText className="h-4 w-4" />
+                            </Link>
+                            {can('payments.record') && (
+                              <button
+                                onClick={() => setPaymentOrder(order)}
+                                className="p-1 text-gray-600 hover:text-primary-600"
+                                title="Record payment"
+                              >
+                                <Wallet className="h-4 w-4" />
+                              </button>
+                            )}
+                            {(order.inspections || []).length > 0 && (
+                              <button
+                                onClick={() => setReportOrder(order)}
+                                className="p-1 text-gray-600 hover:text-primary-600"
+                                title="Inspection report"
+                              >
+                                <ClipboardCheck className="h-4 w-4" />
+                              </button>
+                            )}
+                            {(order.status === 'checked_out' || order.status === 'overdue') && !getInspection(order, 'check_out') && can('inspections.record') && (
+                              <button
+                                onClick={() => setInspecting({ order, kind: 'check_out' })}
+                                className="p-1 text-gray-600 hover:text-primary-600"
+                                title="Record check-out inspection"
+                              >
+                                <ClipboardList className="h-4 w-4" />
+                              </button>
+                            )}
+                            {['checked_out', 'overdue', 'returned'].includes(order.status) && can('claims.create') && (
+                              <button
+                                onClick={() => setClaimOrder(order)}
+                                className="p-1 text-gray-600 hover:text-red-600"
+                                title="Raise damage or loss claim"
+                              >
+                                <AlertTriangle className="h-4 w-4" />
+                              </button>
+                            )}
+                            {canCancel(order) && can('orders.cancel') && (
+                              <button
+                                onClick={() => setCancellingOrder(order)}
+                                className="p-1 text-gray-600 hover:text-red-600"
+                                title="Cancel order"
+                              >
+                                <XCircle className="h-4 w-4" />
+                              </button>
+                            )}
+                            {(order.status === 'returned' || order.status === 'cancelled') && getDepositHeld(order) > 0 && can('payments.record') && (
+                              <button
+                                onClick={() => setDepositOrder(order)}
+                                className="btn btn-outline text-xs"
+                              >
+                                <ShieldCheck className="h-4 w-4 mr-1" />
+                                Settle Deposit
+                              </button>
+                            )}
+                            {order.status === 'reserved' && can('orders.checkout') && (
+                              <button
+                                onClick={() => handleCheckOut(order)}
+                                disabled={updatingOrderId === order.id}
+                                className="btn btn-outline text-xs"
+                              >
+                                <LogOut className="h-4 w-4 mr-1" />
+                                Check Out
+                              </button>
+                            )}
+                            {(order.status === 'checked_out' || order.status === 'overdue') && can('orders.extend') && (
+                              <button
+                                onClick={() => setExtendOrder(order)}
+                                className="btn btn-outline text-xs"
+                              >
+                                <CalendarPlus className="h-4 w-4 mr-1" />
+                                Extend
+                              </button>
+                            )}
+                            {(order.status === 'checked_out' || order.status === 'overdue') && can('orders.checkout') && (
+                              <button
+                                onClick={() => handleCheckIn(order)}
+                                disabled={updatingOrderId === order.id}
+                                className="btn btn-primary text-xs"
+                              >
+                                <LogIn className="h-4 w-4 mr-1" />
+                                Check In
+                              </button>
+                            )}
+                          </div>
+                        </td>
                       </tr>
                     ))}
                   </tbody>
                 </table>
               </div>
+              {visibleOrders.length === 0 && (
+                <div className="p-6 text-center text-sm text-gray-500">
+                  {orderFilter === 'overdue' ? 'Nothing is overdue' : 'No orders yet'}
+                </div>
+              )}
             </div>
           </div>
         )}
 
         {/* Equipment Tab */}
-        {activeTab === 'equipment' && (
+        {activeTab === 'equipment' && can('orders.create') && (
           <div className="space-y-6">
             <h2 className="text-xl font-semibold">Rent Equipment</h2>
             
-            {equipment.length > 0 ? (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-                {equipment.map((item) => (
-                  <EquipmentCard
-                    key={item.id}
-                    equipment={item}
-                    onRent={handleRent}
-                    showRentButton={true}
-                  />
-                ))}
+            <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+              <div className="lg:col-span-3">
+                {equipment.length > 0 ? (
+                  <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+                    {bundles.map((bundle) => (
+                      <BundleCard
+                        key={bundle.id}
+                        bundle={bundle}
+                        onAddToCart={handleAddBundleToCart}
+                        showRentButton={true}
+                      />
+                    ))}
+                    {equipment.map((item) => (
+                      <EquipmentCard
+                        key={item.id}
+                        equipment={item}
+                        onAddToCart={handleAddToCart}
+                        onViewCalendar={setCalendarEquipment}
+                        showRentButton={true}
+                      />
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-center py-12">
+                    <Package className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+                    <h3 className="text-lg font-medium text-gray-900 mb-2">No equipment yet</h3>
+                    <p className="text-gray-600">Equipment will appear here when available</p>
+                  </div>
+                )}
               </div>
-            ) : (
-              <div className="text-center py-12">
-                <Package className="h-12 w-12 mx-auto text-gray-400 mb-4" />
-                <h3 className="text-lg font-medium text-gray-900 mb-2">No equipment available</h3>
-                <p className="text-gray-600">Equipment will appear here when available</p>
+
+              <div className="space-y-6">
+                <CartPanel onCheckout={handleCheckout} submitting={placingOrder} />
+                <CartRecommendations catalog={equipment} />
               </div>
-            )}
+            </div>
           </div>
         )}
 
@@ -287,6 +630,108 @@ export function StaffDashboard() {
           </div>
         )}
       </div>
+
+      {calendarEquipment && (
+        <AvailabilityCalendar
+          equipment={calendarEquipment}
+          onClose={() => setCalendarEquipment(null)}
+        />
+      )}
+
+      {paymentOrder && (
+        <RecordPaymentModal
+          order={paymentOrder}
+          onClose={() => setPaymentOrder(null)}
+          onRecorded={() => {
+            setPaymentOrder(null)
+            loadData()
+          }}
+        />
+      )}
+
+      {inspecting && (
+        <InspectionModal
+          order={inspecting.order}
+          kind={inspecting.kind}
+          submitLabel={
+            inspecting.kind === 'check_in'
+              ? 'Save & Check In'
+              : inspecting.order.status === 'reserved' ? 'Save & Check Out' : 'Save Inspection'
+          }
+          onClose={() => setInspecting(null)}
+          onSaved={(inspection) => {
+            const { order, kind } = inspecting
+            const inspected = { ...order, inspections: [...(order.inspections || []), inspection] }
+            setInspecting(null)
+            if (kind === 'check_in') {
+              completeCheckIn(inspected)
+            } else if (order.status === 'reserved') {
+              completeCheckOut(inspected)
+            } else {
+              toast.success('Inspection saved')
+              loadData()
+            }
+          }}
+        />
+      )}
+
+      {reportOrder && (
+        <InspectionReportModal
+          order={reportOrder}
+          onClose={() => {
+            if (settleAfterReport && getDepositHeld(reportOrder) > 0) {
+              setDepositOrder(reportOrder)
+            }
+            setReportOrder(null)
+            setSettleAfterReport(false)
+          }}
+          onCharged={(charged) => {
+            setReportOrder(charged)
+            loadData()
+          }}
+        />
+      )}
+
+      {extendOrder && (
+        <ExtendOrderModal
+          order={extendOrder}
+          onClose={() => setExtendOrder(null)}
+          onExtended={() => {
+            setExtendOrder(null)
+            loadData()
+          }}
+        />
+      )}
+
+      {cancellingOrder && (
+        <CancelOrderModal
+          order={cancellingOrder}
+          onClose={() => setCancellingOrder(null)}
+          onCancelled={() => {
+            setCancellingOrder(null)
+            loadData()
+          }}
+        />
+      )}
+
+      {claimOrder && (
+        <DamageClaimModal
+          order={claimOrder}
+          onClose={() => setClaimOrder(null)}
+          onRaised={loadData}
+        />
+      )}
+
+      {depositOrder && (
+        <SettleDepositModal
+          order={depositOrder}
+          onClose={() => setDepositOrder(null)}
+          onSettled={() => {
+            setDepositOrder(null)
+            loadData()
+          }}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
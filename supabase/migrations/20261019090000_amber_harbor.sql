@@ -0,0 +1,66 @@
+/*
+  # Rental Return Lifecycle
+
+  1. Database Changes
+    - Add `status` to orders (reserved, checked_out, returned, overdue, cancelled)
+    - Add `due_at`, `checked_out_at` and `returned_at` timestamps to orders
+    - Compute `due_at` from `rent_date` + `duration` with a trigger
+    - Backfill existing orders: anything already past its due time is treated as returned
+
+  2. Security
+    - Allow staff and admins to update orders so they can transition statuses
+
+  3. Performance
+    - Index orders by status and due time for overdue lookups
+*/
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'checked_out';
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS due_at timestamptz;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS checked_out_at timestamptz;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS returned_at timestamptz;
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE orders ADD CONSTRAINT orders_status_check
+  CHECK (status = ANY (ARRAY['reserved'::text, 'checked_out'::text, 'returned'::text, 'overdue'::text, 'cancelled'::text]));
+
+-- Keep due_at in sync with rent_date and duration
+CREATE OR REPLACE FUNCTION set_order_due_at()
+RETURNS trigger AS $$
+BEGIN
+  NEW.due_at := NEW.rent_date + CASE NEW.duration
+    WHEN '12hr' THEN interval '12 hours'
+    ELSE interval '24 hours'
+  END;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS orders_set_due_at ON orders;
+CREATE TRIGGER orders_set_due_at
+  BEFORE INSERT OR UPDATE OF rent_date, duration ON orders
+  FOR EACH ROW EXECUTE FUNCTION set_order_due_at();
+
+-- Backfill existing orders
+UPDATE orders SET rent_date = rent_date WHERE due_at IS NULL;
+
+UPDATE orders
+SET checked_out_at = COALESCE(checked_out_at, rent_date),
+    status = CASE WHEN due_at < now() THEN 'returned' ELSE 'checked_out' END,
+    returned_at = CASE WHEN due_at < now() THEN due_at ELSE NULL END
+WHERE checked_out_at IS NULL;
+
+ALTER TABLE orders ALTER COLUMN due_at SET NOT NULL;
+
+-- Staff need to update orders to check them out and back in
+DROP POLICY IF EXISTS "orders_staff_update" ON orders;
+CREATE POLICY "orders_staff_update" ON orders
+  FOR UPDATE TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_orders_status_due_at ON orders(status, due_at);
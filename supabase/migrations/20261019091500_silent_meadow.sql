@@ -0,0 +1,70 @@
+/*
+  # Equipment Availability From Active Rentals
+
+  1. Database Changes
+    - `equipments.available` is now maintained from open orders instead of being toggled by hand
+    - Creating an order locks the equipment row and rejects it when the item is already out
+    - Checking an order in (or cancelling it) frees the equipment again
+    - Backfill `available` from the orders that are currently open
+
+  2. Security
+    - Trigger functions run as SECURITY DEFINER so staff can rent without equipment write access
+*/
+
+-- Orders that still hold their equipment
+CREATE OR REPLACE FUNCTION equipment_has_open_order(p_equipment_id uuid, p_exclude_order_id uuid DEFAULT NULL)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM orders
+    WHERE equipment_id = p_equipment_id
+    AND status IN ('reserved', 'checked_out', 'overdue')
+    AND (p_exclude_order_id IS NULL OR id <> p_exclude_order_id)
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Reject a new order when its equipment is already rented
+CREATE OR REPLACE FUNCTION ensure_equipment_rentable()
+RETURNS trigger AS $$
+DECLARE
+  v_name text;
+BEGIN
+  -- Lock the equipment row so two counters cannot rent the same item at once
+  SELECT name INTO v_name FROM equipments WHERE id = NEW.equipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Equipment not found';
+  END IF;
+
+  IF equipment_has_open_order(NEW.equipment_id, NEW.id) THEN
+    RAISE EXCEPTION '% is already rented out', v_name;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS orders_ensure_equipment_rentable ON orders;
+CREATE TRIGGER orders_ensure_equipment_rentable
+  BEFORE INSERT ON orders
+  FOR EACH ROW EXECUTE FUNCTION ensure_equipment_rentable();
+
+-- Keep equipments.available in step with open orders
+CREATE OR REPLACE FUNCTION sync_equipment_availability()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE equipments
+  SET available = NOT equipment_has_open_order(NEW.equipment_id)
+  WHERE id = NEW.equipment_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS orders_sync_equipment_availability ON orders;
+CREATE TRIGGER orders_sync_equipment_availability
+  AFTER INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW EXECUTE FUNCTION sync_equipment_availability();
+
+-- Backfill from current open orders
+UPDATE equipments
+SET available = NOT equipment_has_open_order(id);
@@ -0,0 +1,94 @@
+/*
+  # Future Reservations
+
+  1. Database Changes
+    - Orders may start in the future as `reserved` bookings
+    - New orders are rejected when their rental window overlaps another open order for the same equipment
+    - Orders still out past their due time keep blocking the equipment until they are checked in
+    - `equipments.available` now means "on the shelf right now": only checked out or overdue orders clear it
+
+  2. Security
+    - Staff can read every equipment row so they can book items that are currently out
+
+  3. Performance
+    - Index orders by equipment and rental window for overlap checks
+*/
+
+-- The old check rejected any second open order; bookings are now compared by time window
+DROP TRIGGER IF EXISTS orders_ensure_equipment_rentable ON orders;
+DROP FUNCTION IF EXISTS ensure_equipment_rentable();
+
+-- Rental window an open order occupies; late returns hold the item until now
+CREATE OR REPLACE FUNCTION order_booking_range(p_rent_date timestamptz, p_due_at timestamptz, p_status text)
+RETURNS tstzrange AS $$
+  SELECT tstzrange(
+    p_rent_date,
+    CASE WHEN p_status IN ('checked_out', 'overdue') THEN GREATEST(p_due_at, now()) ELSE p_due_at END
+  );
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION validate_order_booking()
+RETURNS trigger AS $$
+DECLARE
+  v_name text;
+  v_conflict orders%ROWTYPE;
+BEGIN
+  -- Lock the equipment row so two counters cannot book the same window at once
+  SELECT name INTO v_name FROM equipments WHERE id = NEW.equipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Equipment not found';
+  END IF;
+
+  SELECT * INTO v_conflict FROM orders
+  WHERE equipment_id = NEW.equipment_id
+  AND id <> NEW.id
+  AND status IN ('reserved', 'checked_out', 'overdue')
+  AND order_booking_range(rent_date, due_at, status) && tstzrange(NEW.rent_date, NEW.due_at)
+  ORDER BY rent_date
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION '% is already booked from % until %',
+      v_name,
+      to_char(v_conflict.rent_date AT TIME ZONE 'Asia/Kolkata', 'DD Mon YYYY HH24:MI'),
+      to_char(v_conflict.due_at AT TIME ZONE 'Asia/Kolkata', 'DD Mon YYYY HH24:MI');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Triggers fire in name order: this must run after orders_set_due_at has filled in due_at
+DROP TRIGGER IF EXISTS orders_validate_booking ON orders;
+CREATE TRIGGER orders_validate_booking
+  BEFORE INSERT ON orders
+  FOR EACH ROW EXECUTE FUNCTION validate_order_booking();
+
+-- Only rentals that are physically out take an item off the shelf
+CREATE OR REPLACE FUNCTION equipment_has_open_order(p_equipment_id uuid, p_exclude_order_id uuid DEFAULT NULL)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM orders
+    WHERE equipment_id = p_equipment_id
+    AND status IN ('checked_out', 'overdue')
+    AND (p_exclude_order_id IS NULL OR id <> p_exclude_order_id)
+  );
+$$ LANGUAGE sql STABLE;
+
+UPDATE equipments
+SET available = NOT equipment_has_open_order(id);
+
+-- Staff book items that are out today for a later date
+DROP POLICY IF EXISTS "equipment_staff_view_all" ON equipments;
+CREATE POLICY "equipment_staff_view_all" ON equipments
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_orders_equipment_window ON orders(equipment_id, rent_date, due_at);
\ No newline at end of file
@@ -0,0 +1,38 @@
+/*
+  # Multi-day Rental Pricing
+
+  1. Database Changes
+    - Replace the fixed `duration` ('12hr' / '24hr') with `duration_hours` on orders
+    - Add `pricing` (jsonb) holding the price breakdown computed when the order was placed
+    - `due_at` is now `rent_date` + `duration_hours`
+    - Backfill `duration_hours` from the old `duration` column before dropping it
+*/
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS duration_hours integer;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS pricing jsonb;
+
+UPDATE orders
+SET duration_hours = CASE duration WHEN '12hr' THEN 12 ELSE 24 END
+WHERE duration_hours IS NULL;
+
+ALTER TABLE orders ALTER COLUMN duration_hours SET NOT NULL;
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_duration_hours_check;
+ALTER TABLE orders ADD CONSTRAINT orders_duration_hours_check CHECK (duration_hours > 0);
+
+-- The due_at trigger watches the old column, so replace it before dropping
+DROP TRIGGER IF EXISTS orders_set_due_at ON orders;
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_duration_check;
+ALTER TABLE orders DROP COLUMN IF EXISTS duration;
+
+CREATE OR REPLACE FUNCTION set_order_due_at()
+RETURNS trigger AS $$
+BEGIN
+  NEW.due_at := NEW.rent_date + make_interval(hours => NEW.duration_hours);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER orders_set_due_at
+  BEFORE INSERT OR UPDATE OF rent_date, duration_hours ON orders
+  FOR EACH ROW EXECUTE FUNCTION set_order_due_at();
\ No newline at end of file
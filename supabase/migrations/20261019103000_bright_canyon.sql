@@ -0,0 +1,226 @@
+/*
+  # Multi-item Orders
+
+  1. New Tables
+    - `order_items` - one line per equipment item on an order
+      - `order_id`, `equipment_id`
+      - `rent_date`, `duration_hours`, `due_at` (computed)
+      - `pricing` (jsonb breakdown), `line_total`
+
+  2. Database Changes
+    - Backfill one order item per existing order
+    - Drop `equipment_id`, `duration_hours` and `pricing` from orders; an order's `due_at` is the latest item due time
+    - Booking overlap checks and equipment availability now work per order item
+    - `create_rental_order` inserts an order and all of its items in one transaction
+
+  3. Security
+    - Enable RLS on order_items with the same staff access as orders
+*/
+
+CREATE TABLE IF NOT EXISTS order_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  equipment_id uuid NOT NULL REFERENCES equipments(id) ON DELETE CASCADE,
+  rent_date timestamptz NOT NULL,
+  duration_hours integer NOT NULL CHECK (duration_hours > 0),
+  due_at timestamptz NOT NULL,
+  pricing jsonb,
+  line_total numeric NOT NULL DEFAULT 0 CHECK (line_total >= 0),
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT order_items_order_equipment_unique UNIQUE (order_id, equipment_id)
+);
+
+-- Backfill before the booking triggers exist so history is copied as-is
+INSERT INTO order_items (order_id, equipment_id, rent_date, duration_hours, due_at, pricing, line_total, created_at)
+SELECT id, equipment_id, rent_date, duration_hours, due_at, pricing, total_cost, created_at
+FROM orders
+WHERE NOT EXISTS (SELECT 1 FROM order_items WHERE order_items.order_id = orders.id);
+
+-- Order-level booking and due date triggers move to order_items
+DROP TRIGGER IF EXISTS orders_validate_booking ON orders;
+DROP TRIGGER IF EXISTS orders_set_due_at ON orders;
+DROP FUNCTION IF EXISTS validate_order_booking();
+DROP FUNCTION IF EXISTS set_order_due_at();
+
+ALTER TABLE orders DROP COLUMN IF EXISTS equipment_id;
+ALTER TABLE orders DROP COLUMN IF EXISTS duration_hours;
+ALTER TABLE orders DROP COLUMN IF EXISTS pricing;
+
+CREATE OR REPLACE FUNCTION set_order_item_due_at()
+RETURNS trigger AS $$
+BEGIN
+  NEW.due_at := NEW.rent_date + make_interval(hours => NEW.duration_hours);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER order_items_set_due_at
+  BEFORE INSERT OR UPDATE OF rent_date, duration_hours ON order_items
+  FOR EACH ROW EXECUTE FUNCTION set_order_item_due_at();
+
+CREATE OR REPLACE FUNCTION validate_order_item_booking()
+RETURNS trigger AS $$
+DECLARE
+  v_name text;
+  v_conflict order_items%ROWTYPE;
+BEGIN
+  -- Lock the equipment row so two counters cannot book the same window at once
+  SELECT name INTO v_name FROM equipments WHERE id = NEW.equipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Equipment not found';
+  END IF;
+
+  SELECT oi.* INTO v_conflict
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  WHERE oi.equipment_id = NEW.equipment_id
+  AND oi.order_id <> NEW.order_id
+  AND o.status IN ('reserved', 'checked_out', 'overdue')
+  AND order_booking_range(oi.rent_date, oi.due_at, o.status) && tstzrange(NEW.rent_date, NEW.due_at)
+  ORDER BY oi.rent_date
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION '% is already booked from % until %',
+      v_name,
+      to_char(v_conflict.rent_date AT TIME ZONE 'Asia/Kolkata', 'DD Mon YYYY HH24:MI'),
+      to_char(v_conflict.due_at AT TIME ZONE 'Asia/Kolkata', 'DD Mon YYYY HH24:MI');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Triggers fire in name order: this must run after order_items_set_due_at has filled in due_at
+CREATE TRIGGER order_items_validate_booking
+  BEFORE INSERT ON order_items
+  FOR EACH ROW EXECUTE FUNCTION validate_order_item_booking();
+
+-- An order is due back when its last item is
+CREATE OR REPLACE FUNCTION sync_order_due_at()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE orders
+  SET due_at = (SELECT max(due_at) FROM order_items WHERE order_id = NEW.order_id)
+  WHERE id = NEW.order_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER order_items_sync_order_due_at
+  AFTER INSERT OR UPDATE OF due_at ON order_items
+  FOR EACH ROW EXECUTE FUNCTION sync_order_due_at();
+
+-- Availability now looks through order items to the order status
+CREATE OR REPLACE FUNCTION equipment_has_open_order(p_equipment_id uuid, p_exclude_order_id uuid DEFAULT NULL)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    WHERE oi.equipment_id = p_equipment_id
+    AND o.status IN ('checked_out', 'overdue')
+    AND (p_exclude_order_id IS NULL OR o.id <> p_exclude_order_id)
+  );
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION sync_equipment_availability()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE equipments
+  SET available = NOT equipment_has_open_order(id)
+  WHERE id IN (SELECT equipment_id FROM order_items WHERE order_id = NEW.id);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS orders_sync_equipment_availability ON orders;
+CREATE TRIGGER orders_sync_equipment_availability
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW EXECUTE FUNCTION sync_equipment_availability();
+
+CREATE OR REPLACE FUNCTION sync_order_item_equipment_availability()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE equipments
+  SET available = NOT equipment_has_open_order(NEW.equipment_id)
+  WHERE id = NEW.equipment_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER order_items_sync_equipment_availability
+  AFTER INSERT ON order_items
+  FOR EACH ROW EXECUTE FUNCTION sync_order_item_equipment_availability();
+
+-- Insert an order and its items atomically; only the keys present in the JSON are written,
+-- so column defaults still apply and new order columns need no change here
+CREATE OR REPLACE FUNCTION create_rental_order(p_order jsonb, p_items jsonb)
+RETURNS uuid AS $$
+DECLARE
+  v_order_id uuid;
+  v_columns text;
+BEGIN
+  IF jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  SELECT string_agg(quote_ident(key), ', ') INTO v_columns
+  FROM jsonb_object_keys(p_order) AS key;
+
+  EXECUTE format(
+    'INSERT INTO orders (%1$s) SELECT %1$s FROM jsonb_populate_record(NULL::orders, $1) RETURNING id',
+    v_columns
+  ) USING p_order INTO v_order_id;
+
+  SELECT string_agg(quote_ident(key), ', ') INTO v_columns
+  FROM jsonb_object_keys(p_items -> 0) AS key
+  WHERE key <> 'order_id';
+
+  EXECUTE format(
+    'INSERT INTO order_items (order_id, %1$s) SELECT $2, %1$s FROM jsonb_populate_recordset(NULL::order_items, $1)',
+    v_columns
+  ) USING p_items, v_order_id;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Row Level Security
+ALTER TABLE order_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "order_items_staff_view_all" ON order_items
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
+
+CREATE POLICY "order_items_staff_create" ON order_items
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
+
+CREATE POLICY "order_items_staff_update" ON order_items
+  FOR UPDATE TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_order_items_order_id ON order_items(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_items_equipment_window ON order_items(equipment_id, rent_date, due_at);
\ No newline at end of file
@@ -0,0 +1,73 @@
+/*
+  # Invoices
+
+  1. New Tables
+    - `invoices` - one invoice per order
+      - `order_id` (unique)
+      - `invoice_number` - sequential, e.g. INV-2026-00042
+      - `payment_status` (unpaid, paid)
+      - `issued_at`
+
+  2. Database Changes
+    - `invoice_number_seq` numbers invoices so two counters never issue the same number
+
+  3. Security
+    - Enable RLS on invoices; staff and admins can read, issue and update them
+*/
+
+CREATE SEQUENCE IF NOT EXISTS invoice_number_seq;
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+  invoice_number text NOT NULL UNIQUE,
+  payment_status text NOT NULL DEFAULT 'unpaid' CHECK (payment_status IN ('unpaid', 'paid')),
+  issued_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION set_invoice_number()
+RETURNS trigger AS $$
+BEGIN
+  NEW.invoice_number := 'INV-' || to_char(NEW.issued_at, 'YYYY') || '-' || lpad(nextval('invoice_number_seq')::text, 5, '0');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS invoices_set_number ON invoices;
+CREATE TRIGGER invoices_set_number
+  BEFORE INSERT ON invoices
+  FOR EACH ROW EXECUTE FUNCTION set_invoice_number();
+
+-- Row Level Security
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "invoices_staff_view_all" ON invoices
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
+
+CREATE POLICY "invoices_staff_create" ON invoices
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
+
+CREATE POLICY "invoices_staff_update" ON invoices
+  FOR UPDATE TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
\ No newline at end of file
@@ -0,0 +1,24 @@
+/*
+  # GST on Rentals
+
+  1. Database Changes
+    - Add `category` to equipments (body, lens, lighting, audio, grip, accessory); the app maps
+      each category to its SAC code and GST rate
+    - Add `place_of_supply` (GST state code) to orders
+    - Add `tax` (jsonb) to orders holding the CGST/SGST or IGST breakdown at the time of the order
+*/
+
+ALTER TABLE equipments ADD COLUMN IF NOT EXISTS category text NOT NULL DEFAULT 'accessory';
+ALTER TABLE equipments DROP CONSTRAINT IF EXISTS equipments_category_check;
+ALTER TABLE equipments ADD CONSTRAINT equipments_category_check
+  CHECK (category = ANY (ARRAY['body'::text, 'lens'::text, 'lighting'::text, 'audio'::text, 'grip'::text, 'accessory'::text]));
+
+-- Best guess for the demo catalog; admins can correct categories from the equipment form
+UPDATE equipments SET category = 'lens' WHERE category = 'accessory' AND name ~* '\d+mm';
+UPDATE equipments SET category = 'grip' WHERE category = 'accessory' AND name ~* '(gimbal|tripod|slider|rig)';
+UPDATE equipments SET category = 'body' WHERE category = 'accessory' AND name ~* '(eos|alpha|a7|nikon z|lumix|fx\d)';
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS place_of_supply text;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_equipments_category ON equipments(category);
\ No newline at end of file
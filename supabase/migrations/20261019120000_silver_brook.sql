@@ -0,0 +1,151 @@
+/*
+  # Payments Ledger
+
+  1. New Tables
+    - `payments` - money received against an order, or refunded from it
+      - `order_id`
+      - `kind` (payment, refund)
+      - `method` (cash, upi, card, bank_transfer)
+      - `amount` - always positive; refunds are subtracted when balancing
+      - `reference`, `notes`
+      - `recorded_by` - staff member who took the payment
+
+  2. Database Changes
+    - `order_amount_paid` nets payments against refunds for an order
+    - Refunds cannot exceed what has been paid on the order
+    - Invoice `payment_status` gains `partial` and is now kept in step with the ledger
+
+  3. Security
+    - Enable RLS on payments; staff and admins can read and record entries
+    - Entries are never updated or deleted, mistakes are corrected with a refund
+*/
+
+CREATE TABLE IF NOT EXISTS payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  kind text NOT NULL DEFAULT 'payment' CHECK (kind IN ('payment', 'refund')),
+  method text NOT NULL CHECK (method IN ('cash', 'upi', 'card', 'bank_transfer')),
+  amount numeric NOT NULL CHECK (amount > 0),
+  reference text,
+  notes text,
+  recorded_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION order_amount_paid(p_order_id uuid)
+RETURNS numeric AS $$
+  SELECT COALESCE(sum(CASE WHEN kind = 'refund' THEN -amount ELSE amount END), 0)
+  FROM payments
+  WHERE order_id = p_order_id;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION order_payment_status(p_order_id uuid)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN order_amount_paid(o.id) >= o.total_cost THEN 'paid'
+    WHEN order_amount_paid(o.id) > 0 THEN 'partial'
+    ELSE 'unpaid'
+  END
+  FROM orders o
+  WHERE o.id = p_order_id;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION validate_payment()
+RETURNS trigger AS $$
+BEGIN
+  -- Serialise entries per order so two refunds cannot both pass the check
+  PERFORM 1 FROM orders WHERE id = NEW.order_id FOR UPDATE;
+
+  IF NEW.kind = 'refund' AND NEW.amount > order_amount_paid(NEW.order_id) THEN
+    RAISE EXCEPTION 'Refund of % exceeds the % paid on this order', NEW.amount, order_amount_paid(NEW.order_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER payments_validate
+  BEFORE INSERT ON payments
+  FOR EACH ROW EXECUTE FUNCTION validate_payment();
+
+-- Invoices follow the ledger instead of being marked paid by hand
+ALTER TABLE invoices DROP CONSTRAINT IF EXISTS invoices_payment_status_check;
+ALTER TABLE invoices ADD CONSTRAINT invoices_payment_status_check
+  CHECK (payment_status IN ('unpaid', 'partial', 'paid'));
+
+CREATE OR REPLACE FUNCTION sync_invoice_payment_status()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE invoices
+  SET payment_status = order_payment_status(NEW.order_id)
+  WHERE order_id = NEW.order_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER payments_sync_invoice_status
+  AFTER INSERT ON payments
+  FOR EACH ROW EXECUTE FUNCTION sync_invoice_payment_status();
+
+CREATE OR REPLACE FUNCTION set_invoice_payment_status()
+RETURNS trigger AS $$
+BEGIN
+  NEW.payment_status := order_payment_status(NEW.order_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER invoices_set_payment_status
+  BEFORE INSERT ON invoices
+  FOR EACH ROW EXECUTE FUNCTION set_invoice_payment_status();
+
+-- A changed order total can settle or reopen its invoice
+CREATE OR REPLACE FUNCTION sync_order_invoice_payment_status()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE invoices
+  SET payment_status = order_payment_status(NEW.id)
+  WHERE order_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER orders_sync_invoice_payment_status
+  AFTER UPDATE OF total_cost ON orders
+  FOR EACH ROW EXECUTE FUNCTION sync_order_invoice_payment_status();
+
+-- Invoices already marked paid by hand keep a matching ledger entry
+INSERT INTO payments (order_id, kind, method, amount, notes, created_at)
+SELECT i.order_id, 'payment', 'cash', o.total_cost, 'Recorded before the payments ledger', i.issued_at
+FROM invoices i
+JOIN orders o ON o.id = i.order_id
+WHERE i.payment_status = 'paid'
+AND o.total_cost > 0
+AND NOT EXISTS (SELECT 1 FROM payments WHERE payments.order_id = i.order_id);
+
+-- Row Level Security
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "payments_staff_view_all" ON payments
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
+
+CREATE POLICY "payments_staff_create" ON payments
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_payments_order_id ON payments(order_id);
\ No newline at end of file
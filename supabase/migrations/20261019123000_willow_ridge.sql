@@ -0,0 +1,165 @@
+/*
+  # Security Deposits
+
+  1. New Tables
+    - `order_charges` - extra charges raised against an order after it was placed
+      - `kind` (late_fee, damage, other), `description`
+      - `amount` (taxable value), `tax` (jsonb GST breakdown), `total`
+      - `created_by`
+
+  2. Database Changes
+    - Add `deposit_amount` to equipments (refundable deposit per item)
+    - Add `deposit_amount` to orders, the deposit required when the order was placed
+    - Payments gain `deposit`, `deposit_release` and `deposit_deduction` entries; a deduction is
+      kept by the business and counts towards the order total, deposits held never do
+    - Each charge adds its total to the order's `total_cost`
+    - `settle_order_deposit` raises a deduction charge and releases the rest of the deposit in one transaction
+
+  3. Security
+    - Enable RLS on order_charges with the same staff access as payments
+*/
+
+ALTER TABLE equipments ADD COLUMN IF NOT EXISTS deposit_amount numeric NOT NULL DEFAULT 0 CHECK (deposit_amount >= 0);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS deposit_amount numeric NOT NULL DEFAULT 0 CHECK (deposit_amount >= 0);
+
+CREATE TABLE IF NOT EXISTS order_charges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('late_fee', 'damage', 'other')),
+  description text NOT NULL,
+  amount numeric NOT NULL CHECK (amount > 0),
+  tax jsonb,
+  total numeric NOT NULL CHECK (total > 0),
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION add_order_charge_to_total()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE orders
+  SET total_cost = total_cost + NEW.total
+  WHERE id = NEW.order_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER order_charges_add_to_total
+  AFTER INSERT ON order_charges
+  FOR EACH ROW EXECUTE FUNCTION add_order_charge_to_total();
+
+-- Deposit movements live in the payments ledger
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_kind_check;
+ALTER TABLE payments ADD CONSTRAINT payments_kind_check
+  CHECK (kind IN ('payment', 'refund', 'deposit', 'deposit_release', 'deposit_deduction'));
+
+-- Deductions are kept by the business, so they pay towards the order like any payment
+CREATE OR REPLACE FUNCTION order_amount_paid(p_order_id uuid)
+RETURNS numeric AS $$
+  SELECT COALESCE(sum(CASE
+    WHEN kind IN ('payment', 'deposit_deduction') THEN amount
+    WHEN kind = 'refund' THEN -amount
+    ELSE 0
+  END), 0)
+  FROM payments
+  WHERE order_id = p_order_id;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION order_deposit_held(p_order_id uuid)
+RETURNS numeric AS $$
+  SELECT COALESCE(sum(CASE
+    WHEN kind = 'deposit' THEN amount
+    WHEN kind IN ('deposit_release', 'deposit_deduction') THEN -amount
+    ELSE 0
+  END), 0)
+  FROM payments
+  WHERE order_id = p_order_id;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION validate_payment()
+RETURNS trigger AS $$
+BEGIN
+  -- Serialise entries per order so two refunds cannot both pass the check
+  PERFORM 1 FROM orders WHERE id = NEW.order_id FOR UPDATE;
+
+  IF NEW.kind = 'refund' AND NEW.amount > order_amount_paid(NEW.order_id) THEN
+    RAISE EXCEPTION 'Refund of % exceeds the % paid on this order', NEW.amount, order_amount_paid(NEW.order_id);
+  END IF;
+
+  IF NEW.kind IN ('deposit_release', 'deposit_deduction') AND NEW.amount > order_deposit_held(NEW.order_id) THEN
+    RAISE EXCEPTION '% exceeds the % deposit held on this order', NEW.amount, order_deposit_held(NEW.order_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Keeps p_charge (an order_charges row as JSON) out of the deposit and releases the remainder
+CREATE OR REPLACE FUNCTION settle_order_deposit(p_order_id uuid, p_charge jsonb, p_release_method text)
+RETURNS void AS $$
+DECLARE
+  v_held numeric;
+  v_deduction numeric := 0;
+  v_deposit_method text;
+BEGIN
+  PERFORM 1 FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  v_held := order_deposit_held(p_order_id);
+  IF v_held <= 0 THEN
+    RAISE EXCEPTION 'No deposit is held on this order';
+  END IF;
+
+  IF p_charge IS NOT NULL THEN
+    v_deduction := (p_charge ->> 'total')::numeric;
+
+    IF v_deduction > v_held THEN
+      RAISE EXCEPTION 'Deduction of % exceeds the % deposit held', v_deduction, v_held;
+    END IF;
+
+    INSERT INTO order_charges (order_id, kind, description, amount, tax, total, created_by)
+    SELECT p_order_id, kind, description, amount, tax, total, auth.uid()
+    FROM jsonb_populate_record(NULL::order_charges, p_charge);
+
+    -- Nothing changes hands on a deduction; record it against the way the deposit was taken
+    SELECT method INTO v_deposit_method
+    FROM payments
+    WHERE order_id = p_order_id AND kind = 'deposit'
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    INSERT INTO payments (order_id, kind, method, amount, notes, recorded_by)
+    VALUES (p_order_id, 'deposit_deduction', v_deposit_method, v_deduction, p_charge ->> 'description', auth.uid());
+  END IF;
+
+  IF v_held - v_deduction > 0 THEN
+    INSERT INTO payments (order_id, kind, method, amount, recorded_by)
+    VALUES (p_order_id, 'deposit_release', p_release_method, v_held - v_deduction, auth.uid());
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Row Level Security
+ALTER TABLE order_charges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "order_charges_staff_view_all" ON order_charges
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
+
+CREATE POLICY "order_charges_staff_create" ON order_charges
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_order_charges_order_id ON order_charges(order_id);
\ No newline at end of file
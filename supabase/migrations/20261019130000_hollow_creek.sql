@@ -0,0 +1,64 @@
+/*
+  # Late Return Fees
+
+  1. Database Changes
+    - `order_charges.created_by` defaults to the signed-in user
+    - `settle_order_deposit` can apply part of the held deposit to the order's outstanding balance
+      (e.g. a late fee added at check-in) without raising a new charge
+*/
+
+ALTER TABLE order_charges ALTER COLUMN created_by SET DEFAULT auth.uid();
+
+DROP FUNCTION IF EXISTS settle_order_deposit(uuid, jsonb, text);
+
+-- Applies p_apply_amount of the deposit to the balance, keeps p_charge (an order_charges row as
+-- JSON) out of it, and releases the remainder
+CREATE OR REPLACE FUNCTION settle_order_deposit(p_order_id uuid, p_apply_amount numeric, p_charge jsonb, p_release_method text)
+RETURNS void AS $$
+DECLARE
+  v_held numeric;
+  v_charge numeric := 0;
+  v_deposit_method text;
+BEGIN
+  PERFORM 1 FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  v_held := order_deposit_held(p_order_id);
+  IF v_held <= 0 THEN
+    RAISE EXCEPTION 'No deposit is held on this order';
+  END IF;
+
+  IF p_charge IS NOT NULL THEN
+    v_charge := (p_charge ->> 'total')::numeric;
+  END IF;
+
+  IF COALESCE(p_apply_amount, 0) < 0 OR COALESCE(p_apply_amount, 0) + v_charge > v_held THEN
+    RAISE EXCEPTION 'Deductions of % exceed the % deposit held', COALESCE(p_apply_amount, 0) + v_charge, v_held;
+  END IF;
+
+  -- Nothing changes hands on a deduction; record it against the way the deposit was taken
+  SELECT method INTO v_deposit_method
+  FROM payments
+  WHERE order_id = p_order_id AND kind = 'deposit'
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF COALESCE(p_apply_amount, 0) > 0 THEN
+    INSERT INTO payments (order_id, kind, method, amount, notes, recorded_by)
+    VALUES (p_order_id, 'deposit_deduction', v_deposit_method, p_apply_amount, 'Applied to balance', auth.uid());
+  END IF;
+
+  IF p_charge IS NOT NULL THEN
+    INSERT INTO order_charges (order_id, kind, description, amount, tax, total)
+    SELECT p_order_id, kind, description, amount, tax, total
+    FROM jsonb_populate_record(NULL::order_charges, p_charge);
+
+    INSERT INTO payments (order_id, kind, method, amount, notes, recorded_by)
+    VALUES (p_order_id, 'deposit_deduction', v_deposit_method, v_charge, p_charge ->> 'description', auth.uid());
+  END IF;
+
+  IF v_held - COALESCE(p_apply_amount, 0) - v_charge > 0 THEN
+    INSERT INTO payments (order_id, kind, method, amount, recorded_by)
+    VALUES (p_order_id, 'deposit_release', p_release_method, v_held - COALESCE(p_apply_amount, 0) - v_charge, auth.uid());
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
\ No newline at end of file
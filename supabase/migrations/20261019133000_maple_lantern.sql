@@ -0,0 +1,78 @@
+/*
+  # Customers
+
+  1. New Tables
+    - `customers` - the people who actually take the gear, separate from staff logins
+      - `name`, `phone`, `email`, `address`
+      - `gstin` - for business customers who need a GST invoice
+      - `id_proof_ref` - reference of the ID proof seen at the counter
+      - `notes`
+
+  2. Database Changes
+    - Add `customer_id` to orders; `user_id` stays as the staff member who placed the order
+    - Customers with orders cannot be deleted
+
+  3. Security
+    - Enable RLS on customers; staff and admins can read, create and update them, admins can delete
+*/
+
+CREATE TABLE IF NOT EXISTS customers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  phone text,
+  email text,
+  address text,
+  gstin text CHECK (gstin IS NULL OR gstin ~ '^[0-9]{2}[A-Z0-9]{13}$'),
+  id_proof_ref text,
+  notes text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS customer_id uuid REFERENCES customers(id) ON DELETE RESTRICT;
+
+-- Row Level Security
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "customers_staff_view_all" ON customers
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
+
+CREATE POLICY "customers_staff_create" ON customers
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
+
+CREATE POLICY "customers_staff_update" ON customers
+  FOR UPDATE TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
+
+CREATE POLICY "customers_admin_delete" ON customers
+  FOR DELETE TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_customers_name ON customers(lower(name));
+CREATE INDEX IF NOT EXISTS idx_customers_phone ON customers(phone);
+CREATE INDEX IF NOT EXISTS idx_orders_customer_id ON orders(customer_id);
\ No newline at end of file
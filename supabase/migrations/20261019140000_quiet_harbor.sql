@@ -0,0 +1,138 @@
+/*
+  # Customer KYC
+
+  1. Database Changes
+    - Customers gain structured ID details: `id_type`, `id_number`, `id_expiry`, `id_scan_path`
+      (object in the private `kyc-documents` storage bucket), replacing the free-text `id_proof_ref`
+    - `kyc_verified_by` and `kyc_verified_at` record who checked the ID and when; both are set by
+      the database and cleared whenever the ID details change
+    - Orders gain `kyc_override_by` and `kyc_override_reason`
+    - Orders cannot be placed or checked out for customers without a verified, unexpired ID unless
+      an admin overrides the check on that order
+
+  2. Security
+    - Private `kyc-documents` bucket readable and writable by staff and admins only
+*/
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS id_type text
+  CHECK (id_type IN ('aadhaar', 'pan', 'passport', 'driving_licence', 'voter_id'));
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS id_number text;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS id_expiry date;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS id_scan_path text;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS kyc_verified_by uuid REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS kyc_verified_at timestamptz;
+
+UPDATE customers SET id_number = id_proof_ref WHERE id_number IS NULL AND id_proof_ref IS NOT NULL;
+ALTER TABLE customers DROP COLUMN IF EXISTS id_proof_ref;
+
+CREATE OR REPLACE FUNCTION track_customer_kyc()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND (NEW.id_type, NEW.id_number, NEW.id_expiry, NEW.id_scan_path)
+      IS DISTINCT FROM (OLD.id_type, OLD.id_number, OLD.id_expiry, OLD.id_scan_path)
+    AND NEW.kyc_verified_at IS NOT DISTINCT FROM OLD.kyc_verified_at
+  THEN
+    -- Changed ID details need checking again
+    NEW.kyc_verified_at := NULL;
+  END IF;
+
+  IF NEW.kyc_verified_at IS NULL THEN
+    NEW.kyc_verified_by := NULL;
+  ELSIF TG_OP = 'INSERT' OR OLD.kyc_verified_at IS DISTINCT FROM NEW.kyc_verified_at THEN
+    IF NEW.id_type IS NULL OR NEW.id_number IS NULL THEN
+      RAISE EXCEPTION 'Record the ID type and number before verifying';
+    END IF;
+    NEW.kyc_verified_by := auth.uid();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS customers_track_kyc ON customers;
+CREATE TRIGGER customers_track_kyc
+  BEFORE INSERT OR UPDATE ON customers
+  FOR EACH ROW EXECUTE FUNCTION track_customer_kyc();
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS kyc_override_by uuid REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS kyc_override_reason text;
+
+CREATE OR REPLACE FUNCTION validate_order_kyc()
+RETURNS trigger AS $$
+DECLARE
+  v_customer customers%ROWTYPE;
+BEGIN
+  IF NEW.customer_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Only the admin placing or updating the order can vouch for the customer
+  IF NEW.kyc_override_by IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.kyc_override_by IS DISTINCT FROM OLD.kyc_override_by)
+    AND (
+      NEW.kyc_override_by <> auth.uid()
+      OR NOT EXISTS (SELECT 1 FROM users WHERE id = NEW.kyc_override_by AND role = 'admin')
+      OR COALESCE(trim(NEW.kyc_override_reason), '') = ''
+    )
+  THEN
+    RAISE EXCEPTION 'Only an admin can override the ID check, and a reason is required';
+  END IF;
+
+  IF NEW.kyc_override_by IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_customer FROM customers WHERE id = NEW.customer_id;
+
+  IF v_customer.kyc_verified_at IS NULL THEN
+    RAISE EXCEPTION '%''s ID has not been verified', v_customer.name;
+  END IF;
+
+  IF v_customer.id_expiry IS NOT NULL AND v_customer.id_expiry < (NEW.rent_date AT TIME ZONE 'Asia/Kolkata')::date THEN
+    RAISE EXCEPTION '%''s ID expired on %', v_customer.name, to_char(v_customer.id_expiry, 'DD Mon YYYY');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS orders_validate_kyc ON orders;
+CREATE TRIGGER orders_validate_kyc
+  BEFORE INSERT ON orders
+  FOR EACH ROW EXECUTE FUNCTION validate_order_kyc();
+
+-- Reservations are checked again when the gear actually goes out
+DROP TRIGGER IF EXISTS orders_validate_kyc_on_checkout ON orders;
+CREATE TRIGGER orders_validate_kyc_on_checkout
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'checked_out' AND OLD.status IS DISTINCT FROM 'checked_out')
+  EXECUTE FUNCTION validate_order_kyc();
+
+-- ID scans
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('kyc-documents', 'kyc-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "kyc_documents_staff_read" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'kyc-documents'
+    AND EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
+
+CREATE POLICY "kyc_documents_staff_upload" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    bucket_id = 'kyc-documents'
+    AND EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
\ No newline at end of file
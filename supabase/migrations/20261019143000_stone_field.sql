@@ -0,0 +1,259 @@
+/*
+  # Serial-numbered Equipment Units
+
+  1. New Tables
+    - `equipment_units` - the physical items owned for each catalog model in `equipments`
+      - `equipment_id`, `serial_number` (unique)
+      - `purchase_date`, `condition` (new, excellent, good, fair, poor), `notes`
+      - `status` (available, rented, maintenance, retired); available and rented are kept in step with
+        open orders, maintenance and retired are set by hand
+
+  2. Database Changes
+    - Backfill one unit per existing model and point existing order items at it
+    - `order_items.unit_id` records the exact unit rented; when an item is inserted without one the
+      first free unit of the model is allocated, and the booking overlap check now works per unit
+    - An order can hold several units of the same model
+    - `equipments.unit_count` and `equipments.available_units` count the model's units (retired units
+      excluded); `equipments.available` now means at least one unit is on the shelf
+
+  3. Security
+    - Enable RLS on equipment_units; staff and admins can read them, admins manage them
+*/
+
+CREATE TABLE IF NOT EXISTS equipment_units (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  equipment_id uuid NOT NULL REFERENCES equipments(id) ON DELETE CASCADE,
+  serial_number text NOT NULL UNIQUE,
+  purchase_date date,
+  condition text NOT NULL DEFAULT 'good' CHECK (condition IN ('new', 'excellent', 'good', 'fair', 'poor')),
+  status text NOT NULL DEFAULT 'available' CHECK (status IN ('available', 'rented', 'maintenance', 'retired')),
+  notes text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_equipment_units_equipment_id ON equipment_units(equipment_id);
+
+ALTER TABLE equipments ADD COLUMN IF NOT EXISTS unit_count integer NOT NULL DEFAULT 0;
+ALTER TABLE equipments ADD COLUMN IF NOT EXISTS available_units integer NOT NULL DEFAULT 0;
+
+-- Every existing model becomes a single unit until its real serial number is recorded
+INSERT INTO equipment_units (equipment_id, serial_number, status)
+SELECT id, 'LEGACY-' || upper(left(id::text, 8)), CASE WHEN available THEN 'available' ELSE 'rented' END
+FROM equipments
+WHERE NOT EXISTS (SELECT 1 FROM equipment_units WHERE equipment_units.equipment_id = equipments.id);
+
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS unit_id uuid REFERENCES equipment_units(id);
+
+UPDATE order_items
+SET unit_id = (SELECT id FROM equipment_units WHERE equipment_units.equipment_id = order_items.equipment_id LIMIT 1)
+WHERE unit_id IS NULL;
+
+ALTER TABLE order_items ALTER COLUMN unit_id SET NOT NULL;
+ALTER TABLE order_items DROP CONSTRAINT IF EXISTS order_items_order_equipment_unique;
+ALTER TABLE order_items ADD CONSTRAINT order_items_order_unit_unique UNIQUE (order_id, unit_id);
+
+DROP INDEX IF EXISTS idx_order_items_equipment_window;
+CREATE INDEX IF NOT EXISTS idx_order_items_unit_window ON order_items(unit_id, rent_date, due_at);
+
+CREATE OR REPLACE FUNCTION unit_has_open_order(p_unit_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    WHERE oi.unit_id = p_unit_id
+    AND o.status IN ('checked_out', 'overdue')
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Allocates a unit when none was chosen, then checks the unit is free for the item's window
+CREATE OR REPLACE FUNCTION validate_order_item_booking()
+RETURNS trigger AS $$
+DECLARE
+  v_name text;
+  v_unit equipment_units%ROWTYPE;
+  v_conflict order_items%ROWTYPE;
+BEGIN
+  -- Lock the model row so two counters cannot allocate the same unit at once
+  SELECT name INTO v_name FROM equipments WHERE id = NEW.equipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Equipment not found';
+  END IF;
+
+  IF NEW.unit_id IS NULL THEN
+    SELECT u.* INTO v_unit
+    FROM equipment_units u
+    WHERE u.equipment_id = NEW.equipment_id
+    AND u.status IN ('available', 'rented')
+    AND NOT EXISTS (
+      SELECT 1 FROM order_items oi
+      JOIN orders o ON o.id = oi.order_id
+      WHERE oi.unit_id = u.id
+      AND oi.order_id <> NEW.order_id
+      AND o.status IN ('reserved', 'checked_out', 'overdue')
+      AND order_booking_range(oi.rent_date, oi.due_at, o.status) && tstzrange(NEW.rent_date, NEW.due_at)
+    )
+    -- Units already on this order are skipped so a second line gets a different unit
+    AND NOT EXISTS (
+      SELECT 1 FROM order_items oi WHERE oi.unit_id = u.id AND oi.order_id = NEW.order_id
+    )
+    ORDER BY u.serial_number
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'No % is free from % until %',
+        v_name,
+        to_char(NEW.rent_date AT TIME ZONE 'Asia/Kolkata', 'DD Mon YYYY HH24:MI'),
+        to_char(NEW.due_at AT TIME ZONE 'Asia/Kolkata', 'DD Mon YYYY HH24:MI');
+    END IF;
+
+    NEW.unit_id := v_unit.id;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_unit FROM equipment_units WHERE id = NEW.unit_id;
+
+  IF NOT FOUND OR v_unit.equipment_id <> NEW.equipment_id THEN
+    RAISE EXCEPTION 'Unit does not belong to %', v_name;
+  END IF;
+
+  IF v_unit.status IN ('maintenance', 'retired') THEN
+    RAISE EXCEPTION '% (serial %) is %', v_name, v_unit.serial_number, CASE v_unit.status WHEN 'maintenance' THEN 'in maintenance' ELSE 'retired' END;
+  END IF;
+
+  SELECT oi.* INTO v_conflict
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  WHERE oi.unit_id = NEW.unit_id
+  AND oi.order_id <> NEW.order_id
+  AND o.status IN ('reserved', 'checked_out', 'overdue')
+  AND order_booking_range(oi.rent_date, oi.due_at, o.status) && tstzrange(NEW.rent_date, NEW.due_at)
+  ORDER BY oi.rent_date
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION '% (serial %) is already booked from % until %',
+      v_name,
+      v_unit.serial_number,
+      to_char(v_conflict.rent_date AT TIME ZONE 'Asia/Kolkata', 'DD Mon YYYY HH24:MI'),
+      to_char(v_conflict.due_at AT TIME ZONE 'Asia/Kolkata', 'DD Mon YYYY HH24:MI');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Unit status follows the orders it is on; units in maintenance or retired are left alone
+CREATE OR REPLACE FUNCTION sync_equipment_availability()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE equipment_units
+  SET status = CASE WHEN unit_has_open_order(id) THEN 'rented' ELSE 'available' END
+  WHERE id IN (SELECT unit_id FROM order_items WHERE order_id = NEW.id)
+  AND status IN ('available', 'rented');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION sync_order_item_equipment_availability()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE equipment_units
+  SET status = CASE WHEN unit_has_open_order(id) THEN 'rented' ELSE 'available' END
+  WHERE id = NEW.unit_id
+  AND status IN ('available', 'rented');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A unit put back into service goes straight to rented if it is still out on an order
+CREATE OR REPLACE FUNCTION normalize_unit_status()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status IN ('available', 'rented') THEN
+    NEW.status := CASE WHEN unit_has_open_order(NEW.id) THEN 'rented' ELSE 'available' END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS equipment_units_normalize_status ON equipment_units;
+CREATE TRIGGER equipment_units_normalize_status
+  BEFORE UPDATE OF status ON equipment_units
+  FOR EACH ROW EXECUTE FUNCTION normalize_unit_status();
+
+CREATE OR REPLACE FUNCTION refresh_equipment_stock(p_equipment_id uuid)
+RETURNS void AS $$
+  UPDATE equipments
+  SET
+    unit_count = counts.unit_count,
+    available_units = counts.available_units,
+    available = counts.available_units > 0
+  FROM (
+    SELECT
+      count(*) FILTER (WHERE status <> 'retired') AS unit_count,
+      count(*) FILTER (WHERE status = 'available') AS available_units
+    FROM equipment_units
+    WHERE equipment_id = p_equipment_id
+  ) AS counts
+  WHERE equipments.id = p_equipment_id;
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION sync_equipment_stock()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM refresh_equipment_stock(OLD.equipment_id);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    PERFORM refresh_equipment_stock(NEW.equipment_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS equipment_units_sync_stock ON equipment_units;
+CREATE TRIGGER equipment_units_sync_stock
+  AFTER INSERT OR UPDATE OR DELETE ON equipment_units
+  FOR EACH ROW EXECUTE FUNCTION sync_equipment_stock();
+
+-- Bring unit statuses and model counts in line with the orders open today
+UPDATE equipment_units
+SET status = CASE WHEN unit_has_open_order(id) THEN 'rented' ELSE 'available' END
+WHERE status IN ('available', 'rented');
+
+SELECT refresh_equipment_stock(id) FROM equipments;
+
+-- Row Level Security
+ALTER TABLE equipment_units ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "equipment_units_staff_view_all" ON equipment_units
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
+
+CREATE POLICY "equipment_units_admin_manage" ON equipment_units
+  FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
\ No newline at end of file
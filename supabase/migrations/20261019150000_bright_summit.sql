@@ -0,0 +1,40 @@
+/*
+  # Equipment Brands, Mounts and Specifications
+
+  1. Database Changes
+    - Add `brand` and `mount` to equipments; mount applies to camera bodies and lenses
+    - Add `specs` (jsonb) holding the category's spec sheet, e.g. sensor size for bodies or focal
+      range for lenses; the app defines which fields each category has
+    - Backfill brands from model names where the brand is obvious
+    - Index brand, mount and specs for catalog filters
+*/
+
+ALTER TABLE equipments ADD COLUMN IF NOT EXISTS brand text;
+ALTER TABLE equipments ADD COLUMN IF NOT EXISTS mount text;
+ALTER TABLE equipments ADD COLUMN IF NOT EXISTS specs jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE equipments DROP CONSTRAINT IF EXISTS equipments_specs_object_check;
+ALTER TABLE equipments ADD CONSTRAINT equipments_specs_object_check CHECK (jsonb_typeof(specs) = 'object');
+
+-- Best guess for the demo catalog; admins can correct brands from the equipment form
+UPDATE equipments
+SET brand = matched.brand
+FROM (
+  VALUES
+    ('Sony', '(^|\s)(sony|alpha|a7|fx\d)'),
+    ('Canon', '(^|\s)(canon|eos)'),
+    ('Nikon', '(^|\s)nikon'),
+    ('Panasonic', '(^|\s)(panasonic|lumix)'),
+    ('Fujifilm', '(^|\s)(fujifilm|fuji)'),
+    ('Sigma', '(^|\s)sigma'),
+    ('DJI', '(^|\s)(dji|ronin)'),
+    ('Godox', '(^|\s)godox'),
+    ('Aputure', '(^|\s)aputure'),
+    ('Rode', '(^|\s)r(o|ø)de'),
+    ('Manfrotto', '(^|\s)manfrotto')
+) AS matched(brand, pattern)
+WHERE equipments.brand IS NULL AND equipments.name ~* matched.pattern;
+
+CREATE INDEX IF NOT EXISTS idx_equipments_brand ON equipments(brand);
+CREATE INDEX IF NOT EXISTS idx_equipments_mount ON equipments(mount);
+CREATE INDEX IF NOT EXISTS idx_equipments_specs ON equipments USING gin (specs);
\ No newline at end of file
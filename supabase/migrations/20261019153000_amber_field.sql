@@ -0,0 +1,42 @@
+/*
+  # Catalog Search
+
+  1. Database Changes
+    - Add `description` to equipments
+    - Add `search_vector`, generated from name, brand, mount, description and the spec sheet, for
+      full-text catalog search
+    - Add `rental_count`, the number of times a model has been rented, kept up to date as order
+      items are added; used to sort the catalog by popularity
+    - Index rate_24hr for price range filters
+*/
+
+ALTER TABLE equipments ADD COLUMN IF NOT EXISTS description text;
+
+ALTER TABLE equipments DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE equipments ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(name, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(brand, '') || ' ' || coalesce(mount, '')), 'B') ||
+  setweight(to_tsvector('simple', coalesce(description, '')), 'C') ||
+  setweight(jsonb_to_tsvector('simple', specs, '["string", "numeric"]'), 'D')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_equipments_search_vector ON equipments USING gin (search_vector);
+CREATE INDEX IF NOT EXISTS idx_equipments_rate_24hr ON equipments(rate_24hr);
+
+ALTER TABLE equipments ADD COLUMN IF NOT EXISTS rental_count integer NOT NULL DEFAULT 0;
+
+UPDATE equipments
+SET rental_count = (SELECT count(*) FROM order_items WHERE order_items.equipment_id = equipments.id);
+
+CREATE OR REPLACE FUNCTION count_equipment_rental()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE equipments SET rental_count = rental_count + 1 WHERE id = NEW.equipment_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS order_items_count_rental ON order_items;
+CREATE TRIGGER order_items_count_rental
+  AFTER INSERT ON order_items
+  FOR EACH ROW EXECUTE FUNCTION count_equipment_rental();
\ No newline at end of file
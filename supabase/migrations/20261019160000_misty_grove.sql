@@ -0,0 +1,95 @@
+/*
+  # Equipment Compatibility
+
+  1. New Tables
+    - `equipment_compatibility` - links two catalog models that work together
+      - `equipment_id`, `compatible_id`
+      - `kind` (mount, battery, accessory); for accessory links `compatible_id` is the accessory of
+        `equipment_id`, mount and battery links read the same both ways
+      - Each pair is stored once per kind
+
+  2. Database Changes
+    - `get_frequently_rented_with(p_equipment_ids, p_limit)` counts how often other models were rented
+      on the same orders as the given ones; cancelled orders are ignored
+
+  3. Security
+    - Enable RLS on equipment_compatibility; staff and admins can read links, admins manage them
+*/
+
+CREATE TABLE IF NOT EXISTS equipment_compatibility (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  equipment_id uuid NOT NULL REFERENCES equipments(id) ON DELETE CASCADE,
+  compatible_id uuid NOT NULL REFERENCES equipments(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('mount', 'battery', 'accessory')),
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT equipment_compatibility_distinct CHECK (equipment_id <> compatible_id),
+  CONSTRAINT equipment_compatibility_unique UNIQUE (equipment_id, compatible_id, kind)
+);
+
+CREATE INDEX IF NOT EXISTS idx_equipment_compatibility_compatible_id ON equipment_compatibility(compatible_id);
+
+-- Mount and battery links are symmetric, so the reverse pair would be a duplicate
+CREATE OR REPLACE FUNCTION validate_equipment_compatibility()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.kind <> 'accessory' AND EXISTS (
+    SELECT 1 FROM equipment_compatibility
+    WHERE equipment_id = NEW.compatible_id
+    AND compatible_id = NEW.equipment_id
+    AND kind = NEW.kind
+  ) THEN
+    RAISE EXCEPTION 'These items are already linked'
+      USING ERRCODE = '23505';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS equipment_compatibility_validate ON equipment_compatibility;
+CREATE TRIGGER equipment_compatibility_validate
+  BEFORE INSERT OR UPDATE ON equipment_compatibility
+  FOR EACH ROW EXECUTE FUNCTION validate_equipment_compatibility();
+
+CREATE OR REPLACE FUNCTION get_frequently_rented_with(p_equipment_ids uuid[], p_limit integer DEFAULT 6)
+RETURNS TABLE (equipment_id uuid, times_rented bigint) AS $$
+  SELECT other.equipment_id, count(DISTINCT other.order_id) AS times_rented
+  FROM order_items item
+  JOIN orders o ON o.id = item.order_id
+  JOIN order_items other ON other.order_id = item.order_id
+  WHERE item.equipment_id = ANY(p_equipment_ids)
+  AND NOT other.equipment_id = ANY(p_equipment_ids)
+  AND o.status <> 'cancelled'
+  GROUP BY other.equipment_id
+  ORDER BY times_rented DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+ALTER TABLE equipment_compatibility ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "equipment_compatibility_staff_view_all" ON equipment_compatibility
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
+
+CREATE POLICY "equipment_compatibility_admin_manage" ON equipment_compatibility
+  FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
\ No newline at end of file
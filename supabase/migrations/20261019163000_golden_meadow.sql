@@ -0,0 +1,160 @@
+/*
+  # Equipment Bundles
+
+  1. New Tables
+    - `bundles` - kits rented as one item, e.g. "Interview kit"
+      - `name`, `description`, `image_url`
+      - `rate_12hr`, `rate_24hr` - the kit's own price, replacing the sum of its components
+      - `active` - inactive kits are hidden from the catalog
+    - `bundle_items` - the equipment models in a kit and how many units of each
+
+  2. Database Changes
+    - `save_bundle(p_bundle_id, p_bundle, p_items)` creates or updates a kit and replaces its component
+      list in one transaction
+    - `order_items.bundle_id` - the kit an item was rented as part of; every component is booked as its
+      own order item, so the order fails if any component has no free unit
+
+  3. Security
+    - Enable RLS on bundles and bundle_items; anyone can read active kits, staff can read all of them,
+      admins manage them
+*/
+
+CREATE TABLE IF NOT EXISTS bundles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  image_url text NOT NULL DEFAULT '',
+  rate_12hr numeric(10,2) NOT NULL CHECK (rate_12hr >= 0),
+  rate_24hr numeric(10,2) NOT NULL CHECK (rate_24hr >= 0),
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS bundle_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bundle_id uuid NOT NULL REFERENCES bundles(id) ON DELETE CASCADE,
+  -- Equipment that is part of a kit cannot be deleted until it is taken out of the kit
+  equipment_id uuid NOT NULL REFERENCES equipments(id),
+  quantity integer NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  CONSTRAINT bundle_items_bundle_equipment_unique UNIQUE (bundle_id, equipment_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bundle_items_bundle_id ON bundle_items(bundle_id);
+CREATE INDEX IF NOT EXISTS idx_bundle_items_equipment_id ON bundle_items(equipment_id);
+
+-- Creates the kit when p_bundle_id is null, otherwise updates it; the component list is replaced
+CREATE OR REPLACE FUNCTION save_bundle(p_bundle_id uuid, p_bundle jsonb, p_items jsonb)
+RETURNS uuid AS $$
+DECLARE
+  v_bundle_id uuid;
+BEGIN
+  IF jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A kit needs at least one item';
+  END IF;
+
+  IF p_bundle_id IS NULL THEN
+    INSERT INTO bundles (name, description, image_url, rate_12hr, rate_24hr, active)
+    SELECT name, description, coalesce(image_url, ''), rate_12hr, rate_24hr, coalesce(active, true)
+    FROM jsonb_populate_record(NULL::bundles, p_bundle)
+    RETURNING id INTO v_bundle_id;
+  ELSE
+    UPDATE bundles
+    SET name = b.name,
+        description = b.description,
+        image_url = coalesce(b.image_url, ''),
+        rate_12hr = b.rate_12hr,
+        rate_24hr = b.rate_24hr,
+        active = coalesce(b.active, true)
+    FROM jsonb_populate_record(NULL::bundles, p_bundle) b
+    WHERE bundles.id = p_bundle_id
+    RETURNING bundles.id INTO v_bundle_id;
+
+    IF v_bundle_id IS NULL THEN
+      RAISE EXCEPTION 'Kit not found';
+    END IF;
+  END IF;
+
+  DELETE FROM bundle_items WHERE bundle_id = v_bundle_id;
+
+  INSERT INTO bundle_items (bundle_id, equipment_id, quantity)
+  SELECT v_bundle_id, equipment_id, coalesce(quantity, 1)
+  FROM jsonb_populate_recordset(NULL::bundle_items, p_items);
+
+  RETURN v_bundle_id;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS bundle_id uuid REFERENCES bundles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_order_items_bundle_id ON order_items(bundle_id);
+
+ALTER TABLE bundles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bundle_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "bundles_public_view_active" ON bundles
+  FOR SELECT TO public
+  USING (active = true);
+
+CREATE POLICY "bundles_staff_view_all" ON bundles
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
+
+CREATE POLICY "bundles_admin_manage" ON bundles
+  FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+CREATE POLICY "bundle_items_public_view_active" ON bundle_items
+  FOR SELECT TO public
+  USING (
+    EXISTS (
+      SELECT 1 FROM bundles
+      WHERE bundles.id = bundle_items.bundle_id
+      AND bundles.active = true
+    )
+  );
+
+CREATE POLICY "bundle_items_staff_view_all" ON bundle_items
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
+
+CREATE POLICY "bundle_items_admin_manage" ON bundle_items
+  FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
\ No newline at end of file
@@ -0,0 +1,189 @@
+/*
+  # Maintenance Tickets
+
+  1. New Tables
+    - `maintenance_tickets` - repairs and servicing of a single unit
+      - `unit_id`, `equipment_id` (filled in from the unit)
+      - `reason`, `vendor`, `cost`, `notes`
+      - `opened_at`, `closed_at`; a ticket is open until `closed_at` is set
+      - `opened_by`, `closed_by`
+
+  2. Database Changes
+    - A unit with an open ticket is in maintenance: it cannot be allocated to new orders and drops out
+      of the model's available stock; closing its last ticket puts it back in service
+    - A unit on rent cannot get a ticket until it is checked in
+    - A reservation cannot be checked out while one of its units has an open ticket
+
+  3. Security
+    - Enable RLS on maintenance_tickets; staff and admins can read tickets, admins manage them
+*/
+
+CREATE TABLE IF NOT EXISTS maintenance_tickets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  equipment_id uuid NOT NULL REFERENCES equipments(id) ON DELETE CASCADE,
+  unit_id uuid NOT NULL REFERENCES equipment_units(id) ON DELETE CASCADE,
+  reason text NOT NULL,
+  vendor text,
+  cost numeric(10,2) NOT NULL DEFAULT 0 CHECK (cost >= 0),
+  notes text,
+  opened_at timestamptz NOT NULL DEFAULT now(),
+  closed_at timestamptz,
+  opened_by uuid REFERENCES users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  closed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT maintenance_tickets_closed_after_opened CHECK (closed_at IS NULL OR closed_at >= opened_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_maintenance_tickets_unit_id ON maintenance_tickets(unit_id);
+CREATE INDEX IF NOT EXISTS idx_maintenance_tickets_equipment_id ON maintenance_tickets(equipment_id);
+CREATE INDEX IF NOT EXISTS idx_maintenance_tickets_open ON maintenance_tickets(unit_id) WHERE closed_at IS NULL;
+
+CREATE OR REPLACE FUNCTION unit_has_open_ticket(p_unit_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM maintenance_tickets
+    WHERE unit_id = p_unit_id
+    AND closed_at IS NULL
+  );
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION prepare_maintenance_ticket()
+RETURNS trigger AS $$
+DECLARE
+  v_unit equipment_units%ROWTYPE;
+BEGIN
+  SELECT * INTO v_unit FROM equipment_units WHERE id = NEW.unit_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unit not found';
+  END IF;
+
+  NEW.equipment_id := v_unit.equipment_id;
+
+  IF NEW.closed_at IS NULL
+    AND (TG_OP = 'INSERT' OR OLD.closed_at IS NOT NULL OR NEW.unit_id <> OLD.unit_id)
+    AND unit_has_open_order(NEW.unit_id)
+  THEN
+    RAISE EXCEPTION 'Unit % is on rent; check it in before opening a ticket', v_unit.serial_number;
+  END IF;
+
+  IF NEW.closed_at IS NOT NULL AND (TG_OP = 'INSERT' OR OLD.closed_at IS NULL) THEN
+    NEW.closed_by := auth.uid();
+  ELSIF NEW.closed_at IS NULL THEN
+    NEW.closed_by := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS maintenance_tickets_prepare ON maintenance_tickets;
+CREATE TRIGGER maintenance_tickets_prepare
+  BEFORE INSERT OR UPDATE ON maintenance_tickets
+  FOR EACH ROW EXECUTE FUNCTION prepare_maintenance_ticket();
+
+-- Moves the unit into maintenance while it has an open ticket and back into service after the last
+-- one closes; retired units are left alone
+CREATE OR REPLACE FUNCTION refresh_unit_maintenance(p_unit_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF unit_has_open_ticket(p_unit_id) THEN
+    UPDATE equipment_units SET status = 'maintenance'
+    WHERE id = p_unit_id AND status IN ('available', 'rented');
+  ELSE
+    UPDATE equipment_units SET status = 'available'
+    WHERE id = p_unit_id AND status = 'maintenance';
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION sync_unit_maintenance()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM refresh_unit_maintenance(OLD.unit_id);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    PERFORM refresh_unit_maintenance(NEW.unit_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS maintenance_tickets_sync_unit ON maintenance_tickets;
+CREATE TRIGGER maintenance_tickets_sync_unit
+  AFTER INSERT OR UPDATE OR DELETE ON maintenance_tickets
+  FOR EACH ROW EXECUTE FUNCTION sync_unit_maintenance();
+
+-- A unit with an open ticket stays in maintenance even if it is set back to available by hand
+CREATE OR REPLACE FUNCTION normalize_unit_status()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status IN ('available', 'rented') AND unit_has_open_ticket(NEW.id) THEN
+    NEW.status := 'maintenance';
+  ELSIF NEW.status IN ('available', 'rented') THEN
+    NEW.status := CASE WHEN unit_has_open_order(NEW.id) THEN 'rented' ELSE 'available' END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION validate_order_units_in_service()
+RETURNS trigger AS $$
+DECLARE
+  v_name text;
+  v_serial text;
+BEGIN
+  SELECT e.name, u.serial_number INTO v_name, v_serial
+  FROM order_items oi
+  JOIN equipment_units u ON u.id = oi.unit_id
+  JOIN equipments e ON e.id = oi.equipment_id
+  WHERE oi.order_id = NEW.id
+  AND unit_has_open_ticket(oi.unit_id)
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION '% (serial %) is in maintenance', v_name, v_serial;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS orders_validate_units_on_checkout ON orders;
+CREATE TRIGGER orders_validate_units_on_checkout
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'checked_out' AND OLD.status = 'reserved')
+  EXECUTE FUNCTION validate_order_units_in_service();
+
+ALTER TABLE maintenance_tickets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "maintenance_tickets_staff_view_all" ON maintenance_tickets
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
+
+CREATE POLICY "maintenance_tickets_admin_manage" ON maintenance_tickets
+  FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
\ No newline at end of file
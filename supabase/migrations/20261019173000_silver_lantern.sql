@@ -0,0 +1,125 @@
+/*
+  # Order Inspections
+
+  1. New Tables
+    - `order_inspections` - condition report taken when an order is checked out or checked in
+      - `order_id`, `kind` (check_out or check_in); one of each per order
+      - `items` - jsonb results per order item: the checklist conditions, notes and photo paths
+      - `notes`, `inspected_by`, `inspected_at`
+      - `damage_charge_id` - the damage charge raised from comparing the two inspections
+
+  2. Database Changes
+    - `add_inspection_damage_charge` adds a damage charge to the order and links it to the check-in
+      inspection in one transaction; an inspection can only raise one charge
+    - Private `inspection-photos` storage bucket for photos taken during inspections
+
+  3. Security
+    - Enable RLS on order_inspections; staff and admins can read and record inspections
+    - Staff and admins can read and upload inspection photos
+*/
+
+CREATE TABLE IF NOT EXISTS order_inspections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('check_out', 'check_in')),
+  items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  notes text,
+  inspected_by uuid REFERENCES users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  inspected_at timestamptz NOT NULL DEFAULT now(),
+  damage_charge_id uuid REFERENCES order_charges(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT order_inspections_one_per_kind UNIQUE (order_id, kind)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_inspections_order_id ON order_inspections(order_id);
+
+CREATE OR REPLACE FUNCTION add_inspection_damage_charge(p_inspection_id uuid, p_charge jsonb)
+RETURNS uuid AS $$
+DECLARE
+  v_inspection order_inspections%ROWTYPE;
+  v_charge_id uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('admin', 'staff')
+  ) THEN
+    RAISE EXCEPTION 'Only staff can raise damage charges';
+  END IF;
+
+  SELECT * INTO v_inspection
+  FROM order_inspections
+  WHERE id = p_inspection_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inspection not found';
+  END IF;
+
+  IF v_inspection.kind <> 'check_in' THEN
+    RAISE EXCEPTION 'Damage is charged from the check-in inspection';
+  END IF;
+
+  IF v_inspection.damage_charge_id IS NOT NULL THEN
+    RAISE EXCEPTION 'A damage charge was already raised from this inspection';
+  END IF;
+
+  INSERT INTO order_charges (order_id, kind, description, amount, tax, total, created_by)
+  SELECT v_inspection.order_id, 'damage', description, amount, tax, total, auth.uid()
+  FROM jsonb_populate_record(NULL::order_charges, p_charge)
+  RETURNING id INTO v_charge_id;
+
+  UPDATE order_inspections SET damage_charge_id = v_charge_id WHERE id = p_inspection_id;
+
+  RETURN v_charge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+ALTER TABLE order_inspections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "order_inspections_staff_view_all" ON order_inspections
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
+
+CREATE POLICY "order_inspections_staff_insert" ON order_inspections
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
+
+-- Inspection photos
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('inspection-photos', 'inspection-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "inspection_photos_staff_read" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'inspection-photos'
+    AND EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
+
+CREATE POLICY "inspection_photos_staff_upload" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    bucket_id = 'inspection-photos'
+    AND EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
\ No newline at end of file
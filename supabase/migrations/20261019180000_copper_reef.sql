@@ -0,0 +1,235 @@
+/*
+  # Damage and Loss Claims
+
+  1. New Tables
+    - `damage_claims` - gear that came back broken, or did not come back, on a returned order
+      - `order_id`, `order_item_id`, `equipment_id`, `unit_id` (filled in from the order item)
+      - `kind` (damage or loss), `description`, `photo_paths`
+      - `estimated_cost`, `actual_cost`, `customer_liability`
+      - `status` (open, settled or written_off), `resolution_notes`, `resolved_by`, `resolved_at`
+      - `maintenance_ticket_id`, `charge_id`, `payment_id` - what the claim created
+
+  2. Database Changes
+    - Raising a claim opens a maintenance ticket on the unit, which takes it out of service
+    - `resolve_damage_claim` settles or writes off a claim in one transaction: the customer's
+      liability is added to the order as a damage charge and, when collected, recorded as a payment;
+      the actual cost is booked on the maintenance ticket, and lost units are retired
+
+  3. Security
+    - Enable RLS on damage_claims; staff and admins can read and raise claims, admins resolve them
+    - Private `claim-photos` storage bucket that staff and admins can read and upload to
+*/
+
+CREATE TABLE IF NOT EXISTS damage_claims (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  order_item_id uuid NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  equipment_id uuid NOT NULL REFERENCES equipments(id) ON DELETE CASCADE,
+  unit_id uuid NOT NULL REFERENCES equipment_units(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('damage', 'loss')),
+  description text NOT NULL,
+  photo_paths text[] NOT NULL DEFAULT '{}',
+  estimated_cost numeric(10,2) NOT NULL DEFAULT 0 CHECK (estimated_cost >= 0),
+  actual_cost numeric(10,2) CHECK (actual_cost >= 0),
+  customer_liability numeric(10,2) NOT NULL DEFAULT 0 CHECK (customer_liability >= 0),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'settled', 'written_off')),
+  resolution_notes text,
+  maintenance_ticket_id uuid REFERENCES maintenance_tickets(id) ON DELETE SET NULL,
+  charge_id uuid REFERENCES order_charges(id) ON DELETE SET NULL,
+  payment_id uuid REFERENCES payments(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  resolved_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  resolved_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_damage_claims_order_id ON damage_claims(order_id);
+CREATE INDEX IF NOT EXISTS idx_damage_claims_unit_id ON damage_claims(unit_id);
+CREATE INDEX IF NOT EXISTS idx_damage_claims_open ON damage_claims(created_at) WHERE status = 'open';
+
+-- Runs as the owner so counter staff can take the unit out of service without managing tickets
+CREATE OR REPLACE FUNCTION open_damage_claim()
+RETURNS trigger AS $$
+DECLARE
+  v_item order_items%ROWTYPE;
+  v_status text;
+BEGIN
+  SELECT * INTO v_item FROM order_items WHERE id = NEW.order_item_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order item not found';
+  END IF;
+
+  SELECT status INTO v_status FROM orders WHERE id = v_item.order_id;
+
+  IF v_status <> 'returned' THEN
+    RAISE EXCEPTION 'Check the order in before raising a claim';
+  END IF;
+
+  NEW.order_id := v_item.order_id;
+  NEW.equipment_id := v_item.equipment_id;
+  NEW.unit_id := v_item.unit_id;
+  NEW.status := 'open';
+  NEW.actual_cost := NULL;
+  NEW.charge_id := NULL;
+  NEW.payment_id := NULL;
+  NEW.resolved_by := NULL;
+  NEW.resolved_at := NULL;
+
+  INSERT INTO maintenance_tickets (unit_id, reason, cost, notes)
+  VALUES (
+    NEW.unit_id,
+    CASE WHEN NEW.kind = 'loss' THEN 'Lost: ' ELSE 'Damaged: ' END || NEW.description,
+    NEW.estimated_cost,
+    'Raised from a ' || NEW.kind || ' claim'
+  )
+  RETURNING id INTO NEW.maintenance_ticket_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS damage_claims_open ON damage_claims;
+CREATE TRIGGER damage_claims_open
+  BEFORE INSERT ON damage_claims
+  FOR EACH ROW EXECUTE FUNCTION open_damage_claim();
+
+-- p_charge is an order_charges row as JSON; p_payment a payments row as JSON when the liability
+-- is collected on the spot
+CREATE OR REPLACE FUNCTION resolve_damage_claim(
+  p_claim_id uuid,
+  p_status text,
+  p_actual_cost numeric,
+  p_charge jsonb,
+  p_payment jsonb,
+  p_notes text
+)
+RETURNS void AS $$
+DECLARE
+  v_claim damage_claims%ROWTYPE;
+  v_charge_id uuid;
+  v_payment_id uuid;
+BEGIN
+  SELECT * INTO v_claim
+  FROM damage_claims
+  WHERE id = p_claim_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Claim not found';
+  END IF;
+
+  IF v_claim.status <> 'open' THEN
+    RAISE EXCEPTION 'This claim is already %', replace(v_claim.status, '_', ' ');
+  END IF;
+
+  IF p_status NOT IN ('settled', 'written_off') THEN
+    RAISE EXCEPTION 'A claim is either settled or written off';
+  END IF;
+
+  IF p_status = 'written_off' AND (p_charge IS NOT NULL OR p_payment IS NOT NULL) THEN
+    RAISE EXCEPTION 'A written-off claim is not charged to the customer';
+  END IF;
+
+  IF p_charge IS NOT NULL THEN
+    INSERT INTO order_charges (order_id, kind, description, amount, tax, total)
+    SELECT v_claim.order_id, 'damage', description, amount, tax, total
+    FROM jsonb_populate_record(NULL::order_charges, p_charge)
+    RETURNING id INTO v_charge_id;
+  END IF;
+
+  IF p_payment IS NOT NULL THEN
+    INSERT INTO payments (order_id, kind, method, amount, reference, notes, recorded_by)
+    SELECT v_claim.order_id, 'payment', method, amount, reference, notes, auth.uid()
+    FROM jsonb_populate_record(NULL::payments, p_payment)
+    RETURNING id INTO v_payment_id;
+  END IF;
+
+  -- Retire a lost unit before closing its ticket, so it does not go back on the shelf
+  IF v_claim.kind = 'loss' THEN
+    UPDATE equipment_units SET status = 'retired' WHERE id = v_claim.unit_id;
+  END IF;
+
+  UPDATE maintenance_tickets
+  SET cost = COALESCE(p_actual_cost, v_claim.estimated_cost),
+      closed_at = CASE WHEN v_claim.kind = 'loss' THEN COALESCE(closed_at, now()) ELSE closed_at END
+  WHERE id = v_claim.maintenance_ticket_id;
+
+  UPDATE damage_claims
+  SET status = p_status,
+      actual_cost = p_actual_cost,
+      customer_liability = COALESCE((p_charge ->> 'total')::numeric, 0),
+      resolution_notes = p_notes,
+      charge_id = v_charge_id,
+      payment_id = v_payment_id,
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE id = p_claim_id;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE damage_claims ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "damage_claims_staff_view_all" ON damage_claims
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
+
+CREATE POLICY "damage_claims_staff_insert" ON damage_claims
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
+
+CREATE POLICY "damage_claims_admin_manage" ON damage_claims
+  FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+-- Claim photos
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('claim-photos', 'claim-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "claim_photos_staff_read" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'claim-photos'
+    AND EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
+
+CREATE POLICY "claim_photos_staff_upload" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    bucket_id = 'claim-photos'
+    AND EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
\ No newline at end of file
@@ -0,0 +1,147 @@
+/*
+  # Rental Extensions
+
+  1. New Tables
+    - `order_extensions` - extra time added to an item that is out, billed as its own invoice line
+      - `order_id`, `order_item_id`, `extra_hours`, `previous_due_at`, `new_due_at`
+      - `pricing` - the item priced for its whole new duration; `previous_total` what was already billed
+      - `amount` (the difference), `tax`, `total`, `created_by`
+
+  2. Database Changes
+    - `extend_order` lengthens the chosen items of an order that is out, in one transaction: each unit
+      must be free of other bookings until the new due time, the extension is recorded, its total is
+      added to the order's `total_cost`, and an overdue order that is no longer late goes back to checked out
+
+  3. Security
+    - Enable RLS on order_extensions; staff and admins can read them, and extend through the function
+*/
+
+CREATE TABLE IF NOT EXISTS order_extensions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  order_item_id uuid NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  extra_hours integer NOT NULL CHECK (extra_hours > 0),
+  previous_due_at timestamptz NOT NULL,
+  new_due_at timestamptz NOT NULL,
+  pricing jsonb,
+  previous_total numeric(10,2) NOT NULL DEFAULT 0,
+  amount numeric(10,2) NOT NULL CHECK (amount >= 0),
+  tax jsonb,
+  total numeric(10,2) NOT NULL CHECK (total >= 0),
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_extensions_order_id ON order_extensions(order_id);
+
+-- p_lines holds one order_extensions row as JSON per item to extend, priced by the app
+CREATE OR REPLACE FUNCTION extend_order(p_order_id uuid, p_extra_hours integer, p_lines jsonb)
+RETURNS void AS $$
+DECLARE
+  v_status text;
+  v_line jsonb;
+  v_item order_items%ROWTYPE;
+  v_name text;
+  v_serial text;
+  v_new_due timestamptz;
+  v_conflict order_items%ROWTYPE;
+  v_total numeric := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('admin', 'staff')
+  ) THEN
+    RAISE EXCEPTION 'Only staff can extend rentals';
+  END IF;
+
+  SELECT status INTO v_status FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_status NOT IN ('checked_out', 'overdue') THEN
+    RAISE EXCEPTION 'Only rentals that are out can be extended';
+  END IF;
+
+  IF COALESCE(p_extra_hours, 0) <= 0 THEN
+    RAISE EXCEPTION 'Extension must be longer than zero hours';
+  END IF;
+
+  IF COALESCE(jsonb_array_length(p_lines), 0) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one item to extend';
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    SELECT * INTO v_item
+    FROM order_items
+    WHERE id = (v_line ->> 'order_item_id')::uuid
+    AND order_id = p_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item is not on this order';
+    END IF;
+
+    -- Lock the model row, as booking does, so a new order cannot take the unit meanwhile
+    SELECT name INTO v_name FROM equipments WHERE id = v_item.equipment_id FOR UPDATE;
+    SELECT serial_number INTO v_serial FROM equipment_units WHERE id = v_item.unit_id;
+
+    v_new_due := v_item.due_at + make_interval(hours => p_extra_hours);
+
+    SELECT oi.* INTO v_conflict
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    WHERE oi.unit_id = v_item.unit_id
+    AND oi.order_id <> p_order_id
+    AND o.status IN ('reserved', 'checked_out', 'overdue')
+    AND order_booking_range(oi.rent_date, oi.due_at, o.status) && tstzrange(v_item.due_at, v_new_due)
+    ORDER BY oi.rent_date
+    LIMIT 1;
+
+    IF FOUND THEN
+      RAISE EXCEPTION '% (serial %) is booked from % until %, so it cannot be kept until %',
+        v_name,
+        v_serial,
+        to_char(v_conflict.rent_date AT TIME ZONE 'Asia/Kolkata', 'DD Mon YYYY HH24:MI'),
+        to_char(v_conflict.due_at AT TIME ZONE 'Asia/Kolkata', 'DD Mon YYYY HH24:MI'),
+        to_char(v_new_due AT TIME ZONE 'Asia/Kolkata', 'DD Mon YYYY HH24:MI');
+    END IF;
+
+    -- Setting due_at as well fires the trigger that moves the order's due time
+    UPDATE order_items
+    SET duration_hours = duration_hours + p_extra_hours,
+        due_at = v_new_due
+    WHERE id = v_item.id;
+
+    INSERT INTO order_extensions (
+      order_id, order_item_id, extra_hours, previous_due_at, new_due_at,
+      pricing, previous_total, amount, tax, total
+    )
+    SELECT
+      p_order_id, v_item.id, p_extra_hours, v_item.due_at, v_new_due,
+      pricing, previous_total, amount, tax, total
+    FROM jsonb_populate_record(NULL::order_extensions, v_line);
+
+    v_total := v_total + COALESCE((v_line ->> 'total')::numeric, 0);
+  END LOOP;
+
+  UPDATE orders
+  SET total_cost = total_cost + v_total,
+      status = CASE WHEN status = 'overdue' AND due_at > now() THEN 'checked_out' ELSE status END
+  WHERE id = p_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+ALTER TABLE order_extensions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "order_extensions_staff_view_all" ON order_extensions
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
\ No newline at end of file
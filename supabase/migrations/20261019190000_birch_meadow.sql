@@ -0,0 +1,137 @@
+/*
+  # Order Cancellation
+
+  1. Database Changes
+    - Orders gain `cancelled_at`, `cancelled_by` and a required `cancellation_reason`, stamped by the
+      database whenever an order is cancelled
+    - Order charges gain the `cancellation` kind for fees under the cancellation policy
+    - A cancelled order is only owed its cancellation fees: `order_amount_due` and the invoice
+      payment status follow that
+    - `cancel_order` cancels a reservation, or a rental handed over by mistake, in one transaction:
+      it raises the fee, refunds what was paid beyond it against the original payments, and
+      releases any deposit held
+
+  2. Security
+    - No new tables; cancelling follows the existing staff access to orders, charges and payments
+*/
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS cancelled_at timestamptz;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS cancelled_by uuid REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS cancellation_reason text;
+
+ALTER TABLE order_charges DROP CONSTRAINT IF EXISTS order_charges_kind_check;
+ALTER TABLE order_charges ADD CONSTRAINT order_charges_kind_check
+  CHECK (kind IN ('late_fee', 'damage', 'cancellation', 'other'));
+
+CREATE OR REPLACE FUNCTION stamp_order_cancellation()
+RETURNS trigger AS $$
+BEGIN
+  IF btrim(COALESCE(NEW.cancellation_reason, '')) = '' THEN
+    RAISE EXCEPTION 'A reason is required to cancel an order';
+  END IF;
+
+  NEW.cancelled_at := now();
+  NEW.cancelled_by := auth.uid();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS orders_stamp_cancellation ON orders;
+CREATE TRIGGER orders_stamp_cancellation
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled')
+  EXECUTE FUNCTION stamp_order_cancellation();
+
+CREATE OR REPLACE FUNCTION order_amount_due(p_order_id uuid)
+RETURNS numeric AS $$
+  SELECT CASE
+    WHEN o.status = 'cancelled' THEN COALESCE((
+      SELECT sum(total) FROM order_charges
+      WHERE order_id = o.id AND kind = 'cancellation'
+    ), 0)
+    ELSE o.total_cost
+  END
+  FROM orders o
+  WHERE o.id = p_order_id;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION order_payment_status(p_order_id uuid)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN order_amount_paid(p_order_id) >= order_amount_due(p_order_id) THEN 'paid'
+    WHEN order_amount_paid(p_order_id) > 0 THEN 'partial'
+    ELSE 'unpaid'
+  END;
+$$ LANGUAGE sql STABLE;
+
+-- p_fee is an order_charges row as JSON, or null when the cancellation is free
+CREATE OR REPLACE FUNCTION cancel_order(p_order_id uuid, p_reason text, p_fee jsonb)
+RETURNS void AS $$
+DECLARE
+  v_status text;
+  v_fee numeric := 0;
+  v_refund numeric;
+  v_amount numeric;
+  v_payment payments%ROWTYPE;
+  v_held numeric;
+  v_deposit_method text;
+BEGIN
+  SELECT status INTO v_status FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_status NOT IN ('reserved', 'checked_out') THEN
+    RAISE EXCEPTION 'Only reservations and rentals that are not yet late can be cancelled';
+  END IF;
+
+  UPDATE orders
+  SET status = 'cancelled',
+      cancellation_reason = btrim(p_reason)
+  WHERE id = p_order_id;
+
+  IF p_fee IS NOT NULL THEN
+    INSERT INTO order_charges (order_id, kind, description, amount, tax, total)
+    SELECT p_order_id, 'cancellation', description, amount, tax, total
+    FROM jsonb_populate_record(NULL::order_charges, p_fee);
+
+    v_fee := (p_fee ->> 'total')::numeric;
+  END IF;
+
+  -- Refund what was paid beyond the fee, newest payment first, the same way it was paid
+  v_refund := order_amount_paid(p_order_id) - v_fee;
+
+  FOR v_payment IN
+    SELECT * FROM payments
+    WHERE order_id = p_order_id AND kind = 'payment'
+    ORDER BY created_at DESC
+  LOOP
+    EXIT WHEN v_refund <= 0;
+
+    v_amount := LEAST(v_refund, v_payment.amount);
+    INSERT INTO payments (order_id, kind, method, amount, reference, notes, recorded_by)
+    VALUES (p_order_id, 'refund', v_payment.method, v_amount, v_payment.reference, 'Refund on cancellation', auth.uid());
+    v_refund := v_refund - v_amount;
+  END LOOP;
+
+  v_held := order_deposit_held(p_order_id);
+
+  IF v_held > 0 THEN
+    SELECT method INTO v_deposit_method
+    FROM payments
+    WHERE order_id = p_order_id AND kind = 'deposit'
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    INSERT INTO payments (order_id, kind, method, amount, notes, recorded_by)
+    VALUES (p_order_id, 'deposit_release', v_deposit_method, v_held, 'Released on cancellation', auth.uid());
+  END IF;
+
+  UPDATE invoices
+  SET payment_status = order_payment_status(p_order_id)
+  WHERE order_id = p_order_id;
+END;
+$$ LANGUAGE plpgsql;
\ No newline at end of file
@@ -0,0 +1,96 @@
+/*
+  # Order Status History
+
+  1. New Tables
+    - `order_status_changes` - every status an order has been in, for the order timeline
+      - `order_id`, `from_status` (null when the order was placed), `to_status`
+      - `changed_by`, `changed_at`
+
+  2. Database Changes
+    - Placing an order and every change of its status are recorded by trigger, whichever screen or
+      function made them
+    - Existing orders are backfilled from their check-out, return and cancellation times; the staff
+      member behind those changes was not recorded
+
+  3. Security
+    - Enable RLS on order_status_changes; staff and admins can read all of them, customers the
+      history of their own orders
+*/
+
+CREATE TABLE IF NOT EXISTS order_status_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status text,
+  to_status text NOT NULL,
+  changed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_status_changes_order_id ON order_status_changes(order_id);
+
+CREATE OR REPLACE FUNCTION record_order_status_change()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO order_status_changes (order_id, from_status, to_status, changed_by)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    auth.uid()
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS orders_record_status_insert ON orders;
+CREATE TRIGGER orders_record_status_insert
+  AFTER INSERT ON orders
+  FOR EACH ROW EXECUTE FUNCTION record_order_status_change();
+
+DROP TRIGGER IF EXISTS orders_record_status_change ON orders;
+CREATE TRIGGER orders_record_status_change
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW
+  WHEN (NEW.status IS DISTINCT FROM OLD.status)
+  EXECUTE FUNCTION record_order_status_change();
+
+-- Orders rented on the spot were checked out as they were placed
+INSERT INTO order_status_changes (order_id, from_status, to_status, changed_at)
+SELECT id, NULL,
+  CASE WHEN checked_out_at IS NOT NULL AND checked_out_at <= created_at THEN 'checked_out' ELSE 'reserved' END,
+  created_at
+FROM orders
+WHERE NOT EXISTS (SELECT 1 FROM order_status_changes WHERE order_id = orders.id);
+
+INSERT INTO order_status_changes (order_id, from_status, to_status, changed_at)
+SELECT id, 'reserved', 'checked_out', checked_out_at
+FROM orders
+WHERE checked_out_at > created_at;
+
+INSERT INTO order_status_changes (order_id, from_status, to_status, changed_at)
+SELECT id, 'checked_out', 'returned', returned_at
+FROM orders
+WHERE returned_at IS NOT NULL;
+
+INSERT INTO order_status_changes (order_id, from_status, to_status, changed_by, changed_at)
+SELECT id, NULL, 'cancelled', cancelled_by, cancelled_at
+FROM orders
+WHERE cancelled_at IS NOT NULL;
+
+ALTER TABLE order_status_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "order_status_changes_read_own_or_staff" ON order_status_changes
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_status_changes.order_id
+      AND orders.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'staff')
+    )
+  );
\ No newline at end of file
@@ -0,0 +1,729 @@
+/*
+  # Roles and Permissions
+
+  1. New Tables
+    - `role_permissions` - the permissions matrix: one row per role and named permission, e.g.
+      `orders.create`, `orders.refund`, `equipment.edit`
+
+  2. Database Changes
+    - Roles are now admin, manager, counter_staff, technician, accountant and customer; existing
+      staff logins become counter staff
+    - `has_permission` checks the signed-in user against the matrix; `user_has_permission` checks
+      any user, e.g. the admin named on a KYC override
+    - `is_own_order` lets customers read their own orders and everything on them
+    - Only users with `users.manage` can change a role, including their own
+    - Functions that checked for staff or admin now check the permission they need, and cancelling
+      and resolving claims run with the function owner's rights so the whole operation goes through
+      once the permission is checked
+
+  3. Security
+    - Every policy that checked `users.role` is replaced by one that checks a named permission
+    - Enable RLS on role_permissions; any signed-in user can read the matrix, which the app uses to
+      show and hide screens
+*/
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role text NOT NULL CHECK (role IN ('admin', 'manager', 'counter_staff', 'technician', 'accountant', 'customer')),
+  permission text NOT NULL,
+  PRIMARY KEY (role, permission)
+);
+
+INSERT INTO role_permissions (role, permission)
+SELECT role, unnest(permissions)
+FROM (VALUES
+  ('admin', ARRAY[
+    'orders.view', 'orders.create', 'orders.checkout', 'orders.extend', 'orders.cancel', 'orders.charge', 'orders.refund',
+    'payments.record', 'inspections.record', 'claims.create', 'claims.resolve',
+    'customers.view', 'customers.edit', 'customers.delete', 'kyc.override',
+    'equipment.view', 'equipment.edit', 'maintenance.manage',
+    'reports.view', 'suggestions.manage', 'users.manage'
+  ]),
+  ('manager', ARRAY[
+    'orders.view', 'orders.create', 'orders.checkout', 'orders.extend', 'orders.cancel', 'orders.charge', 'orders.refund',
+    'payments.record', 'inspections.record', 'claims.create', 'claims.resolve',
+    'customers.view', 'customers.edit', 'customers.delete', 'kyc.override',
+    'equipment.view', 'equipment.edit', 'maintenance.manage',
+    'reports.view', 'suggestions.manage'
+  ]),
+  ('counter_staff', ARRAY[
+    'orders.view', 'orders.create', 'orders.checkout', 'orders.extend', 'orders.cancel', 'orders.charge',
+    'payments.record', 'inspections.record', 'claims.create',
+    'customers.view', 'customers.edit',
+    'equipment.view'
+  ]),
+  ('technician', ARRAY[
+    'orders.view', 'inspections.record', 'claims.create',
+    'equipment.view', 'maintenance.manage'
+  ]),
+  ('accountant', ARRAY[
+    'orders.view', 'orders.charge', 'orders.refund', 'payments.record', 'claims.resolve',
+    'customers.view', 'equipment.view', 'reports.view'
+  ])
+) AS matrix(role, permissions)
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+UPDATE users SET role = 'counter_staff' WHERE role = 'staff';
+ALTER TABLE users ADD CONSTRAINT users_role_check
+  CHECK (role IN ('admin', 'manager', 'counter_staff', 'technician', 'accountant', 'customer'));
+
+-- Runs as the owner so policies on users can call it without recursing into their own checks
+CREATE OR REPLACE FUNCTION user_has_permission(p_user_id uuid, p_permission text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users
+    JOIN role_permissions ON role_permissions.role = users.role
+    WHERE users.id = p_user_id
+    AND role_permissions.permission = p_permission
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION has_permission(p_permission text)
+RETURNS boolean AS $$
+  SELECT user_has_permission(auth.uid(), p_permission);
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION is_own_order(p_order_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM orders
+    WHERE id = p_order_id
+    AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Changes made outside a signed-in session, e.g. from the SQL editor, are left alone
+CREATE OR REPLACE FUNCTION protect_user_role()
+RETURNS trigger AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT has_permission('users.manage') THEN
+    RAISE EXCEPTION 'Only admins can change roles';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS users_protect_role ON users;
+CREATE TRIGGER users_protect_role
+  BEFORE UPDATE OF role ON users
+  FOR EACH ROW
+  WHEN (NEW.role IS DISTINCT FROM OLD.role)
+  EXECUTE FUNCTION protect_user_role();
+
+-- Functions
+
+CREATE OR REPLACE FUNCTION validate_order_kyc()
+RETURNS trigger AS $$
+DECLARE
+  v_customer customers%ROWTYPE;
+BEGIN
+  IF NEW.customer_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Only the user placing or updating the order can vouch for the customer, if allowed to
+  IF NEW.kyc_override_by IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.kyc_override_by IS DISTINCT FROM OLD.kyc_override_by)
+    AND (
+      NEW.kyc_override_by <> auth.uid()
+      OR NOT user_has_permission(NEW.kyc_override_by, 'kyc.override')
+      OR COALESCE(trim(NEW.kyc_override_reason), '') = ''
+    )
+  THEN
+    RAISE EXCEPTION 'You are not allowed to override the ID check, or no reason was given';
+  END IF;
+
+  IF NEW.kyc_override_by IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_customer FROM customers WHERE id = NEW.customer_id;
+
+  IF v_customer.kyc_verified_at IS NULL THEN
+    RAISE EXCEPTION '%''s ID has not been verified', v_customer.name;
+  END IF;
+
+  IF v_customer.id_expiry IS NOT NULL AND v_customer.id_expiry < (NEW.rent_date AT TIME ZONE 'Asia/Kolkata')::date THEN
+    RAISE EXCEPTION '%''s ID expired on %', v_customer.name, to_char(v_customer.id_expiry, 'DD Mon YYYY');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION add_inspection_damage_charge(p_inspection_id uuid, p_charge jsonb)
+RETURNS uuid AS $$
+DECLARE
+  v_inspection order_inspections%ROWTYPE;
+  v_charge_id uuid;
+BEGIN
+  IF NOT has_permission('orders.charge') THEN
+    RAISE EXCEPTION 'You are not allowed to raise charges';
+  END IF;
+
+  SELECT * INTO v_inspection
+  FROM order_inspections
+  WHERE id = p_inspection_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inspection not found';
+  END IF;
+
+  IF v_inspection.kind <> 'check_in' THEN
+    RAISE EXCEPTION 'Damage is charged from the check-in inspection';
+  END IF;
+
+  IF v_inspection.damage_charge_id IS NOT NULL THEN
+    RAISE EXCEPTION 'A damage charge was already raised from this inspection';
+  END IF;
+
+  INSERT INTO order_charges (order_id, kind, description, amount, tax, total, created_by)
+  SELECT v_inspection.order_id, 'damage', description, amount, tax, total, auth.uid()
+  FROM jsonb_populate_record(NULL::order_charges, p_charge)
+  RETURNING id INTO v_charge_id;
+
+  UPDATE order_inspections SET damage_charge_id = v_charge_id WHERE id = p_inspection_id;
+
+  RETURN v_charge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Settling retires lost units and closes tickets, which the resolving user may not manage directly
+CREATE OR REPLACE FUNCTION resolve_damage_claim(
+  p_claim_id uuid,
+  p_status text,
+  p_actual_cost numeric,
+  p_charge jsonb,
+  p_payment jsonb,
+  p_notes text
+)
+RETURNS void AS $$
+DECLARE
+  v_claim damage_claims%ROWTYPE;
+  v_charge_id uuid;
+  v_payment_id uuid;
+BEGIN
+  IF NOT has_permission('claims.resolve') THEN
+    RAISE EXCEPTION 'You are not allowed to resolve claims';
+  END IF;
+
+  SELECT * INTO v_claim
+  FROM damage_claims
+  WHERE id = p_claim_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Claim not found';
+  END IF;
+
+  IF v_claim.status <> 'open' THEN
+    RAISE EXCEPTION 'This claim is already %', replace(v_claim.status, '_', ' ');
+  END IF;
+
+  IF p_status NOT IN ('settled', 'written_off') THEN
+    RAISE EXCEPTION 'A claim is either settled or written off';
+  END IF;
+
+  IF p_status = 'written_off' AND (p_charge IS NOT NULL OR p_payment IS NOT NULL) THEN
+    RAISE EXCEPTION 'A written-off claim is not charged to the customer';
+  END IF;
+
+  IF p_charge IS NOT NULL THEN
+    INSERT INTO order_charges (order_id, kind, description, amount, tax, total)
+    SELECT v_claim.order_id, 'damage', description, amount, tax, total
+    FROM jsonb_populate_record(NULL::order_charges, p_charge)
+    RETURNING id INTO v_charge_id;
+  END IF;
+
+  IF p_payment IS NOT NULL THEN
+    INSERT INTO payments (order_id, kind, method, amount, reference, notes, recorded_by)
+    SELECT v_claim.order_id, 'payment', method, amount, reference, notes, auth.uid()
+    FROM jsonb_populate_record(NULL::payments, p_payment)
+    RETURNING id INTO v_payment_id;
+  END IF;
+
+  -- Retire a lost unit before closing its ticket, so it does not go back on the shelf
+  IF v_claim.kind = 'loss' THEN
+    UPDATE equipment_units SET status = 'retired' WHERE id = v_claim.unit_id;
+  END IF;
+
+  UPDATE maintenance_tickets
+  SET cost = COALESCE(p_actual_cost, v_claim.estimated_cost),
+      closed_at = CASE WHEN v_claim.kind = 'loss' THEN COALESCE(closed_at, now()) ELSE closed_at END
+  WHERE id = v_claim.maintenance_ticket_id;
+
+  UPDATE damage_claims
+  SET status = p_status,
+      actual_cost = p_actual_cost,
+      customer_liability = COALESCE((p_charge ->> 'total')::numeric, 0),
+      resolution_notes = p_notes,
+      charge_id = v_charge_id,
+      payment_id = v_payment_id,
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE id = p_claim_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION extend_order(p_order_id uuid, p_extra_hours integer, p_lines jsonb)
+RETURNS void AS $$
+DECLARE
+  v_status text;
+  v_line jsonb;
+  v_item order_items%ROWTYPE;
+  v_name text;
+  v_serial text;
+  v_new_due timestamptz;
+  v_conflict order_items%ROWTYPE;
+  v_total numeric := 0;
+BEGIN
+  IF NOT has_permission('orders.extend') THEN
+    RAISE EXCEPTION 'You are not allowed to extend rentals';
+  END IF;
+
+  SELECT status INTO v_status FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_status NOT IN ('checked_out', 'overdue') THEN
+    RAISE EXCEPTION 'Only rentals that are out can be extended';
+  END IF;
+
+  IF COALESCE(p_extra_hours, 0) <= 0 THEN
+    RAISE EXCEPTION 'Extension must be longer than zero hours';
+  END IF;
+
+  IF COALESCE(jsonb_array_length(p_lines), 0) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one item to extend';
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    SELECT * INTO v_item
+    FROM order_items
+    WHERE id = (v_line ->> 'order_item_id')::uuid
+    AND order_id = p_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item is not on this order';
+    END IF;
+
+    -- Lock the model row, as booking does, so a new order cannot take the unit meanwhile
+    SELECT name INTO v_name FROM equipments WHERE id = v_item.equipment_id FOR UPDATE;
+    SELECT serial_number INTO v_serial FROM equipment_units WHERE id = v_item.unit_id;
+
+    v_new_due := v_item.due_at + make_interval(hours => p_extra_hours);
+
+    SELECT oi.* INTO v_conflict
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    WHERE oi.unit_id = v_item.unit_id
+    AND oi.order_id <> p_order_id
+    AND o.status IN ('reserved', 'checked_out', 'overdue')
+    AND order_booking_range(oi.rent_date, oi.due_at, o.status) && tstzrange(v_item.due_at, v_new_due)
+    ORDER BY oi.rent_date
+    LIMIT 1;
+
+    IF FOUND THEN
+      RAISE EXCEPTION '% (serial %) is booked from % until %, so it cannot be kept until %',
+        v_name,
+        v_serial,
+        to_char(v_conflict.rent_date AT TIME ZONE 'Asia/Kolkata', 'DD Mon YYYY HH24:MI'),
+        to_char(v_conflict.due_at AT TIME ZONE 'Asia/Kolkata', 'DD Mon YYYY HH24:MI'),
+        to_char(v_new_due AT TIME ZONE 'Asia/Kolkata', 'DD Mon YYYY HH24:MI');
+    END IF;
+
+    -- Setting due_at as well fires the trigger that moves the order's due time
+    UPDATE order_items
+    SET duration_hours = duration_hours + p_extra_hours,
+        due_at = v_new_due
+    WHERE id = v_item.id;
+
+    INSERT INTO order_extensions (
+      order_id, order_item_id, extra_hours, previous_due_at, new_due_at,
+      pricing, previous_total, amount, tax, total
+    )
+    SELECT
+      p_order_id, v_item.id, p_extra_hours, v_item.due_at, v_new_due,
+      pricing, previous_total, amount, tax, total
+    FROM jsonb_populate_record(NULL::order_extensions, v_line);
+
+    v_total := v_total + COALESCE((v_line ->> 'total')::numeric, 0);
+  END LOOP;
+
+  UPDATE orders
+  SET total_cost = total_cost + v_total,
+      status = CASE WHEN status = 'overdue' AND due_at > now() THEN 'checked_out' ELSE status END
+  WHERE id = p_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Refunds and the deposit release are part of the cancellation, so whoever may cancel can make them
+CREATE OR REPLACE FUNCTION cancel_order(p_order_id uuid, p_reason text, p_fee jsonb)
+RETURNS void AS $$
+DECLARE
+  v_status text;
+  v_fee numeric := 0;
+  v_refund numeric;
+  v_amount numeric;
+  v_payment payments%ROWTYPE;
+  v_held numeric;
+  v_deposit_method text;
+BEGIN
+  IF NOT has_permission('orders.cancel') THEN
+    RAISE EXCEPTION 'You are not allowed to cancel orders';
+  END IF;
+
+  SELECT status INTO v_status FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_status NOT IN ('reserved', 'checked_out') THEN
+    RAISE EXCEPTION 'Only reservations and rentals that are not yet late can be cancelled';
+  END IF;
+
+  UPDATE orders
+  SET status = 'cancelled',
+      cancellation_reason = btrim(p_reason)
+  WHERE id = p_order_id;
+
+  IF p_fee IS NOT NULL THEN
+    INSERT INTO order_charges (order_id, kind, description, amount, tax, total)
+    SELECT p_order_id, 'cancellation', description, amount, tax, total
+    FROM jsonb_populate_record(NULL::order_charges, p_fee);
+
+    v_fee := (p_fee ->> 'total')::numeric;
+  END IF;
+
+  -- Refund what was paid beyond the fee, newest payment first, the same way it was paid
+  v_refund := order_amount_paid(p_order_id) - v_fee;
+
+  FOR v_payment IN
+    SELECT * FROM payments
+    WHERE order_id = p_order_id AND kind = 'payment'
+    ORDER BY created_at DESC
+  LOOP
+    EXIT WHEN v_refund <= 0;
+
+    v_amount := LEAST(v_refund, v_payment.amount);
+    INSERT INTO payments (order_id, kind, method, amount, reference, notes, recorded_by)
+    VALUES (p_order_id, 'refund', v_payment.method, v_amount, v_payment.reference, 'Refund on cancellation', auth.uid());
+    v_refund := v_refund - v_amount;
+  END LOOP;
+
+  v_held := order_deposit_held(p_order_id);
+
+  IF v_held > 0 THEN
+    SELECT method INTO v_deposit_method
+    FROM payments
+    WHERE order_id = p_order_id AND kind = 'deposit'
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    INSERT INTO payments (order_id, kind, method, amount, notes, recorded_by)
+    VALUES (p_order_id, 'deposit_release', v_deposit_method, v_held, 'Released on cancellation', auth.uid());
+  END IF;
+
+  UPDATE invoices
+  SET payment_status = order_payment_status(p_order_id)
+  WHERE order_id = p_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Row Level Security
+
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "role_permissions_authenticated_view" ON role_permissions
+  FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "role_permissions_manage" ON role_permissions
+  FOR ALL TO authenticated
+  USING (has_permission('users.manage'))
+  WITH CHECK (has_permission('users.manage'));
+
+-- users
+DROP POLICY IF EXISTS "admin_users_full_access" ON users;
+
+CREATE POLICY "users_manage_all" ON users
+  FOR ALL TO authenticated
+  USING (has_permission('users.manage'))
+  WITH CHECK (has_permission('users.manage'));
+
+-- Names of whoever placed, changed or cancelled an order
+CREATE POLICY "users_view_all_with_orders" ON users
+  FOR SELECT TO authenticated
+  USING (has_permission('orders.view'));
+
+-- orders
+DROP POLICY IF EXISTS "orders_staff_view_all" ON orders;
+DROP POLICY IF EXISTS "orders_staff_create" ON orders;
+DROP POLICY IF EXISTS "orders_staff_update" ON orders;
+
+CREATE POLICY "orders_view" ON orders
+  FOR SELECT TO authenticated
+  USING (has_permission('orders.view') OR user_id = auth.uid());
+
+CREATE POLICY "orders_create" ON orders
+  FOR INSERT TO authenticated
+  WITH CHECK (has_permission('orders.create'));
+
+CREATE POLICY "orders_checkout" ON orders
+  FOR UPDATE TO authenticated
+  USING (has_permission('orders.checkout'))
+  WITH CHECK (has_permission('orders.checkout'));
+
+-- order_items
+DROP POLICY IF EXISTS "order_items_staff_view_all" ON order_items;
+DROP POLICY IF EXISTS "order_items_staff_create" ON order_items;
+DROP POLICY IF EXISTS "order_items_staff_update" ON order_items;
+
+CREATE POLICY "order_items_view" ON order_items
+  FOR SELECT TO authenticated
+  USING (has_permission('orders.view') OR is_own_order(order_id));
+
+CREATE POLICY "order_items_create" ON order_items
+  FOR INSERT TO authenticated
+  WITH CHECK (has_permission('orders.create'));
+
+CREATE POLICY "order_items_checkout" ON order_items
+  FOR UPDATE TO authenticated
+  USING (has_permission('orders.checkout'))
+  WITH CHECK (has_permission('orders.checkout'));
+
+-- invoices are issued when an order's invoice is first opened
+DROP POLICY IF EXISTS "invoices_staff_view_all" ON invoices;
+DROP POLICY IF EXISTS "invoices_staff_create" ON invoices;
+DROP POLICY IF EXISTS "invoices_staff_update" ON invoices;
+
+CREATE POLICY "invoices_view" ON invoices
+  FOR SELECT TO authenticated
+  USING (has_permission('orders.view'));
+
+CREATE POLICY "invoices_issue" ON invoices
+  FOR INSERT TO authenticated
+  WITH CHECK (has_permission('orders.view'));
+
+CREATE POLICY "invoices_update" ON invoices
+  FOR UPDATE TO authenticated
+  USING (has_permission('orders.view'))
+  WITH CHECK (has_permission('orders.view'));
+
+-- payments: refunds need orders.refund; deposits are taken and settled at the counter with payments.record
+DROP POLICY IF EXISTS "payments_staff_view_all" ON payments;
+DROP POLICY IF EXISTS "payments_staff_create" ON payments;
+
+CREATE POLICY "payments_view" ON payments
+  FOR SELECT TO authenticated
+  USING (has_permission('orders.view') OR is_own_order(order_id));
+
+CREATE POLICY "payments_record" ON payments
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    CASE
+      WHEN kind = 'refund' THEN has_permission('orders.refund')
+      ELSE has_permission('payments.record')
+    END
+  );
+
+-- order_charges
+DROP POLICY IF EXISTS "order_charges_staff_view_all" ON order_charges;
+DROP POLICY IF EXISTS "order_charges_staff_create" ON order_charges;
+
+CREATE POLICY "order_charges_view" ON order_charges
+  FOR SELECT TO authenticated
+  USING (has_permission('orders.view') OR is_own_order(order_id));
+
+CREATE POLICY "order_charges_create" ON order_charges
+  FOR INSERT TO authenticated
+  WITH CHECK (has_permission('orders.charge'));
+
+-- order_extensions
+DROP POLICY IF EXISTS "order_extensions_staff_view_all" ON order_extensions;
+
+CREATE POLICY "order_extensions_view" ON order_extensions
+  FOR SELECT TO authenticated
+  USING (has_permission('orders.view') OR is_own_order(order_id));
+
+-- order_status_changes
+DROP POLICY IF EXISTS "order_status_changes_read_own_or_staff" ON order_status_changes;
+
+CREATE POLICY "order_status_changes_view" ON order_status_changes
+  FOR SELECT TO authenticated
+  USING (has_permission('orders.view') OR is_own_order(order_id));
+
+-- order_inspections
+DROP POLICY IF EXISTS "order_inspections_staff_view_all" ON order_inspections;
+DROP POLICY IF EXISTS "order_inspections_staff_insert" ON order_inspections;
+
+CREATE POLICY "order_inspections_view" ON order_inspections
+  FOR SELECT TO authenticated
+  USING (has_permission('orders.view'));
+
+CREATE POLICY "order_inspections_record" ON order_inspections
+  FOR INSERT TO authenticated
+  WITH CHECK (has_permission('inspections.record'));
+
+-- damage_claims
+DROP POLICY IF EXISTS "damage_claims_staff_view_all" ON damage_claims;
+DROP POLICY IF EXISTS "damage_claims_staff_insert" ON damage_claims;
+DROP POLICY IF EXISTS "damage_claims_admin_manage" ON damage_claims;
+
+CREATE POLICY "damage_claims_view" ON damage_claims
+  FOR SELECT TO authenticated
+  USING (has_permission('orders.view'));
+
+CREATE POLICY "damage_claims_create" ON damage_claims
+  FOR INSERT TO authenticated
+  WITH CHECK (has_permission('claims.create'));
+
+CREATE POLICY "damage_claims_resolve" ON damage_claims
+  FOR ALL TO authenticated
+  USING (has_permission('claims.resolve'))
+  WITH CHECK (has_permission('claims.resolve'));
+
+-- customers
+DROP POLICY IF EXISTS "customers_staff_view_all" ON customers;
+DROP POLICY IF EXISTS "customers_staff_create" ON customers;
+DROP POLICY IF EXISTS "customers_staff_update" ON customers;
+DROP POLICY IF EXISTS "customers_admin_delete" ON customers;
+
+CREATE POLICY "customers_view" ON customers
+  FOR SELECT TO authenticated
+  USING (has_permission('customers.view'));
+
+CREATE POLICY "customers_create" ON customers
+  FOR INSERT TO authenticated
+  WITH CHECK (has_permission('customers.edit'));
+
+CREATE POLICY "customers_update" ON customers
+  FOR UPDATE TO authenticated
+  USING (has_permission('customers.edit'))
+  WITH CHECK (has_permission('customers.edit'));
+
+CREATE POLICY "customers_delete" ON customers
+  FOR DELETE TO authenticated
+  USING (has_permission('customers.delete'));
+
+-- equipments
+DROP POLICY IF EXISTS "equipment_staff_view_all" ON equipments;
+DROP POLICY IF EXISTS "equipment_admin_full_access" ON equipments;
+
+CREATE POLICY "equipment_view_all" ON equipments
+  FOR SELECT TO authenticated
+  USING (has_permission('equipment.view'));
+
+CREATE POLICY "equipment_edit" ON equipments
+  FOR ALL TO authenticated
+  USING (has_permission('equipment.edit'))
+  WITH CHECK (has_permission('equipment.edit'));
+
+-- equipment_units
+DROP POLICY IF EXISTS "equipment_units_staff_view_all" ON equipment_units;
+DROP POLICY IF EXISTS "equipment_units_admin_manage" ON equipment_units;
+
+CREATE POLICY "equipment_units_view" ON equipment_units
+  FOR SELECT TO authenticated
+  USING (has_permission('equipment.view'));
+
+CREATE POLICY "equipment_units_edit" ON equipment_units
+  FOR ALL TO authenticated
+  USING (has_permission('equipment.edit'))
+  WITH CHECK (has_permission('equipment.edit'));
+
+-- equipment_compatibility
+DROP POLICY IF EXISTS "equipment_compatibility_staff_view_all" ON equipment_compatibility;
+DROP POLICY IF EXISTS "equipment_compatibility_admin_manage" ON equipment_compatibility;
+
+CREATE POLICY "equipment_compatibility_view" ON equipment_compatibility
+  FOR SELECT TO authenticated
+  USING (has_permission('equipment.view'));
+
+CREATE POLICY "equipment_compatibility_edit" ON equipment_compatibility
+  FOR ALL TO authenticated
+  USING (has_permission('equipment.edit'))
+  WITH CHECK (has_permission('equipment.edit'));
+
+-- bundles and bundle_items
+DROP POLICY IF EXISTS "bundles_staff_view_all" ON bundles;
+DROP POLICY IF EXISTS "bundles_admin_manage" ON bundles;
+DROP POLICY IF EXISTS "bundle_items_staff_view_all" ON bundle_items;
+DROP POLICY IF EXISTS "bundle_items_admin_manage" ON bundle_items;
+
+CREATE POLICY "bundles_view_all" ON bundles
+  FOR SELECT TO authenticated
+  USING (has_permission('equipment.view'));
+
+CREATE POLICY "bundles_edit" ON bundles
+  FOR ALL TO authenticated
+  USING (has_permission('equipment.edit'))
+  WITH CHECK (has_permission('equipment.edit'));
+
+CREATE POLICY "bundle_items_view_all" ON bundle_items
+  FOR SELECT TO authenticated
+  USING (has_permission('equipment.view'));
+
+CREATE POLICY "bundle_items_edit" ON bundle_items
+  FOR ALL TO authenticated
+  USING (has_permission('equipment.edit'))
+  WITH CHECK (has_permission('equipment.edit'));
+
+-- maintenance_tickets
+DROP POLICY IF EXISTS "maintenance_tickets_staff_view_all" ON maintenance_tickets;
+DROP POLICY IF EXISTS "maintenance_tickets_admin_manage" ON maintenance_tickets;
+
+CREATE POLICY "maintenance_tickets_view" ON maintenance_tickets
+  FOR SELECT TO authenticated
+  USING (has_permission('equipment.view'));
+
+CREATE POLICY "maintenance_tickets_manage" ON maintenance_tickets
+  FOR ALL TO authenticated
+  USING (has_permission('maintenance.manage'))
+  WITH CHECK (has_permission('maintenance.manage'));
+
+-- suggestions
+DROP POLICY IF EXISTS "suggestions_admin_manage" ON suggestions;
+
+CREATE POLICY "suggestions_manage" ON suggestions
+  FOR ALL TO authenticated
+  USING (has_permission('suggestions.manage'))
+  WITH CHECK (has_permission('suggestions.manage'));
+
+-- Storage buckets
+DROP POLICY IF EXISTS "kyc_documents_staff_read" ON storage.objects;
+DROP POLICY IF EXISTS "kyc_documents_staff_upload" ON storage.objects;
+DROP POLICY IF EXISTS "inspection_photos_staff_read" ON storage.objects;
+DROP POLICY IF EXISTS "inspection_photos_staff_upload" ON storage.objects;
+DROP POLICY IF EXISTS "claim_photos_staff_read" ON storage.objects;
+DROP POLICY IF EXISTS "claim_photos_staff_upload" ON storage.objects;
+
+CREATE POLICY "kyc_documents_read" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'kyc-documents' AND has_permission('customers.view'));
+
+CREATE POLICY "kyc_documents_upload" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'kyc-documents' AND has_permission('customers.edit'));
+
+CREATE POLICY "inspection_photos_read" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'inspection-photos' AND has_permission('orders.view'));
+
+CREATE POLICY "inspection_photos_upload" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'inspection-photos' AND has_permission('inspections.record'));
+
+CREATE POLICY "claim_photos_read" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'claim-photos' AND has_permission('orders.view'));
+
+CREATE POLICY "claim_photos_upload" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'claim-photos' AND has_permission('claims.create'));
\ No newline at end of file
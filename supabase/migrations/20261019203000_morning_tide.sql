@@ -0,0 +1,176 @@
+/*
+  # Server-side Order Scheduling
+
+  1. Database Changes
+    - New orders get their status, `checked_out_at` and starting `due_at` from the database clock:
+      a missing or past `rent_date` starts the rental now, a later one holds a reservation
+    - Order items take their `rent_date` from the order
+    - `mark_overdue_orders` flags checked-out orders whose due time has passed
+    - `lapse_unclaimed_reservations` cancels reservations not picked up within a day of their
+      start, free of charge, refunding payments and releasing any deposit
+    - Both run every five minutes with pg_cron
+    - The body of `cancel_order` moves to `apply_order_cancellation` so the lapse job can share it
+
+  2. Security
+    - `apply_order_cancellation` and the scheduled functions cannot be called by clients
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+CREATE OR REPLACE FUNCTION set_order_schedule()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.rent_date IS NULL OR NEW.rent_date <= now() THEN
+    NEW.rent_date := now();
+    NEW.status := 'checked_out';
+    NEW.checked_out_at := now();
+  ELSE
+    NEW.status := 'reserved';
+    NEW.checked_out_at := NULL;
+  END IF;
+
+  -- Moved to the latest item due time once the items are inserted
+  NEW.due_at := NEW.rent_date;
+  NEW.returned_at := NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Triggers fire in name order: this must run before orders_validate_kyc reads rent_date
+DROP TRIGGER IF EXISTS orders_set_schedule ON orders;
+CREATE TRIGGER orders_set_schedule
+  BEFORE INSERT ON orders
+  FOR EACH ROW EXECUTE FUNCTION set_order_schedule();
+
+CREATE OR REPLACE FUNCTION inherit_order_rent_date()
+RETURNS trigger AS $$
+BEGIN
+  SELECT rent_date INTO NEW.rent_date FROM orders WHERE id = NEW.order_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Triggers fire in name order: this must run before order_items_set_due_at uses rent_date
+DROP TRIGGER IF EXISTS order_items_inherit_rent_date ON order_items;
+CREATE TRIGGER order_items_inherit_rent_date
+  BEFORE INSERT ON order_items
+  FOR EACH ROW EXECUTE FUNCTION inherit_order_rent_date();
+
+-- Cancels without checking who is asking; callers check permissions first
+CREATE OR REPLACE FUNCTION apply_order_cancellation(p_order_id uuid, p_reason text, p_fee jsonb)
+RETURNS void AS $$
+DECLARE
+  v_status text;
+  v_fee numeric := 0;
+  v_refund numeric;
+  v_amount numeric;
+  v_payment payments%ROWTYPE;
+  v_held numeric;
+  v_deposit_method text;
+BEGIN
+  SELECT status INTO v_status FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_status NOT IN ('reserved', 'checked_out') THEN
+    RAISE EXCEPTION 'Only reservations and rentals that are not yet late can be cancelled';
+  END IF;
+
+  UPDATE orders
+  SET status = 'cancelled',
+      cancellation_reason = btrim(p_reason)
+  WHERE id = p_order_id;
+
+  IF p_fee IS NOT NULL THEN
+    INSERT INTO order_charges (order_id, kind, description, amount, tax, total)
+    SELECT p_order_id, 'cancellation', description, amount, tax, total
+    FROM jsonb_populate_record(NULL::order_charges, p_fee);
+
+    v_fee := (p_fee ->> 'total')::numeric;
+  END IF;
+
+  -- Refund what was paid beyond the fee, newest payment first, the same way it was paid
+  v_refund := order_amount_paid(p_order_id) - v_fee;
+
+  FOR v_payment IN
+    SELECT * FROM payments
+    WHERE order_id = p_order_id AND kind = 'payment'
+    ORDER BY created_at DESC
+  LOOP
+    EXIT WHEN v_refund <= 0;
+
+    v_amount := LEAST(v_refund, v_payment.amount);
+    INSERT INTO payments (order_id, kind, method, amount, reference, notes, recorded_by)
+    VALUES (p_order_id, 'refund', v_payment.method, v_amount, v_payment.reference, 'Refund on cancellation', auth.uid());
+    v_refund := v_refund - v_amount;
+  END LOOP;
+
+  v_held := order_deposit_held(p_order_id);
+
+  IF v_held > 0 THEN
+    SELECT method INTO v_deposit_method
+    FROM payments
+    WHERE order_id = p_order_id AND kind = 'deposit'
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    INSERT INTO payments (order_id, kind, method, amount, notes, recorded_by)
+    VALUES (p_order_id, 'deposit_release', v_deposit_method, v_held, 'Released on cancellation', auth.uid());
+  END IF;
+
+  UPDATE invoices
+  SET payment_status = order_payment_status(p_order_id)
+  WHERE order_id = p_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION apply_order_cancellation(uuid, text, jsonb) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION cancel_order(p_order_id uuid, p_reason text, p_fee jsonb)
+RETURNS void AS $$
+BEGIN
+  IF NOT has_permission('orders.cancel') THEN
+    RAISE EXCEPTION 'You are not allowed to cancel orders';
+  END IF;
+
+  PERFORM apply_order_cancellation(p_order_id, p_reason, p_fee);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION mark_overdue_orders()
+RETURNS void AS $$
+  UPDATE orders
+  SET status = 'overdue'
+  WHERE status = 'checked_out'
+  AND due_at < now();
+$$ LANGUAGE sql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION mark_overdue_orders() FROM PUBLIC, anon, authenticated;
+
+-- A reservation still waiting a day after it was due to start is released for other bookings
+CREATE OR REPLACE FUNCTION lapse_unclaimed_reservations()
+RETURNS void AS $$
+DECLARE
+  v_order_id uuid;
+BEGIN
+  FOR v_order_id IN
+    SELECT id FROM orders
+    WHERE status = 'reserved'
+    AND rent_date < now() - interval '24 hours'
+  LOOP
+    PERFORM apply_order_cancellation(v_order_id, 'Not picked up', NULL);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION lapse_unclaimed_reservations() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('mark-overdue-orders', '*/5 * * * *', 'SELECT mark_overdue_orders()');
+SELECT cron.schedule('lapse-unclaimed-reservations', '*/5 * * * *', 'SELECT lapse_unclaimed_reservations()');
+
+-- Catch up on anything that went past due before the jobs existed
+SELECT mark_overdue_orders();
+SELECT lapse_unclaimed_reservations();
\ No newline at end of file
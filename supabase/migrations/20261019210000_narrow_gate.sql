@@ -0,0 +1,40 @@
+/*
+  # Fixed Order Columns
+
+  1. Database Changes
+    - `create_rental_order` writes only the order and item columns a counter is meant to fill in,
+      instead of every key present in the JSON; anything else sent is ignored
+    - The order is recorded as placed by the signed-in user
+
+  2. Security
+    - Clients can no longer set status, timestamps, cancellation or unit fields through the function
+*/
+
+CREATE OR REPLACE FUNCTION create_rental_order(p_order jsonb, p_items jsonb)
+RETURNS uuid AS $$
+DECLARE
+  v_order_id uuid;
+BEGIN
+  IF jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  -- Status, rent date and due time are settled by the orders_set_schedule trigger
+  INSERT INTO orders (
+    user_id, customer_id, kyc_override_by, kyc_override_reason,
+    total_cost, place_of_supply, tax, deposit_amount, rent_date
+  )
+  SELECT
+    auth.uid(), customer_id, kyc_override_by, kyc_override_reason,
+    total_cost, place_of_supply, tax, COALESCE(deposit_amount, 0), rent_date
+  FROM jsonb_populate_record(NULL::orders, p_order)
+  RETURNING id INTO v_order_id;
+
+  -- Rent date, due time and unit are filled in by the order_items triggers
+  INSERT INTO order_items (order_id, equipment_id, duration_hours, pricing, line_total, bundle_id)
+  SELECT v_order_id, equipment_id, duration_hours, pricing, COALESCE(line_total, 0), bundle_id
+  FROM jsonb_populate_recordset(NULL::order_items, p_items);
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql;
\ No newline at end of file
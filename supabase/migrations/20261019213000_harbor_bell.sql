@@ -0,0 +1,44 @@
+/*
+  # Atomic Check-in
+
+  1. Database Changes
+    - `check_in_order` marks a rental returned and raises its late fee, if any, in one transaction,
+      so an order is never left returned without the fee it owes
+
+  2. Security
+    - Requires `orders.checkout`; the late fee is part of the check-in, so no separate
+      `orders.charge` permission is needed for it
+*/
+
+-- p_late_fee is an order_charges row as JSON, or null when the rental came back on time
+CREATE OR REPLACE FUNCTION check_in_order(p_order_id uuid, p_late_fee jsonb)
+RETURNS void AS $$
+DECLARE
+  v_status text;
+BEGIN
+  IF NOT has_permission('orders.checkout') THEN
+    RAISE EXCEPTION 'You are not allowed to check rentals in';
+  END IF;
+
+  SELECT status INTO v_status FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_status NOT IN ('checked_out', 'overdue') THEN
+    RAISE EXCEPTION 'Order cannot be moved to returned from its current status';
+  END IF;
+
+  UPDATE orders
+  SET status = 'returned',
+      returned_at = now()
+  WHERE id = p_order_id;
+
+  IF p_late_fee IS NOT NULL THEN
+    INSERT INTO order_charges (order_id, kind, description, amount, tax, total)
+    SELECT p_order_id, 'late_fee', description, amount, tax, total
+    FROM jsonb_populate_record(NULL::order_charges, p_late_fee);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
\ No newline at end of file
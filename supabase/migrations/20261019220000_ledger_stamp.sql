@@ -0,0 +1,67 @@
+/*
+  # Invoices Issued by the Database
+
+  1. Database Changes
+    - An order's invoice number is issued when it is checked out, or returned if it somehow
+      skipped check-out, instead of the first time someone opens the invoice page
+    - A cancelled reservation is invoiced when a cancellation fee is charged
+    - Orders already out, returned or charged a cancellation fee without an invoice are issued one
+      now, in the order they were checked out
+*/
+
+CREATE OR REPLACE FUNCTION issue_invoice(p_order_id uuid)
+RETURNS void AS $$
+  INSERT INTO invoices (order_id)
+  VALUES (p_order_id)
+  ON CONFLICT (order_id) DO NOTHING;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION issue_invoice(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION issue_order_invoice()
+RETURNS trigger AS $$
+BEGIN
+  PERFORM issue_invoice(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS orders_issue_invoice ON orders;
+CREATE TRIGGER orders_issue_invoice
+  AFTER INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW
+  WHEN (NEW.status IN ('checked_out', 'returned'))
+  EXECUTE FUNCTION issue_order_invoice();
+
+CREATE OR REPLACE FUNCTION issue_cancellation_invoice()
+RETURNS trigger AS $$
+BEGIN
+  PERFORM issue_invoice(NEW.order_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS order_charges_issue_invoice ON order_charges;
+CREATE TRIGGER order_charges_issue_invoice
+  AFTER INSERT ON order_charges
+  FOR EACH ROW
+  WHEN (NEW.kind = 'cancellation')
+  EXECUTE FUNCTION issue_cancellation_invoice();
+
+-- Backfill one at a time so invoice numbers follow check-out order
+DO $$
+DECLARE
+  v_order_id uuid;
+BEGIN
+  FOR v_order_id IN
+    SELECT o.id FROM orders o
+    WHERE NOT EXISTS (SELECT 1 FROM invoices WHERE invoices.order_id = o.id)
+    AND (
+      o.status IN ('checked_out', 'overdue', 'returned')
+      OR EXISTS (SELECT 1 FROM order_charges WHERE order_id = o.id AND kind = 'cancellation')
+    )
+    ORDER BY COALESCE(o.checked_out_at, o.created_at)
+  LOOP
+    PERFORM issue_invoice(v_order_id);
+  END LOOP;
+END $$;
\ No newline at end of file
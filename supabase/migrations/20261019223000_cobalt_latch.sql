@@ -0,0 +1,46 @@
+/*
+  # Customer Required for the ID Check
+
+  1. Database Changes
+    - `validate_order_kyc` no longer lets an order without a customer skip the ID check: placing or
+      checking out such an order fails unless an allowed user records an override
+*/
+
+CREATE OR REPLACE FUNCTION validate_order_kyc()
+RETURNS trigger AS $$
+DECLARE
+  v_customer customers%ROWTYPE;
+BEGIN
+  -- Only the user placing or updating the order can vouch for the customer, if allowed to
+  IF NEW.kyc_override_by IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.kyc_override_by IS DISTINCT FROM OLD.kyc_override_by)
+    AND (
+      NEW.kyc_override_by <> auth.uid()
+      OR NOT user_has_permission(NEW.kyc_override_by, 'kyc.override')
+      OR COALESCE(trim(NEW.kyc_override_reason), '') = ''
+    )
+  THEN
+    RAISE EXCEPTION 'You are not allowed to override the ID check, or no reason was given';
+  END IF;
+
+  IF NEW.kyc_override_by IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.customer_id IS NULL THEN
+    RAISE EXCEPTION 'Choose the customer the order is for';
+  END IF;
+
+  SELECT * INTO v_customer FROM customers WHERE id = NEW.customer_id;
+
+  IF v_customer.kyc_verified_at IS NULL THEN
+    RAISE EXCEPTION '%''s ID has not been verified', v_customer.name;
+  END IF;
+
+  IF v_customer.id_expiry IS NOT NULL AND v_customer.id_expiry < (NEW.rent_date AT TIME ZONE 'Asia/Kolkata')::date THEN
+    RAISE EXCEPTION '%''s ID expired on %', v_customer.name, to_char(v_customer.id_expiry, 'DD Mon YYYY');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
\ No newline at end of file
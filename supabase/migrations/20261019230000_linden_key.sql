@@ -0,0 +1,43 @@
+/*
+  # Customer Login Accounts
+
+  1. Database Changes
+    - Add `user_id` to customers, the login account a customer signs in with
+    - Customers are linked to existing customer accounts with the same email, where the match is unique
+    - `is_own_order` now means the order was rented to the signed-in user's customer record,
+      instead of placed by them; `user_id` on orders is the staff member who placed it
+
+  2. Security
+    - Customers can read their own orders and their own customer record
+*/
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS user_id uuid UNIQUE REFERENCES users(id) ON DELETE SET NULL;
+
+UPDATE customers c
+SET user_id = u.id
+FROM users u
+WHERE c.user_id IS NULL
+AND u.role = 'customer'
+AND lower(u.email) = lower(c.email)
+AND (SELECT count(*) FROM customers other WHERE lower(other.email) = lower(c.email)) = 1
+AND NOT EXISTS (SELECT 1 FROM customers linked WHERE linked.user_id = u.id);
+
+CREATE OR REPLACE FUNCTION is_own_order(p_order_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM orders o
+    JOIN customers c ON c.id = o.customer_id
+    WHERE o.id = p_order_id
+    AND c.user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Row Level Security
+DROP POLICY IF EXISTS "orders_view" ON orders;
+CREATE POLICY "orders_view" ON orders
+  FOR SELECT TO authenticated
+  USING (has_permission('orders.view') OR is_own_order(id));
+
+CREATE POLICY "customers_view_own" ON customers
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
\ No newline at end of file
@@ -0,0 +1,135 @@
+/*
+  # Order Changes Only Through Functions
+
+  1. Database Changes
+    - `check_out_order` hands a reservation over at the counter
+    - `create_rental_order` and `settle_order_deposit` run with the owner's rights and check
+      the caller's permission themselves
+
+  2. Security
+    - Orders and order items can no longer be inserted or updated directly; placing, checking
+      out, checking in, extending and cancelling go through functions that check permissions,
+      so a status cannot be set without the cancellation, late fee and deposit logic that goes with it
+    - Placing an order requires `orders.create`; checking out requires `orders.checkout`
+    - Settling a deposit requires `payments.record`, plus `orders.charge` when a charge is kept
+*/
+
+CREATE OR REPLACE FUNCTION create_rental_order(p_order jsonb, p_items jsonb)
+RETURNS uuid AS $$
+DECLARE
+  v_order_id uuid;
+BEGIN
+  IF NOT has_permission('orders.create') THEN
+    RAISE EXCEPTION 'You are not allowed to create orders';
+  END IF;
+
+  IF jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  -- Status, rent date and due time are settled by the orders_set_schedule trigger
+  INSERT INTO orders (
+    user_id, customer_id, kyc_override_by, kyc_override_reason,
+    total_cost, place_of_supply, tax, deposit_amount, rent_date
+  )
+  SELECT
+    auth.uid(), customer_id, kyc_override_by, kyc_override_reason,
+    total_cost, place_of_supply, tax, COALESCE(deposit_amount, 0), rent_date
+  FROM jsonb_populate_record(NULL::orders, p_order)
+  RETURNING id INTO v_order_id;
+
+  -- Rent date, due time and unit are filled in by the order_items triggers
+  INSERT INTO order_items (order_id, equipment_id, duration_hours, pricing, line_total, bundle_id)
+  SELECT v_order_id, equipment_id, duration_hours, pricing, COALESCE(line_total, 0), bundle_id
+  FROM jsonb_populate_recordset(NULL::order_items, p_items);
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The ID and unit checks on the orders triggers still apply
+CREATE OR REPLACE FUNCTION check_out_order(p_order_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_status text;
+BEGIN
+  IF NOT has_permission('orders.checkout') THEN
+    RAISE EXCEPTION 'You are not allowed to check rentals out';
+  END IF;
+
+  SELECT status INTO v_status FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_status <> 'reserved' THEN
+    RAISE EXCEPTION 'Order cannot be moved to checked out from its current status';
+  END IF;
+
+  UPDATE orders
+  SET status = 'checked_out',
+      checked_out_at = now()
+  WHERE id = p_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION settle_order_deposit(p_order_id uuid, p_apply_amount numeric, p_charge jsonb, p_release_method text)
+RETURNS void AS $$
+DECLARE
+  v_held numeric;
+  v_charge numeric := 0;
+  v_deposit_method text;
+BEGIN
+  IF NOT has_permission('payments.record') OR (p_charge IS NOT NULL AND NOT has_permission('orders.charge')) THEN
+    RAISE EXCEPTION 'You are not allowed to settle deposits';
+  END IF;
+
+  PERFORM 1 FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  v_held := order_deposit_held(p_order_id);
+  IF v_held <= 0 THEN
+    RAISE EXCEPTION 'No deposit is held on this order';
+  END IF;
+
+  IF p_charge IS NOT NULL THEN
+    v_charge := (p_charge ->> 'total')::numeric;
+  END IF;
+
+  IF COALESCE(p_apply_amount, 0) < 0 OR COALESCE(p_apply_amount, 0) + v_charge > v_held THEN
+    RAISE EXCEPTION 'Deductions of % exceed the % deposit held', COALESCE(p_apply_amount, 0) + v_charge, v_held;
+  END IF;
+
+  -- Nothing changes hands on a deduction; record it against the way the deposit was taken
+  SELECT method INTO v_deposit_method
+  FROM payments
+  WHERE order_id = p_order_id AND kind = 'deposit'
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF COALESCE(p_apply_amount, 0) > 0 THEN
+    INSERT INTO payments (order_id, kind, method, amount, notes, recorded_by)
+    VALUES (p_order_id, 'deposit_deduction', v_deposit_method, p_apply_amount, 'Applied to balance', auth.uid());
+  END IF;
+
+  IF p_charge IS NOT NULL THEN
+    INSERT INTO order_charges (order_id, kind, description, amount, tax, total)
+    SELECT p_order_id, kind, description, amount, tax, total
+    FROM jsonb_populate_record(NULL::order_charges, p_charge);
+
+    INSERT INTO payments (order_id, kind, method, amount, notes, recorded_by)
+    VALUES (p_order_id, 'deposit_deduction', v_deposit_method, v_charge, p_charge ->> 'description', auth.uid());
+  END IF;
+
+  IF v_held - COALESCE(p_apply_amount, 0) - v_charge > 0 THEN
+    INSERT INTO payments (order_id, kind, method, amount, recorded_by)
+    VALUES (p_order_id, 'deposit_release', p_release_method, v_held - COALESCE(p_apply_amount, 0) - v_charge, auth.uid());
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Row Level Security
+DROP POLICY IF EXISTS "orders_create" ON orders;
+DROP POLICY IF EXISTS "orders_checkout" ON orders;
+DROP POLICY IF EXISTS "order_items_create" ON order_items;
+DROP POLICY IF EXISTS "order_items_checkout" ON order_items;
\ No newline at end of file
@@ -0,0 +1,12 @@
+/*
+  # Invoices Written Only by the Database
+
+  1. Security
+    - Drop `invoices_issue` and `invoices_update`, which let anyone with `orders.view`, including
+      read-only roles, issue invoice numbers or change an invoice's payment status
+    - Invoices are issued by `issue_invoice` and kept in step with payments by the payment status
+      triggers, all of which run with the owner's rights, so no user needs to write to invoices
+*/
+
+DROP POLICY IF EXISTS "invoices_issue" ON invoices;
+DROP POLICY IF EXISTS "invoices_update" ON invoices;
\ No newline at end of file
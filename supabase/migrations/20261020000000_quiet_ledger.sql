@@ -0,0 +1,14 @@
+/*
+  # Claims Resolved Only Through the Function
+
+  1. Security
+    - `damage_claims_resolve` is now read-only: claims are closed through `resolve_damage_claim`,
+      which posts the charge, payment and maintenance cost with the claim, so a claim can no longer
+      be edited or deleted directly
+*/
+
+DROP POLICY IF EXISTS "damage_claims_resolve" ON damage_claims;
+
+CREATE POLICY "damage_claims_resolve" ON damage_claims
+  FOR SELECT TO authenticated
+  USING (has_permission('claims.resolve'));
\ No newline at end of file
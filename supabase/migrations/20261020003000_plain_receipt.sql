@@ -0,0 +1,21 @@
+/*
+  # Deposit Settlements Only Through the Function
+
+  1. Security
+    - `payments_record` only accepts payments, refunds and deposits; releases and deductions
+      of a deposit are written by `settle_order_deposit` and cancellation, which check what is held
+      before moving it
+    - Refunds still need `orders.refund`; payments and deposits need `payments.record`
+*/
+
+DROP POLICY IF EXISTS "payments_record" ON payments;
+
+CREATE POLICY "payments_record" ON payments
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    CASE
+      WHEN kind = 'refund' THEN has_permission('orders.refund')
+      WHEN kind IN ('payment', 'deposit') THEN has_permission('payments.record')
+      ELSE false
+    END
+  );
\ No newline at end of file
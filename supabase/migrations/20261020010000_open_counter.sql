@@ -0,0 +1,55 @@
+/*
+  # Customers Read Everything on Their Own Orders
+
+  1. Security
+    - Customers can read the equipment, units and bundles on their own orders, even when a model
+      is no longer listed, so their rentals show what was hired and late fees can be worked out
+    - Customers can read the invoices and inspection reports of their own orders
+*/
+
+-- equipments
+CREATE POLICY "equipment_view_own_orders" ON equipments
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM order_items
+      WHERE order_items.equipment_id = equipments.id
+      AND is_own_order(order_items.order_id)
+    )
+  );
+
+-- equipment_units
+CREATE POLICY "equipment_units_view_own_orders" ON equipment_units
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM order_items
+      WHERE order_items.unit_id = equipment_units.id
+      AND is_own_order(order_items.order_id)
+    )
+  );
+
+-- bundles
+CREATE POLICY "bundles_view_own_orders" ON bundles
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM order_items
+      WHERE order_items.bundle_id = bundles.id
+      AND is_own_order(order_items.order_id)
+    )
+  );
+
+-- invoices
+DROP POLICY IF EXISTS "invoices_view" ON invoices;
+
+CREATE POLICY "invoices_view" ON invoices
+  FOR SELECT TO authenticated
+  USING (has_permission('orders.view') OR is_own_order(order_id));
+
+-- order_inspections
+DROP POLICY IF EXISTS "order_inspections_view" ON order_inspections;
+
+CREATE POLICY "order_inspections_view" ON order_inspections
+  FOR SELECT TO authenticated
+  USING (has_permission('orders.view') OR is_own_order(order_id));
\ No newline at end of file
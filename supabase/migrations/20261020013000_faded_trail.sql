@@ -0,0 +1,41 @@
+/*
+  # Status History Backfill Corrections
+
+  1. Database Changes
+    - Backfilled cancellations now come from the status the order was in: checked out when it had
+      been handed over, otherwise reserved, instead of showing as placed already cancelled
+    - Backfilled returns of orders that came back after their due time now come from overdue,
+      with the order becoming overdue at its due time
+*/
+
+UPDATE order_status_changes sc
+SET from_status = CASE WHEN o.checked_out_at IS NOT NULL THEN 'checked_out' ELSE 'reserved' END
+FROM orders o
+WHERE o.id = sc.order_id
+AND sc.from_status IS NULL
+AND sc.to_status = 'cancelled';
+
+-- Returns recorded since the history started carry who checked them in and the status they
+-- really came from, so only the unattributed backfilled rows are corrected
+INSERT INTO order_status_changes (order_id, from_status, to_status, changed_at)
+SELECT o.id, 'checked_out', 'overdue', o.due_at
+FROM order_status_changes sc
+JOIN orders o ON o.id = sc.order_id
+WHERE sc.from_status = 'checked_out'
+AND sc.to_status = 'returned'
+AND sc.changed_by IS NULL
+AND o.returned_at > o.due_at
+AND NOT EXISTS (
+  SELECT 1 FROM order_status_changes overdue
+  WHERE overdue.order_id = o.id
+  AND overdue.to_status = 'overdue'
+);
+
+UPDATE order_status_changes sc
+SET from_status = 'overdue'
+FROM orders o
+WHERE o.id = sc.order_id
+AND sc.from_status = 'checked_out'
+AND sc.to_status = 'returned'
+AND sc.changed_by IS NULL
+AND o.returned_at > o.due_at;
\ No newline at end of file
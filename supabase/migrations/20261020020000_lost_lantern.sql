@@ -0,0 +1,116 @@
+/*
+  # Loss Claims Before Check-in
+
+  1. Database Changes
+    - A loss claim can be raised while the order is still checked out or overdue, so a unit the
+      customer reports lost goes into maintenance straight away and stays out of service when the
+      rest of the order is checked in
+    - Damage claims still need the order checked in first
+    - The claim's maintenance ticket is opened once the claim is saved, so a ticket can be opened
+      on a unit that is on rent when it has an open loss claim
+*/
+
+CREATE OR REPLACE FUNCTION unit_has_open_loss_claim(p_unit_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM damage_claims
+    WHERE unit_id = p_unit_id
+    AND kind = 'loss'
+    AND status = 'open'
+  );
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION prepare_maintenance_ticket()
+RETURNS trigger AS $$
+DECLARE
+  v_unit equipment_units%ROWTYPE;
+BEGIN
+  SELECT * INTO v_unit FROM equipment_units WHERE id = NEW.unit_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unit not found';
+  END IF;
+
+  NEW.equipment_id := v_unit.equipment_id;
+
+  IF NEW.closed_at IS NULL
+    AND (TG_OP = 'INSERT' OR OLD.closed_at IS NOT NULL OR NEW.unit_id <> OLD.unit_id)
+    AND unit_has_open_order(NEW.unit_id)
+    AND NOT unit_has_open_loss_claim(NEW.unit_id)
+  THEN
+    RAISE EXCEPTION 'Unit % is on rent; check it in before opening a ticket', v_unit.serial_number;
+  END IF;
+
+  IF NEW.closed_at IS NOT NULL AND (TG_OP = 'INSERT' OR OLD.closed_at IS NULL) THEN
+    NEW.closed_by := auth.uid();
+  ELSIF NEW.closed_at IS NULL THEN
+    NEW.closed_by := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION open_damage_claim()
+RETURNS trigger AS $$
+DECLARE
+  v_item order_items%ROWTYPE;
+  v_status text;
+BEGIN
+  SELECT * INTO v_item FROM order_items WHERE id = NEW.order_item_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order item not found';
+  END IF;
+
+  SELECT status INTO v_status FROM orders WHERE id = v_item.order_id;
+
+  IF NEW.kind = 'loss' AND v_status NOT IN ('checked_out', 'overdue', 'returned') THEN
+    RAISE EXCEPTION 'Only a rental that went out can have a loss claim';
+  END IF;
+
+  IF NEW.kind = 'damage' AND v_status <> 'returned' THEN
+    RAISE EXCEPTION 'Check the order in before raising a damage claim';
+  END IF;
+
+  NEW.order_id := v_item.order_id;
+  NEW.equipment_id := v_item.equipment_id;
+  NEW.unit_id := v_item.unit_id;
+  NEW.status := 'open';
+  NEW.actual_cost := NULL;
+  NEW.maintenance_ticket_id := NULL;
+  NEW.charge_id := NULL;
+  NEW.payment_id := NULL;
+  NEW.resolved_by := NULL;
+  NEW.resolved_at := NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The open ticket keeps the unit in maintenance, including through the check-in of an order it
+-- was lost on
+CREATE OR REPLACE FUNCTION open_damage_claim_ticket()
+RETURNS trigger AS $$
+DECLARE
+  v_ticket_id uuid;
+BEGIN
+  INSERT INTO maintenance_tickets (unit_id, reason, cost, notes)
+  VALUES (
+    NEW.unit_id,
+    CASE WHEN NEW.kind = 'loss' THEN 'Lost: ' ELSE 'Damaged: ' END || NEW.description,
+    NEW.estimated_cost,
+    'Raised from a ' || NEW.kind || ' claim'
+  )
+  RETURNING id INTO v_ticket_id;
+
+  UPDATE damage_claims SET maintenance_ticket_id = v_ticket_id WHERE id = NEW.id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS damage_claims_open_ticket ON damage_claims;
+CREATE TRIGGER damage_claims_open_ticket
+  AFTER INSERT ON damage_claims
+  FOR EACH ROW EXECUTE FUNCTION open_damage_claim_ticket();
\ No newline at end of file
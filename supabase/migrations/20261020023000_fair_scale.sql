@@ -0,0 +1,381 @@
+/*
+  # Orders Priced by the Database
+
+  1. New Tables
+    - `business_settings` - a single row with the GST state of the business, whether rates include
+      GST, and the multi-day pricing policy; the app reads it to preview prices the same way
+
+  2. Database Changes
+    - `rental_price` prices a rental from a model's or kit's 12/24-hour rates, `bundle_lines` splits
+      a kit's price across its components, and `calculate_tax` works out GST by place of supply;
+      they follow `calculateRentalPrice`, `calculateBundlePrice` and `calculateTax` in the app
+    - `create_rental_order` now takes only the customer, rent date, place of supply and any ID check
+      override reason, the equipment (and optionally the unit) and kits with their durations; it
+      prices every item, works out the tax, total and deposit from the current rates, and records
+      the signed-in user as the one overriding the ID check
+
+  3. Security
+    - Enable RLS on business_settings; anyone can read it
+    - The price, tax and deposit sent by the app are no longer trusted
+*/
+
+CREATE TABLE IF NOT EXISTS business_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  -- Two-digit GST state code of the business, e.g. 29 for Karnataka
+  business_state_code text NOT NULL DEFAULT '29' CHECK (business_state_code ~ '^[0-9]{2}$'),
+  -- When true, rental rates already include GST and tax is carved out of them
+  prices_include_tax boolean NOT NULL DEFAULT false,
+  -- Share of the 24-hour rate charged for each day after the first
+  extra_day_rate numeric NOT NULL DEFAULT 0.75 CHECK (extra_day_rate >= 0),
+  -- Most day-rates charged for any block of seven consecutive days
+  weekly_cap_days numeric NOT NULL DEFAULT 4 CHECK (weekly_cap_days > 0)
+);
+
+INSERT INTO business_settings DEFAULT VALUES
+ON CONFLICT (id) DO NOTHING;
+
+-- Mirrors TAX_CATEGORIES and ORDER_CHARGE_TAX in src/lib/tax.ts; change them together
+CREATE OR REPLACE FUNCTION tax_class(p_category text, OUT sac text, OUT rate numeric)
+AS $$
+  SELECT classes.sac, classes.rate
+  FROM (VALUES
+    ('body', '997329', 18),
+    ('lens', '997329', 18),
+    ('lighting', '997329', 18),
+    ('audio', '997329', 18),
+    ('grip', '997329', 18),
+    ('accessory', '997329', 18),
+    ('charge', '997329', 18)
+  ) AS classes(category, sac, rate)
+  -- Unknown categories are taxed as accessories
+  WHERE classes.category IN (p_category, 'accessory')
+  ORDER BY classes.category = p_category DESC
+  LIMIT 1;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- p_amounts is an array of { category, amount }; returns a TaxBreakdown
+CREATE OR REPLACE FUNCTION calculate_tax(p_amounts jsonb, p_place_of_supply text)
+RETURNS jsonb AS $$
+DECLARE
+  v_settings business_settings%ROWTYPE;
+  v_inter_state boolean;
+  v_group record;
+  v_taxable numeric;
+  v_tax numeric;
+  v_half numeric;
+  v_lines jsonb := '[]'::jsonb;
+  v_taxable_total numeric := 0;
+  v_cgst numeric := 0;
+  v_sgst numeric := 0;
+  v_igst numeric := 0;
+BEGIN
+  SELECT * INTO v_settings FROM business_settings;
+  v_inter_state := p_place_of_supply <> v_settings.business_state_code;
+
+  -- One line per SAC code and rate, in the order they first appear
+  FOR v_group IN
+    SELECT class.sac, class.rate, sum((amount.value ->> 'amount')::numeric) AS amount
+    FROM jsonb_array_elements(p_amounts) WITH ORDINALITY AS amount(value, position)
+    CROSS JOIN LATERAL tax_class(amount.value ->> 'category') AS class
+    GROUP BY class.sac, class.rate
+    ORDER BY min(amount.position)
+  LOOP
+    IF v_settings.prices_include_tax THEN
+      v_taxable := round(v_group.amount / (1 + v_group.rate / 100), 2);
+      v_tax := round(v_group.amount - v_taxable, 2);
+    ELSE
+      v_taxable := round(v_group.amount, 2);
+      v_tax := round(v_taxable * v_group.rate / 100, 2);
+    END IF;
+    v_half := round(v_tax / 2, 2);
+
+    v_lines := v_lines || jsonb_build_object(
+      'sac', v_group.sac,
+      'rate', v_group.rate,
+      'taxable_value', v_taxable,
+      'cgst', CASE WHEN v_inter_state THEN 0 ELSE v_half END,
+      'sgst', CASE WHEN v_inter_state THEN 0 ELSE round(v_tax - v_half, 2) END,
+      'igst', CASE WHEN v_inter_state THEN v_tax ELSE 0 END
+    );
+
+    v_taxable_total := v_taxable_total + v_taxable;
+    IF v_inter_state THEN
+      v_igst := v_igst + v_tax;
+    ELSE
+      v_cgst := v_cgst + v_half;
+      v_sgst := v_sgst + round(v_tax - v_half, 2);
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'place_of_supply', p_place_of_supply,
+    'inter_state', v_inter_state,
+    'prices_include_tax', v_settings.prices_include_tax,
+    'lines', v_lines,
+    'taxable_value', round(v_taxable_total, 2),
+    'cgst', round(v_cgst, 2),
+    'sgst', round(v_sgst, 2),
+    'igst', round(v_igst, 2),
+    'total_tax', round(v_cgst + v_sgst + v_igst, 2),
+    'total', round(v_taxable_total + v_cgst + v_sgst + v_igst, 2)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Returns a PriceBreakdown; mirrors calculateRentalPrice in src/lib/pricing.ts
+CREATE OR REPLACE FUNCTION rental_price(p_rate_12hr numeric, p_rate_24hr numeric, p_duration_hours integer)
+RETURNS jsonb AS $$
+DECLARE
+  v_settings business_settings%ROWTYPE;
+  v_days integer;
+  v_extra_day_price numeric;
+  v_lines jsonb;
+  v_subtotal numeric;
+  v_week_price numeric;
+  v_full_weeks integer;
+  v_remaining_price numeric;
+  v_cap numeric;
+  v_discount numeric := 0;
+BEGIN
+  IF p_duration_hours IS NULL OR p_duration_hours <= 0 THEN
+    RAISE EXCEPTION 'Rental duration must be greater than zero';
+  END IF;
+
+  IF p_duration_hours <= 12 THEN
+    RETURN jsonb_build_object(
+      'duration_hours', p_duration_hours,
+      'lines', jsonb_build_array(jsonb_build_object('label', '12 hours', 'quantity', 1, 'unit_price', p_rate_12hr, 'amount', p_rate_12hr)),
+      'subtotal', p_rate_12hr,
+      'discount', 0,
+      'total', p_rate_12hr
+    );
+  END IF;
+
+  SELECT * INTO v_settings FROM business_settings;
+
+  -- Part days are billed as a full day
+  v_days := ceil(p_duration_hours / 24.0);
+  v_extra_day_price := round(p_rate_24hr * v_settings.extra_day_rate, 2);
+  v_subtotal := p_rate_24hr;
+  v_lines := jsonb_build_array(jsonb_build_object('label', 'First day', 'quantity', 1, 'unit_price', p_rate_24hr, 'amount', p_rate_24hr));
+
+  IF v_days > 1 THEN
+    v_lines := v_lines || jsonb_build_object(
+      'label', 'Additional days',
+      'quantity', v_days - 1,
+      'unit_price', v_extra_day_price,
+      'amount', round(v_extra_day_price * (v_days - 1), 2)
+    );
+    v_subtotal := round(v_subtotal + round(v_extra_day_price * (v_days - 1), 2), 2);
+  END IF;
+
+  -- Each full week costs at most weekly_cap_days day-rates, and so do the remaining days
+  v_week_price := p_rate_24hr * v_settings.weekly_cap_days;
+  v_full_weeks := v_days / 7;
+  v_remaining_price := CASE WHEN v_full_weeks > 0 THEN (v_days % 7) * v_extra_day_price ELSE v_subtotal END;
+  v_cap := round(v_full_weeks * v_week_price + LEAST(v_remaining_price, v_week_price), 2);
+
+  IF v_subtotal > v_cap THEN
+    v_discount := round(v_subtotal - v_cap, 2);
+    v_lines := v_lines || jsonb_build_object('label', 'Weekly cap', 'quantity', 1, 'unit_price', -v_discount, 'amount', -v_discount);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'duration_hours', p_duration_hours,
+    'lines', v_lines,
+    'subtotal', v_subtotal,
+    'discount', v_discount,
+    'total', round(v_subtotal - v_discount, 2)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- One row per physical component of a kit with its share of the kit price; mirrors
+-- calculateBundlePrice in src/lib/bundles.ts
+CREATE OR REPLACE FUNCTION bundle_lines(p_bundle_id uuid, p_duration_hours integer)
+RETURNS TABLE (equipment_id uuid, pricing jsonb, line_total numeric) AS $$
+DECLARE
+  v_bundle bundles%ROWTYPE;
+  v_kit_total numeric;
+  v_equipment_ids uuid[];
+  v_prices jsonb[];
+  v_separate numeric;
+  v_separate_total numeric;
+  v_count integer;
+  v_allocated numeric := 0;
+  v_adjustment numeric;
+BEGIN
+  SELECT * INTO v_bundle FROM bundles WHERE id = p_bundle_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Kit not found';
+  END IF;
+
+  IF NOT v_bundle.active THEN
+    RAISE EXCEPTION '% is no longer offered', v_bundle.name;
+  END IF;
+
+  v_kit_total := (rental_price(v_bundle.rate_12hr, v_bundle.rate_24hr, p_duration_hours) ->> 'total')::numeric;
+
+  SELECT
+    array_agg(e.id ORDER BY bi.id, copy.n),
+    array_agg(rental_price(e.rate_12hr, e.rate_24hr, p_duration_hours) ORDER BY bi.id, copy.n)
+  INTO v_equipment_ids, v_prices
+  FROM bundle_items bi
+  JOIN equipments e ON e.id = bi.equipment_id
+  CROSS JOIN LATERAL generate_series(1, bi.quantity) AS copy(n)
+  WHERE bi.bundle_id = p_bundle_id;
+
+  IF v_equipment_ids IS NULL THEN
+    RAISE EXCEPTION '% has no equipment', v_bundle.name;
+  END IF;
+
+  v_count := array_length(v_equipment_ids, 1);
+  SELECT round(sum((price ->> 'total')::numeric), 2) INTO v_separate_total FROM unnest(v_prices) AS price;
+
+  FOR i IN 1..v_count LOOP
+    v_separate := (v_prices[i] ->> 'total')::numeric;
+
+    -- The last component takes the rounding remainder so the lines add up to the kit price
+    IF i = v_count THEN
+      line_total := round(v_kit_total - v_allocated, 2);
+    ELSIF v_separate_total > 0 THEN
+      line_total := round(v_kit_total * v_separate / v_separate_total, 2);
+    ELSE
+      line_total := round(v_kit_total / v_count, 2);
+    END IF;
+    v_allocated := round(v_allocated + line_total, 2);
+
+    v_adjustment := round(line_total - v_separate, 2);
+    equipment_id := v_equipment_ids[i];
+    pricing := CASE WHEN v_adjustment = 0 THEN v_prices[i] ELSE v_prices[i] || jsonb_build_object(
+      'lines', (v_prices[i] -> 'lines') || jsonb_build_array(jsonb_build_object(
+        'label', v_bundle.name || ' kit price',
+        'quantity', 1,
+        'unit_price', v_adjustment,
+        'amount', v_adjustment
+      )),
+      'discount', round((v_prices[i] ->> 'discount')::numeric - v_adjustment, 2),
+      'total', line_total
+    ) END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+DROP FUNCTION IF EXISTS create_rental_order(jsonb, jsonb);
+
+-- p_order carries customer_id, rent_date, place_of_supply and kyc_override_reason; p_items is an
+-- array of { equipment_id, unit_id, duration_hours } and p_bundles of { bundle_id, duration_hours }
+CREATE OR REPLACE FUNCTION create_rental_order(p_order jsonb, p_items jsonb, p_bundles jsonb DEFAULT '[]'::jsonb)
+RETURNS uuid AS $$
+DECLARE
+  v_order_id uuid;
+  v_item jsonb;
+  v_bundle jsonb;
+  v_component record;
+  v_equipment equipments%ROWTYPE;
+  v_pricing jsonb;
+  v_lines jsonb := '[]'::jsonb;
+  v_amounts jsonb := '[]'::jsonb;
+  v_deposit numeric := 0;
+  v_place_of_supply text;
+  v_override_reason text;
+  v_tax jsonb;
+BEGIN
+  IF NOT has_permission('orders.create') THEN
+    RAISE EXCEPTION 'You are not allowed to create orders';
+  END IF;
+
+  FOR v_item IN SELECT value FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) LOOP
+    SELECT * INTO v_equipment FROM equipments WHERE id = (v_item ->> 'equipment_id')::uuid;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Equipment not found';
+    END IF;
+
+    v_pricing := rental_price(v_equipment.rate_12hr, v_equipment.rate_24hr, (v_item ->> 'duration_hours')::integer);
+    v_lines := v_lines || jsonb_build_object(
+      'equipment_id', v_equipment.id,
+      'unit_id', v_item -> 'unit_id',
+      'duration_hours', v_item -> 'duration_hours',
+      'pricing', v_pricing,
+      'bundle_id', NULL
+    );
+    v_amounts := v_amounts || jsonb_build_object('category', v_equipment.category, 'amount', v_pricing -> 'total');
+    v_deposit := v_deposit + COALESCE(v_equipment.deposit_amount, 0);
+  END LOOP;
+
+  -- Kits are placed as one order item per component
+  FOR v_bundle IN SELECT value FROM jsonb_array_elements(COALESCE(p_bundles, '[]'::jsonb)) LOOP
+    FOR v_component IN
+      SELECT * FROM bundle_lines((v_bundle ->> 'bundle_id')::uuid, (v_bundle ->> 'duration_hours')::integer)
+    LOOP
+      SELECT * INTO v_equipment FROM equipments WHERE id = v_component.equipment_id;
+
+      v_lines := v_lines || jsonb_build_object(
+        'equipment_id', v_equipment.id,
+        'unit_id', NULL,
+        'duration_hours', v_bundle -> 'duration_hours',
+        'pricing', v_component.pricing,
+        'bundle_id', v_bundle -> 'bundle_id'
+      );
+      v_amounts := v_amounts || jsonb_build_object('category', v_equipment.category, 'amount', v_component.line_total);
+      v_deposit := v_deposit + COALESCE(v_equipment.deposit_amount, 0);
+    END LOOP;
+  END LOOP;
+
+  IF jsonb_array_length(v_lines) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  v_place_of_supply := COALESCE(NULLIF(p_order ->> 'place_of_supply', ''), (SELECT business_state_code FROM business_settings));
+  IF v_place_of_supply !~ '^[0-9]{2}$' THEN
+    RAISE EXCEPTION 'Place of supply must be a two-digit GST state code';
+  END IF;
+
+  v_tax := calculate_tax(v_amounts, v_place_of_supply);
+  v_override_reason := NULLIF(trim(p_order ->> 'kyc_override_reason'), '');
+
+  -- Status, rent date and due time are settled by the orders_set_schedule trigger, and the
+  -- override by validate_order_kyc
+  INSERT INTO orders (
+    user_id, customer_id, kyc_override_by, kyc_override_reason,
+    total_cost, place_of_supply, tax, deposit_amount, rent_date
+  )
+  VALUES (
+    auth.uid(),
+    (p_order ->> 'customer_id')::uuid,
+    CASE WHEN v_override_reason IS NOT NULL THEN auth.uid() END,
+    v_override_reason,
+    (v_tax ->> 'total')::numeric,
+    v_place_of_supply,
+    v_tax,
+    v_deposit,
+    (p_order ->> 'rent_date')::timestamptz
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Rent date, due time and, unless one was chosen, the unit are filled in by the order_items triggers
+  INSERT INTO order_items (order_id, equipment_id, unit_id, duration_hours, pricing, line_total, bundle_id)
+  SELECT
+    v_order_id,
+    (line ->> 'equipment_id')::uuid,
+    (line ->> 'unit_id')::uuid,
+    (line ->> 'duration_hours')::integer,
+    line -> 'pricing',
+    (line -> 'pricing' ->> 'total')::numeric,
+    (line ->> 'bundle_id')::uuid
+  FROM jsonb_array_elements(v_lines) AS line;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Row Level Security
+ALTER TABLE business_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "business_settings_view" ON business_settings
+  FOR SELECT TO public
+  USING (true);
\ No newline at end of file
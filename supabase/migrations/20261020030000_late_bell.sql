@@ -0,0 +1,172 @@
+/*
+  # Late Fees Worked Out by the Database
+
+  1. Database Changes
+    - `business_settings` gains the late fee policy: the grace period, whether lateness is charged
+      per started hour or per started 12 hours, the hourly share of the 24-hour rate and the cap
+    - `calculate_tax` can be told whether the amounts include tax, since charges have it added on top
+    - `check_in_order` no longer takes a late fee from the app; it charges each item by its own due
+      time, the return time and the item's current rates, following `calculateLateFee` in the app
+
+  2. Security
+    - The late fee can no longer be lowered or left out by whoever checks the rental in
+*/
+
+ALTER TABLE business_settings
+  -- Minutes after the due time before a fee applies; once exceeded, lateness counts from the due time
+  ADD COLUMN IF NOT EXISTS late_grace_minutes integer NOT NULL DEFAULT 60 CHECK (late_grace_minutes >= 0),
+  -- 'hour' charges every started hour late, 'period' every started 12 hours at the 12-hour rate
+  ADD COLUMN IF NOT EXISTS late_fee_unit text NOT NULL DEFAULT 'hour' CHECK (late_fee_unit IN ('hour', 'period')),
+  -- Share of the 24-hour rate charged per started hour when late_fee_unit is 'hour'
+  ADD COLUMN IF NOT EXISTS late_hourly_rate numeric NOT NULL DEFAULT 0.1 CHECK (late_hourly_rate >= 0),
+  -- Most charged per item, in 24-hour rates
+  ADD COLUMN IF NOT EXISTS late_cap_days numeric NOT NULL DEFAULT 3 CHECK (late_cap_days >= 0);
+
+DROP FUNCTION IF EXISTS calculate_tax(jsonb, text);
+
+-- p_amounts is an array of { category, amount }; returns a TaxBreakdown. Without
+-- p_prices_include_tax the business setting applies.
+CREATE OR REPLACE FUNCTION calculate_tax(p_amounts jsonb, p_place_of_supply text, p_prices_include_tax boolean DEFAULT NULL)
+RETURNS jsonb AS $$
+DECLARE
+  v_settings business_settings%ROWTYPE;
+  v_prices_include_tax boolean;
+  v_inter_state boolean;
+  v_group record;
+  v_taxable numeric;
+  v_tax numeric;
+  v_half numeric;
+  v_lines jsonb := '[]'::jsonb;
+  v_taxable_total numeric := 0;
+  v_cgst numeric := 0;
+  v_sgst numeric := 0;
+  v_igst numeric := 0;
+BEGIN
+  SELECT * INTO v_settings FROM business_settings;
+  v_prices_include_tax := COALESCE(p_prices_include_tax, v_settings.prices_include_tax);
+  v_inter_state := p_place_of_supply <> v_settings.business_state_code;
+
+  -- One line per SAC code and rate, in the order they first appear
+  FOR v_group IN
+    SELECT class.sac, class.rate, sum((amount.value ->> 'amount')::numeric) AS amount
+    FROM jsonb_array_elements(p_amounts) WITH ORDINALITY AS amount(value, position)
+    CROSS JOIN LATERAL tax_class(amount.value ->> 'category') AS class
+    GROUP BY class.sac, class.rate
+    ORDER BY min(amount.position)
+  LOOP
+    IF v_prices_include_tax THEN
+      v_taxable := round(v_group.amount / (1 + v_group.rate / 100), 2);
+      v_tax := round(v_group.amount - v_taxable, 2);
+    ELSE
+      v_taxable := round(v_group.amount, 2);
+      v_tax := round(v_taxable * v_group.rate / 100, 2);
+    END IF;
+    v_half := round(v_tax / 2, 2);
+
+    v_lines := v_lines || jsonb_build_object(
+      'sac', v_group.sac,
+      'rate', v_group.rate,
+      'taxable_value', v_taxable,
+      'cgst', CASE WHEN v_inter_state THEN 0 ELSE v_half END,
+      'sgst', CASE WHEN v_inter_state THEN 0 ELSE round(v_tax - v_half, 2) END,
+      'igst', CASE WHEN v_inter_state THEN v_tax ELSE 0 END
+    );
+
+    v_taxable_total := v_taxable_total + v_taxable;
+    IF v_inter_state THEN
+      v_igst := v_igst + v_tax;
+    ELSE
+      v_cgst := v_cgst + v_half;
+      v_sgst := v_sgst + round(v_tax - v_half, 2);
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'place_of_supply', p_place_of_supply,
+    'inter_state', v_inter_state,
+    'prices_include_tax', v_prices_include_tax,
+    'lines', v_lines,
+    'taxable_value', round(v_taxable_total, 2),
+    'cgst', round(v_cgst, 2),
+    'sgst', round(v_sgst, 2),
+    'igst', round(v_igst, 2),
+    'total_tax', round(v_cgst + v_sgst + v_igst, 2),
+    'total', round(v_taxable_total + v_cgst + v_sgst + v_igst, 2)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+DROP FUNCTION IF EXISTS check_in_order(uuid, jsonb);
+
+CREATE OR REPLACE FUNCTION check_in_order(p_order_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_settings business_settings%ROWTYPE;
+  v_item record;
+  v_hours_late integer;
+  v_fee numeric;
+  v_amount numeric;
+  v_total numeric := 0;
+  v_descriptions text[] := '{}';
+  v_tax jsonb;
+BEGIN
+  IF NOT has_permission('orders.checkout') THEN
+    RAISE EXCEPTION 'You are not allowed to check rentals in';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status NOT IN ('checked_out', 'overdue') THEN
+    RAISE EXCEPTION 'Order cannot be moved to returned from its current status';
+  END IF;
+
+  UPDATE orders
+  SET status = 'returned',
+      returned_at = now()
+  WHERE id = p_order_id;
+
+  SELECT * INTO v_settings FROM business_settings;
+
+  -- Each item is measured against its own due time; a started hour counts as a full one
+  FOR v_item IN
+    SELECT oi.due_at, e.name, e.rate_12hr, e.rate_24hr
+    FROM order_items oi
+    JOIN equipments e ON e.id = oi.equipment_id
+    WHERE oi.order_id = p_order_id
+      AND now() - oi.due_at > make_interval(mins => v_settings.late_grace_minutes)
+    ORDER BY oi.created_at, oi.id
+  LOOP
+    v_hours_late := ceil(extract(epoch FROM now() - v_item.due_at) / 3600);
+    v_fee := CASE v_settings.late_fee_unit
+      WHEN 'hour' THEN v_hours_late * v_item.rate_24hr * v_settings.late_hourly_rate
+      ELSE ceil(v_hours_late / 12.0) * v_item.rate_12hr
+    END;
+    v_amount := round(LEAST(v_fee, v_item.rate_24hr * v_settings.late_cap_days));
+
+    IF v_amount > 0 THEN
+      v_total := v_total + v_amount;
+      v_descriptions := v_descriptions || format('%s %sh late', v_item.name, v_hours_late);
+    END IF;
+  END LOOP;
+
+  -- Tax is added on top of the fee, as with any other charge
+  IF v_total > 0 THEN
+    v_tax := calculate_tax(
+      jsonb_build_array(jsonb_build_object('category', 'charge', 'amount', v_total)),
+      COALESCE(v_order.place_of_supply, v_settings.business_state_code),
+      false
+    );
+
+    INSERT INTO order_charges (order_id, kind, description, amount, tax, total)
+    VALUES (
+      p_order_id, 'late_fee', array_to_string(v_descriptions, ', '),
+      (v_tax ->> 'taxable_value')::numeric, v_tax, (v_tax ->> 'total')::numeric
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
\ No newline at end of file
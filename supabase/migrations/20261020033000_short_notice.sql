@@ -0,0 +1,161 @@
+/*
+  # Cancellation Fee Worked Out by the Database
+
+  1. Database Changes
+    - `business_settings` gains the cancellation policy: the hours of notice that make cancelling
+      free and the share of the booking charged after that
+    - `cancel_order` no longer takes a fee from the app; `apply_order_cancellation` works it out
+      from the rent date and the booked value of the items and extensions, following
+      `calculateCancellationFee` in the app, and quotes it in the same terms as the order's rates
+    - Only reservations can be cancelled; a rental that has been handed over goes through check-in
+    - Reservations that lapse are still cancelled free of charge
+
+  2. Security
+    - The fee, and so the refund of what was paid beyond it, can no longer be set by the app
+*/
+
+ALTER TABLE business_settings
+  -- Cancelling at least this many hours before the rent date is free
+  ADD COLUMN IF NOT EXISTS cancellation_free_hours numeric NOT NULL DEFAULT 24 CHECK (cancellation_free_hours >= 0),
+  -- Share of the booked rental value, in percent, charged when cancelling later than that
+  ADD COLUMN IF NOT EXISTS cancellation_fee_percent numeric NOT NULL DEFAULT 20 CHECK (cancellation_fee_percent BETWEEN 0 AND 100);
+
+DROP FUNCTION IF EXISTS cancel_order(uuid, text, jsonb);
+DROP FUNCTION IF EXISTS apply_order_cancellation(uuid, text, jsonb);
+
+-- Cancels without checking who is asking; callers check permissions first. The fee is only
+-- charged when p_charge_fee is set.
+CREATE OR REPLACE FUNCTION apply_order_cancellation(p_order_id uuid, p_reason text, p_charge_fee boolean)
+RETURNS void AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_settings business_settings%ROWTYPE;
+  v_hours_notice numeric;
+  v_booked numeric;
+  v_fee_amount numeric;
+  v_tax jsonb;
+  v_fee numeric := 0;
+  v_refund numeric;
+  v_amount numeric;
+  v_payment payments%ROWTYPE;
+  v_held numeric;
+  v_deposit_method text;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status <> 'reserved' THEN
+    RAISE EXCEPTION 'Only reservations can be cancelled; rentals that are out are checked in';
+  END IF;
+
+  UPDATE orders
+  SET status = 'cancelled',
+      cancellation_reason = btrim(p_reason)
+  WHERE id = p_order_id;
+
+  SELECT * INTO v_settings FROM business_settings;
+  v_hours_notice := extract(epoch FROM v_order.rent_date - now()) / 3600;
+
+  IF p_charge_fee AND v_hours_notice < v_settings.cancellation_free_hours THEN
+    -- Value of the rental as booked, extensions included
+    SELECT COALESCE(sum(line_total), 0) INTO v_booked FROM order_items WHERE order_id = p_order_id;
+    v_booked := v_booked + (SELECT COALESCE(sum(amount), 0) FROM order_extensions WHERE order_id = p_order_id);
+    v_fee_amount := round(v_booked * v_settings.cancellation_fee_percent / 100);
+
+    -- The fee is in the same terms as the order's rates, so GST is carved out when they include it
+    IF v_fee_amount > 0 THEN
+      v_tax := calculate_tax(
+        jsonb_build_array(jsonb_build_object('category', 'charge', 'amount', v_fee_amount)),
+        COALESCE(v_order.place_of_supply, v_settings.business_state_code),
+        COALESCE((v_order.tax ->> 'prices_include_tax')::boolean, false)
+      );
+
+      INSERT INTO order_charges (order_id, kind, description, amount, tax, total)
+      VALUES (
+        p_order_id,
+        'cancellation',
+        format(
+          'Cancelled %s, %s%% of the booking',
+          CASE WHEN v_hours_notice > 0 THEN floor(v_hours_notice) || 'h before the rental' ELSE 'after the rental started' END,
+          v_settings.cancellation_fee_percent
+        ),
+        (v_tax ->> 'taxable_value')::numeric,
+        v_tax,
+        (v_tax ->> 'total')::numeric
+      );
+
+      v_fee := (v_tax ->> 'total')::numeric;
+    END IF;
+  END IF;
+
+  -- Refund what was paid beyond the fee, newest payment first, the same way it was paid
+  v_refund := order_amount_paid(p_order_id) - v_fee;
+
+  FOR v_payment IN
+    SELECT * FROM payments
+    WHERE order_id = p_order_id AND kind = 'payment'
+    ORDER BY created_at DESC
+  LOOP
+    EXIT WHEN v_refund <= 0;
+
+    v_amount := LEAST(v_refund, v_payment.amount);
+    INSERT INTO payments (order_id, kind, method, amount, reference, notes, recorded_by)
+    VALUES (p_order_id, 'refund', v_payment.method, v_amount, v_payment.reference, 'Refund on cancellation', auth.uid());
+    v_refund := v_refund - v_amount;
+  END LOOP;
+
+  v_held := order_deposit_held(p_order_id);
+
+  IF v_held > 0 THEN
+    SELECT method INTO v_deposit_method
+    FROM payments
+    WHERE order_id = p_order_id AND kind = 'deposit'
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    INSERT INTO payments (order_id, kind, method, amount, notes, recorded_by)
+    VALUES (p_order_id, 'deposit_release', v_deposit_method, v_held, 'Released on cancellation', auth.uid());
+  END IF;
+
+  UPDATE invoices
+  SET payment_status = order_payment_status(p_order_id)
+  WHERE order_id = p_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION apply_order_cancellation(uuid, text, boolean) FROM PUBLIC, anon, authenticated;
+
+-- The refund is only of what was paid beyond the fee the database worked out, so whoever may
+-- cancel can make it
+CREATE OR REPLACE FUNCTION cancel_order(p_order_id uuid, p_reason text)
+RETURNS void AS $$
+BEGIN
+  IF NOT has_permission('orders.cancel') THEN
+    RAISE EXCEPTION 'You are not allowed to cancel orders';
+  END IF;
+
+  PERFORM apply_order_cancellation(p_order_id, p_reason, true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A reservation still waiting a day after it was due to start is released for other bookings,
+-- free of charge
+CREATE OR REPLACE FUNCTION lapse_unclaimed_reservations()
+RETURNS void AS $$
+DECLARE
+  v_order_id uuid;
+BEGIN
+  FOR v_order_id IN
+    SELECT id FROM orders
+    WHERE status = 'reserved'
+    AND rent_date < now() - interval '24 hours'
+  LOOP
+    PERFORM apply_order_cancellation(v_order_id, 'Not picked up', false);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION lapse_unclaimed_reservations() FROM PUBLIC, anon, authenticated;
\ No newline at end of file
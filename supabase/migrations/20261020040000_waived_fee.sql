@@ -0,0 +1,29 @@
+/*
+  # Waiving Cancellation Fees
+
+  1. Database Changes
+    - `cancel_order` takes whether to waive the fee the database works out; a waived fee is not
+      charged, so everything paid is refunded
+
+  2. Security
+    - Waiving the fee, and so refunding what it would have kept, requires `orders.refund`
+*/
+
+DROP FUNCTION IF EXISTS cancel_order(uuid, text);
+
+-- The refund is only of what was paid beyond the fee the database worked out, so whoever may
+-- cancel can make it; refunding the fee as well is a refund decision
+CREATE OR REPLACE FUNCTION cancel_order(p_order_id uuid, p_reason text, p_waive_fee boolean DEFAULT false)
+RETURNS void AS $$
+BEGIN
+  IF NOT has_permission('orders.cancel') THEN
+    RAISE EXCEPTION 'You are not allowed to cancel orders';
+  END IF;
+
+  IF p_waive_fee AND NOT has_permission('orders.refund') THEN
+    RAISE EXCEPTION 'You are not allowed to waive cancellation fees';
+  END IF;
+
+  PERFORM apply_order_cancellation(p_order_id, p_reason, NOT COALESCE(p_waive_fee, false));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
\ No newline at end of file